@@ -2,6 +2,8 @@
 pragma solidity 0.8.30;
 
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title ClaimRouter
@@ -11,9 +13,13 @@ import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol
  * @author CLONES
  */
 contract ClaimRouter is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
     // ----------- Custom Errors ----------- //
     error InvalidParameter(string param);
     error Unauthorized(string role);
+    error SecurityViolation(string check);
+    error ClaimReverted(uint256 index, bytes4 code, string reason);
 
     // ----------- State Variables ----------- //
     /// @notice Timelock multisig control address
@@ -28,6 +34,54 @@ contract ClaimRouter is ReentrancyGuard {
         address vault;
         address account; // Account to pay (verified in signature)
         uint256 cumulativeAmount; // Cumulative pattern
+        uint256 deadline; // Signature expiry (0 = no expiry)
+        bytes signature; // Publisher's EIP-712
+    }
+
+    struct ProofClaimData {
+        address vault;
+        address account; // Account to pay (verified in Merkle leaf)
+        uint256 cumulativeAmount; // Cumulative pattern
+        bytes32[] proof; // Inclusion proof against vault's merkleRoot
+    }
+
+    struct ClaimAuthorizationData {
+        address factory; // Factory holding the authorization (must be approved)
+        address account; // Account redirecting its payouts (EOA or ERC-1271 signer)
+        address recipient; // Recipient of the account's payouts (0 = the account itself)
+        address delegate; // Address allowed to change the recipient (0 = none)
+        uint256 deadline; // Signature expiry
+        bytes signature; // Account's EIP-712 ClaimAuthorization signature
+    }
+
+    struct ClaimPreview {
+        bool success;
+        bytes4 code; // Failure code (0 on success), see ClaimFailed
+        string reason; // Failure argument (empty on success)
+        uint256 gross;
+        uint256 fee;
+        uint256 net;
+    }
+
+    struct AggregatedPayout {
+        address account; // Account of the grouped claims (0 = unused slot)
+        address token; // Token paid
+        address factory; // Factory resolving the account's recipient
+        uint256 amount; // Net amount owed to the account's recipient
+    }
+
+    struct AggregatedFee {
+        address treasury; // Platform treasury (0 = unused slot)
+        address token; // Token paid
+        uint256 amount; // Fees owed to the treasury
+    }
+
+    struct MultiTokenClaimData {
+        address vault;
+        address token; // Pool token (verified in signature)
+        address account; // Account to pay (verified in signature)
+        uint256 cumulativeAmount; // Cumulative pattern (per token)
+        uint256 deadline; // Signature expiry (0 = no expiry)
         bytes signature; // Publisher's EIP-712
     }
 
@@ -85,6 +139,157 @@ contract ClaimRouter is ReentrancyGuard {
      * @return failed Number of failed claims
      */
     function claimAll(ClaimData[] calldata claims) external nonReentrant returns (uint256 successful, uint256 failed) {
+        (successful, failed) = _claimAll(claims);
+    }
+
+    /**
+     * @notice Submit signed claim authorizations, then batch claim with claimAll semantics
+     * @dev Lets an account redirect its payouts (new wallet, smart wallet) in the same transaction as its first
+     *      redirected claims. Authorizations are all-or-nothing: an invalid one reverts the whole call
+     * @param authorizations Signed claim authorizations, submitted to their (approved) factories in order
+     * @param claims Array of claim data
+     * @return successful Number of successful claims
+     * @return failed Number of failed claims
+     */
+    function authorizeAndClaimAll(
+        ClaimAuthorizationData[] calldata authorizations,
+        ClaimData[] calldata claims
+    ) external nonReentrant returns (uint256 successful, uint256 failed) {
+        uint256 authorizationsLength = authorizations.length;
+        if (authorizationsLength > maxBatchSize) revert InvalidParameter("batch_size");
+        for (uint256 i = 0; i < authorizationsLength; ) {
+            ClaimAuthorizationData calldata authorization = authorizations[i];
+            if (!approvedFactories[authorization.factory]) revert InvalidParameter("factory");
+            IClaimAuthorizer(authorization.factory).authorizeClaimsWithSig(
+                authorization.account,
+                authorization.recipient,
+                authorization.delegate,
+                authorization.deadline,
+                authorization.signature
+            );
+            unchecked {
+                ++i;
+            }
+        }
+
+        (successful, failed) = _claimAll(claims);
+    }
+
+    /**
+     * @notice Batch claim with all-or-nothing semantics: every claim lands or the whole batch reverts
+     * @dev Same factory validation and failure codes as claimAll, but the first invalid vault, expired voucher or
+     *      vault revert aborts the batch with ClaimReverted(index, code, reason). Vaults are validated before
+     *      any claim runs
+     * @param claims Array of claim data
+     * @param minNetTotal Minimum total net amount paid by the batch (guards against fee changes, 0 = none)
+     * @return totalGross Total gross amount claimed
+     * @return totalFees Total fees collected
+     * @return totalNet Total net amount distributed
+     */
+    function claimAllAtomic(
+        ClaimData[] calldata claims,
+        uint256 minNetTotal
+    ) external nonReentrant returns (uint256 totalGross, uint256 totalFees, uint256 totalNet) {
+        uint256 claimsLength = claims.length;
+        if (claimsLength == 0 || claimsLength > maxBatchSize) revert InvalidParameter("batch_size");
+
+        address[] memory vaultFactories = new address[](claimsLength);
+        for (uint256 i = 0; i < claimsLength; ) {
+            string memory reason;
+            (vaultFactories[i], reason) = _resolveVault(claims[i].vault);
+            if (vaultFactories[i] == address(0)) revert ClaimReverted(i, InvalidParameter.selector, reason);
+            unchecked {
+                ++i;
+            }
+        }
+
+        for (uint256 i = 0; i < claimsLength; ) {
+            ClaimData calldata claim = claims[i];
+            if (claim.deadline != 0 && block.timestamp > claim.deadline) {
+                revert ClaimReverted(i, SecurityViolation.selector, "deadline");
+            }
+
+            try
+                IVaultClaim(claim.vault).payWithSig(
+                    claim.account,
+                    claim.cumulativeAmount,
+                    claim.deadline,
+                    claim.signature
+                )
+            returns (uint256 gross, uint256 fee, uint256 net) {
+                totalGross += gross;
+                totalFees += fee;
+                totalNet += net;
+                emit ClaimSucceeded(claim.vault, claim.account, vaultFactories[i], gross, fee, net);
+            } catch (bytes memory data) {
+                (bytes4 code, string memory reason) = _decodeFailure(data);
+                revert ClaimReverted(i, code, reason);
+            }
+            unchecked {
+                ++i;
+            }
+        }
+
+        if (totalNet < minNetTotal) revert InvalidParameter("net_total");
+        emit BatchClaimed(msg.sender, claimsLength, 0, totalGross, totalFees, totalNet, block.timestamp);
+    }
+
+    /**
+     * @notice Batch claim with claimAll semantics, paying one net transfer per account and token
+     * @dev Vaults pay each claim (net and fee) to the router, which then sends one transfer per (account, token,
+     *      factory) to the account's recipient and one per (treasury, token). The factory must approve the router
+     *      as a claim aggregator; vesting vaults and unapproved routers fail like any other claim.
+     *      FEE-ON-TRANSFER: each vault payout must reach the router in full, otherwise the whole batch reverts
+     * @param claims Array of claim data
+     * @return successful Number of successful claims
+     * @return failed Number of failed claims
+     */
+    function claimAllAggregated(
+        ClaimData[] calldata claims
+    ) external nonReentrant returns (uint256 successful, uint256 failed) {
+        uint256 claimsLength = claims.length;
+        if (claimsLength == 0 || claimsLength > maxBatchSize) revert InvalidParameter("batch_size");
+
+        // BATCH OPTIMIZATION: Pre-validate all factories (shared with claimAll)
+        address[] memory vaultFactories = new address[](claimsLength);
+        for (uint256 i = 0; i < claimsLength; ) {
+            vaultFactories[i] = _validateVault(claims[i].vault, claims[i].account);
+            if (vaultFactories[i] == address(0)) ++failed;
+            unchecked {
+                ++i;
+            }
+        }
+
+        AggregatedPayout[] memory payouts = new AggregatedPayout[](claimsLength);
+        AggregatedFee[] memory fees = new AggregatedFee[](claimsLength);
+        uint256[3] memory totals; // gross, fees, net
+        for (uint256 i = 0; i < claimsLength; ) {
+            if (vaultFactories[i] != address(0)) {
+                if (claims[i].deadline != 0 && block.timestamp > claims[i].deadline) {
+                    ++failed;
+                    emit ClaimFailed(claims[i].vault, claims[i].account, SecurityViolation.selector, "deadline");
+                } else if (_collectClaim(claims[i], vaultFactories[i], payouts, fees, totals)) {
+                    ++successful;
+                } else {
+                    ++failed;
+                }
+            }
+            unchecked {
+                ++i;
+            }
+        }
+
+        _sendAggregated(payouts, fees);
+        emit BatchClaimed(msg.sender, successful, failed, totals[0], totals[1], totals[2], block.timestamp);
+    }
+
+    /**
+     * @notice Internal best-effort batch shared by claimAll and authorizeAndClaimAll
+     * @param claims Array of claim data
+     * @return successful Number of successful claims
+     * @return failed Number of failed claims
+     */
+    function _claimAll(ClaimData[] calldata claims) internal returns (uint256 successful, uint256 failed) {
         uint256 claimsLength = claims.length;
         if (claimsLength == 0 || claimsLength > maxBatchSize) revert InvalidParameter("batch_size");
 
@@ -95,24 +300,85 @@ contract ClaimRouter is ReentrancyGuard {
         // BATCH OPTIMIZATION: Pre-validate all factories (saves 20k gas/batch)
         address[] memory vaultFactories = new address[](claimsLength);
         for (uint256 i = 0; i < claimsLength; ) {
-            try IVaultClaim(claims[i].vault).getFactory() returns (address factory) {
-                if (!approvedFactories[factory]) {
-                    ++failed;
-                    emit ClaimFailed(claims[i].vault, claims[i].account, "Factory not approved");
-                    vaultFactories[i] = address(0); // Mark as invalid
-                } else {
-                    vaultFactories[i] = factory;
+            vaultFactories[i] = _validateVault(claims[i].vault, claims[i].account);
+            if (vaultFactories[i] == address(0)) ++failed;
+            unchecked {
+                ++i;
+            }
+        }
+
+        // Process claims for valid vaults only
+        for (uint256 i = 0; i < claimsLength; ) {
+            if (vaultFactories[i] == address(0)) {
+                unchecked {
+                    ++i;
                 }
-            } catch {
+                continue;
+            }
+
+            // Expired vouchers are skipped without calling the vault (same code as the vault's revert)
+            if (claims[i].deadline != 0 && block.timestamp > claims[i].deadline) {
                 ++failed;
-                emit ClaimFailed(claims[i].vault, claims[i].account, "Invalid vault");
-                vaultFactories[i] = address(0); // Mark as invalid
+                emit ClaimFailed(claims[i].vault, claims[i].account, SecurityViolation.selector, "deadline");
+                unchecked {
+                    ++i;
+                }
+                continue;
+            }
+
+            try
+                IVaultClaim(claims[i].vault).payWithSig(
+                    claims[i].account,
+                    claims[i].cumulativeAmount,
+                    claims[i].deadline,
+                    claims[i].signature
+                )
+            returns (uint256 gross, uint256 fee, uint256 net) {
+                ++successful;
+                totalGross += gross;
+                totalFees += fee;
+                totalNet += net;
+                emit ClaimSucceeded(claims[i].vault, claims[i].account, vaultFactories[i], gross, fee, net);
+            } catch (bytes memory data) {
+                ++failed;
+                (bytes4 code, string memory reason) = _decodeFailure(data);
+                emit ClaimFailed(claims[i].vault, claims[i].account, code, reason);
             }
             unchecked {
                 ++i;
             }
         }
 
+        emit BatchClaimed(msg.sender, successful, failed, totalGross, totalFees, totalNet, block.timestamp);
+    }
+
+    /**
+     * @notice Batch Merkle-proof claims with best-effort semantics and factory validation
+     * @dev Same semantics as claimAll for vaults running in Merkle distribution mode
+     * @param claims Array of proof claim data
+     * @return successful Number of successful claims
+     * @return failed Number of failed claims
+     */
+    function claimAllWithProofs(
+        ProofClaimData[] calldata claims
+    ) external nonReentrant returns (uint256 successful, uint256 failed) {
+        uint256 claimsLength = claims.length;
+        if (claimsLength == 0 || claimsLength > maxBatchSize) revert InvalidParameter("batch_size");
+
+        uint256 totalGross = 0;
+        uint256 totalFees = 0;
+        uint256 totalNet = 0;
+
+        // BATCH OPTIMIZATION: Pre-validate all factories (shared with claimAll)
+        address[] memory vaultFactories = new address[](claimsLength);
+        for (uint256 i = 0; i < claimsLength; ) {
+            vaultFactories[i] = _validateVault(claims[i].vault, claims[i].account);
+            if (vaultFactories[i] == address(0)) ++failed;
+            unchecked {
+                ++i;
+            }
+        }
+
         // Process claims for valid vaults only
         for (uint256 i = 0; i < claimsLength; ) {
             if (vaultFactories[i] == address(0)) {
@@ -123,10 +389,10 @@ contract ClaimRouter is ReentrancyGuard {
             }
 
             try
-                IVaultClaim(claims[i].vault).payWithSig(
+                IMerkleVaultClaim(claims[i].vault).claimWithProof(
                     claims[i].account,
                     claims[i].cumulativeAmount,
-                    claims[i].signature
+                    claims[i].proof
                 )
             returns (uint256 gross, uint256 fee, uint256 net) {
                 ++successful;
@@ -134,12 +400,82 @@ contract ClaimRouter is ReentrancyGuard {
                 totalFees += fee;
                 totalNet += net;
                 emit ClaimSucceeded(claims[i].vault, claims[i].account, vaultFactories[i], gross, fee, net);
-            } catch Error(string memory reason) {
+            } catch (bytes memory data) {
                 ++failed;
-                emit ClaimFailed(claims[i].vault, claims[i].account, reason);
-            } catch {
+                (bytes4 code, string memory reason) = _decodeFailure(data);
+                emit ClaimFailed(claims[i].vault, claims[i].account, code, reason);
+            }
+            unchecked {
+                ++i;
+            }
+        }
+
+        emit BatchClaimed(msg.sender, successful, failed, totalGross, totalFees, totalNet, block.timestamp);
+    }
+
+    /**
+     * @notice Batch claims across the tokens of multi-token vaults with best-effort semantics
+     * @dev Same semantics as claimAll; totals sum raw amounts across tokens (per-token data is in vault events)
+     * @param claims Array of multi-token claim data
+     * @return successful Number of successful claims
+     * @return failed Number of failed claims
+     */
+    function claimAllMultiToken(
+        MultiTokenClaimData[] calldata claims
+    ) external nonReentrant returns (uint256 successful, uint256 failed) {
+        uint256 claimsLength = claims.length;
+        if (claimsLength == 0 || claimsLength > maxBatchSize) revert InvalidParameter("batch_size");
+
+        uint256 totalGross = 0;
+        uint256 totalFees = 0;
+        uint256 totalNet = 0;
+
+        // BATCH OPTIMIZATION: Pre-validate all factories (shared with claimAll)
+        address[] memory vaultFactories = new address[](claimsLength);
+        for (uint256 i = 0; i < claimsLength; ) {
+            vaultFactories[i] = _validateVault(claims[i].vault, claims[i].account);
+            if (vaultFactories[i] == address(0)) ++failed;
+            unchecked {
+                ++i;
+            }
+        }
+
+        // Process claims for valid vaults only
+        for (uint256 i = 0; i < claimsLength; ) {
+            if (vaultFactories[i] == address(0)) {
+                unchecked {
+                    ++i;
+                }
+                continue;
+            }
+
+            if (claims[i].deadline != 0 && block.timestamp > claims[i].deadline) {
                 ++failed;
-                emit ClaimFailed(claims[i].vault, claims[i].account, "Low-level failure");
+                emit ClaimFailed(claims[i].vault, claims[i].account, SecurityViolation.selector, "deadline");
+                unchecked {
+                    ++i;
+                }
+                continue;
+            }
+
+            try
+                IMultiTokenVaultClaim(claims[i].vault).payWithSig(
+                    claims[i].token,
+                    claims[i].account,
+                    claims[i].cumulativeAmount,
+                    claims[i].deadline,
+                    claims[i].signature
+                )
+            returns (uint256 gross, uint256 fee, uint256 net) {
+                ++successful;
+                totalGross += gross;
+                totalFees += fee;
+                totalNet += net;
+                emit ClaimSucceeded(claims[i].vault, claims[i].account, vaultFactories[i], gross, fee, net);
+            } catch (bytes memory data) {
+                ++failed;
+                (bytes4 code, string memory reason) = _decodeFailure(data);
+                emit ClaimFailed(claims[i].vault, claims[i].account, code, reason);
             }
             unchecked {
                 ++i;
@@ -149,6 +485,277 @@ contract ClaimRouter is ReentrancyGuard {
         emit BatchClaimed(msg.sender, successful, failed, totalGross, totalFees, totalNet, block.timestamp);
     }
 
+    // ----------- Preview Functions ----------- //
+    /**
+     * @notice Dry-run a claimAll batch and return the outcome of each claim
+     * @dev Call with eth_call (staticCall): the batch runs in a nested call that always reverts, so no tokens move
+     *      and no events are kept. Claims run in order, so later items see the effects of earlier ones
+     * @param claims Array of claim data
+     * @return previews Outcome and amounts of each claim, in order
+     */
+    function previewClaimAll(
+        ClaimData[] calldata claims
+    ) external nonReentrant returns (ClaimPreview[] memory previews) {
+        uint256 claimsLength = claims.length;
+        if (claimsLength == 0 || claimsLength > maxBatchSize) revert InvalidParameter("batch_size");
+
+        try this.simulateClaimAll(claims) {
+            revert InvalidParameter("simulation"); // Unreachable: simulateClaimAll always reverts
+        } catch (bytes memory result) {
+            previews = abi.decode(result, (ClaimPreview[]));
+        }
+    }
+
+    /**
+     * @notice Run a claimAll batch and revert with the abi-encoded outcomes (previewClaimAll only)
+     * @param claims Array of claim data
+     */
+    function simulateClaimAll(ClaimData[] calldata claims) external {
+        if (msg.sender != address(this)) revert Unauthorized("router");
+
+        uint256 claimsLength = claims.length;
+        ClaimPreview[] memory previews = new ClaimPreview[](claimsLength);
+        for (uint256 i = 0; i < claimsLength; ) {
+            previews[i] = _simulateClaim(claims[i]);
+            unchecked {
+                ++i;
+            }
+        }
+
+        bytes memory result = abi.encode(previews);
+        assembly ("memory-safe") {
+            revert(add(result, 32), mload(result))
+        }
+    }
+
+    // ----------- Internal Functions ----------- //
+    /**
+     * @notice Resolve and validate a vault's factory (anti-phishing)
+     * @dev Emits ClaimFailed and returns address(0) when the vault must be skipped
+     * @param vault Vault address
+     * @param account Account of the claim (for failure reporting)
+     * @return factory Approved factory of the vault, or address(0) if invalid
+     */
+    function _validateVault(address vault, address account) internal returns (address factory) {
+        string memory reason;
+        (factory, reason) = _resolveVault(vault);
+        if (factory == address(0)) emit ClaimFailed(vault, account, InvalidParameter.selector, reason);
+    }
+
+    /**
+     * @notice Resolve a vault's factory and check it is approved and created the vault
+     * @dev The vault's getFactory() answer alone is not trusted: the factory must list it as one of its clones
+     * @param vault Vault address
+     * @return factory Approved factory of the vault, or address(0) if invalid
+     * @return reason InvalidParameter argument when invalid ("vault" or "factory")
+     */
+    function _resolveVault(address vault) internal view returns (address factory, string memory reason) {
+        try IVaultClaim(vault).getFactory() returns (address vaultFactory) {
+            if (!approvedFactories[vaultFactory]) return (address(0), "factory");
+            if (!IPoolRegistry(vaultFactory).isPool(vault)) return (address(0), "vault");
+            return (vaultFactory, "");
+        } catch {
+            return (address(0), "vault");
+        }
+    }
+
+    /**
+     * @notice Run one claim of a simulated batch with the checks of claimAll
+     * @param claim Claim data
+     * @return preview Outcome and amounts of the claim
+     */
+    function _simulateClaim(ClaimData calldata claim) internal returns (ClaimPreview memory preview) {
+        (address factory, string memory reason) = _resolveVault(claim.vault);
+        if (factory == address(0)) {
+            preview.code = InvalidParameter.selector;
+            preview.reason = reason;
+            return preview;
+        }
+        if (claim.deadline != 0 && block.timestamp > claim.deadline) {
+            preview.code = SecurityViolation.selector;
+            preview.reason = "deadline";
+            return preview;
+        }
+
+        try
+            IVaultClaim(claim.vault).payWithSig(claim.account, claim.cumulativeAmount, claim.deadline, claim.signature)
+        returns (uint256 gross, uint256 fee, uint256 net) {
+            (preview.success, preview.gross, preview.fee, preview.net) = (true, gross, fee, net);
+        } catch (bytes memory data) {
+            (preview.code, preview.reason) = _decodeFailure(data);
+        }
+    }
+
+    /**
+     * @notice Collect one claim of an aggregated batch into the router and group its amounts
+     * @param claim Claim data
+     * @param factory Approved factory of the vault
+     * @param payouts Net amounts grouped by (account, token, factory)
+     * @param fees Fees grouped by (treasury, token)
+     * @param totals Batch gross, fee and net totals
+     * @return Whether the claim succeeded (failures emit ClaimFailed)
+     */
+    function _collectClaim(
+        ClaimData calldata claim,
+        address factory,
+        AggregatedPayout[] memory payouts,
+        AggregatedFee[] memory fees,
+        uint256[3] memory totals
+    ) internal returns (bool) {
+        address token;
+        try IAggregatingVault(claim.vault).token() returns (address vaultToken) {
+            token = vaultToken;
+        } catch {
+            emit ClaimFailed(claim.vault, claim.account, InvalidParameter.selector, "vault"); // e.g. multi-token
+            return false;
+        }
+
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        try
+            IAggregatingVault(claim.vault).payWithSigToRouter(
+                claim.account,
+                claim.cumulativeAmount,
+                claim.deadline,
+                claim.signature
+            )
+        returns (uint256 gross, uint256 fee, uint256 net, address treasury) {
+            // Forward only what arrived: a short transfer would be paid out of other claims' funds
+            if (IERC20(token).balanceOf(address(this)) - balanceBefore != gross) {
+                revert SecurityViolation("token_transfer");
+            }
+            if (fee + net != gross) revert SecurityViolation("accounting");
+            _addPayout(payouts, claim.account, token, factory, net);
+            if (fee != 0) _addFee(fees, treasury, token, fee);
+            totals[0] += gross;
+            totals[1] += fee;
+            totals[2] += net;
+            emit ClaimSucceeded(claim.vault, claim.account, factory, gross, fee, net);
+            return true;
+        } catch (bytes memory data) {
+            (bytes4 code, string memory reason) = _decodeFailure(data);
+            emit ClaimFailed(claim.vault, claim.account, code, reason);
+            return false;
+        }
+    }
+
+    /**
+     * @notice Add a net amount to its (account, token, factory) group
+     * @param payouts Groups, filled from index 0
+     * @param account Account of the claim
+     * @param token Token paid
+     * @param factory Factory of the vault
+     * @param amount Net amount
+     */
+    function _addPayout(
+        AggregatedPayout[] memory payouts,
+        address account,
+        address token,
+        address factory,
+        uint256 amount
+    ) internal pure {
+        uint256 payoutsLength = payouts.length;
+        for (uint256 i = 0; i < payoutsLength; ) {
+            AggregatedPayout memory payout = payouts[i];
+            if (payout.account == address(0)) {
+                payouts[i] = AggregatedPayout({account: account, token: token, factory: factory, amount: amount});
+                return;
+            }
+            if (payout.account == account && payout.token == token && payout.factory == factory) {
+                payout.amount += amount;
+                return;
+            }
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Add a fee to its (treasury, token) group
+     * @param fees Groups, filled from index 0
+     * @param treasury Platform treasury of the vault
+     * @param token Token paid
+     * @param amount Fee amount
+     */
+    function _addFee(AggregatedFee[] memory fees, address treasury, address token, uint256 amount) internal pure {
+        uint256 feesLength = fees.length;
+        for (uint256 i = 0; i < feesLength; ) {
+            AggregatedFee memory entry = fees[i];
+            if (entry.treasury == address(0)) {
+                fees[i] = AggregatedFee({treasury: treasury, token: token, amount: amount});
+                return;
+            }
+            if (entry.treasury == treasury && entry.token == token) {
+                entry.amount += amount;
+                return;
+            }
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Pay the grouped net amounts to the accounts' recipients, then the grouped fees
+     * @param payouts Net amounts grouped by (account, token, factory)
+     * @param fees Fees grouped by (treasury, token)
+     */
+    function _sendAggregated(AggregatedPayout[] memory payouts, AggregatedFee[] memory fees) internal {
+        uint256 payoutsLength = payouts.length;
+        for (uint256 i = 0; i < payoutsLength && payouts[i].account != address(0); ) {
+            AggregatedPayout memory payout = payouts[i];
+            if (payout.amount != 0) {
+                address recipient = IClaimAuthorizer(payout.factory).claimRecipient(payout.account);
+                IERC20(payout.token).safeTransfer(recipient, payout.amount);
+                emit AggregatedPayoutSent(payout.account, recipient, payout.token, payout.amount);
+            }
+            unchecked {
+                ++i;
+            }
+        }
+
+        uint256 feesLength = fees.length;
+        for (uint256 i = 0; i < feesLength && fees[i].treasury != address(0); ) {
+            IERC20(fees[i].token).safeTransfer(fees[i].treasury, fees[i].amount);
+            emit AggregatedFeeSent(fees[i].treasury, fees[i].token, fees[i].amount);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Decode a vault revert into a failure code and argument
+     * @dev The code is the revert selector: a custom error of the vault (e.g. AlreadyExists), Error(string) or
+     *      Panic(uint256); 0 for empty revert data. The reason is the string argument of Error(string) and of
+     *      single-string custom errors (e.g. "claim" for AlreadyExists("claim")), empty otherwise
+     * @param data Revert data
+     * @return code Failure code
+     * @return reason Failure argument
+     */
+    function _decodeFailure(bytes memory data) internal pure returns (bytes4 code, string memory reason) {
+        uint256 dataLength = data.length;
+        if (dataLength < 4) return (bytes4(0), "");
+        code = bytes4(data);
+        if (dataLength < 68) return (code, "");
+
+        uint256 offset;
+        uint256 length;
+        assembly ("memory-safe") {
+            offset := mload(add(data, 36))
+            length := mload(add(data, 68))
+        }
+        // Only abi-encoded (string) arguments: offset 0x20 and the string within the revert data
+        if (offset != 32 || length > dataLength - 68) return (code, "");
+
+        reason = new string(length);
+        for (uint256 i = 0; i < length; i += 32) {
+            assembly ("memory-safe") {
+                mstore(add(add(reason, 32), i), mload(add(add(data, 100), i)))
+            }
+        }
+    }
+
     // ----------- Events ----------- //
     /// @notice Emitted when a batch of claims is processed
     /// @param caller Address that initiated the batch claim
@@ -185,8 +792,26 @@ contract ClaimRouter is ReentrancyGuard {
     /// @notice Emitted when an individual claim fails
     /// @param vault Address of the vault
     /// @param account Address that attempted to claim
-    /// @param reason Reason for the failure
-    event ClaimFailed(address indexed vault, address indexed account, string reason);
+    /// @param code Failure code: revert selector of the vault (custom error, Error(string) or Panic(uint256), 0 if
+    ///        empty), InvalidParameter for vaults the router skips, SecurityViolation for expired vouchers
+    /// @param reason String argument of the error (e.g. "claim" for AlreadyExists("claim")), empty if none
+    event ClaimFailed(address indexed vault, address indexed account, bytes4 indexed code, string reason);
+    /// @notice Emitted once per (account, token, factory) of an aggregated batch
+    /// @param account Account whose claims are paid
+    /// @param recipient Recipient of the account's payouts (claim authorizations)
+    /// @param token Token paid
+    /// @param amount Net amount of the account's claims in the batch
+    event AggregatedPayoutSent(
+        address indexed account,
+        address indexed recipient,
+        address indexed token,
+        uint256 amount
+    );
+    /// @notice Emitted once per (treasury, token) of an aggregated batch
+    /// @param treasury Platform treasury
+    /// @param token Token paid
+    /// @param amount Fees of the batch's claims
+    event AggregatedFeeSent(address indexed treasury, address indexed token, uint256 amount);
     /// @notice Emitted when factory approval status is updated
     /// @param factory Address of the factory
     /// @param approved New approval status
@@ -206,6 +831,7 @@ interface IVaultClaim {
     /// @notice Pay rewards with EIP-712 signature
     /// @param account Account to pay
     /// @param cumulativeAmount Total cumulative amount due
+    /// @param deadline Signature expiry timestamp (0 = no expiry)
     /// @param signature Publisher's EIP-712 signature
     /// @return gross Total amount claimed this transaction
     /// @return fee Platform fee deducted
@@ -213,6 +839,7 @@ interface IVaultClaim {
     function payWithSig(
         address account,
         uint256 cumulativeAmount,
+        uint256 deadline,
         bytes calldata signature
     ) external returns (uint256 gross, uint256 fee, uint256 net);
 
@@ -220,3 +847,116 @@ interface IVaultClaim {
     /// @return factory Factory contract address
     function getFactory() external view returns (address factory);
 }
+
+/**
+ * @title IAggregatingVault
+ * @notice Interface for vault payouts forwarded by the router (aggregated payouts)
+ * @author CLONES
+ */
+interface IAggregatingVault {
+    /// @notice Pay a voucher to the calling router (net and fee in one transfer)
+    /// @param account Account to pay
+    /// @param cumulativeAmount Total cumulative amount due
+    /// @param deadline Signature expiry timestamp (0 = no expiry)
+    /// @param signature Publisher's EIP-712 signature
+    /// @return gross Total amount claimed this transaction (transferred to the router)
+    /// @return fee Platform fee to forward to the treasury
+    /// @return net Net amount to forward to the account's recipient
+    /// @return treasury Platform treasury of the vault
+    function payWithSigToRouter(
+        address account,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256 gross, uint256 fee, uint256 net, address treasury);
+
+    /// @notice Get the vault's reward token
+    /// @return Token address
+    function token() external view returns (address);
+}
+
+/**
+ * @title IMerkleVaultClaim
+ * @notice Interface for vault Merkle distribution claims
+ * @author CLONES
+ */
+interface IMerkleVaultClaim {
+    /// @notice Claim rewards with a Merkle proof against the vault's cumulative root
+    /// @param account Account to pay
+    /// @param cumulativeAmount Total cumulative amount due
+    /// @param proof Merkle proof of (account, cumulativeAmount) inclusion
+    /// @return gross Total amount claimed this transaction
+    /// @return fee Platform fee deducted
+    /// @return net Net amount transferred to account
+    function claimWithProof(
+        address account,
+        uint256 cumulativeAmount,
+        bytes32[] calldata proof
+    ) external returns (uint256 gross, uint256 fee, uint256 net);
+}
+
+/**
+ * @title IMultiTokenVaultClaim
+ * @notice Interface for multi-token vault claim operations
+ * @author CLONES
+ */
+interface IMultiTokenVaultClaim {
+    /// @notice Pay rewards of one token with EIP-712 signature
+    /// @param token Pool token to pay
+    /// @param account Account to pay
+    /// @param cumulativeAmount Total cumulative amount due in this token
+    /// @param deadline Signature expiry timestamp (0 = no expiry)
+    /// @param signature Publisher's EIP-712 signature
+    /// @return gross Total amount claimed this transaction
+    /// @return fee Platform fee deducted
+    /// @return net Net amount transferred to account
+    function payWithSig(
+        address token,
+        address account,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256 gross, uint256 fee, uint256 net);
+
+    /// @notice Get the factory address for this vault
+    /// @return factory Factory contract address
+    function getFactory() external view returns (address factory);
+}
+
+/**
+ * @title IPoolRegistry
+ * @notice Interface for the factory's record of the pools it cloned
+ * @author CLONES
+ */
+interface IPoolRegistry {
+    /// @notice Check whether a pool was cloned by the factory (automatic getter)
+    /// @param pool Pool address
+    /// @return Whether the factory created the pool
+    function isPool(address pool) external view returns (bool);
+}
+
+/**
+ * @title IClaimAuthorizer
+ * @notice Interface for factory claim authorizations (payout redirection)
+ * @author CLONES
+ */
+interface IClaimAuthorizer {
+    /// @notice Set an account's claim recipient and delegate with its EIP-712 signature
+    /// @param account Account whose claims are redirected
+    /// @param recipient Recipient of the account's payouts (0 = the account itself)
+    /// @param delegate Address allowed to change the recipient (0 = none)
+    /// @param deadline Signature expiry timestamp
+    /// @param signature Account's EIP-712 ClaimAuthorization signature (ECDSA or ERC-1271)
+    function authorizeClaimsWithSig(
+        address account,
+        address recipient,
+        address delegate,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /// @notice Resolve where an account's payouts go
+    /// @param account Account of the claim
+    /// @return Recipient set by the account, or the account itself
+    function claimRecipient(address account) external view returns (address);
+}
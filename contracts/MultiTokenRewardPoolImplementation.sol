@@ -0,0 +1,768 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.30;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import {ERC165Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/introspection/ERC165Upgradeable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IMultiTokenRewardPoolImplementation} from "./interfaces/IMultiTokenRewardPoolImplementation.sol";
+import {IRewardPoolFactory} from "./RewardPoolImplementation.sol";
+import {IMultiTokenVaultClaim} from "./ClaimRouter.sol";
+import {ISignatureTransfer} from "./interfaces/ISignatureTransfer.sol";
+
+/**
+ * @title MultiTokenRewardPoolImplementation
+ * @notice Reward vault holding several allow-listed tokens with per-token cumulative EIP-712 vouchers
+ * @dev Logic contract for EIP-1167 clones with centralized governance via factory
+ * @custom:security-contact security@clones.ai
+ * @author CLONES
+ */
+// solhint-disable-next-line mark-callable-contracts
+contract MultiTokenRewardPoolImplementation is
+    Initializable,
+    PausableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    EIP712Upgradeable,
+    ERC165Upgradeable,
+    IMultiTokenRewardPoolImplementation,
+    IMultiTokenVaultClaim
+{
+    using SafeERC20 for IERC20;
+
+    // ----------- Custom Errors ----------- //
+    error InvalidParameter(string param);
+    error Unauthorized(string role);
+    error AlreadyExists(string resource);
+    error SecurityViolation(string check);
+
+    // ----------- Constants ----------- //
+    /// @notice Canonical Permit2 deployment (same address on every chain)
+    address public constant PERMIT2 = 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+    /// @notice Maximum number of tokens a pool can hold (bounds emergency sweep loops)
+    uint256 public constant MAX_TOKENS = 10;
+    /// @notice Grace period before emergency sweep can be executed
+    uint256 public constant EMERGENCY_SWEEP_GRACE_PERIOD = 180 days;
+    /// @notice Mandatory notice period before emergency sweep can be executed
+    uint256 public constant EMERGENCY_NOTICE_PERIOD = 7 days;
+    /// @notice Delay between a creator withdrawal request and its execution
+    uint256 public constant WITHDRAWAL_DELAY = 3 days;
+
+    /// @notice Basis points denominator for fee computation
+    uint256 public constant FEE_DENOMINATOR = 10000;
+
+    /// @notice EIP-712 type hash for the token-bound Claim struct (public for off-chain SDK self-checks)
+    bytes32 public constant CLAIM_TYPEHASH =
+        keccak256("Claim(address token,address account,uint256 cumulativeAmount,uint256 deadline)");
+    /// @notice EIP-712 type hash for the publisher's committed liability of one token
+    bytes32 public constant LIABILITY_TYPEHASH = keccak256("Liability(address token,uint256 totalCumulativeAmount)");
+
+    // ----------- State Variables ----------- //
+    struct PoolConfig {
+        address platformTreasury; // 20 bytes
+        address factory; // 20 bytes - overflow to slot 1
+        uint256 lastClaimTimestamp; // Full uint256 to prevent 2106 overflow
+    }
+    /// @notice Pool configuration struct containing treasury, factory addresses and timestamp
+    PoolConfig public poolConfig;
+
+    /// @notice Address of the pool creator (who can withdraw funds and add tokens)
+    address public creator;
+
+    /// @notice Tokens held by this pool
+    address[] private _tokens;
+    /// @notice Whether a token belongs to this pool
+    mapping(address => bool) public isPoolToken;
+
+    // Cumulative claim tracking (per token)
+    /// @notice Tracks cumulative amount already claimed per token and account
+    mapping(address => mapping(address => uint256)) public alreadyClaimed; // token -> account -> amount
+    /// @notice Tracks cumulative fees already paid per token and account
+    mapping(address => mapping(address => uint256)) public alreadyFeePaid; // token -> account -> fees
+    /// @notice Total amount already claimed by all users per token
+    mapping(address => uint256) public globalAlreadyClaimed; // token -> amount
+
+    // Creator withdrawal safety (per token)
+    struct WithdrawalRequest {
+        uint128 amount; // Requested amount
+        uint64 executableAt; // Earliest execution timestamp (0 = no request)
+    }
+    /// @notice Pending creator withdrawal request per token
+    mapping(address => WithdrawalRequest) public pendingWithdrawals; // token -> request
+    /// @notice Publisher-committed total cumulative amount of all signed vouchers per token (claimed or not)
+    mapping(address => uint256) public committedLiability; // token -> liability
+
+    // Emergency sweep state
+    /// @notice Timestamp when emergency sweep notice was initiated
+    uint256 public emergencyNoticeTimestamp; // On-chain notice timestamp
+
+    // ----------- Modifiers ----------- //
+    modifier onlyFactoryTimelock() {
+        if (msg.sender != IRewardPoolFactory(poolConfig.factory).TIMELOCK()) revert Unauthorized("timelock");
+        _;
+    }
+
+    modifier onlyFactoryGuardian() {
+        if (msg.sender != IRewardPoolFactory(poolConfig.factory).GUARDIAN()) revert Unauthorized("guardian");
+        _;
+    }
+
+    modifier onlyCreator() {
+        if (msg.sender != creator) revert Unauthorized("creator");
+        _;
+    }
+
+    modifier onlyPoolToken(address token) {
+        if (!isPoolToken[token]) revert InvalidParameter("token");
+        _;
+    }
+
+    // ----------- Constructor ----------- //
+    /// @notice Constructor disables initializers to prevent direct initialization
+    constructor() {
+        // Disable initializers on implementation to prevent direct initialization
+        _disableInitializers();
+    }
+
+    // ----------- Initialization ----------- //
+    /**
+     * @notice Initialize the multi-token vault clone
+     * @param tokens_ Token addresses for rewards (allow-listed by the factory)
+     * @param platformTreasury_ Treasury address for fees
+     * @param factory_ Factory address for governance
+     * @param creator_ Address of the pool creator
+     */
+    function initialize(
+        address[] calldata tokens_,
+        address platformTreasury_,
+        address factory_,
+        address creator_
+    ) external initializer {
+        if (platformTreasury_ == address(0)) revert InvalidParameter("treasury");
+        if (factory_ == address(0)) revert InvalidParameter("factory");
+        if (creator_ == address(0)) revert InvalidParameter("creator");
+        if (tokens_.length == 0 || tokens_.length > MAX_TOKENS) revert InvalidParameter("tokens");
+
+        // Initialize inherited contracts (NO AccessControl)
+        __Pausable_init();
+        __ReentrancyGuard_init();
+        __EIP712_init("FactoryVault", "1");
+
+        // Set contract state
+        poolConfig = PoolConfig({
+            platformTreasury: platformTreasury_,
+            factory: factory_,
+            lastClaimTimestamp: block.timestamp
+        });
+
+        creator = creator_;
+
+        for (uint256 i = 0; i < tokens_.length; ) {
+            _addToken(tokens_[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    // ----------- Token Management ----------- //
+    /**
+     * @notice Add a factory allow-listed token to the pool (creator only)
+     * @param token Token address
+     */
+    function addToken(address token) external onlyCreator whenNotPaused {
+        if (_tokens.length >= MAX_TOKENS) revert InvalidParameter("tokens");
+        _addToken(token);
+    }
+
+    /**
+     * @notice Internal token registration with allow-list and duplicate checks
+     * @param token Token address
+     */
+    function _addToken(address token) internal {
+        if (token == address(0)) revert InvalidParameter("token");
+        if (isPoolToken[token]) revert AlreadyExists("token");
+        if (!IRewardPoolFactory(poolConfig.factory).allowedTokens(token)) revert InvalidParameter("token");
+
+        isPoolToken[token] = true;
+        _tokens.push(token);
+
+        emit TokenAdded(token);
+    }
+
+    // ----------- Funding Functions ----------- //
+    /**
+     * @notice Fund the vault with one of its tokens
+     * @param token Pool token to fund
+     * @param amount Amount to fund
+     */
+    function fund(address token, uint256 amount) external nonReentrant whenNotPaused onlyPoolToken(token) {
+        _performFund(token, amount);
+    }
+
+    /**
+     * @notice Internal function to perform funding with anti fee-on-transfer check
+     * @param token Pool token to fund
+     * @param amount Amount to fund
+     */
+    function _performFund(address token, uint256 amount) internal {
+        // Anti fee-on-transfer: verify actual amount received
+        IERC20 tokenContract = IERC20(token);
+        uint256 balanceBefore = tokenContract.balanceOf(address(this));
+        tokenContract.safeTransferFrom(msg.sender, address(this), amount);
+        uint256 balanceAfter = tokenContract.balanceOf(address(this));
+
+        uint256 actualReceived = balanceAfter - balanceBefore;
+        if (actualReceived != amount) revert SecurityViolation("token_transfer");
+
+        emit Funded(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Fund with EIP-2612 permit
+     * @param token Pool token to fund
+     * @param amount Amount to fund
+     * @param deadline Permit deadline
+     * @param v Signature v
+     * @param r Signature r
+     * @param s Signature s
+     */
+    function fundWithPermit(
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused onlyPoolToken(token) {
+        // CRITICAL: Permit support is fragile across USDC variants - handle gracefully
+        try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {
+            // POST-CHECK: Verify allowance was actually set correctly
+            if (IERC20(token).allowance(msg.sender, address(this)) < amount) {
+                revert SecurityViolation("permit");
+            }
+            _performFund(token, amount);
+        } catch {
+            revert SecurityViolation("permit");
+        }
+    }
+
+    /**
+     * @notice Fund one of the pool tokens with a Permit2 SignatureTransfer (for tokens without EIP-2612)
+     * @dev Requires a prior token approval to Permit2; the signed spender is this pool and the signed amount must equal `amount`
+     * @param token Pool token to fund
+     * @param amount Amount to fund
+     * @param nonce Permit2 unordered nonce
+     * @param deadline Permit deadline
+     * @param signature Permit2 PermitTransferFrom signature of msg.sender
+     */
+    function fundWithPermit2(
+        address token,
+        uint256 amount,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused onlyPoolToken(token) {
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        ISignatureTransfer(PERMIT2).permitTransferFrom(
+            ISignatureTransfer.PermitTransferFrom({
+                permitted: ISignatureTransfer.TokenPermissions({token: token, amount: amount}),
+                nonce: nonce,
+                deadline: deadline
+            }),
+            ISignatureTransfer.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+            msg.sender,
+            signature
+        );
+
+        // Anti fee-on-transfer: same post-check as _performFund
+        if (IERC20(token).balanceOf(address(this)) - balanceBefore != amount)
+            revert SecurityViolation("token_transfer");
+
+        emit Funded(msg.sender, token, amount);
+    }
+
+    // ----------- Withdrawal Functions ----------- //
+    /**
+     * @notice Request a withdrawal of excess funds of one token (creator only, replaces its pending request)
+     * @dev The delay lets the publisher commit liabilities for signed vouchers before funds can leave
+     * @param token Pool token to withdraw
+     * @param amount Amount to withdraw (must not exceed withdrawableAmount(token))
+     */
+    function requestWithdrawal(address token, uint256 amount) external whenNotPaused onlyCreator onlyPoolToken(token) {
+        if (amount == 0) revert InvalidParameter("amount");
+        if (amount > withdrawableAmount(token)) revert InvalidParameter("balance");
+
+        uint64 executableAt = uint64(block.timestamp + WITHDRAWAL_DELAY);
+        pendingWithdrawals[token] = WithdrawalRequest({amount: uint128(amount), executableAt: executableAt});
+
+        emit WithdrawalRequested(creator, token, amount, executableAt);
+    }
+
+    /**
+     * @notice Execute the pending withdrawal of one token after the delay (creator only)
+     * @dev Re-checks the excess at execution: liabilities committed during the delay take precedence
+     * @param token Pool token to withdraw
+     */
+    function executeWithdrawal(address token) external nonReentrant whenNotPaused onlyCreator {
+        WithdrawalRequest memory request = pendingWithdrawals[token];
+        if (request.executableAt == 0) revert InvalidParameter("no_request");
+        if (block.timestamp < request.executableAt) revert SecurityViolation("withdrawal_delay");
+        if (request.amount > withdrawableAmount(token)) revert InvalidParameter("balance");
+
+        delete pendingWithdrawals[token];
+
+        IERC20(token).safeTransfer(creator, request.amount);
+
+        emit Withdrawn(creator, token, request.amount);
+    }
+
+    /**
+     * @notice Cancel the pending withdrawal of one token (creator only)
+     * @param token Pool token of the request
+     */
+    function cancelWithdrawal(address token) external onlyCreator {
+        uint256 amount = pendingWithdrawals[token].amount;
+        if (amount == 0) revert InvalidParameter("no_request");
+
+        delete pendingWithdrawals[token];
+
+        emit WithdrawalCancelled(creator, token, amount);
+    }
+
+    /**
+     * @notice Commit the publisher-signed total cumulative amount of all vouchers issued for one token
+     * @dev Same rules as RewardPoolImplementation.commitLiability: permissionless relay, capped at what the pool
+     *      can pay in that token, outside the token's single-signer limits (not a payout)
+     * @param token Pool token (part of the signed struct)
+     * @param totalCumulativeAmount Sum of the latest cumulative amount signed for every account in this token
+     * @param signature Publisher's EIP-712 Liability signature, or the publisher set's aggregated one
+     */
+    function commitLiability(
+        address token,
+        uint256 totalCumulativeAmount,
+        bytes calldata signature
+    ) external whenNotPaused onlyPoolToken(token) {
+        uint256 previous = committedLiability[token];
+        uint256 cap = globalAlreadyClaimed[token] + IERC20(token).balanceOf(address(this));
+        uint256 committed = totalCumulativeAmount < cap ? totalCumulativeAmount : cap;
+        if (committed <= previous) revert InvalidParameter("liability");
+        _validatePublisherSignature(
+            token,
+            keccak256(abi.encode(LIABILITY_TYPEHASH, token, totalCumulativeAmount)),
+            signature,
+            0
+        );
+
+        committedLiability[token] = committed;
+
+        emit LiabilityCommitted(token, committed);
+    }
+
+    // ----------- Claim Functions ----------- //
+    /**
+     * @notice Pay rewards of one token with EIP-712 signature (cumulative pattern per token)
+     * @param token Pool token to pay (part of the signed struct)
+     * @param account Account to pay (≠ msg.sender with Router)
+     * @param cumulativeAmount Total cumulative amount due in this token
+     * @param deadline Signature expiry timestamp (0 = no expiry)
+     * @param signature Publisher's EIP-712 signature
+     * @return gross Total amount claimed this transaction
+     * @return fee Platform fee deducted
+     * @return net Net amount transferred to account
+     */
+    function payWithSig(
+        address token,
+        address account,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused onlyPoolToken(token) returns (uint256 gross, uint256 fee, uint256 net) {
+        if (deadline != 0 && block.timestamp > deadline) revert SecurityViolation("deadline");
+        if (cumulativeAmount <= alreadyClaimed[token][account]) revert AlreadyExists("claim");
+
+        _validateClaimSignature(token, account, cumulativeAmount, deadline, signature);
+
+        (gross, fee, net) = _settleClaim(token, account, cumulativeAmount);
+    }
+
+    /**
+     * @notice Verify the publisher signature of a token-bound claim voucher
+     * @param token Pool token of the claim
+     * @param account Account to pay
+     * @param cumulativeAmount Total cumulative amount due in this token
+     * @param deadline Signature expiry timestamp (0 = no expiry)
+     * @param signature Publisher's EIP-712 signature
+     */
+    function _validateClaimSignature(
+        address token,
+        address account,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        bytes calldata signature
+    ) internal {
+        // EIP-712 signature verification - token in the struct prevents cross-token replay
+        _validatePublisherSignature(
+            token,
+            keccak256(abi.encode(CLAIM_TYPEHASH, token, account, cumulativeAmount, deadline)),
+            signature,
+            cumulativeAmount - alreadyClaimed[token][account]
+        );
+    }
+
+    /**
+     * @notice Verify that a struct was signed by the factory publisher (or a previous one during its grace period)
+     * @dev Same rules as RewardPoolImplementation: ECDSA for EOA publishers, ERC-1271 for smart-contract ones,
+     *      the publisher set's aggregated signature above the token's single-signer limits
+     * @param token Pool token of the claim (selects the limits)
+     * @param structHash EIP-712 struct hash
+     * @param signature Publisher's EIP-712 signature (ECDSA or ERC-1271), or the publisher set's aggregated one
+     * @param amount Amount paid on this signature (0 for non-payout messages)
+     */
+    function _validatePublisherSignature(
+        address token,
+        bytes32 structHash,
+        bytes calldata signature,
+        uint256 amount
+    ) internal {
+        bytes32 digest = _hashTypedDataV4(structHash);
+        IRewardPoolFactory factory = IRewardPoolFactory(poolConfig.factory);
+
+        // Centralized publisher validation via factory authority
+        (address currentPublisher, uint256 perClaimLimit, uint256 perDayLimit) = factory.getPublisherPolicy(token);
+        if (currentPublisher == address(0)) revert SecurityViolation("publisher_revoked"); // Emergency revocation
+
+        // M-of-N: one compromised publisher key cannot pay more than the single-signer limits
+        if (_exceedsSingleSignerLimits(factory, token, amount, perClaimLimit, perDayLimit)) {
+            if (!_isValidThresholdSignature(factory, digest, signature)) revert SecurityViolation("threshold");
+            return;
+        }
+
+        // Current EOA publisher checked here; previous publishers in grace and ERC-1271 ones by the factory
+        (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, signature);
+        if (err == ECDSA.RecoverError.NoError && signer == currentPublisher) return;
+        if (factory.isValidPublisherSignature(digest, signature)) return;
+        // Non-payout messages (liabilities) may also carry the publisher set's signature
+        if (amount != 0 || !_isValidThresholdSignature(factory, digest, signature)) {
+            revert SecurityViolation("signature");
+        }
+    }
+
+    /**
+     * @notice Check an aggregated signature of the publisher set through the factory
+     * @param factory Pool factory
+     * @param digest EIP-712 digest
+     * @param signature Aggregated signature
+     * @return Whether at least the factory threshold of publisher set members signed
+     */
+    function _isValidThresholdSignature(
+        IRewardPoolFactory factory,
+        bytes32 digest,
+        bytes calldata signature
+    ) internal view returns (bool) {
+        try factory.isValidThresholdSignature(digest, signature) returns (bool valid) {
+            return valid;
+        } catch {
+            // Malformed aggregates (e.g. a single publisher signature) revert while decoding
+            return false;
+        }
+    }
+
+    /**
+     * @notice Check an amount against the token's single-signer limits and count it in the factory's daily volume
+     * @dev The daily volume is shared by every pool of the factory (RewardPoolFactory.spendSingleSignerVolume)
+     * @param factory Pool factory
+     * @param token Pool token
+     * @param amount Amount paid (0 = not a payout)
+     * @param perClaimLimit Largest claim payable with a single signature (0 = no limit)
+     * @param perDayLimit Daily volume payable with single signatures (0 = no limit)
+     * @return Whether the amount needs the publisher set threshold
+     */
+    function _exceedsSingleSignerLimits(
+        IRewardPoolFactory factory,
+        address token,
+        uint256 amount,
+        uint256 perClaimLimit,
+        uint256 perDayLimit
+    ) internal returns (bool) {
+        if (amount == 0) return false;
+        if (perClaimLimit != 0 && amount > perClaimLimit) return true;
+        return perDayLimit != 0 && factory.spendSingleSignerVolume(token, amount);
+    }
+
+    /**
+     * @notice Internal payout logic with cumulative fee precision per token
+     * @param token Pool token to pay
+     * @param account Account to pay
+     * @param cumulativeAmount Verified cumulative amount due
+     * @return gross Total amount claimed this transaction
+     * @return fee Platform fee deducted
+     * @return net Net amount transferred to account
+     */
+    function _settleClaim(
+        address token,
+        address account,
+        uint256 cumulativeAmount
+    ) internal returns (uint256 gross, uint256 fee, uint256 net) {
+        uint256 previousAmount = alreadyClaimed[token][account];
+        gross = cumulativeAmount - previousAmount;
+
+        {
+            uint256 currentFeeBps = feeBps();
+            fee =
+                (cumulativeAmount * currentFeeBps) /
+                FEE_DENOMINATOR -
+                (previousAmount * currentFeeBps) /
+                FEE_DENOMINATOR;
+            net = gross - fee;
+
+            if (IERC20(token).balanceOf(address(this)) < gross) revert InvalidParameter("balance");
+
+            // Effects before interactions
+            alreadyClaimed[token][account] = cumulativeAmount;
+            alreadyFeePaid[token][account] += fee;
+        }
+
+        globalAlreadyClaimed[token] += gross;
+        poolConfig.lastClaimTimestamp = block.timestamp;
+
+        // Interactions: transfer to account (or its authorized recipient) FIRST, then treasury for atomicity
+        address recipient = IRewardPoolFactory(poolConfig.factory).claimRecipient(account);
+        IERC20(token).safeTransfer(recipient, net);
+        if (recipient != account) emit ClaimRedirected(account, recipient, net);
+        if (fee > 0) IERC20(token).safeTransfer(poolConfig.platformTreasury, fee);
+
+        emit ClaimedMinimal(account, token, cumulativeAmount);
+    }
+
+    // ----------- Governance Functions ----------- //
+    /**
+     * @notice Update platform treasury
+     * @param newTreasury New treasury address
+     */
+    function updatePlatformTreasury(address newTreasury) external onlyFactoryTimelock {
+        if (newTreasury == address(0)) revert InvalidParameter("treasury");
+        address oldTreasury = poolConfig.platformTreasury;
+        poolConfig.platformTreasury = newTreasury;
+        emit PlatformTreasuryUpdated(oldTreasury, newTreasury);
+    }
+
+    /**
+     * @notice Lower the committed liability of one token (e.g. after commitments signed with a leaked key)
+     * @param token Pool token
+     * @param totalCumulativeAmount New committed liability (below the current one, 0 to clear it)
+     */
+    function resetLiability(address token, uint256 totalCumulativeAmount) external onlyFactoryTimelock {
+        uint256 previous = committedLiability[token];
+        if (totalCumulativeAmount >= previous) revert InvalidParameter("liability");
+        committedLiability[token] = totalCumulativeAmount;
+        emit LiabilityReset(token, previous, totalCumulativeAmount);
+    }
+
+    // ----------- Emergency Functions ----------- //
+    /**
+     * @notice Initiate emergency sweep notice (custodial governance escape hatch)
+     * @param to Address to sweep funds to
+     * @param justification Public justification for sweep
+     */
+    function initiateEmergencySweepNotice(address to, string calldata justification) external onlyFactoryTimelock {
+        if (!paused()) revert SecurityViolation("pause_required");
+        if (to == address(0)) revert InvalidParameter("recipient");
+        if (block.timestamp < poolConfig.lastClaimTimestamp + EMERGENCY_SWEEP_GRACE_PERIOD)
+            revert SecurityViolation("grace_period");
+
+        emergencyNoticeTimestamp = block.timestamp;
+
+        emit EmergencySweepNoticeInitiated(to, justification, emergencyNoticeTimestamp + EMERGENCY_NOTICE_PERIOD);
+    }
+
+    /**
+     * @notice Execute emergency sweep of every pool token after notice period
+     * @param to Address to sweep funds to
+     */
+    function emergencySweepAll(address to) external onlyFactoryTimelock {
+        if (emergencyNoticeTimestamp == 0) revert InvalidParameter("notice_required");
+        if (block.timestamp < emergencyNoticeTimestamp + EMERGENCY_NOTICE_PERIOD)
+            revert InvalidParameter("notice_period");
+
+        // Reset notice to prevent reuse
+        emergencyNoticeTimestamp = 0;
+
+        uint256 tokensLength = _tokens.length;
+        for (uint256 i = 0; i < tokensLength; ) {
+            address token = _tokens[i];
+            uint256 balance = IERC20(token).balanceOf(address(this));
+            if (balance > 0) {
+                IERC20(token).safeTransfer(to, balance);
+                emit EmergencySweep(to, token, balance);
+            }
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Emergency pause (guardian role)
+     */
+    function pause() external onlyFactoryGuardian {
+        _pause();
+    }
+
+    /**
+     * @notice Unpause (requires timelock)
+     */
+    function unpause() external onlyFactoryTimelock {
+        _unpause();
+    }
+
+    // ----------- View Functions ----------- //
+    /**
+     * @notice Get factory address for ClaimRouter validation (anti-phishing)
+     * @return factory Factory contract address
+     */
+    function getFactory() external view returns (address) {
+        return poolConfig.factory;
+    }
+
+    /**
+     * @notice Get all tokens held by this pool
+     * @return Token addresses
+     */
+    function tokens() external view returns (address[] memory) {
+        return _tokens;
+    }
+
+    /**
+     * @notice Get platform treasury address
+     * @return Platform treasury address
+     */
+    function platformTreasury() external view returns (address) {
+        return poolConfig.platformTreasury;
+    }
+
+    /**
+     * @notice Get the platform fee currently applied to this pool (resolved by the factory fee schedule)
+     * @return Fee in basis points
+     */
+    function feeBps() public view returns (uint256) {
+        return IRewardPoolFactory(poolConfig.factory).getFeeBps(address(this), creator);
+    }
+
+    /**
+     * @notice Get the committed liability of one token not yet claimed
+     * @param token Pool token
+     * @return Outstanding signed amount (committedLiability - globalAlreadyClaimed, floored at 0)
+     */
+    function outstandingLiability(address token) public view returns (uint256) {
+        uint256 committed = committedLiability[token];
+        uint256 claimed = globalAlreadyClaimed[token];
+        return committed > claimed ? committed - claimed : 0;
+    }
+
+    /**
+     * @notice Get the balance of one token the creator can withdraw (excess over its outstanding liability)
+     * @param token Pool token
+     * @return Withdrawable amount
+     */
+    function withdrawableAmount(address token) public view returns (uint256) {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        uint256 reserved = outstandingLiability(token);
+        return balance > reserved ? balance - reserved : 0;
+    }
+
+    /**
+     * @notice Get last claim timestamp
+     * @return Last claim timestamp
+     */
+    function lastClaimTimestamp() external view returns (uint256) {
+        return poolConfig.lastClaimTimestamp;
+    }
+
+    // ----------- ERC-165 Support ----------- //
+    /**
+     * @notice Check interface support
+     * @param interfaceId Interface ID to check
+     * @return bool Whether interface is supported
+     */
+    function supportsInterface(bytes4 interfaceId) public view virtual override(ERC165Upgradeable) returns (bool) {
+        return interfaceId == type(IMultiTokenVaultClaim).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // ----------- Events ----------- //
+    /// @notice Emitted when a token is added to the pool
+    /// @param token Token address
+    event TokenAdded(address indexed token);
+
+    /// @notice Emitted when the vault is funded with tokens
+    /// @param funder Address that funded the vault
+    /// @param token Token address that was funded
+    /// @param amount Amount of tokens funded
+    event Funded(address indexed funder, address indexed token, uint256 indexed amount);
+
+    /// @notice Emitted when funds are withdrawn by creator
+    /// @param creator Address that withdrew the funds
+    /// @param token Token address that was withdrawn
+    /// @param amount Amount of tokens withdrawn
+    event Withdrawn(address indexed creator, address indexed token, uint256 indexed amount);
+
+    /// @notice Emitted when the creator requests a withdrawal of one token
+    /// @param creator Pool creator
+    /// @param token Token to withdraw
+    /// @param amount Requested amount
+    /// @param executableAt Earliest execution timestamp
+    event WithdrawalRequested(
+        address indexed creator,
+        address indexed token,
+        uint256 amount,
+        uint256 indexed executableAt
+    );
+
+    /// @notice Emitted when the creator cancels a pending withdrawal
+    /// @param creator Pool creator
+    /// @param token Token of the request
+    /// @param amount Cancelled amount
+    event WithdrawalCancelled(address indexed creator, address indexed token, uint256 indexed amount);
+
+    /// @notice Emitted when a publisher-signed liability is committed for one token
+    /// @param token Pool token
+    /// @param totalCumulativeAmount Total cumulative amount of all signed vouchers in this token
+    event LiabilityCommitted(address indexed token, uint256 indexed totalCumulativeAmount);
+
+    /// @notice Emitted when the timelock lowers the committed liability of one token
+    /// @param token Pool token
+    /// @param oldLiability Previous committed liability
+    /// @param newLiability New committed liability
+    event LiabilityReset(address indexed token, uint256 indexed oldLiability, uint256 indexed newLiability);
+
+    /// @notice Emitted when a claim is processed (minimal event for gas efficiency)
+    /// @param account Address that claimed tokens
+    /// @param token Token address that was claimed
+    /// @param cumulativeAmount Total cumulative amount of this token claimed by this account
+    event ClaimedMinimal(address indexed account, address indexed token, uint256 indexed cumulativeAmount);
+
+    /// @notice Emitted when a payout goes to the account's authorized recipient instead of the account
+    /// @param account Account of the claim
+    /// @param recipient Recipient set in the factory claim authorizations
+    /// @param amount Amount paid to the recipient
+    event ClaimRedirected(address indexed account, address indexed recipient, uint256 indexed amount);
+
+    /// @notice Emitted when platform treasury address is updated
+    /// @param oldTreasury Previous treasury address
+    /// @param newTreasury New treasury address
+    event PlatformTreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
+    /// @notice Emitted when emergency sweep notice is initiated
+    /// @param to Address that will receive the swept funds
+    /// @param justification Public justification for the sweep
+    /// @param executionTimestamp Timestamp when sweep can be executed
+    event EmergencySweepNoticeInitiated(address indexed to, string justification, uint256 indexed executionTimestamp);
+    /// @notice Emitted when emergency sweep is executed for one token
+    /// @param to Address that received the swept funds
+    /// @param token Token address that was swept
+    /// @param amount Amount of tokens swept
+    event EmergencySweep(address indexed to, address indexed token, uint256 indexed amount);
+}
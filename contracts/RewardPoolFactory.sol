@@ -6,6 +6,14 @@ import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
 import {Clones} from "@openzeppelin/contracts/proxy/Clones.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {IMultiTokenRewardPoolImplementation} from "./interfaces/IMultiTokenRewardPoolImplementation.sol";
+import {IRewardPoolImplementation} from "./interfaces/IRewardPoolImplementation.sol";
+import {ISignatureTransfer} from "./interfaces/ISignatureTransfer.sol";
 
 /**
  * @title RewardPoolFactory
@@ -14,7 +22,9 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
  * @custom:security-contact security@clones.ai
  * @author CLONES
  */
-contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
+contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard, EIP712, Nonces {
+    using SafeERC20 for IERC20;
+
     // ----------- Custom Errors ----------- //
     error InvalidParameter(string param);
     error Unauthorized(string role);
@@ -30,9 +40,24 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
     // Grace period for publisher rotation overlap
     /// @notice Grace period for publisher rotation
     uint256 public constant PUBLISHER_GRACE_PERIOD = 7 days;
+    /// @notice Longest delay between scheduling a publisher rotation and its activation
+    uint256 public constant MAX_PUBLISHER_ACTIVATION_DELAY = 30 days;
+    /// @notice Maximum number of previous publishers accepted at once during their grace periods
+    uint256 public constant MAX_GRACE_PUBLISHERS = 3;
+    /// @notice Maximum platform fee in basis points (25%)
+    uint16 public constant MAX_FEE_BPS = 2500;
+    /// @notice Maximum number of pools created by one batch call
+    uint256 public constant MAX_POOL_BATCH = 50;
+    /// @notice Canonical Permit2 deployment (same address on every chain)
+    address public constant PERMIT2 = 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+    /// @notice EIP-712 type hash for an account's claim authorization (public for off-chain SDK self-checks)
+    bytes32 public constant CLAIM_AUTHORIZATION_TYPEHASH =
+        keccak256(
+            "ClaimAuthorization(address account,address recipient,address delegate,uint256 nonce,uint256 deadline)"
+        );
 
     // ----------- Immutable State ----------- //
-    /// @notice Address of the pool implementation contract for cloning
+    /// @notice Address of the initial pool implementation contract for cloning (registry version 1)
     address public immutable POOL_IMPLEMENTATION;
     /// @notice Address of the platform treasury for fee collection
     address public immutable PLATFORM_TREASURY;
@@ -42,18 +67,102 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
     address public immutable GUARDIAN;
 
     // ----------- Publisher Management ----------- //
-    /// @notice Current active publisher address
-    address public publisher; // Current active publisher
-    /// @notice Previous publisher address during grace period
-    address public oldPublisher; // Previous publisher during grace period
-    /// @notice Timestamp when grace period ends
-    uint256 public graceEndTime; // When grace period for old publisher ends
+    struct PublisherRecord {
+        address publisher;
+        uint64 activatedAt; // When the key became (or becomes) the current publisher
+        uint64 retiredAt; // When a later key replaced it (0 = current or scheduled)
+        uint64 graceEnd; // Until when it stays accepted after retiring (cut short by revocation or cancellation)
+    }
+
+    /// @notice Latest publisher address (current, or scheduled until publisherActivation)
+    address public publisher; // Latest publisher - getPublisherInfo() returns the active one
+    /// @notice Signatures of the publisher set required above the single-signer limits (0 = no threshold)
+    uint8 public publisherThreshold; // M of M-of-N - packed with publisher (read on every claim)
+    /// @notice Number of addresses in the publisher set
+    uint8 public publisherSignerCount; // N of M-of-N - packed with publisher
+    /// @notice Timestamp from which the latest publisher signs (the previous one stays current until then)
+    uint64 public publisherActivation; // Packed with publisher (read on every claim)
+    /// @notice Number of guardian emergency revocations (pools reject Merkle roots posted before the latest one)
+    uint16 public publisherRevocations; // Packed with publisher
+    /// @dev Every publisher key in activation order (last = latest publisher)
+    PublisherRecord[] internal _publisherHistory;
 
     // ----------- Governance ----------- //
     /// @notice Mapping of allowed token addresses
     mapping(address => bool) public allowedTokens; // On-chain token allow-list
     /// @notice Nonce for deterministic pool creation per creator and token
     mapping(address => mapping(address => uint256)) public poolNonce; // creator -> token -> nonce
+    /// @notice Pools cloned by this factory (single and multi-token)
+    mapping(address => bool) public isPool; // clone -> created here
+
+    // ----------- Implementation Registry ----------- //
+    /// @notice Pool implementation of each registered version (version 1 = POOL_IMPLEMENTATION)
+    mapping(uint256 => address) public implementations; // version -> implementation
+    /// @notice Registered version of each implementation (0 = not registered)
+    mapping(address => uint256) public implementationVersion; // implementation -> version
+    /// @notice Versions that can no longer be used for new pools
+    mapping(uint256 => bool) public deprecatedVersions; // version -> deprecated
+    /// @notice Number of registered implementation versions (latest version)
+    uint256 public latestVersion;
+    /// @notice Version used by createPool, createAndFundPool and predictPoolAddress
+    uint256 public defaultVersion;
+
+    /// @notice Address of the multi-token pool implementation contract for cloning (0 = disabled)
+    address public multiTokenImplementation; // Multi-token pools use poolNonce[creator][address(0)]
+
+    // ----------- Fee Schedule ----------- //
+    struct FeeRate {
+        bool enabled; // Whether this rate applies
+        uint16 bps; // Fee in basis points
+    }
+    /// @notice Default platform fee in basis points for all pools
+    uint16 public defaultFeeBps = 1000; // 10%
+    /// @notice Fee rates of creator tiers (tier 0 is reserved for the default fee)
+    mapping(uint8 => FeeRate) public feeTiers; // tier -> rate
+    /// @notice Fee tier assigned to each creator (0 = default fee)
+    mapping(address => uint8) public creatorFeeTier; // creator -> tier
+    /// @notice Per-pool fee overrides (take precedence over tiers and default)
+    mapping(address => FeeRate) public poolFeeOverrides; // pool -> rate
+
+    // ----------- Publisher Threshold ----------- //
+    struct ThresholdLimits {
+        uint128 perClaim; // Largest claim payable with a single publisher signature (0 = no per-claim limit)
+        uint128 perDay; // Daily volume across every pool payable with single signatures or proofs (0 = no daily limit)
+    }
+    /// @notice Members of the publisher set co-signing claims above the single-signer limits
+    mapping(address => bool) public isPublisherSigner; // signer -> member
+    /// @notice Single-signer limits of each token (in token units, only enforced while publisherThreshold > 0)
+    mapping(address => ThresholdLimits) public thresholdLimits; // token -> limits
+    struct DailyVolume {
+        uint64 day; // block.timestamp / 1 days
+        uint192 amount; // Amount paid that day with single publisher signatures or proofs
+    }
+    /// @notice Volume of each token paid today without the publisher set threshold, across every pool
+    mapping(address => DailyVolume) public singleSignerVolume; // token -> volume
+
+    // ----------- Batch Creation ----------- //
+    struct PoolFunding {
+        address token; // Allow-listed token of the pool
+        uint256 amount; // Amount the pool must receive
+    }
+    struct TokenPermit {
+        address token; // EIP-2612 token - 20 bytes
+        uint8 v; // Signature v - packed with token
+        uint256 value; // Allowance granted to the factory (covers every pool of the token in the batch)
+        uint256 deadline; // Permit deadline
+        bytes32 r; // Signature r
+        bytes32 s; // Signature s
+    }
+
+    // ----------- Claim Authorizations ----------- //
+    struct ClaimAuthorization {
+        address recipient; // Receives the account's payouts in every pool (0 = the account itself)
+        address delegate; // May change the recipient on the account's behalf (0 = none)
+    }
+    /// @notice Payout redirection of each account, shared by every pool of the factory
+    mapping(address => ClaimAuthorization) public claimAuthorizations; // account -> authorization
+    /// @notice Routers allowed to receive claim payouts on behalf of accounts (aggregated payouts)
+    mapping(address => bool) public claimAggregators; // router -> approved
 
     // ----------- Events ----------- //
     /// @notice Emitted when a new pool is created
@@ -62,12 +171,14 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
     /// @param token Token address for the pool
     /// @param salt Salt used for deterministic creation
     /// @param nonce Nonce used for the creation
+    /// @param version Implementation version of the pool
     event PoolCreated(
         address indexed creator,
         address indexed pool,
         address indexed token,
         bytes32 salt,
-        uint256 nonce
+        uint256 nonce,
+        uint256 version
     );
     /// @notice Emitted when a new pool is created and funded in one transaction
     /// @param creator Address that created the pool
@@ -76,14 +187,45 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
     /// @param salt Salt used for deterministic creation
     /// @param nonce Nonce used for the creation
     /// @param fundingAmount Amount of tokens used to fund the pool
+    /// @param version Implementation version of the pool
     event PoolCreatedAndFunded(
         address indexed creator,
         address indexed pool,
         address indexed token,
         bytes32 salt,
         uint256 nonce,
-        uint256 fundingAmount
+        uint256 fundingAmount,
+        uint256 version
     );
+    /// @notice Emitted when a pool implementation version is registered
+    /// @param version Registered version
+    /// @param implementation Implementation address
+    event ImplementationRegistered(uint256 indexed version, address indexed implementation);
+    /// @notice Emitted when the default implementation version is updated
+    /// @param oldVersion Previous default version
+    /// @param newVersion New default version
+    event DefaultVersionUpdated(uint256 indexed oldVersion, uint256 indexed newVersion);
+    /// @notice Emitted when a version is deprecated or restored
+    /// @param version Implementation version
+    /// @param deprecated Whether new pools can no longer use the version
+    event VersionDeprecationUpdated(uint256 indexed version, bool indexed deprecated);
+    /// @notice Emitted when a new multi-token pool is created
+    /// @param creator Address that created the pool
+    /// @param pool Address of the newly created pool
+    /// @param salt Salt used for deterministic creation
+    /// @param nonce Nonce used for the creation
+    /// @param tokens Initial token addresses of the pool
+    event MultiTokenPoolCreated(
+        address indexed creator,
+        address indexed pool,
+        bytes32 salt,
+        uint256 nonce,
+        address[] tokens
+    );
+    /// @notice Emitted when the multi-token pool implementation is updated
+    /// @param oldImplementation Previous implementation address
+    /// @param newImplementation New implementation address
+    event MultiTokenImplementationUpdated(address indexed oldImplementation, address indexed newImplementation);
     /// @notice Emitted when token allowlist status is updated
     /// @param token Token address
     /// @param allowed New allowlist status
@@ -91,16 +233,72 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
     /// @notice Emitted when publisher rotation is initiated
     /// @param oldPublisher Previous publisher address
     /// @param newPublisher New publisher address
-    /// @param graceEndTime Timestamp when grace period ends
+    /// @param graceEndTime Timestamp when grace period ends (now after an emergency revocation)
     event PublisherRotationInitiated(
         address indexed oldPublisher,
         address indexed newPublisher,
         uint256 indexed graceEndTime
     );
+    /// @notice Emitted when the default fee is updated
+    /// @param oldFeeBps Previous default fee in basis points
+    /// @param newFeeBps New default fee in basis points
+    event DefaultFeeUpdated(uint16 indexed oldFeeBps, uint16 indexed newFeeBps);
+    /// @notice Emitted when a creator fee tier is configured
+    /// @param tier Tier identifier
+    /// @param feeBps Tier fee in basis points
+    /// @param enabled Whether the tier rate applies
+    event FeeTierUpdated(uint8 indexed tier, uint16 indexed feeBps, bool enabled);
+    /// @notice Emitted when a creator is assigned to a fee tier
+    /// @param creator Creator address
+    /// @param tier Assigned tier (0 = default fee)
+    event CreatorFeeTierUpdated(address indexed creator, uint8 indexed tier);
+    /// @notice Emitted when a pool fee override is updated
+    /// @param pool Pool address
+    /// @param feeBps Override fee in basis points
+    /// @param enabled Whether the override applies
+    event PoolFeeOverrideUpdated(address indexed pool, uint16 indexed feeBps, bool enabled);
     /// @notice Emitted when publisher rotation is cancelled
     /// @param restoredPublisher Publisher address that was restored
     /// @param cancelledPublisher Publisher address that was cancelled
     event PublisherRotationCancelled(address indexed restoredPublisher, address indexed cancelledPublisher);
+    /// @notice Emitted when a publisher rotation is scheduled for a future activation
+    /// @param oldPublisher Publisher that stays current until the activation
+    /// @param newPublisher Publisher that takes over at the activation
+    /// @param activationTime Activation timestamp (the old publisher's grace period starts then)
+    event PublisherRotationScheduled(
+        address indexed oldPublisher,
+        address indexed newPublisher,
+        uint256 indexed activationTime
+    );
+    /// @notice Emitted when a previous publisher is revoked before the end of its grace period
+    /// @param revokedPublisher Publisher key no longer accepted
+    event PublisherRevoked(address indexed revokedPublisher);
+    /// @notice Emitted when the guardian revokes every publisher key (no signature accepted until a new rotation)
+    /// @param guardian Guardian that revoked the keys
+    /// @param revokedPublisher Publisher current at the revocation
+    event PublisherEmergencyRevoked(address indexed guardian, address indexed revokedPublisher);
+    /// @notice Emitted when an address joins or leaves the publisher set
+    /// @param signer Publisher set member
+    /// @param enabled Whether the signer is in the set
+    event PublisherSignerUpdated(address indexed signer, bool indexed enabled);
+    /// @notice Emitted when the publisher set threshold changes
+    /// @param oldThreshold Previous threshold (0 = no threshold)
+    /// @param newThreshold New threshold (0 = no threshold)
+    event PublisherThresholdUpdated(uint8 indexed oldThreshold, uint8 indexed newThreshold);
+    /// @notice Emitted when the single-signer limits of a token change
+    /// @param token Token address
+    /// @param perClaim Largest claim payable with a single signature (0 = no per-claim limit)
+    /// @param perDay Daily volume across every pool payable with single signatures (0 = no daily limit)
+    event ThresholdLimitsUpdated(address indexed token, uint128 indexed perClaim, uint128 indexed perDay);
+    /// @notice Emitted when an account's claim recipient or delegate changes
+    /// @param account Account whose claims are redirected
+    /// @param recipient Recipient of the account's payouts (0 = the account itself)
+    /// @param delegate Address allowed to change the recipient (0 = none)
+    event ClaimAuthorizationUpdated(address indexed account, address indexed recipient, address indexed delegate);
+    /// @notice Emitted when a router is approved or revoked for aggregated payouts
+    /// @param router ClaimRouter address
+    /// @param approved Whether pools may pay claims to the router
+    event ClaimAggregatorUpdated(address indexed router, bool indexed approved);
 
     // ----------- Modifiers ----------- //
     modifier onlyFactoryTimelock() {
@@ -126,7 +324,7 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
         address _timelock,
         address _guardian,
         address _publisher
-    ) {
+    ) EIP712("RewardPoolFactory", "1") {
         if (_poolImplementation == address(0)) revert InvalidParameter("implementation");
         if (_platformTreasury == address(0)) revert InvalidParameter("treasury");
         if (_timelock == address(0)) revert InvalidParameter("timelock");
@@ -138,6 +336,15 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
         TIMELOCK = _timelock;
         GUARDIAN = _guardian;
         publisher = _publisher;
+        _publisherHistory.push(
+            PublisherRecord({publisher: _publisher, activatedAt: uint64(block.timestamp), retiredAt: 0, graceEnd: 0})
+        );
+
+        // Version 1 of the implementation registry
+        latestVersion = 1;
+        defaultVersion = 1;
+        implementations[1] = _poolImplementation;
+        implementationVersion[_poolImplementation] = 1;
 
         _grantRole(DEFAULT_ADMIN_ROLE, _timelock);
         _grantRole(TIMELOCK_ROLE, _timelock);
@@ -160,6 +367,126 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
         emit TokenAllowedUpdated(token, allowed);
     }
 
+    // ----------- Implementation Registry Management ----------- //
+    /**
+     * @notice Register a new pool implementation version (existing pools are unaffected)
+     * @dev Register, review on-chain, then promote with setDefaultVersion - creators may opt in earlier
+     * @param implementation Implementation contract address
+     * @return version Assigned version
+     */
+    function registerImplementation(address implementation) external onlyFactoryTimelock returns (uint256 version) {
+        if (implementation == address(0) || implementation.code.length == 0) revert InvalidParameter("implementation");
+        if (implementationVersion[implementation] != 0) revert AlreadyExists("implementation");
+
+        version = ++latestVersion;
+        implementations[version] = implementation;
+        implementationVersion[implementation] = version;
+
+        emit ImplementationRegistered(version, implementation);
+    }
+
+    /**
+     * @notice Set the version used by createPool, createAndFundPool and predictPoolAddress
+     * @param version Registered, non-deprecated version
+     */
+    function setDefaultVersion(uint256 version) external onlyFactoryTimelock {
+        if (version == 0 || version > latestVersion || deprecatedVersions[version]) revert InvalidParameter("version");
+        uint256 oldVersion = defaultVersion;
+        defaultVersion = version;
+        emit DefaultVersionUpdated(oldVersion, version);
+    }
+
+    /**
+     * @notice Deprecate (or restore) a version for new pools - existing pools keep working
+     * @param version Registered version (the default version cannot be deprecated)
+     * @param deprecated Whether the version is deprecated
+     */
+    function setVersionDeprecated(uint256 version, bool deprecated) external onlyFactoryTimelock {
+        if (version == 0 || version > latestVersion) revert InvalidParameter("version");
+        if (deprecated && version == defaultVersion) revert InvalidParameter("default_version");
+        deprecatedVersions[version] = deprecated;
+        emit VersionDeprecationUpdated(version, deprecated);
+    }
+
+    /**
+     * @notice Set the multi-token pool implementation (existing clones are unaffected)
+     * @param newImplementation Multi-token implementation address (0 disables multi-token pool creation)
+     */
+    function setMultiTokenImplementation(address newImplementation) external onlyFactoryTimelock {
+        address oldImplementation = multiTokenImplementation;
+        multiTokenImplementation = newImplementation;
+        emit MultiTokenImplementationUpdated(oldImplementation, newImplementation);
+    }
+
+    // ----------- Fee Schedule Management ----------- //
+    /**
+     * @notice Update the default platform fee applied to every pool without tier or override
+     * @dev Applies to future claims only; cumulative fee precision is preserved per claim delta
+     * @param newFeeBps New default fee in basis points (<= MAX_FEE_BPS)
+     */
+    function setDefaultFeeBps(uint16 newFeeBps) external onlyFactoryTimelock {
+        if (newFeeBps > MAX_FEE_BPS) revert InvalidParameter("fee_bps");
+        uint16 oldFeeBps = defaultFeeBps;
+        defaultFeeBps = newFeeBps;
+        emit DefaultFeeUpdated(oldFeeBps, newFeeBps);
+    }
+
+    /**
+     * @notice Configure a creator fee tier (e.g. discounted rates for large creators)
+     * @param tier Tier identifier (non-zero)
+     * @param feeBps Tier fee in basis points (<= MAX_FEE_BPS)
+     * @param enabled Whether the tier rate applies (disabled tiers fall back to the default fee)
+     */
+    function setFeeTier(uint8 tier, uint16 feeBps, bool enabled) external onlyFactoryTimelock {
+        if (tier == 0) revert InvalidParameter("tier");
+        if (feeBps > MAX_FEE_BPS) revert InvalidParameter("fee_bps");
+        feeTiers[tier] = FeeRate({enabled: enabled, bps: feeBps});
+        emit FeeTierUpdated(tier, feeBps, enabled);
+    }
+
+    /**
+     * @notice Assign a creator to a fee tier (applies to all of the creator's pools)
+     * @param creator Creator address
+     * @param tier Tier identifier (0 = default fee)
+     */
+    function setCreatorFeeTier(address creator, uint8 tier) external onlyFactoryTimelock {
+        if (creator == address(0)) revert InvalidParameter("creator");
+        creatorFeeTier[creator] = tier;
+        emit CreatorFeeTierUpdated(creator, tier);
+    }
+
+    /**
+     * @notice Override the fee of a single pool
+     * @param pool Pool address
+     * @param feeBps Override fee in basis points (<= MAX_FEE_BPS)
+     * @param enabled Whether the override applies
+     */
+    function setPoolFeeOverride(address pool, uint16 feeBps, bool enabled) external onlyFactoryTimelock {
+        if (pool == address(0)) revert InvalidParameter("pool");
+        if (feeBps > MAX_FEE_BPS) revert InvalidParameter("fee_bps");
+        poolFeeOverrides[pool] = FeeRate({enabled: enabled, bps: feeBps});
+        emit PoolFeeOverrideUpdated(pool, feeBps, enabled);
+    }
+
+    /**
+     * @notice Resolve the fee of a pool: pool override > creator tier > default
+     * @param pool Pool address
+     * @param creator Creator of the pool
+     * @return feeBps Fee in basis points
+     */
+    function getFeeBps(address pool, address creator) external view returns (uint16 feeBps) {
+        FeeRate memory poolOverride = poolFeeOverrides[pool];
+        if (poolOverride.enabled) return poolOverride.bps;
+
+        uint8 tier = creatorFeeTier[creator];
+        if (tier != 0) {
+            FeeRate memory tierRate = feeTiers[tier];
+            if (tierRate.enabled) return tierRate.bps;
+        }
+
+        return defaultFeeBps;
+    }
+
     // ----------- Pool Creation ----------- //
     /**
      * @notice Create a new reward pool using EIP-1167 minimal proxy pattern
@@ -168,7 +495,20 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
      * @return pool Address of the created pool
      */
     function createPool(address token) external whenNotPaused nonReentrant returns (address pool) {
-        pool = _createPool(token, 0);
+        pool = _createPool(token, 0, defaultVersion);
+    }
+
+    /**
+     * @notice Create a new reward pool from a specific implementation version
+     * @param token Token address for rewards (must be in allow-list)
+     * @param version Registered, non-deprecated implementation version
+     * @return pool Address of the created pool
+     */
+    function createPoolWithVersion(
+        address token,
+        uint256 version
+    ) external whenNotPaused nonReentrant returns (address pool) {
+        pool = _createPool(token, 0, version);
     }
 
     /**
@@ -189,47 +529,258 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
         uint256 allowance = IERC20(token).allowance(msg.sender, address(this));
         if (allowance < fundingAmount) revert SecurityViolation("insufficient_allowance");
 
-        pool = _createPool(token, fundingAmount);
+        pool = _createPool(token, fundingAmount, defaultVersion);
+    }
+
+    /**
+     * @notice Create and fund several pools atomically (one PoolCreatedAndFunded event per pool)
+     * @dev Requires prior allowances covering the total amount per token; reverts entirely if any pool fails
+     * @param pools Token and funding amount of each pool (a token may appear several times)
+     * @return created Addresses of the created pools, in input order
+     */
+    function createAndFundPools(
+        PoolFunding[] calldata pools
+    ) external whenNotPaused nonReentrant returns (address[] memory created) {
+        created = _createAndFundPools(pools);
+    }
+
+    /**
+     * @notice Create and fund several pools atomically, granting allowances with EIP-2612 permits
+     * @dev A permit that fails (e.g. front-run) is accepted if the allowance is already sufficient
+     * @param pools Token and funding amount of each pool (a token may appear several times)
+     * @param permits One permit per token, for the factory as spender
+     * @return created Addresses of the created pools, in input order
+     */
+    function createAndFundPoolsWithPermit(
+        PoolFunding[] calldata pools,
+        TokenPermit[] calldata permits
+    ) external whenNotPaused nonReentrant returns (address[] memory created) {
+        uint256 length = permits.length;
+        for (uint256 i; i < length; ++i) {
+            TokenPermit calldata p = permits[i];
+            try IERC20Permit(p.token).permit(msg.sender, address(this), p.value, p.deadline, p.v, p.r, p.s) {
+                // POST-CHECK: Verify allowance was actually set correctly
+                if (IERC20(p.token).allowance(msg.sender, address(this)) < p.value) revert SecurityViolation("permit");
+            } catch {
+                // Permit failed (possibly front-run) - only an allowance already in place lets the batch proceed
+                if (IERC20(p.token).allowance(msg.sender, address(this)) < p.value) revert SecurityViolation("permit");
+            }
+        }
+        created = _createAndFundPools(pools);
     }
 
     /**
-     * @notice Internal pool creation logic shared by both public functions
-     * @dev Handles pool creation with optional funding
+     * @notice Create a pool and fund it with a Permit2 SignatureTransfer (for tokens without EIP-2612)
+     * @dev Requires a prior token approval to Permit2; the signed spender is this factory and the funds go
+     *      straight to the new pool. The full permitted amount is transferred
+     * @param permit Permit2 message: permitted token (must be in allow-list) and funding amount, nonce, deadline
+     * @param signature Permit2 PermitTransferFrom signature of msg.sender
+     * @return pool Address of the created and funded pool
+     */
+    function createAndFundPoolWithPermit2(
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) external whenNotPaused nonReentrant returns (address pool) {
+        address token = permit.permitted.token;
+        uint256 amount = permit.permitted.amount;
+        if (amount == 0) revert InvalidParameter("amount");
+
+        bytes32 salt;
+        uint256 nonce;
+        (pool, salt, nonce) = _clonePool(token, defaultVersion);
+
+        uint256 balanceBefore = IERC20(token).balanceOf(pool);
+        ISignatureTransfer(PERMIT2).permitTransferFrom(
+            permit,
+            ISignatureTransfer.SignatureTransferDetails({to: pool, requestedAmount: amount}),
+            msg.sender,
+            signature
+        );
+        _checkReceived(token, pool, balanceBefore, amount);
+
+        emit PoolCreatedAndFunded(msg.sender, pool, token, salt, nonce, amount, defaultVersion);
+    }
+
+    /**
+     * @notice Create and fund several pools atomically with one Permit2 batch signature
+     * @dev One pool per permitted entry (a token may appear several times); reverts entirely if any pool fails
+     * @param permit Permit2 batch message: token and funding amount of each pool, nonce, deadline
+     * @param signature Permit2 PermitBatchTransferFrom signature of msg.sender
+     * @return created Addresses of the created pools, in permitted order
+     */
+    function createAndFundPoolsWithPermit2(
+        ISignatureTransfer.PermitBatchTransferFrom calldata permit,
+        bytes calldata signature
+    ) external whenNotPaused nonReentrant returns (address[] memory created) {
+        uint256 length = permit.permitted.length;
+        if (length == 0 || length > MAX_POOL_BATCH) revert InvalidParameter("batch_size");
+
+        created = new address[](length);
+        ISignatureTransfer.SignatureTransferDetails[]
+            memory transfers = new ISignatureTransfer.SignatureTransferDetails[](length);
+        uint256[] memory balancesBefore = new uint256[](length);
+        uint256 version = defaultVersion;
+        for (uint256 i; i < length; ++i) {
+            ISignatureTransfer.TokenPermissions calldata permitted = permit.permitted[i];
+            if (permitted.amount == 0) revert InvalidParameter("amount");
+
+            (address pool, bytes32 salt, uint256 nonce) = _clonePool(permitted.token, version);
+            created[i] = pool;
+            transfers[i] = ISignatureTransfer.SignatureTransferDetails({to: pool, requestedAmount: permitted.amount});
+            balancesBefore[i] = IERC20(permitted.token).balanceOf(pool);
+
+            // Emitted before the transfer: any failure below reverts the whole batch
+            emit PoolCreatedAndFunded(msg.sender, pool, permitted.token, salt, nonce, permitted.amount, version);
+        }
+
+        ISignatureTransfer(PERMIT2).permitTransferFrom(permit, transfers, msg.sender, signature);
+
+        for (uint256 i; i < length; ++i) {
+            _checkReceived(permit.permitted[i].token, created[i], balancesBefore[i], permit.permitted[i].amount);
+        }
+    }
+
+    /**
+     * @notice Internal batch creation shared by the batch entry points
+     * @param pools Token and funding amount of each pool
+     * @return created Addresses of the created pools, in input order
+     */
+    function _createAndFundPools(PoolFunding[] calldata pools) internal returns (address[] memory created) {
+        uint256 length = pools.length;
+        if (length == 0 || length > MAX_POOL_BATCH) revert InvalidParameter("batch_size");
+
+        created = new address[](length);
+        for (uint256 i; i < length; ++i) {
+            if (pools[i].amount == 0) revert InvalidParameter("amount");
+            created[i] = _createPool(pools[i].token, pools[i].amount, defaultVersion);
+        }
+    }
+
+    /**
+     * @notice Internal pool creation logic shared by all public creation functions
+     * @dev Handles pool creation with optional funding from msg.sender's allowance
      * @param token Token address for rewards (must be in allow-list)
      * @param fundingAmount Amount to fund (0 for no funding)
+     * @param version Implementation version to clone
      * @return pool Address of the created pool
      */
-    function _createPool(address token, uint256 fundingAmount) internal returns (address pool) {
+    function _createPool(address token, uint256 fundingAmount, uint256 version) internal returns (address pool) {
+        bytes32 salt;
+        uint256 nonce;
+        (pool, salt, nonce) = _clonePool(token, version);
+
+        // Fund pool if amount specified
+        if (fundingAmount > 0) {
+            uint256 balanceBefore = IERC20(token).balanceOf(pool);
+            IERC20(token).safeTransferFrom(msg.sender, pool, fundingAmount);
+            _checkReceived(token, pool, balanceBefore, fundingAmount);
+
+            emit PoolCreatedAndFunded(msg.sender, pool, token, salt, nonce, fundingAmount, version);
+        } else {
+            emit PoolCreated(msg.sender, pool, token, salt, nonce, version);
+        }
+    }
+
+    /**
+     * @notice Clone and initialize the next pool of msg.sender for a token (no funding, no event)
+     * @param token Token address for rewards (must be in allow-list)
+     * @param version Implementation version to clone
+     * @return pool Address of the created pool
+     * @return salt Salt used for deterministic creation
+     * @return nonce Nonce used for the creation
+     */
+    function _clonePool(address token, uint256 version) internal returns (address pool, bytes32 salt, uint256 nonce) {
         if (!allowedTokens[token]) revert InvalidParameter("token");
+        address implementation = _getCreatableImplementation(version);
 
         // Use centralized salt generation - deterministic, no race conditions
-        uint256 nonce = poolNonce[msg.sender][token];
-        bytes32 salt = _computeSalt(msg.sender, token, nonce);
-        pool = Clones.cloneDeterministic(POOL_IMPLEMENTATION, salt);
-
-        // Verify prediction matches reality (sanity check) BEFORE incrementing nonce
-        (address predicted, ) = predictPoolAddressWithNonce(msg.sender, token, nonce);
-        if (pool != predicted) revert SecurityViolation("create2");
+        nonce = poolNonce[msg.sender][token];
+        salt = _computeSalt(msg.sender, token, nonce);
+        pool = _cloneAtPrediction(implementation, salt);
 
         // Increment nonce for the next creation
         ++poolNonce[msg.sender][token];
 
         // Initialize the clone with factory reference
         IRewardPoolImplementation(pool).initialize(token, PLATFORM_TREASURY, address(this), msg.sender);
+    }
 
-        // Fund pool if amount specified
-        if (fundingAmount > 0) {
-            bool success = IERC20(token).transferFrom(msg.sender, pool, fundingAmount);
-            if (!success) revert SecurityViolation("token_transfer");
+    /**
+     * @notice Clone an implementation with CREATE2 and check the address against the prediction
+     * @param implementation Implementation to clone
+     * @param salt CREATE2 salt
+     * @return pool Address of the clone
+     */
+    function _cloneAtPrediction(address implementation, bytes32 salt) internal returns (address pool) {
+        pool = Clones.cloneDeterministic(implementation, salt);
 
-            emit PoolCreatedAndFunded(msg.sender, pool, token, salt, nonce, fundingAmount);
-        } else {
-            emit PoolCreated(msg.sender, pool, token, salt, nonce);
-        }
+        // Verify prediction matches reality (sanity check) BEFORE incrementing nonce
+        if (pool != Clones.predictDeterministicAddress(implementation, salt, address(this)))
+            revert SecurityViolation("create2");
+        isPool[pool] = true;
+    }
+
+    /**
+     * @notice Anti fee-on-transfer: the pool must receive exactly the funding amount (same check as pool funding)
+     * @param token Funding token
+     * @param pool Funded pool
+     * @param balanceBefore Pool balance before the transfer
+     * @param amount Expected amount
+     */
+    function _checkReceived(address token, address pool, uint256 balanceBefore, uint256 amount) internal view {
+        if (IERC20(token).balanceOf(pool) - balanceBefore != amount) revert SecurityViolation("token_transfer");
     }
 
     /**
-     * @notice Predict pool address before creation
+     * @notice Resolve the implementation of a version that can be used for new pools
+     * @param version Implementation version
+     * @return implementation Implementation address
+     */
+    function _getCreatableImplementation(uint256 version) internal view returns (address implementation) {
+        implementation = implementations[version];
+        if (implementation == address(0) || deprecatedVersions[version]) revert InvalidParameter("version");
+    }
+
+    /**
+     * @notice Create a new multi-token reward pool using EIP-1167 minimal proxy pattern
+     * @dev Tokens are validated against the allow-list by the pool itself during initialization
+     * @param tokens Initial token addresses for rewards (must be in allow-list)
+     * @return pool Address of the created pool
+     */
+    function createMultiTokenPool(
+        address[] calldata tokens
+    ) external whenNotPaused nonReentrant returns (address pool) {
+        address implementation = multiTokenImplementation;
+        if (implementation == address(0)) revert InvalidParameter("implementation");
+
+        // Multi-token pools are keyed by address(0) in the creator's nonce space
+        uint256 nonce = poolNonce[msg.sender][address(0)];
+        bytes32 salt = _computeSalt(msg.sender, address(0), nonce);
+        pool = _cloneAtPrediction(implementation, salt);
+
+        ++poolNonce[msg.sender][address(0)];
+
+        IMultiTokenRewardPoolImplementation(pool).initialize(tokens, PLATFORM_TREASURY, address(this), msg.sender);
+
+        emit MultiTokenPoolCreated(msg.sender, pool, salt, nonce, tokens);
+    }
+
+    /**
+     * @notice Predict the next multi-token pool address of a creator
+     * @param creator Creator address
+     * @return predicted Predicted pool address
+     * @return salt Salt used for CREATE2
+     */
+    function predictMultiTokenPoolAddress(address creator) external view returns (address predicted, bytes32 salt) {
+        address implementation = multiTokenImplementation;
+        if (implementation == address(0)) revert InvalidParameter("implementation");
+
+        salt = _computeSalt(creator, address(0), poolNonce[creator][address(0)]);
+        predicted = Clones.predictDeterministicAddress(implementation, salt, address(this));
+    }
+
+    /**
+     * @notice Predict pool address before creation (default implementation version)
      * @param creator Creator address
      * @param token Token address
      * @return predicted Predicted pool address
@@ -239,13 +790,30 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
         address creator,
         address token
     ) external view returns (address predicted, bytes32 salt) {
-        uint256 nonce = poolNonce[creator][token];
-        salt = _computeSalt(creator, token, nonce);
-        predicted = Clones.predictDeterministicAddress(POOL_IMPLEMENTATION, salt, address(this));
+        return predictPoolAddressForVersion(creator, token, defaultVersion);
     }
 
     /**
-     * @notice Predict pool address with a specific nonce (for tests and internal checks)
+     * @notice Predict pool address before creation with a specific implementation version
+     * @dev The salt does not depend on the version; the implementation changes the clone init code hash
+     * @param creator Creator address
+     * @param token Token address
+     * @param version Registered, non-deprecated implementation version
+     * @return predicted Predicted pool address
+     * @return salt Salt used for CREATE2
+     */
+    function predictPoolAddressForVersion(
+        address creator,
+        address token,
+        uint256 version
+    ) public view returns (address predicted, bytes32 salt) {
+        address implementation = _getCreatableImplementation(version);
+        salt = _computeSalt(creator, token, poolNonce[creator][token]);
+        predicted = Clones.predictDeterministicAddress(implementation, salt, address(this));
+    }
+
+    /**
+     * @notice Predict pool address with a specific nonce (default implementation version, for tests)
      * @param creator Creator address
      * @param token Token address
      * @param nonce Nonce to use for prediction
@@ -256,9 +824,9 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
         address creator,
         address token,
         uint256 nonce
-    ) public view returns (address predicted, bytes32 salt) {
+    ) external view returns (address predicted, bytes32 salt) {
         salt = _computeSalt(creator, token, nonce);
-        predicted = Clones.predictDeterministicAddress(POOL_IMPLEMENTATION, salt, address(this));
+        predicted = Clones.predictDeterministicAddress(implementations[defaultVersion], salt, address(this));
     }
 
     /**
@@ -278,11 +846,39 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
     /**
      * @notice Get current publisher information for all vaults
      * @return current Current active publisher
-     * @return old Previous publisher (if in grace period)
-     * @return graceEnd When grace period ends
+     * @return old Most recent previous publisher still in its grace period (0 if none)
+     * @return graceEnd When its grace period ends
      */
     function getPublisherInfo() external view returns (address current, address old, uint256 graceEnd) {
-        return (publisher, oldPublisher, graceEndTime);
+        (old, graceEnd) = _latestGracePublisher();
+        return (_currentPublisher(), old, graceEnd);
+    }
+
+    /**
+     * @notice Most recent previous publisher still in its grace period
+     * @return Publisher address (0 if none)
+     */
+    function oldPublisher() external view returns (address) {
+        (address old, ) = _latestGracePublisher();
+        return old;
+    }
+
+    /**
+     * @notice Grace period end of the most recent previous publisher still accepted
+     * @return Timestamp (0 if none)
+     */
+    function graceEndTime() external view returns (uint256) {
+        (, uint256 graceEnd) = _latestGracePublisher();
+        return graceEnd;
+    }
+
+    /**
+     * @notice Get every publisher key with its activation, retirement and grace period end
+     * @dev Off-chain signers pick the key active at a given time from this list (scripts/utils/publisher-keys.ts)
+     * @return Publisher records in activation order
+     */
+    function getPublisherHistory() external view returns (PublisherRecord[] memory) {
+        return _publisherHistory;
     }
 
     /**
@@ -295,39 +891,416 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
 
     /**
      * @notice Initiate publisher rotation with immediate overlap (eliminates SPOF)
+     * @dev The previous publisher stays accepted for PUBLISHER_GRACE_PERIOD, along with earlier ones still in grace
      * @param newPublisher New publisher address
      */
     function initiatePublisherRotation(address newPublisher) external onlyFactoryTimelock {
+        address replaced = _rotatePublisher(newPublisher, block.timestamp);
+        emit PublisherRotationInitiated(
+            replaced,
+            newPublisher,
+            replaced == address(0) ? block.timestamp : block.timestamp + PUBLISHER_GRACE_PERIOD
+        );
+    }
+
+    /**
+     * @notice Schedule a publisher rotation (the current publisher signs alone until the activation)
+     * @dev Lets signing backends load the new key before it goes live; cancelPublisherRotation() drops it
+     * @param newPublisher New publisher address
+     * @param activationTime Activation timestamp, within MAX_PUBLISHER_ACTIVATION_DELAY
+     */
+    function schedulePublisherRotation(address newPublisher, uint256 activationTime) external onlyFactoryTimelock {
+        if (activationTime <= block.timestamp || activationTime > block.timestamp + MAX_PUBLISHER_ACTIVATION_DELAY) {
+            revert InvalidParameter("activation");
+        }
+        address replaced = _rotatePublisher(newPublisher, activationTime);
+        emit PublisherRotationScheduled(replaced, newPublisher, activationTime);
+    }
+
+    /**
+     * @notice Cancel the latest publisher rotation (before its activation or during the grace period)
+     * @dev The previous publisher becomes current again; the cancelled one gets no grace period
+     */
+    function cancelPublisherRotation() external onlyFactoryTimelock {
+        uint256 length = _publisherHistory.length;
+        if (length < 2) revert InvalidParameter("no_rotation");
+
+        // POLICY: The previous publisher must still be accepted (not past its grace period, not revoked)
+        PublisherRecord storage restored = _publisherHistory[length - 2];
+        if (block.timestamp >= restored.graceEnd) revert SecurityViolation("grace_period");
+        PublisherRecord storage cancelled = _publisherHistory[length - 1];
+        uint64 nowTime = uint64(block.timestamp);
+
+        // Both keys stop now; the restored publisher gets a new record (history stays in activation order)
+        if (cancelled.activatedAt > nowTime) cancelled.activatedAt = nowTime; // Never activated
+        (cancelled.retiredAt, cancelled.graceEnd) = (nowTime, nowTime);
+        if (restored.retiredAt > nowTime) restored.retiredAt = nowTime; // Scheduled rotation cancelled
+        restored.graceEnd = nowTime;
+        address restoredPublisher = restored.publisher;
+        _publisherHistory.push(
+            PublisherRecord({publisher: restoredPublisher, activatedAt: nowTime, retiredAt: 0, graceEnd: 0})
+        );
+        publisher = restoredPublisher;
+        publisherActivation = nowTime;
+
+        // EVENT REFLECTS ACTUAL STATE: restored (old) and cancelled (new)
+        emit PublisherRotationCancelled(restoredPublisher, cancelled.publisher);
+    }
+
+    /**
+     * @notice Revoke a previous publisher immediately, without waiting for the end of its grace period
+     * @dev The current publisher cannot be revoked alone - batch initiatePublisherRotation() with its revocation
+     * @param revokedPublisher Previous publisher still in its grace period
+     */
+    function revokePublisher(address revokedPublisher) external onlyFactoryTimelock {
+        if (revokedPublisher == address(0)) revert InvalidParameter("publisher");
+        uint256 first = _graceWindowStart();
+        for (uint256 i = _publisherHistory.length; i > first; ) {
+            unchecked {
+                --i;
+            }
+            PublisherRecord storage record = _publisherHistory[i];
+            if (record.publisher == revokedPublisher && _inGracePeriod(record)) {
+                record.graceEnd = uint64(block.timestamp);
+                emit PublisherRevoked(revokedPublisher);
+                return;
+            }
+        }
+        revert InvalidParameter("publisher");
+    }
+
+    /**
+     * @notice Revoke the current, previous and scheduled publishers at once after a key leak (guardian role)
+     * @dev Pools reject every voucher and threshold signature until the timelock rotates to a new publisher, which
+     *      starts without grace for the revoked keys; getPublisherInfo() returns zero addresses. Merkle roots posted
+     *      before the revocation stay rejected (publisherRevocations)
+     */
+    function emergencyRevokePublishers() external onlyFactoryGuardian {
+        if (publisher == address(0)) revert AlreadyExists("revocation");
+        address revokedPublisher = _currentPublisher();
+        uint64 nowTime = uint64(block.timestamp);
+
+        // End every record still accepted now or later (current, scheduled, in grace)
+        uint256 first = _graceWindowStart();
+        for (uint256 i = _publisherHistory.length; i > first; ) {
+            unchecked {
+                --i;
+            }
+            PublisherRecord storage record = _publisherHistory[i];
+            if (record.retiredAt == 0 || nowTime < record.graceEnd) {
+                if (record.activatedAt > nowTime) record.activatedAt = nowTime; // Scheduled, never activated
+                if (record.retiredAt == 0 || record.retiredAt > nowTime) record.retiredAt = nowTime;
+                record.graceEnd = nowTime;
+                if (record.publisher != address(0)) emit PublisherRevoked(record.publisher);
+            }
+        }
+
+        // No publisher until the timelock installs one
+        _publisherHistory.push(
+            PublisherRecord({publisher: address(0), activatedAt: nowTime, retiredAt: 0, graceEnd: 0})
+        );
+        publisher = address(0);
+        publisherActivation = nowTime;
+        ++publisherRevocations;
+        emit PublisherEmergencyRevoked(msg.sender, revokedPublisher);
+    }
+
+    /**
+     * @notice Check a single publisher signature against the current publisher and the ones in grace
+     * @dev Pools check the current EOA publisher themselves (no call); this covers previous and ERC-1271 publishers
+     * @param digest EIP-712 digest of the voucher (bound to the pool's domain)
+     * @param signature Publisher signature (ECDSA or ERC-1271)
+     * @return Whether a publisher accepted at this block signed the digest
+     */
+    function isValidPublisherSignature(bytes32 digest, bytes calldata signature) external view returns (bool) {
+        uint256 first = _graceWindowStart();
+        for (uint256 i = _publisherHistory.length; i > first; ) {
+            unchecked {
+                --i;
+            }
+            PublisherRecord memory record = _publisherHistory[i];
+            if (
+                record.activatedAt <= block.timestamp &&
+                (record.retiredAt == 0 || block.timestamp < record.graceEnd) &&
+                SignatureChecker.isValidSignatureNow(record.publisher, digest, signature)
+            ) return true;
+        }
+        return false;
+    }
+
+    /**
+     * @notice Retire the latest publisher and append a new key activating at `activationTime`
+     * @param newPublisher New publisher address
+     * @param activationTime Activation timestamp (block.timestamp for an immediate rotation)
+     * @return Publisher replaced by the new one
+     */
+    function _rotatePublisher(address newPublisher, uint256 activationTime) internal returns (address) {
         if (newPublisher == address(0)) revert InvalidParameter("publisher");
         if (newPublisher == publisher) revert InvalidParameter("publisher");
-        if (graceEndTime > block.timestamp) revert AlreadyExists("rotation");
+        if (block.timestamp < publisherActivation) revert AlreadyExists("rotation"); // Scheduled one pending
 
-        // IMMEDIATE transition - no pending period
-        oldPublisher = publisher; // Store current for grace period
-        publisher = newPublisher; // IMMEDIATE activation
-        graceEndTime = block.timestamp + PUBLISHER_GRACE_PERIOD; // 7 days overlap
+        // Only the last MAX_GRACE_PUBLISHERS previous publishers are checked: the one leaving that window must be done
+        uint256 length = _publisherHistory.length;
+        if (
+            length > MAX_GRACE_PUBLISHERS &&
+            block.timestamp < _publisherHistory[length - MAX_GRACE_PUBLISHERS - 1].graceEnd
+        ) revert InvalidParameter("grace_publishers");
 
-        emit PublisherRotationInitiated(oldPublisher, newPublisher, graceEndTime);
+        // No grace after an emergency revocation (the outgoing record is the empty publisher)
+        PublisherRecord storage outgoing = _publisherHistory[length - 1];
+        outgoing.retiredAt = uint64(activationTime);
+        outgoing.graceEnd = uint64(
+            outgoing.publisher == address(0) ? activationTime : activationTime + PUBLISHER_GRACE_PERIOD
+        );
+        _publisherHistory.push(
+            PublisherRecord({publisher: newPublisher, activatedAt: uint64(activationTime), retiredAt: 0, graceEnd: 0})
+        );
+        publisher = newPublisher;
+        publisherActivation = uint64(activationTime);
+        return outgoing.publisher;
     }
 
     /**
-     * @notice Cancel publisher rotation during grace period
+     * @notice Publisher signing at this block (the previous one until a scheduled rotation activates)
+     * @return Current publisher address
      */
-    function cancelPublisherRotation() external onlyFactoryTimelock {
-        // POLICY: Cancellation only possible during grace period (7 days)
-        if (graceEndTime == 0) revert InvalidParameter("no_rotation");
-        if (block.timestamp >= graceEndTime) revert SecurityViolation("grace_period");
+    function _currentPublisher() internal view returns (address) {
+        if (block.timestamp < publisherActivation) return _publisherHistory[_publisherHistory.length - 2].publisher;
+        return publisher;
+    }
 
-        // Capture current state BEFORE modification for accurate event emission
-        address cancelledPublisher = publisher; // The publisher being cancelled (new one)
-        address restoredPublisher = oldPublisher; // The publisher being restored (old one)
+    /**
+     * @notice Most recently retired publisher still in its grace period
+     * @return old Publisher address (0 if none)
+     * @return graceEnd End of its grace period (0 if none)
+     */
+    function _latestGracePublisher() internal view returns (address old, uint256 graceEnd) {
+        uint256 first = _graceWindowStart();
+        for (uint256 i = _publisherHistory.length; i > first; ) {
+            unchecked {
+                --i;
+            }
+            PublisherRecord storage record = _publisherHistory[i];
+            if (_inGracePeriod(record)) return (record.publisher, record.graceEnd);
+        }
+        return (address(0), 0);
+    }
 
-        publisher = oldPublisher; // Restore old publisher
-        oldPublisher = address(0); // Clear old
-        graceEndTime = 0; // End grace period immediately
+    /**
+     * @notice First history index that can hold an accepted publisher (the latest one and its possible predecessors)
+     * @return Index of the oldest record checked
+     */
+    function _graceWindowStart() internal view returns (uint256) {
+        uint256 length = _publisherHistory.length;
+        return length > MAX_GRACE_PUBLISHERS + 1 ? length - MAX_GRACE_PUBLISHERS - 1 : 0;
+    }
 
-        // EVENT REFLECTS ACTUAL STATE: restored (old) and cancelled (new)
-        emit PublisherRotationCancelled(restoredPublisher, cancelledPublisher);
+    /**
+     * @notice Check whether a publisher record is retired and still in its grace period
+     * @param record Publisher record
+     * @return Whether the key is accepted as a previous publisher at this block
+     */
+    function _inGracePeriod(PublisherRecord storage record) internal view returns (bool) {
+        return record.retiredAt != 0 && record.retiredAt <= block.timestamp && block.timestamp < record.graceEnd;
+    }
+
+    // ----------- Publisher Threshold ----------- //
+    /**
+     * @notice Add or remove an address of the publisher set
+     * @dev Members may be EOAs or smart-contract accounts (ERC-1271); removals may not leave fewer members
+     *      than the threshold
+     * @param signer Publisher set member
+     * @param enabled Whether the signer is in the set
+     */
+    function setPublisherSigner(address signer, bool enabled) external onlyFactoryTimelock {
+        if (signer == address(0)) revert InvalidParameter("signer");
+        if (isPublisherSigner[signer] == enabled) revert AlreadyExists("signer");
+        if (enabled) {
+            if (publisherSignerCount == type(uint8).max) revert InvalidParameter("signer_count");
+            ++publisherSignerCount;
+        } else {
+            if (publisherSignerCount <= publisherThreshold) revert InvalidParameter("threshold");
+            --publisherSignerCount;
+        }
+        isPublisherSigner[signer] = enabled;
+        emit PublisherSignerUpdated(signer, enabled);
+    }
+
+    /**
+     * @notice Set how many members of the publisher set must sign claims above the single-signer limits
+     * @param threshold Required signatures, 2..publisherSignerCount (0 = no threshold, limits are not enforced)
+     */
+    function setPublisherThreshold(uint8 threshold) external onlyFactoryTimelock {
+        if (threshold == 1 || threshold > publisherSignerCount) revert InvalidParameter("threshold");
+        emit PublisherThresholdUpdated(publisherThreshold, threshold);
+        publisherThreshold = threshold;
+    }
+
+    /**
+     * @notice Set the amounts of a token payable with a single publisher signature
+     * @param token Token address
+     * @param perClaim Largest claim payable with a single signature (0 = no per-claim limit)
+     * @param perDay Daily volume across every pool payable with single signatures or proofs (0 = no daily limit)
+     */
+    function setThresholdLimits(address token, uint128 perClaim, uint128 perDay) external onlyFactoryTimelock {
+        if (token == address(0)) revert InvalidParameter("token");
+        thresholdLimits[token] = ThresholdLimits({perClaim: perClaim, perDay: perDay});
+        emit ThresholdLimitsUpdated(token, perClaim, perDay);
+    }
+
+    /**
+     * @notice Get the current publisher and the single-signer limits applying to a token
+     * @dev Read on every claim: previous publishers are checked through isValidPublisherSignature() only when needed
+     * @param token Pool token
+     * @return current Current active publisher
+     * @return perClaimLimit Largest claim payable with a single signature (0 = no limit)
+     * @return perDayLimit Daily volume across every pool payable with single signatures (0 = no limit)
+     */
+    function getPublisherPolicy(
+        address token
+    ) external view returns (address current, uint256 perClaimLimit, uint256 perDayLimit) {
+        current = _currentPublisher();
+        if (publisherThreshold != 0) {
+            ThresholdLimits memory limits = thresholdLimits[token];
+            (perClaimLimit, perDayLimit) = (limits.perClaim, limits.perDay);
+        }
+    }
+
+    /**
+     * @notice Count a single-signer payout in the daily volume of its token, shared by every pool (pools only)
+     * @dev Called by pools once the amount is within the per-claim limit; a compromised publisher key can pay at most
+     *      perDayLimit per token per day across the whole factory
+     * @param token Token paid
+     * @param amount Amount paid with a single publisher signature or proof
+     * @return exceeded Whether the amount needs the publisher set threshold (not counted then)
+     */
+    function spendSingleSignerVolume(address token, uint256 amount) external returns (bool exceeded) {
+        if (!isPool[msg.sender]) revert Unauthorized("pool");
+        uint256 perDayLimit = publisherThreshold == 0 ? 0 : thresholdLimits[token].perDay;
+        if (perDayLimit == 0) return false;
+
+        uint64 today = uint64(block.timestamp / 1 days);
+        DailyVolume memory volume = singleSignerVolume[token];
+        uint256 spent = (volume.day == today ? volume.amount : 0) + amount;
+        if (spent > perDayLimit) return true;
+        singleSignerVolume[token] = DailyVolume({day: today, amount: uint192(spent)});
+    }
+
+    /**
+     * @notice Check an aggregated signature of the publisher set
+     * @dev `signature` is abi.encode(address[] signers, bytes[] signatures) with signers in strictly ascending
+     *      order (no duplicates), all in the set, each signature valid for the digest (ECDSA or ERC-1271)
+     * @param digest EIP-712 digest of the voucher (bound to the pool's domain)
+     * @param signature Aggregated signature
+     * @return Whether at least publisherThreshold members signed
+     */
+    function isValidThresholdSignature(bytes32 digest, bytes calldata signature) external view returns (bool) {
+        uint256 threshold = publisherThreshold;
+        if (threshold == 0) return false;
+
+        (address[] memory signers, bytes[] memory signatures) = abi.decode(signature, (address[], bytes[]));
+        uint256 signersLength = signers.length;
+        if (signersLength < threshold || signersLength != signatures.length) return false;
+
+        address previous = address(0);
+        for (uint256 i = 0; i < signersLength; ) {
+            address signer = signers[i];
+            if (
+                signer <= previous ||
+                !isPublisherSigner[signer] ||
+                !SignatureChecker.isValidSignatureNow(signer, digest, signatures[i])
+            ) return false;
+            previous = signer;
+            unchecked {
+                ++i;
+            }
+        }
+        return true;
+    }
+
+    // ----------- Claim Authorizations ----------- //
+    /**
+     * @notice Set the caller's claim recipient and delegate (for accounts that can call directly, e.g. smart wallets)
+     * @param recipient Recipient of the caller's payouts in every pool (0 = the caller itself)
+     * @param delegate Address allowed to change the recipient later (0 = none)
+     */
+    function authorizeClaims(address recipient, address delegate) external {
+        _setClaimAuthorization(msg.sender, recipient, delegate);
+    }
+
+    /**
+     * @notice Set an account's claim recipient and delegate with its EIP-712 signature (relayable)
+     * @dev Smart-contract accounts sign through ERC-1271. Each signature consumes the account's current nonce (nonces),
+     *      so a newer authorization (or an explicit reset to zero addresses) supersedes older ones
+     * @param account Account whose claims are redirected
+     * @param recipient Recipient of the account's payouts in every pool (0 = the account itself)
+     * @param delegate Address allowed to change the recipient later (0 = none)
+     * @param deadline Signature expiry timestamp
+     * @param signature Account's EIP-712 ClaimAuthorization signature
+     */
+    function authorizeClaimsWithSig(
+        address account,
+        address recipient,
+        address delegate,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert SecurityViolation("deadline");
+
+        uint256 nonce = _useNonce(account); // nonces(account): signed authorizations are single-use
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(CLAIM_AUTHORIZATION_TYPEHASH, account, recipient, delegate, nonce, deadline))
+        );
+        if (!SignatureChecker.isValidSignatureNow(account, digest, signature)) revert SecurityViolation("signature");
+
+        _setClaimAuthorization(account, recipient, delegate);
+    }
+
+    /**
+     * @notice Change an account's claim recipient (account or its delegate; the delegate is kept)
+     * @param account Account whose claims are redirected
+     * @param recipient New recipient (0 = the account itself)
+     */
+    function setClaimRecipient(address account, address recipient) external {
+        address delegate = claimAuthorizations[account].delegate;
+        if (msg.sender != account && (delegate == address(0) || msg.sender != delegate)) {
+            revert Unauthorized("delegate");
+        }
+        _setClaimAuthorization(account, recipient, delegate);
+    }
+
+    /**
+     * @notice Resolve where an account's payouts go
+     * @param account Account of the claim
+     * @return Recipient set by the account, or the account itself
+     */
+    function claimRecipient(address account) external view returns (address) {
+        address recipient = claimAuthorizations[account].recipient;
+        return recipient == address(0) ? account : recipient;
+    }
+
+    /**
+     * @notice Approve or revoke a router for aggregated payouts
+     * @dev CRITICAL: Pools pay approved routers the full claim (net and fee) and trust them to forward it to the
+     *      account's recipient and the treasury - only approve audited ClaimRouter deployments
+     * @param router ClaimRouter address
+     * @param approved Whether pools may pay claims to the router
+     */
+    function setClaimAggregator(address router, bool approved) external onlyFactoryTimelock {
+        if (router == address(0)) revert InvalidParameter("router");
+        claimAggregators[router] = approved;
+        emit ClaimAggregatorUpdated(router, approved);
+    }
+
+    /**
+     * @notice Store an account's claim authorization
+     * @param account Account whose claims are redirected
+     * @param recipient Recipient (0 = the account itself)
+     * @param delegate Delegate (0 = none)
+     */
+    function _setClaimAuthorization(address account, address recipient, address delegate) internal {
+        claimAuthorizations[account] = ClaimAuthorization({recipient: recipient, delegate: delegate});
+        emit ClaimAuthorizationUpdated(account, recipient, delegate);
     }
 
     // ----------- Emergency Controls ----------- //
@@ -345,17 +1318,3 @@ contract RewardPoolFactory is AccessControl, Pausable, ReentrancyGuard {
         _unpause();
     }
 }
-
-/**
- * @title IRewardPoolImplementation
- * @notice Interface for reward pool implementation initialization
- * @author CLONES
- */
-interface IRewardPoolImplementation {
-    /// @notice Initialize the reward pool implementation
-    /// @param token Token address for rewards
-    /// @param platformTreasury Treasury address for fees
-    /// @param factory Factory address for governance
-    /// @param creator Creator address for governance
-    function initialize(address token, address platformTreasury, address factory, address creator) external;
-}
@@ -10,8 +10,10 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
-import {IRewardPoolImplementation} from "./RewardPoolFactory.sol";
-import {IVaultClaim} from "./ClaimRouter.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {IRewardPoolImplementation} from "./interfaces/IRewardPoolImplementation.sol";
+import {IVaultClaim, IMerkleVaultClaim} from "./ClaimRouter.sol";
+import {ISignatureTransfer} from "./interfaces/ISignatureTransfer.sol";
 
 /**
  * @title RewardPoolImplementation
@@ -28,7 +30,8 @@ contract RewardPoolImplementation is
     EIP712Upgradeable,
     ERC165Upgradeable,
     IRewardPoolImplementation,
-    IVaultClaim
+    IVaultClaim,
+    IMerkleVaultClaim
 {
     using SafeERC20 for IERC20;
 
@@ -39,26 +42,37 @@ contract RewardPoolImplementation is
     error SecurityViolation(string check);
 
     // ----------- Constants ----------- //
-    /// @notice Platform fee in basis points (10%)
-    uint16 public constant FEE_BPS = 1000; // 10% fixed globally
+    /// @notice Canonical Permit2 deployment (same address on every chain)
+    address public constant PERMIT2 = 0x000000000022D473030F116dDEE9F6B43aC78BA3;
     /// @notice Grace period for publisher rotation
     uint256 public constant PUBLISHER_GRACE_PERIOD = 7 days;
     /// @notice Grace period before emergency sweep can be executed
     uint256 public constant EMERGENCY_SWEEP_GRACE_PERIOD = 180 days;
 
-    uint256 private constant FEE_DENOMINATOR = 10000;
+    /// @notice Delay between a creator withdrawal request and its execution
+    uint256 public constant WITHDRAWAL_DELAY = 3 days;
+    /// @notice Maximum vesting cliff and duration
+    uint256 public constant MAX_VESTING_PERIOD = 4 * 365 days;
 
-    /// @notice EIP-712 type hash for Claim struct (computed once for gas efficiency)
-    bytes32 private constant CLAIM_TYPEHASH = keccak256("Claim(address account,uint256 cumulativeAmount)");
+    /// @notice Basis points denominator for fee computation
+    uint256 public constant FEE_DENOMINATOR = 10000;
+
+    /// @notice EIP-712 type hash for Claim struct (public for off-chain SDK self-checks)
+    bytes32 public constant CLAIM_TYPEHASH =
+        keccak256("Claim(address account,uint256 cumulativeAmount,uint256 deadline)");
+    /// @notice EIP-712 type hash for the publisher's committed liability (total cumulative amount signed)
+    bytes32 public constant LIABILITY_TYPEHASH = keccak256("Liability(uint256 totalCumulativeAmount)");
 
     // ----------- State Variables ----------- //
     struct PoolConfig {
         address token; // 20 bytes
         address platformTreasury; // 20 bytes
         address factory; // 20 bytes - overflow to slot 1
+        uint48 vestingCliff; // 6 bytes - packed with factory (read on every claim anyway)
+        uint48 vestingDuration; // 6 bytes - packed with factory
         uint256 lastClaimTimestamp; // Full uint256 to prevent 2106 overflow
     }
-    /// @notice Pool configuration struct containing token, treasury, factory addresses and timestamp
+    /// @notice Pool configuration struct containing token, treasury, factory addresses, vesting and timestamp
     PoolConfig public poolConfig;
 
     /// @notice Address of the pool creator (who can withdraw funds)
@@ -72,12 +86,42 @@ contract RewardPoolImplementation is
     /// @notice Total amount already claimed by all users
     uint256 public globalAlreadyClaimed; // Total amount already claimed by all users
 
+    // Vesting state (only used when the creator configured a vesting schedule)
+    struct VestingBalance {
+        uint128 total; // Cumulative net amount granted
+        uint128 released; // Cumulative amount released to the account
+        uint64 start; // Amount-weighted start of linear vesting
+        uint64 firstGrant; // Cliff anchor
+    }
+    /// @notice Vesting balance per account
+    mapping(address => VestingBalance) public vestingBalances;
+    /// @notice Total granted but not yet released amount (excluded from creator withdrawals)
+    uint256 public totalUnreleased;
+
+    // Creator withdrawal safety
+    struct WithdrawalRequest {
+        uint128 amount; // Requested amount
+        uint64 executableAt; // Earliest execution timestamp (0 = no request)
+    }
+    /// @notice Pending creator withdrawal request
+    WithdrawalRequest public pendingWithdrawal;
+    /// @notice Publisher-committed total cumulative amount of all signed vouchers (claimed or not)
+    uint256 public committedLiability;
+
     // Emergency sweep state
     /// @notice Timestamp when emergency sweep notice was initiated
     uint256 public emergencyNoticeTimestamp; // On-chain notice timestamp
     /// @notice Mandatory notice period before emergency sweep can be executed
     uint256 public constant EMERGENCY_NOTICE_PERIOD = 7 days; // Mandatory notice period
 
+    // Merkle distribution state
+    /// @notice Publisher-posted root of cumulative (account, cumulativeAmount) entitlements
+    bytes32 public merkleRoot; // Latest cumulative distribution root
+    /// @notice Epoch of the current Merkle root (strictly increasing)
+    uint256 public merkleEpoch; // Latest distribution epoch
+    /// @notice Factory publisherRevocations when the current Merkle root was posted
+    uint16 public merkleRootRevocations; // Root rejected once the factory revokes its publisher
+
     // ----------- Modifiers ----------- //
     modifier onlyFactoryTimelock() {
         if (msg.sender != IRewardPoolFactory(poolConfig.factory).TIMELOCK()) revert Unauthorized("timelock");
@@ -89,6 +133,12 @@ contract RewardPoolImplementation is
         _;
     }
 
+    modifier onlyFactoryPublisher() {
+        (address currentPublisher, , ) = IRewardPoolFactory(poolConfig.factory).getPublisherInfo();
+        if (msg.sender != currentPublisher) revert Unauthorized("publisher");
+        _;
+    }
+
     // ----------- Constructor ----------- //
     /// @notice Constructor disables initializers to prevent direct initialization
     constructor() {
@@ -125,6 +175,8 @@ contract RewardPoolImplementation is
             token: token_,
             platformTreasury: platformTreasury_,
             factory: factory_,
+            vestingCliff: 0,
+            vestingDuration: 0,
             lastClaimTimestamp: block.timestamp
         });
 
@@ -188,20 +240,105 @@ contract RewardPoolImplementation is
     }
 
     /**
-     * @notice Withdraw funds from the pool (creator only)
-     * @param amount Amount to withdraw
+     * @notice Fund with a Permit2 SignatureTransfer (for tokens without EIP-2612)
+     * @dev Requires a prior token approval to Permit2; the signed spender is this pool and the signed amount must equal `amount`
+     * @param amount Amount to fund
+     * @param nonce Permit2 unordered nonce
+     * @param deadline Permit deadline
+     * @param signature Permit2 PermitTransferFrom signature of msg.sender
      */
-    function withdraw(uint256 amount) external nonReentrant whenNotPaused {
+    function fundWithPermit2(
+        uint256 amount,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused {
+        address rewardToken = poolConfig.token;
+        uint256 balanceBefore = IERC20(rewardToken).balanceOf(address(this));
+        ISignatureTransfer(PERMIT2).permitTransferFrom(
+            ISignatureTransfer.PermitTransferFrom({
+                permitted: ISignatureTransfer.TokenPermissions({token: rewardToken, amount: amount}),
+                nonce: nonce,
+                deadline: deadline
+            }),
+            ISignatureTransfer.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+            msg.sender,
+            signature
+        );
+
+        // Anti fee-on-transfer: same post-check as _performFund
+        if (IERC20(rewardToken).balanceOf(address(this)) - balanceBefore != amount)
+            revert SecurityViolation("token_transfer");
+
+        emit Funded(msg.sender, rewardToken, amount);
+    }
+
+    // ----------- Withdrawal Functions ----------- //
+    /**
+     * @notice Request a withdrawal of excess funds (creator only, replaces any pending request)
+     * @dev The delay lets the publisher commit liabilities for signed vouchers before funds can leave
+     * @param amount Amount to withdraw (must not exceed withdrawableAmount)
+     */
+    function requestWithdrawal(uint256 amount) external whenNotPaused {
         if (msg.sender != creator) revert Unauthorized("creator");
         if (amount == 0) revert InvalidParameter("amount");
+        if (amount > withdrawableAmount()) revert InvalidParameter("balance");
 
-        IERC20 tokenContract = IERC20(poolConfig.token);
-        uint256 balance = tokenContract.balanceOf(address(this));
-        if (balance < amount) revert InvalidParameter("balance");
+        uint64 executableAt = uint64(block.timestamp + WITHDRAWAL_DELAY);
+        pendingWithdrawal = WithdrawalRequest({amount: uint128(amount), executableAt: executableAt});
 
-        tokenContract.safeTransfer(creator, amount);
+        emit WithdrawalRequested(creator, amount, executableAt);
+    }
 
-        emit Withdrawn(creator, poolConfig.token, amount);
+    /**
+     * @notice Execute the pending withdrawal after the delay (creator only)
+     * @dev Re-checks the excess at execution: liabilities committed during the delay take precedence
+     */
+    function executeWithdrawal() external nonReentrant whenNotPaused {
+        if (msg.sender != creator) revert Unauthorized("creator");
+        WithdrawalRequest memory request = pendingWithdrawal;
+        if (request.executableAt == 0) revert InvalidParameter("no_request");
+        if (block.timestamp < request.executableAt) revert SecurityViolation("withdrawal_delay");
+        if (request.amount > withdrawableAmount()) revert InvalidParameter("balance");
+
+        delete pendingWithdrawal;
+
+        IERC20(poolConfig.token).safeTransfer(creator, request.amount);
+
+        emit Withdrawn(creator, poolConfig.token, request.amount);
+    }
+
+    /**
+     * @notice Cancel the pending withdrawal (creator only)
+     */
+    function cancelWithdrawal() external {
+        if (msg.sender != creator) revert Unauthorized("creator");
+        uint256 amount = pendingWithdrawal.amount;
+        if (amount == 0) revert InvalidParameter("no_request");
+
+        delete pendingWithdrawal;
+
+        emit WithdrawalCancelled(creator, amount);
+    }
+
+    /**
+     * @notice Commit the publisher-signed total cumulative amount of all vouchers issued for this pool
+     * @dev Permissionless relay of a publisher signature; the commitment only grows (cumulative) unless the
+     *      timelock resets it. Capped at what the pool can pay (claimed + balance). Not a payout: the single-signer
+     *      limits and daily volume only apply to the claims paying it out
+     * @param totalCumulativeAmount Sum of the latest cumulative amount signed for every account
+     * @param signature Publisher's EIP-712 Liability signature, or the publisher set's aggregated one
+     */
+    function commitLiability(uint256 totalCumulativeAmount, bytes calldata signature) external whenNotPaused {
+        uint256 previous = committedLiability;
+        uint256 cap = globalAlreadyClaimed + IERC20(poolConfig.token).balanceOf(address(this));
+        uint256 committed = totalCumulativeAmount < cap ? totalCumulativeAmount : cap;
+        if (committed <= previous) revert InvalidParameter("liability");
+        _validatePublisherSignature(keccak256(abi.encode(LIABILITY_TYPEHASH, totalCumulativeAmount)), signature, 0);
+
+        committedLiability = committed;
+
+        emit LiabilityCommitted(committed);
     }
 
     // ----------- Claim Functions ----------- //
@@ -209,6 +346,7 @@ contract RewardPoolImplementation is
      * @notice Pay rewards with EIP-712 signature (cumulative pattern)
      * @param account Account to pay (≠ msg.sender with Router)
      * @param cumulativeAmount Total cumulative amount due
+     * @param deadline Signature expiry timestamp (0 = no expiry)
      * @param signature Publisher's EIP-712 signature
      * @return gross Total amount claimed this transaction
      * @return fee Platform fee deducted
@@ -217,39 +355,217 @@ contract RewardPoolImplementation is
     function payWithSig(
         address account,
         uint256 cumulativeAmount,
+        uint256 deadline,
         bytes calldata signature
     ) external nonReentrant whenNotPaused returns (uint256 gross, uint256 fee, uint256 net) {
+        _verifyVoucher(account, cumulativeAmount, deadline, signature);
+        (gross, fee, net) = _settleClaim(account, cumulativeAmount, address(0));
+    }
+
+    /**
+     * @notice Pay a voucher to an approved router that forwards the payout (aggregated payouts)
+     * @dev The whole claim (net and fee) goes to msg.sender in one transfer; the router pays the account's
+     *      recipient and the treasury once per batch. Not available while claims vest
+     * @param account Account to pay
+     * @param cumulativeAmount Total cumulative amount due
+     * @param deadline Signature expiry timestamp (0 = no expiry)
+     * @param signature Publisher's EIP-712 signature
+     * @return gross Total amount claimed this transaction (transferred to the router)
+     * @return fee Platform fee the router must forward to the treasury
+     * @return net Net amount the router must forward to the account's recipient
+     * @return treasury Platform treasury of the pool
+     */
+    function payWithSigToRouter(
+        address account,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused returns (uint256 gross, uint256 fee, uint256 net, address treasury) {
+        if (!IRewardPoolFactory(poolConfig.factory).claimAggregators(msg.sender)) revert Unauthorized("router");
+        if (_vestingEnabled()) revert InvalidParameter("vesting");
+
+        _verifyVoucher(account, cumulativeAmount, deadline, signature);
+        (gross, fee, net) = _settleClaim(account, cumulativeAmount, msg.sender);
+        treasury = poolConfig.platformTreasury;
+    }
+
+    /**
+     * @notice Check a voucher's deadline, amount and publisher signature
+     * @param account Account to pay
+     * @param cumulativeAmount Total cumulative amount due
+     * @param deadline Signature expiry timestamp (0 = no expiry)
+     * @param signature Publisher's EIP-712 signature
+     */
+    function _verifyVoucher(
+        address account,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        bytes calldata signature
+    ) internal {
+        // Expired vouchers are dead even if never superseded (revocation of leaked signatures)
+        if (deadline != 0 && block.timestamp > deadline) revert SecurityViolation("deadline");
         if (cumulativeAmount <= alreadyClaimed[account]) revert AlreadyExists("claim");
 
+        _validatePublisherSignature(
+            keccak256(abi.encode(CLAIM_TYPEHASH, account, cumulativeAmount, deadline)),
+            signature,
+            cumulativeAmount - alreadyClaimed[account]
+        );
+    }
+
+    /**
+     * @notice Verify that a struct was signed by the factory publisher (or the old one during grace)
+     * @dev EOA publishers are checked with ECDSA; smart-contract publishers (Safe, smart accounts) through
+     *      ERC-1271, tried only when ECDSA does not match so EOA claims make no extra call. Amounts above the
+     *      factory single-signer limits need an aggregated signature of the publisher set instead (accepted for
+     *      non-payout messages too)
+     * @param structHash EIP-712 struct hash
+     * @param signature Publisher's EIP-712 signature (ECDSA or ERC-1271), or the publisher set's aggregated one
+     * @param amount Amount paid on this signature (0 for non-payout messages)
+     */
+    function _validatePublisherSignature(bytes32 structHash, bytes calldata signature, uint256 amount) internal {
         // EIP-712 signature verification (uses OZ EIP712 inheritance)
-        bytes32 structHash = keccak256(abi.encode(CLAIM_TYPEHASH, account, cumulativeAmount));
         bytes32 digest = _hashTypedDataV4(structHash); // OZ EIP712 handles domain + chainId
-        address signer = ECDSA.recover(digest, signature);
+        IRewardPoolFactory factory = IRewardPoolFactory(poolConfig.factory);
 
         // Centralized publisher validation via factory authority
         // SCALABLE: One factory update affects ALL vaults (no per-vault rotation)
-        {
-            (address currentPublisher, address oldPublisher, uint256 graceEndTime) = IRewardPoolFactory(
-                poolConfig.factory
-            ).getPublisherInfo();
-            bool validSigner = (signer == currentPublisher) ||
-                (graceEndTime > 0 && block.timestamp < graceEndTime && signer == oldPublisher);
-            if (!validSigner) revert SecurityViolation("signature");
+        (address currentPublisher, uint256 perClaimLimit, uint256 perDayLimit) = factory.getPublisherPolicy(
+            poolConfig.token
+        );
+        if (currentPublisher == address(0)) revert SecurityViolation("publisher_revoked"); // Emergency revocation
+
+        // M-of-N: one compromised publisher key cannot pay more than the single-signer limits
+        if (_exceedsSingleSignerLimits(factory, amount, perClaimLimit, perDayLimit)) {
+            if (!_isValidThresholdSignature(factory, digest, signature)) revert SecurityViolation("threshold");
+            return;
+        }
+
+        // Current EOA publisher checked here; previous publishers in grace and ERC-1271 ones by the factory
+        (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, signature);
+        if (err == ECDSA.RecoverError.NoError && signer == currentPublisher) return;
+        if (factory.isValidPublisherSignature(digest, signature)) return;
+        // Non-payout messages (liabilities) may also carry the publisher set's signature
+        if (amount != 0 || !_isValidThresholdSignature(factory, digest, signature)) {
+            revert SecurityViolation("signature");
+        }
+    }
+
+    /**
+     * @notice Check an aggregated signature of the publisher set through the factory
+     * @param factory Pool factory
+     * @param digest EIP-712 digest
+     * @param signature Aggregated signature
+     * @return Whether at least the factory threshold of publisher set members signed
+     */
+    function _isValidThresholdSignature(
+        IRewardPoolFactory factory,
+        bytes32 digest,
+        bytes calldata signature
+    ) internal view returns (bool) {
+        try factory.isValidThresholdSignature(digest, signature) returns (bool valid) {
+            return valid;
+        } catch {
+            // Malformed aggregates (e.g. a single publisher signature) revert while decoding
+            return false;
         }
+    }
+
+    /**
+     * @notice Check an amount against the single-signer limits and count it in the factory's daily volume if it fits
+     * @dev The daily volume is shared by every pool of the factory (RewardPoolFactory.spendSingleSignerVolume)
+     * @param factory Pool factory
+     * @param amount Amount paid (0 = not a payout)
+     * @param perClaimLimit Largest claim payable with a single signature (0 = no limit)
+     * @param perDayLimit Daily volume payable with single signatures (0 = no limit)
+     * @return Whether the amount needs the publisher set threshold
+     */
+    function _exceedsSingleSignerLimits(
+        IRewardPoolFactory factory,
+        uint256 amount,
+        uint256 perClaimLimit,
+        uint256 perDayLimit
+    ) internal returns (bool) {
+        if (amount == 0) return false;
+        if (perClaimLimit != 0 && amount > perClaimLimit) return true;
+        return perDayLimit != 0 && factory.spendSingleSignerVolume(poolConfig.token, amount);
+    }
+
+    /**
+     * @notice Claim rewards with a Merkle proof against the publisher-posted cumulative root
+     * @dev Shares alreadyClaimed/alreadyFeePaid accounting with payWithSig (both are cumulative)
+     * @param account Account to pay (≠ msg.sender with Router)
+     * @param cumulativeAmount Total cumulative amount due in the current distribution
+     * @param proof Merkle proof of (account, cumulativeAmount) inclusion
+     * @return gross Total amount claimed this transaction
+     * @return fee Platform fee deducted
+     * @return net Net amount transferred to account
+     */
+    function claimWithProof(
+        address account,
+        uint256 cumulativeAmount,
+        bytes32[] calldata proof
+    ) external nonReentrant whenNotPaused returns (uint256 gross, uint256 fee, uint256 net) {
+        bytes32 root = merkleRoot;
+        if (root == bytes32(0)) revert InvalidParameter("merkle_root");
+        if (cumulativeAmount <= alreadyClaimed[account]) revert AlreadyExists("claim");
+
+        // Double-hashed leaf (OpenZeppelin standard tree) prevents second preimage attacks
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, cumulativeAmount))));
+        if (!MerkleProof.verifyCalldata(proof, root, leaf)) revert SecurityViolation("proof");
 
-        // Calculate amount to pay with cumulative fee precision
-        gross = cumulativeAmount - alreadyClaimed[account]; // newAmount
+        // Roots posted before an emergency revocation may come from the leaked key, even after a new publisher
+        IRewardPoolFactory factory = IRewardPoolFactory(poolConfig.factory);
+        if (factory.publisherRevocations() != merkleRootRevocations) revert SecurityViolation("publisher_revoked");
+
+        // Roots are posted by a single publisher key: amounts above its limits must use threshold vouchers
+        (, uint256 perClaimLimit, uint256 perDayLimit) = factory.getPublisherPolicy(poolConfig.token);
+        if (
+            _exceedsSingleSignerLimits(factory, cumulativeAmount - alreadyClaimed[account], perClaimLimit, perDayLimit)
+        ) {
+            revert SecurityViolation("threshold");
+        }
+
+        (gross, fee, net) = _settleClaim(account, cumulativeAmount, address(0));
+    }
+
+    /**
+     * @notice Internal payout logic shared by signature and Merkle claims
+     * @param account Account to pay
+     * @param cumulativeAmount Verified cumulative amount due
+     * @param router Router receiving the whole claim to forward it (0 = pay the account and treasury directly)
+     * @return gross Total amount claimed this transaction
+     * @return fee Platform fee deducted
+     * @return net Net amount transferred to account
+     */
+    function _settleClaim(
+        address account,
+        uint256 cumulativeAmount,
+        address router
+    ) internal returns (uint256 gross, uint256 fee, uint256 net) {
+        uint256 previousAmount = alreadyClaimed[account];
+        gross = cumulativeAmount - previousAmount; // newAmount
+        bool vesting = _vestingEnabled();
 
         {
-            uint256 cumulativeFeeDue = (cumulativeAmount * FEE_BPS) / FEE_DENOMINATOR;
-            fee = cumulativeFeeDue - alreadyFeePaid[account]; // feeForThisClaim
+            // Cumulative fee precision: rounding telescopes over cumulative amounts, so at a constant rate the
+            // fees paid always equal cumulativeAmount * feeBps / FEE_DENOMINATOR; rate changes apply to the delta
+            uint256 currentFeeBps = feeBps();
+            fee =
+                (cumulativeAmount * currentFeeBps) /
+                FEE_DENOMINATOR -
+                (previousAmount * currentFeeBps) /
+                FEE_DENOMINATOR; // feeForThisClaim
             net = gross - fee;
 
-            if (IERC20(poolConfig.token).balanceOf(address(this)) < gross) revert InvalidParameter("balance");
+            // Unreleased vesting balances are already spoken for (always 0 without a schedule)
+            uint256 reserved = vesting ? totalUnreleased : 0;
+            if (IERC20(poolConfig.token).balanceOf(address(this)) < gross + reserved)
+                revert InvalidParameter("balance");
 
             // Effects before interactions
             alreadyClaimed[account] = cumulativeAmount;
-            alreadyFeePaid[account] = cumulativeFeeDue; // Track cumulative fees paid
+            alreadyFeePaid[account] += fee; // Track cumulative fees paid
         }
 
         globalAlreadyClaimed += gross;
@@ -257,13 +573,132 @@ contract RewardPoolImplementation is
 
         // Interactions: transfer to account FIRST, then treasury for atomicity
         // If account transfer fails, treasury doesn't get fee (prevents inconsistent state)
-        IERC20(poolConfig.token).safeTransfer(account, net);
-        if (fee > 0) IERC20(poolConfig.token).safeTransfer(poolConfig.platformTreasury, fee);
+        if (router != address(0)) {
+            IERC20(poolConfig.token).safeTransfer(router, gross); // Router forwards net and fee (aggregated payouts)
+        } else {
+            if (vesting) {
+                _grantVesting(account, net); // Net amount unlocks over time, fee is due on grant
+            } else {
+                _payAccount(account, net);
+            }
+            if (fee > 0) IERC20(poolConfig.token).safeTransfer(poolConfig.platformTreasury, fee);
+        }
 
         // Single event for The Graph efficiency
         emit ClaimedMinimal(account, poolConfig.token, cumulativeAmount);
     }
 
+    // ----------- Vesting Functions ----------- //
+    /**
+     * @notice Configure the pool vesting schedule (creator only, before the first claim)
+     * @dev Claimed net amounts then vest linearly over `duration` after a `cliff` anchored on the first grant
+     * @param cliff Seconds after an account's first grant before anything can be released
+     * @param duration Linear vesting duration in seconds (0 = everything unlocks at the cliff)
+     */
+    function setVestingSchedule(uint48 cliff, uint48 duration) external {
+        if (msg.sender != creator) revert Unauthorized("creator");
+        if (globalAlreadyClaimed != 0) revert SecurityViolation("claims_started");
+        if (cliff > MAX_VESTING_PERIOD || duration > MAX_VESTING_PERIOD) revert InvalidParameter("vesting");
+
+        poolConfig.vestingCliff = cliff;
+        poolConfig.vestingDuration = duration;
+
+        emit VestingScheduleUpdated(cliff, duration);
+    }
+
+    /**
+     * @notice Release the vested amount of an account (permissionless, pays the account)
+     * @param account Account to release for
+     * @return amount Amount released
+     */
+    function release(address account) external nonReentrant whenNotPaused returns (uint256 amount) {
+        VestingBalance storage balance = vestingBalances[account];
+        amount = _vestedAmount(balance, block.timestamp) - balance.released;
+        if (amount == 0) revert InvalidParameter("releasable");
+
+        balance.released += uint128(amount);
+        totalUnreleased -= amount;
+
+        _payAccount(account, amount);
+
+        emit Released(account, poolConfig.token, amount);
+    }
+
+    /**
+     * @notice Transfer a payout to the account, or to the recipient it authorized in the factory
+     * @param account Account of the claim
+     * @param amount Amount to pay
+     */
+    function _payAccount(address account, uint256 amount) internal {
+        address recipient = IRewardPoolFactory(poolConfig.factory).claimRecipient(account);
+        IERC20(poolConfig.token).safeTransfer(recipient, amount);
+        if (recipient != account) emit ClaimRedirected(account, recipient, amount);
+    }
+
+    /**
+     * @notice Add a net claim amount to an account's vesting balance
+     * @dev The start is moved to the amount-weighted average of all grants, which keeps the amount vested
+     *      at grant time unchanged (vested never decreases) while new grants vest over the remaining period
+     * @param account Account to grant
+     * @param amount Net amount granted
+     */
+    function _grantVesting(address account, uint256 amount) internal {
+        VestingBalance storage balance = vestingBalances[account];
+        uint256 total = balance.total;
+        if (total == 0) {
+            balance.firstGrant = uint64(block.timestamp);
+            balance.start = uint64(block.timestamp);
+        } else {
+            balance.start = uint64((balance.start * total + block.timestamp * amount) / (total + amount));
+        }
+        balance.total = uint128(total + amount);
+        totalUnreleased += amount;
+
+        emit VestingGranted(account, poolConfig.token, amount);
+    }
+
+    /**
+     * @notice Compute the vested amount of a vesting balance at a timestamp
+     * @param balance Vesting balance
+     * @param timestamp Timestamp to evaluate
+     * @return Vested amount (released included)
+     */
+    function _vestedAmount(VestingBalance memory balance, uint256 timestamp) internal view returns (uint256) {
+        uint256 total = balance.total;
+        if (total == 0 || timestamp < balance.firstGrant + poolConfig.vestingCliff) return 0;
+
+        uint256 duration = poolConfig.vestingDuration;
+        uint256 elapsed = timestamp > balance.start ? timestamp - balance.start : 0;
+        if (elapsed >= duration) return total;
+        return (total * elapsed) / duration;
+    }
+
+    /**
+     * @notice Whether claims of this pool vest instead of paying out immediately
+     * @return True if a vesting schedule is configured
+     */
+    function _vestingEnabled() internal view returns (bool) {
+        return poolConfig.vestingCliff != 0 || poolConfig.vestingDuration != 0;
+    }
+
+    // ----------- Publisher Functions ----------- //
+    /**
+     * @notice Post a new cumulative Merkle root (current factory publisher only)
+     * @dev Roots are cumulative: each one supersedes the previous, already claimed amounts are never paid twice
+     * @param root Merkle root of (account, cumulativeAmount) leaves
+     * @param epoch Distribution epoch (must be greater than the current one)
+     */
+    function setMerkleRoot(bytes32 root, uint256 epoch) external onlyFactoryPublisher {
+        if (root == bytes32(0)) revert InvalidParameter("merkle_root");
+        if (epoch <= merkleEpoch) revert InvalidParameter("epoch");
+
+        merkleRoot = root;
+        merkleEpoch = epoch;
+        merkleRootRevocations = IRewardPoolFactory(poolConfig.factory).publisherRevocations();
+
+        emit MerkleRootUpdated(epoch, root);
+    }
+
     // ----------- Governance Functions ----------- //
     /**
      * @notice Update platform treasury
@@ -276,6 +711,17 @@ contract RewardPoolImplementation is
         emit PlatformTreasuryUpdated(oldTreasury, newTreasury);
     }
 
+    /**
+     * @notice Lower the committed liability (e.g. after commitments signed with a leaked publisher key)
+     * @param totalCumulativeAmount New committed liability (below the current one, 0 to clear it)
+     */
+    function resetLiability(uint256 totalCumulativeAmount) external onlyFactoryTimelock {
+        uint256 previous = committedLiability;
+        if (totalCumulativeAmount >= previous) revert InvalidParameter("liability");
+        committedLiability = totalCumulativeAmount;
+        emit LiabilityReset(previous, totalCumulativeAmount);
+    }
+
     // ----------- Emergency Functions ----------- //
     /**
      * @notice Initiate emergency sweep notice (custodial governance escape hatch)
@@ -354,6 +800,71 @@ contract RewardPoolImplementation is
         return poolConfig.platformTreasury;
     }
 
+    /**
+     * @notice Get the platform fee currently applied to this pool (resolved by the factory fee schedule)
+     * @return Fee in basis points
+     */
+    function feeBps() public view returns (uint256) {
+        return IRewardPoolFactory(poolConfig.factory).getFeeBps(address(this), creator);
+    }
+
+    /**
+     * @notice Get the committed liability not yet claimed
+     * @return Outstanding signed amount (committedLiability - globalAlreadyClaimed, floored at 0)
+     */
+    function outstandingLiability() public view returns (uint256) {
+        uint256 claimed = globalAlreadyClaimed;
+        return committedLiability > claimed ? committedLiability - claimed : 0;
+    }
+
+    /**
+     * @notice Get the balance the creator can withdraw (excess over liabilities and vesting balances)
+     * @return Withdrawable amount
+     */
+    function withdrawableAmount() public view returns (uint256) {
+        uint256 balance = IERC20(poolConfig.token).balanceOf(address(this));
+        uint256 reserved = outstandingLiability() + totalUnreleased;
+        return balance > reserved ? balance - reserved : 0;
+    }
+
+    /**
+     * @notice Get the vesting schedule of this pool
+     * @return cliff Cliff in seconds after the first grant
+     * @return duration Linear vesting duration in seconds
+     */
+    function vestingSchedule() external view returns (uint48 cliff, uint48 duration) {
+        return (poolConfig.vestingCliff, poolConfig.vestingDuration);
+    }
+
+    /**
+     * @notice Get the vested amount of an account (released included)
+     * @param account Account address
+     * @return Vested amount
+     */
+    function vestedAmount(address account) external view returns (uint256) {
+        return _vestedAmount(vestingBalances[account], block.timestamp);
+    }
+
+    /**
+     * @notice Get the amount of an account that is still locked
+     * @param account Account address
+     * @return Locked amount
+     */
+    function lockedAmount(address account) external view returns (uint256) {
+        VestingBalance memory balance = vestingBalances[account];
+        return balance.total - _vestedAmount(balance, block.timestamp);
+    }
+
+    /**
+     * @notice Get the amount an account can release now
+     * @param account Account address
+     * @return Releasable amount
+     */
+    function releasableAmount(address account) external view returns (uint256) {
+        VestingBalance memory balance = vestingBalances[account];
+        return _vestedAmount(balance, block.timestamp) - balance.released;
+    }
+
     /**
      * @notice Get last claim timestamp
      * @return Last claim timestamp
@@ -369,7 +880,10 @@ contract RewardPoolImplementation is
      * @return bool Whether interface is supported
      */
     function supportsInterface(bytes4 interfaceId) public view virtual override(ERC165Upgradeable) returns (bool) {
-        return interfaceId == type(IVaultClaim).interfaceId || super.supportsInterface(interfaceId);
+        return
+            interfaceId == type(IVaultClaim).interfaceId ||
+            interfaceId == type(IMerkleVaultClaim).interfaceId ||
+            super.supportsInterface(interfaceId);
     }
 
     // ----------- Events ----------- //
@@ -392,6 +906,54 @@ contract RewardPoolImplementation is
     /// @param cumulativeAmount Total cumulative amount claimed by this account
     event ClaimedMinimal(address indexed account, address indexed token, uint256 indexed cumulativeAmount);
 
+    /// @notice Emitted when a payout goes to the account's authorized recipient instead of the account
+    /// @param account Account of the claim
+    /// @param recipient Recipient set in the factory claim authorizations
+    /// @param amount Amount paid to the recipient
+    event ClaimRedirected(address indexed account, address indexed recipient, uint256 indexed amount);
+
+    /// @notice Emitted when the creator requests a withdrawal
+    /// @param creator Pool creator
+    /// @param amount Requested amount
+    /// @param executableAt Earliest execution timestamp
+    event WithdrawalRequested(address indexed creator, uint256 indexed amount, uint256 indexed executableAt);
+
+    /// @notice Emitted when the creator cancels a pending withdrawal
+    /// @param creator Pool creator
+    /// @param amount Cancelled amount
+    event WithdrawalCancelled(address indexed creator, uint256 indexed amount);
+
+    /// @notice Emitted when a publisher-signed liability is committed
+    /// @param totalCumulativeAmount Total cumulative amount of all signed vouchers
+    event LiabilityCommitted(uint256 indexed totalCumulativeAmount);
+
+    /// @notice Emitted when the timelock lowers the committed liability
+    /// @param oldLiability Previous committed liability
+    /// @param newLiability New committed liability
+    event LiabilityReset(uint256 indexed oldLiability, uint256 indexed newLiability);
+
+    /// @notice Emitted when the creator configures the vesting schedule
+    /// @param cliff Cliff in seconds after the first grant
+    /// @param duration Linear vesting duration in seconds
+    event VestingScheduleUpdated(uint48 indexed cliff, uint48 indexed duration);
+
+    /// @notice Emitted when a claimed net amount is added to an account's vesting balance
+    /// @param account Account granted
+    /// @param token Token address
+    /// @param amount Net amount granted
+    event VestingGranted(address indexed account, address indexed token, uint256 indexed amount);
+
+    /// @notice Emitted when vested tokens are released to an account
+    /// @param account Account paid
+    /// @param token Token address
+    /// @param amount Amount released
+    event Released(address indexed account, address indexed token, uint256 indexed amount);
+
+    /// @notice Emitted when the publisher posts a new cumulative Merkle root
+    /// @param epoch Distribution epoch
+    /// @param root Merkle root of cumulative entitlements
+    event MerkleRootUpdated(uint256 indexed epoch, bytes32 indexed root);
+
     /// @notice Emitted when platform treasury address is updated
     /// @param oldTreasury Previous treasury address
     /// @param newTreasury New treasury address
@@ -415,12 +977,55 @@ contract RewardPoolImplementation is
 interface IRewardPoolFactory {
     /// @notice Get current publisher information including grace period
     /// @return current Current active publisher address
-    /// @return old Previous publisher address during grace period
-    /// @return graceEnd Timestamp when grace period ends
+    /// @return old Most recent previous publisher still in its grace period
+    /// @return graceEnd Timestamp when its grace period ends
     function getPublisherInfo() external view returns (address current, address old, uint256 graceEnd);
+    /// @notice Get the current publisher and the single-signer limits applying to a token
+    /// @param token Pool token
+    /// @return current Current active publisher address
+    /// @return perClaimLimit Largest claim payable with a single signature (0 = no limit)
+    /// @return perDayLimit Daily volume across every pool payable with single signatures (0 = no limit)
+    function getPublisherPolicy(
+        address token
+    ) external view returns (address current, uint256 perClaimLimit, uint256 perDayLimit);
+    /// @notice Count a single-signer payout in the factory-wide daily volume of its token (pools only)
+    /// @param token Token paid
+    /// @param amount Amount paid with a single publisher signature or proof
+    /// @return exceeded Whether the amount needs the publisher set threshold (not counted then)
+    function spendSingleSignerVolume(address token, uint256 amount) external returns (bool exceeded);
+    /// @notice Check a single publisher signature against the current publisher and the ones in grace
+    /// @param digest EIP-712 digest of the voucher
+    /// @param signature Publisher signature (ECDSA or ERC-1271)
+    /// @return Whether a publisher accepted at this block signed the digest
+    function isValidPublisherSignature(bytes32 digest, bytes calldata signature) external view returns (bool);
+    /// @notice Number of guardian emergency revocations
+    /// @return Revocation count (Merkle roots posted before the latest one are rejected)
+    function publisherRevocations() external view returns (uint16);
+    /// @notice Check an aggregated signature of the publisher set (M-of-N)
+    /// @param digest EIP-712 digest of the voucher
+    /// @param signature abi.encode(address[] signers, bytes[] signatures), signers ascending
+    /// @return Whether at least the threshold of publisher set members signed
+    function isValidThresholdSignature(bytes32 digest, bytes calldata signature) external view returns (bool);
     /// @notice Get guardian information
     /// @return Guardian address
     function getGuardianInfo() external view returns (address);
+    /// @notice Resolve the platform fee of a pool from the factory fee schedule
+    /// @param pool Pool address
+    /// @param creator Creator of the pool
+    /// @return feeBps Fee in basis points
+    function getFeeBps(address pool, address creator) external view returns (uint16 feeBps);
+    /// @notice Resolve where an account's payouts go (claim authorizations)
+    /// @param account Account of the claim
+    /// @return Recipient set by the account, or the account itself
+    function claimRecipient(address account) external view returns (address);
+    /// @notice Check whether a router may receive claim payouts to forward them (automatic getter)
+    /// @param router Router address
+    /// @return Whether the router is approved for aggregated payouts
+    function claimAggregators(address router) external view returns (bool);
+    /// @notice Check whether a token is on the factory allow-list (automatic getter)
+    /// @param token Token address
+    /// @return Whether the token is allowed
+    function allowedTokens(address token) external view returns (bool);
     /// @notice Get timelock address (automatic getter)
     /// @return Timelock address
     function TIMELOCK() external view returns (address);
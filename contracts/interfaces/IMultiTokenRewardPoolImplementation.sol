@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.30;
+
+/**
+ * @title IMultiTokenRewardPoolImplementation
+ * @notice Interface for multi-token reward pool implementation initialization
+ * @author CLONES
+ */
+interface IMultiTokenRewardPoolImplementation {
+    /// @notice Initialize the multi-token reward pool implementation
+    /// @param tokens Token addresses for rewards
+    /// @param platformTreasury Treasury address for fees
+    /// @param factory Factory address for governance
+    /// @param creator Creator address for governance
+    function initialize(address[] calldata tokens, address platformTreasury, address factory, address creator) external;
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.30;
+
+/**
+ * @title IRewardPoolImplementation
+ * @notice Interface for reward pool implementation initialization
+ * @author CLONES
+ */
+interface IRewardPoolImplementation {
+    /// @notice Initialize the reward pool implementation
+    /// @param token Token address for rewards
+    /// @param platformTreasury Treasury address for fees
+    /// @param factory Factory address for governance
+    /// @param creator Creator address for governance
+    function initialize(address token, address platformTreasury, address factory, address creator) external;
+}
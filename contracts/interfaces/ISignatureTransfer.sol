@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/**
+ * @title ISignatureTransfer
+ * @notice Interface for the SignatureTransfer half of Permit2 (canonical deployment on every supported chain).
+ * @dev The signed message binds the token, maximum amount, nonce, deadline and spender (msg.sender of the
+ *      transfer), but not the recipient: the spender chooses `to` in the transfer details.
+ * @author Uniswap Labs
+ */
+interface ISignatureTransfer {
+    /// @notice Thrown when the requested amount exceeds the signed maximum.
+    /// @param maxAmount The maximum amount the owner signed for.
+    error InvalidAmount(uint256 maxAmount);
+
+    /// @notice Thrown when the number of permitted tokens and transfer details differ.
+    error LengthMismatch();
+
+    /// @notice The token and amount details for a transfer signed in the permit transfer signature.
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    /// @notice The signed permit message for a single token transfer.
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /// @notice Specifies the recipient address and amount for batched transfers.
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    /// @notice The signed permit message for multiple token transfers.
+    struct PermitBatchTransferFrom {
+        TokenPermissions[] permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /**
+     * @notice Get the EIP-712 domain separator.
+     * @return The domain separator.
+     */
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+
+    /**
+     * @notice Get a bitmap of used nonces (bit n of word w is nonce w * 256 + n).
+     * @param owner The owner of the nonces.
+     * @param word The bitmap word position.
+     * @return The bitmap.
+     */
+    function nonceBitmap(address owner, uint256 word) external view returns (uint256);
+
+    /**
+     * @notice Transfer a token using a signed permit message.
+     * @param permit The permit data signed over by the owner.
+     * @param transferDetails The spender's requested transfer details.
+     * @param owner The owner of the tokens to transfer.
+     * @param signature The signature to verify.
+     */
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+
+    /**
+     * @notice Transfer multiple tokens using a single signed permit message.
+     * @param permit The permit data signed over by the owner.
+     * @param transferDetails The spender's requested transfer details, one per permitted token.
+     * @param owner The owner of the tokens to transfer.
+     * @param signature The signature to verify.
+     */
+    function permitTransferFrom(
+        PermitBatchTransferFrom calldata permit,
+        SignatureTransferDetails[] calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+}
@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+// solhint-disable use-natspec
+
+/// @title MockMisreportingVault
+/// @notice A pool lookalike that reports router payouts it never transferred, for testing purposes.
+/// @dev Clonable like a pool implementation: initialize() has the RewardPoolImplementation signature.
+/// @author CLONES
+contract MockMisreportingVault {
+    /// @notice Token the vault claims to pay.
+    address public token;
+
+    /// @notice Treasury reported with each payout.
+    address public platformTreasury;
+
+    /// @notice Factory the vault claims to belong to.
+    address public factory;
+
+    /// @notice Set the reported token, treasury and factory.
+    /// @param token_ Token address.
+    /// @param platformTreasury_ Treasury address.
+    /// @param factory_ Factory address.
+    function initialize(address token_, address platformTreasury_, address factory_, address) external {
+        (token, platformTreasury, factory) = (token_, platformTreasury_, factory_);
+    }
+
+    /// @notice Report the factory set at initialization.
+    /// @return The factory address.
+    function getFactory() external view returns (address) {
+        return factory;
+    }
+
+    /// @notice Report a net payout of the whole voucher without transferring anything.
+    /// @param cumulativeAmount Amount reported as net.
+    /// @return gross Always 0 (nothing transferred).
+    /// @return fee Always 0.
+    /// @return net The voucher amount.
+    /// @return treasury The treasury set at initialization.
+    function payWithSigToRouter(
+        address,
+        uint256 cumulativeAmount,
+        uint256,
+        bytes calldata
+    ) external view returns (uint256 gross, uint256 fee, uint256 net, address treasury) {
+        return (0, 0, cumulativeAmount, platformTreasury);
+    }
+}
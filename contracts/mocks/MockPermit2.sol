@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+// solhint-disable func-name-mixedcase, gas-small-strings
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IERC1271} from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import {ISignatureTransfer} from "contracts/interfaces/ISignatureTransfer.sol";
+
+/// @title MockPermit2
+/// @notice A local implementation of Permit2 SignatureTransfer for testing purposes.
+/// @dev Same typed data, domain and unordered nonces as the canonical deployment. Holds no immutables so its
+///      runtime code can be installed at the canonical Permit2 address with hardhat_setCode.
+/// @author CLONES
+contract MockPermit2 is ISignatureTransfer {
+    using SafeERC20 for IERC20;
+
+    /// @notice Thrown when the permit deadline has passed.
+    error SignatureExpired(uint256 signatureDeadline);
+    /// @notice Thrown when the nonce was already used or invalidated.
+    error InvalidNonce();
+    /// @notice Thrown when the signature does not match the owner.
+    error InvalidSigner();
+
+    bytes32 private constant TYPE_HASH =
+        keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)");
+    bytes32 private constant NAME_HASH = keccak256("Permit2");
+    bytes32 private constant TOKEN_PERMISSIONS_TYPEHASH = keccak256("TokenPermissions(address token,uint256 amount)");
+    bytes32 private constant PERMIT_TRANSFER_FROM_TYPEHASH =
+        keccak256(
+            "PermitTransferFrom(TokenPermissions permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)"
+        );
+    bytes32 private constant PERMIT_BATCH_TRANSFER_FROM_TYPEHASH =
+        keccak256(
+            "PermitBatchTransferFrom(TokenPermissions[] permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)"
+        );
+
+    /// @inheritdoc ISignatureTransfer
+    mapping(address owner => mapping(uint256 word => uint256 bitmap)) public nonceBitmap;
+
+    /// @notice Get the EIP-712 domain separator (computed per call, see contract notes).
+    /// @return The domain separator.
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(TYPE_HASH, NAME_HASH, block.chainid, address(this)));
+    }
+
+    /// @inheritdoc ISignatureTransfer
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external {
+        if (transferDetails.requestedAmount > permit.permitted.amount) revert InvalidAmount(permit.permitted.amount);
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PERMIT_TRANSFER_FROM_TYPEHASH,
+                keccak256(abi.encode(TOKEN_PERMISSIONS_TYPEHASH, permit.permitted)),
+                msg.sender,
+                permit.nonce,
+                permit.deadline
+            )
+        );
+        _useSignature(owner, permit.nonce, permit.deadline, structHash, signature);
+
+        IERC20(permit.permitted.token).safeTransferFrom(owner, transferDetails.to, transferDetails.requestedAmount);
+    }
+
+    /// @inheritdoc ISignatureTransfer
+    function permitTransferFrom(
+        PermitBatchTransferFrom calldata permit,
+        SignatureTransferDetails[] calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external {
+        uint256 length = permit.permitted.length;
+        if (length != transferDetails.length) revert LengthMismatch();
+
+        bytes32[] memory permissionHashes = new bytes32[](length);
+        for (uint256 i; i < length; ++i) {
+            permissionHashes[i] = keccak256(abi.encode(TOKEN_PERMISSIONS_TYPEHASH, permit.permitted[i]));
+        }
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PERMIT_BATCH_TRANSFER_FROM_TYPEHASH,
+                keccak256(abi.encodePacked(permissionHashes)),
+                msg.sender,
+                permit.nonce,
+                permit.deadline
+            )
+        );
+        _useSignature(owner, permit.nonce, permit.deadline, structHash, signature);
+
+        for (uint256 i; i < length; ++i) {
+            uint256 requestedAmount = transferDetails[i].requestedAmount;
+            if (requestedAmount > permit.permitted[i].amount) revert InvalidAmount(permit.permitted[i].amount);
+            if (requestedAmount != 0) {
+                IERC20(permit.permitted[i].token).safeTransferFrom(owner, transferDetails[i].to, requestedAmount);
+            }
+        }
+    }
+
+    /// @notice Check the deadline and signature, then consume the nonce.
+    /// @param owner The owner that signed the permit.
+    /// @param nonce The unordered nonce.
+    /// @param deadline The permit deadline.
+    /// @param structHash The EIP-712 struct hash of the permit.
+    /// @param signature The signature (EOA or ERC-1271).
+    function _useSignature(
+        address owner,
+        uint256 nonce,
+        uint256 deadline,
+        bytes32 structHash,
+        bytes calldata signature
+    ) internal {
+        if (block.timestamp > deadline) revert SignatureExpired(deadline);
+
+        uint256 bit = 1 << (nonce & 0xff);
+        uint256 flipped = nonceBitmap[owner][nonce >> 8] ^= bit;
+        if (flipped & bit == 0) revert InvalidNonce();
+
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        if (owner.code.length > 0) {
+            if (IERC1271(owner).isValidSignature(digest, signature) != IERC1271.isValidSignature.selector) {
+                revert InvalidSigner();
+            }
+        } else {
+            (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, signature);
+            if (err != ECDSA.RecoverError.NoError || signer != owner) revert InvalidSigner();
+        }
+    }
+}
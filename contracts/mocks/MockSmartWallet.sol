@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+// solhint-disable avoid-low-level-calls
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IERC1271} from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+
+/// @title MockSmartWallet
+/// @notice A minimal single-owner smart contract wallet (ERC-1271) for testing purposes.
+/// @dev Signatures are valid when the owner signed the hash itself (as with typed data signed for the wallet).
+/// @author CLONES
+contract MockSmartWallet is IERC1271 {
+    /// @notice Thrown when the caller is not the owner.
+    error NotOwner();
+
+    /// @notice The owner key of the wallet.
+    address public owner;
+
+    /// @notice Initialize the wallet with its owner.
+    /// @param owner_ The owner key.
+    constructor(address owner_) {
+        owner = owner_;
+    }
+
+    /// @notice Replace the owner key (key rotation).
+    /// @param newOwner The new owner key.
+    function setOwner(address newOwner) external {
+        if (msg.sender != owner) revert NotOwner();
+        owner = newOwner;
+    }
+
+    /// @notice Call a contract as the wallet.
+    /// @param target The contract to call.
+    /// @param data The calldata.
+    /// @return result The returned data.
+    function execute(address target, bytes calldata data) external returns (bytes memory result) {
+        if (msg.sender != owner) revert NotOwner();
+        bool success;
+        (success, result) = target.call(data);
+        if (!success) {
+            assembly ("memory-safe") {
+                revert(add(result, 0x20), mload(result))
+            }
+        }
+    }
+
+    /// @notice Check a signature against the owner key.
+    /// @param hash The signed hash.
+    /// @param signature The owner's signature.
+    /// @return The ERC-1271 magic value if valid, 0xffffffff otherwise.
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(hash, signature);
+        return
+            err == ECDSA.RecoverError.NoError && signer == owner ? this.isValidSignature.selector : bytes4(0xffffffff);
+    }
+}
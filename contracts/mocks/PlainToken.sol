@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title PlainToken
+/// @notice Minimal mintable ERC20 without permit support (EIP-2612) for testing Permit2 funding
+/// @author CLONES
+contract PlainToken is ERC20 {
+    /// @notice Initialize PlainToken
+    /// @param name_ Token name
+    /// @param symbol_ Token symbol
+    constructor(string memory name_, string memory symbol_) ERC20(name_, symbol_) {}
+
+    /// @notice Mint tokens to an address
+    /// @param to Address to mint tokens to
+    /// @param amount Amount of tokens to mint
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
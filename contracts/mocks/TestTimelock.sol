@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import {TimelockController} from "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/// @title TestTimelock
+/// @notice OpenZeppelin TimelockController deployable in tests as the factory and router TIMELOCK
+/// @author CLONES
+contract TestTimelock is TimelockController {
+    /// @notice Initialize TestTimelock
+    /// @param minDelay Minimum delay of scheduled operations
+    /// @param proposers Addresses allowed to schedule and cancel
+    /// @param executors Addresses allowed to execute (address(0) = anyone)
+    /// @param admin Optional admin (address(0) = self-administered)
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {}
+}
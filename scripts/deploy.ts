@@ -0,0 +1,57 @@
+import { artifacts, ethers, network } from "hardhat";
+import { DeployResult, loadDeploySpec, runDeployment } from "./utils/deploy-pipeline";
+
+/**
+ * Declarative deployment of the factory system
+ * Reads deploy-config/<network>.json, diffs it against deployments/<network>.json and on-chain state,
+ * and runs only the missing steps (safe to re-run after a partial failure)
+ *
+ * Environment:
+ *   DEPLOY_DRY_RUN=true  Print the plan without sending transactions
+ */
+export async function deploySystem(configureOnly: boolean) {
+    const [deployer] = await ethers.getSigners();
+    const spec = await loadDeploySpec(network.name);
+    const dryRun = process.env.DEPLOY_DRY_RUN === "true";
+
+    console.log(`🚀 Factory System ${configureOnly ? "Setup" : "Deployment"}${dryRun ? " (dry run)" : ""}`);
+    console.log("Network:", network.name);
+    console.log("Chain ID:", spec.chainId);
+    console.log("Deployer:", deployer.address);
+    console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)));
+
+    const result = await runDeployment(spec, {
+        signer: deployer,
+        networkName: network.name,
+        artifacts,
+        deploy: !configureOnly,
+        dryRun,
+        log: console.log
+    });
+    printSummary(result, dryRun);
+}
+
+function printSummary(result: DeployResult, dryRun: boolean) {
+    console.log("\n📊 Deployment Summary");
+    console.log("=".repeat(60));
+    for (const [name, address] of Object.entries(result.addresses)) console.log(`${name}: ${address}`);
+    console.log(
+        `${dryRun ? "Planned" : "Executed"}: ${result.executed.length} step(s), up to date: ${result.skipped.length}`
+    );
+    for (const step of result.executed) console.log(`  ${dryRun ? "•" : "✅"} ${step.description}`);
+
+    if (result.governance.length > 0) {
+        console.log(`\n🏛️  ${result.governance.length} step(s) require the timelock:`);
+        for (const step of result.governance) console.log(`  • ${step.description}`);
+    }
+    console.log("=".repeat(60));
+}
+
+if (require.main === module) {
+    deploySystem(false)
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error("❌ Deployment failed:", error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,12 @@
+import { deploySystem } from "./deploy";
+
+/**
+ * Apply the configuration of deploy-config/<network>.json to an existing deployment
+ * Same pipeline as deploy.ts without deployment steps - fails if a contract is missing from the registry
+ */
+deploySystem(true)
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("❌ Setup failed:", error);
+        process.exit(1);
+    });
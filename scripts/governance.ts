@@ -0,0 +1,111 @@
+import { ethers, network } from "hardhat";
+import { promises as fs } from "fs";
+import path from "path";
+import { readRegistry } from "./utils";
+import { factoryAddress as registryFactoryAddress } from "./utils/registry";
+import {
+    GovernanceAction,
+    buildSafeBatch,
+    buildTimelockProposal,
+    formatDiff,
+    prepareAction,
+    readTimelockDelay
+} from "./utils/governance";
+
+/**
+ * Governance proposal generator
+ * Encodes TIMELOCK-gated actions, validates their preconditions and writes TimelockController + Safe batches
+ *
+ * Environment:
+ *   GOVERNANCE_ACTIONS  JSON file with an array of actions, e.g. [{ "action": "setTokenAllowed", "token": "0x...", "allowed": true }]
+ *   GOVERNANCE_SAFE     Safe that proposes/executes on the timelock (defaults to the TIMELOCK itself for direct Safe calls)
+ *   GOVERNANCE_SALT     Timelock operation salt (default: keccak256 of the actions file)
+ *   GOVERNANCE_OUT      Output directory (default proposals/<network>)
+ *   GOVERNANCE_FORCE    "true" to write proposals despite failed preconditions
+ */
+async function main() {
+    const actionsPath = process.env.GOVERNANCE_ACTIONS;
+    if (!actionsPath)
+        throw new Error("Usage: GOVERNANCE_ACTIONS=<actions.json> npm run governance -- --network <network>");
+
+    const raw = await fs.readFile(path.resolve(process.cwd(), actionsPath), "utf8");
+    const actions: GovernanceAction[] = JSON.parse(raw);
+    const name = path.basename(actionsPath, path.extname(actionsPath));
+
+    const registry = await readRegistry(network.name);
+    const factoryAddress = registryFactoryAddress(registry);
+
+    const factory = await ethers.getContractAt("RewardPoolFactory", factoryAddress);
+    const timelock = await factory.TIMELOCK();
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const delay = await readTimelockDelay(timelock, ethers.provider);
+    const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+    console.log("🏛️  Governance Proposal");
+    console.log("Network:", network.name);
+    console.log("Factory:", factoryAddress);
+    console.log("Timelock:", timelock, delay > 0n ? `(min delay ${delay}s)` : "(direct calls)");
+
+    const ctx = { factory: factoryAddress, router: registry.contracts.ClaimRouter?.address, provider: ethers.provider };
+    const calls = [];
+    for (const action of actions) calls.push(await prepareAction(ctx, action, now + delay));
+
+    console.log(`\n${formatDiff(calls)}\n`);
+
+    const failed = calls.filter((call) => call.errors.length > 0).length;
+    if (failed > 0 && process.env.GOVERNANCE_FORCE !== "true") {
+        throw new Error(`${failed} action(s) failed preconditions - fix them or set GOVERNANCE_FORCE=true`);
+    }
+
+    const outDir = path.resolve(process.cwd(), process.env.GOVERNANCE_OUT ?? path.join("proposals", network.name));
+    await fs.mkdir(outDir, { recursive: true });
+    const write = async (file: string, data: unknown) => {
+        const p = path.join(outDir, file);
+        await fs.writeFile(
+            p,
+            JSON.stringify(data, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2) + "\n",
+            "utf8"
+        );
+        console.log(`💾 ${p}`);
+    };
+    const description = calls.map((call) => call.description).join("; ");
+
+    if (delay === 0n) {
+        // TIMELOCK is a Safe (or EOA): the calls are submitted directly
+        await write(
+            `${name}.safe.json`,
+            buildSafeBatch(
+                chainId,
+                timelock,
+                name,
+                description,
+                calls.map((call) => ({ to: call.target, value: call.value, data: call.data }))
+            )
+        );
+        return;
+    }
+
+    const salt = process.env.GOVERNANCE_SALT ?? ethers.keccak256(ethers.toUtf8Bytes(raw));
+    const proposal = buildTimelockProposal(timelock, calls, delay, now, salt);
+    const safe = process.env.GOVERNANCE_SAFE ?? timelock;
+
+    await write(`${name}.timelock.json`, { ...proposal, calls });
+    await write(
+        `${name}-schedule.safe.json`,
+        buildSafeBatch(chainId, safe, `${name} (schedule)`, description, [proposal.schedule])
+    );
+    await write(
+        `${name}-execute.safe.json`,
+        buildSafeBatch(chainId, safe, `${name} (execute)`, description, [proposal.execute])
+    );
+    console.log(
+        `\nOperation ${proposal.operationId} executable from ${new Date(Number(proposal.earliestExecution) * 1000).toISOString()}`
+    );
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("❌ Proposal failed:", error);
+        process.exit(1);
+    });
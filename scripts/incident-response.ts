@@ -0,0 +1,51 @@
+import { ethers, network } from "hardhat";
+import { readRegistry } from "./utils";
+import { factoryAddress as registryFactoryAddress, poolAddresses } from "./utils/registry";
+import { respondToPublisherCompromise } from "./utils/incident-response";
+
+/**
+ * Publisher compromise incident response
+ * Revokes every publisher key (RewardPoolFactory.emergencyRevokePublishers) and pauses every pool of
+ * deployments/<network>.json from the first configured signer, which must be the factory GUARDIAN
+ * Recovery goes through the timelock: initiatePublisherRotation to a new key, then unpause the pools
+ *
+ * Environment:
+ *   INCIDENT_EXTRA_POOLS  Comma-separated pools to pause in addition to the registry ones
+ */
+async function main() {
+    const [guardian] = await ethers.getSigners();
+
+    const registry = await readRegistry(network.name);
+    const factoryAddress = registryFactoryAddress(registry);
+    const extra = (process.env.INCIDENT_EXTRA_POOLS ?? "")
+        .split(",")
+        .map((pool) => pool.trim())
+        .filter((pool) => pool.length > 0);
+    const pools = [...new Set([...poolAddresses(registry), ...extra].map((pool) => ethers.getAddress(pool)))];
+
+    console.log("🚨 Incident Response");
+    console.log("Network:", network.name);
+    console.log("Factory:", factoryAddress);
+    console.log("Guardian:", guardian.address);
+    console.log("Pools:", pools.length);
+
+    const report = await respondToPublisherCompromise(factoryAddress, pools, guardian, (step) =>
+        console.log(`  ${step}`)
+    );
+
+    const failed = report.pools.filter((pool) => pool.status === "failed");
+    console.log(
+        `\n✅ Publisher ${report.revokedPublisher ?? "already"} revoked, ${report.pools.length - failed.length}/${pools.length} pools paused`
+    );
+    if (failed.length > 0) {
+        for (const pool of failed) console.error(`❌ ${pool.pool}: ${pool.error}`);
+        throw new Error(`${failed.length} pool(s) could not be paused`);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("❌ Incident response failed:", error);
+        process.exit(1);
+    });
@@ -0,0 +1,35 @@
+import { promises as fs } from "fs";
+import { findLegacyRegistryFiles, loadRegistry, saveRegistry } from "./utils/registry";
+
+/**
+ * Rewrite legacy deployment files in the current registry schema
+ * Usage: npm run registry:migrate -- <network> [<network> ...] [--prune]
+ * --prune removes the legacy files once deployments/<network>.json is written
+ */
+async function main() {
+    const argv = process.argv.slice(2);
+    const prune = argv.includes("--prune");
+    const networks = argv.filter((arg) => !arg.startsWith("--"));
+    if (networks.length === 0) throw new Error("Usage: npm run registry:migrate -- <network> [...] [--prune]");
+
+    for (const network of networks) {
+        const registry = await loadRegistry(network);
+        await saveRegistry(registry);
+        console.log(`✅ deployments/${network}.json (chain ${registry.chainId})`);
+        console.log(`   Contracts: ${Object.keys(registry.contracts).join(", ") || "none"}`);
+
+        if (prune) {
+            for (const legacy of await findLegacyRegistryFiles(network)) {
+                await fs.unlink(legacy);
+                console.log(`   Removed ${legacy}`);
+            }
+        }
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("❌ Migration failed:", error);
+        process.exit(1);
+    });
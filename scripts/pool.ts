@@ -0,0 +1,165 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { IERC20Metadata__factory } from "../typechain-types";
+import { readRegistry, writeRegistry } from "./utils";
+import { DeploymentRegistry, factoryAddress, tokenAddress } from "./utils/registry";
+import { approvePermit2 } from "./utils/permit2";
+import {
+    cancelWithdrawal,
+    createPool,
+    createPoolBatch,
+    executeWithdrawal,
+    formatPoolReport,
+    fundPool,
+    inspectPool,
+    parsePoolCommand,
+    predictNextPool,
+    requestWithdrawal
+} from "./utils/pool-lifecycle";
+
+/**
+ * Pool lifecycle CLI for creators (addresses resolved from deployments/<network>.json)
+ *
+ * Usage: HARDHAT_NETWORK=<network> npm run pool -- <command> [flags]
+ *   predict            --token <symbol|address>
+ *   create             --token <symbol|address> [--amount <units>] [--label <registry label>]
+ *   create-batch       --file <batch.json> [--no-permit]   ([{ "token", "amount", "label"? }, ...])
+ *   fund               --pool <label|address> --amount <units> [--no-permit]
+ *   approve-permit2    --token <symbol|address>   (once per token, enables Permit2 funding)
+ *   request-withdrawal --pool <label|address> [--amount <units>]   (default: everything withdrawable)
+ *   execute-withdrawal --pool <label|address>
+ *   cancel-withdrawal  --pool <label|address>
+ *   inspect            --pool <label|address>
+ * Amounts are in whole token units (e.g. 1000.5)
+ */
+
+function resolveToken(registry: DeploymentRegistry, token: string): string {
+    return ethers.isAddress(token) ? ethers.getAddress(token) : tokenAddress(registry, token);
+}
+
+function resolvePool(registry: DeploymentRegistry, pool: string): string {
+    if (ethers.isAddress(pool)) return ethers.getAddress(pool);
+    const entry = registry.pools[pool];
+    if (!entry) throw new Error(`No pool "${pool}" in the ${registry.network} registry`);
+    return entry.address;
+}
+
+async function parseAmount(token: string, amount: string): Promise<bigint> {
+    const decimals = await IERC20Metadata__factory.connect(token, ethers.provider).decimals();
+    return ethers.parseUnits(amount, decimals);
+}
+
+async function defaultPoolLabel(token: string, creator: string, nonce: bigint): Promise<string> {
+    const symbol = await IERC20Metadata__factory.connect(token, ethers.provider).symbol();
+    return `${symbol.toLowerCase()}Pool-${creator.slice(2, 8)}-${nonce}`;
+}
+
+async function main() {
+    const command = parsePoolCommand(process.argv.slice(2));
+    const [signer] = await ethers.getSigners();
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const registry = await readRegistry(network.name, chainId);
+
+    console.log("🏊 Pool CLI");
+    console.log("Network:", network.name, `(${chainId})`);
+    console.log("Signer:", signer.address);
+
+    switch (command.command) {
+        case "predict": {
+            const token = resolveToken(registry, command.token);
+            const prediction = await predictNextPool(factoryAddress(registry), signer.address, token, ethers.provider);
+            console.log(`🔮 Next pool (nonce ${prediction.nonce}): ${prediction.pool}`);
+            console.log(`   Salt: ${prediction.salt}`);
+            break;
+        }
+        case "create": {
+            const token = resolveToken(registry, command.token);
+            const amount = command.amount ? await parseAmount(token, command.amount) : 0n;
+            const created = await createPool(factoryAddress(registry), signer, token, amount);
+            console.log(`✅ Pool created at ${created.pool} (nonce ${created.nonce}, tx ${created.receipt.hash})`);
+
+            const label = command.label ?? (await defaultPoolLabel(token, signer.address, created.nonce));
+            registry.pools[label] = { address: created.pool, token, creator: signer.address };
+            await writeRegistry(network.name, registry);
+            console.log(`📝 Recorded as pools.${label}`);
+            break;
+        }
+        case "create-batch": {
+            const entries: Array<{ token: string; amount: string; label?: string }> = JSON.parse(
+                await fs.readFile(path.resolve(process.cwd(), command.file), "utf8")
+            );
+            const pools = [];
+            for (const entry of entries) {
+                const token = resolveToken(registry, entry.token);
+                pools.push({ token, amount: await parseAmount(token, entry.amount) });
+            }
+
+            const batch = await createPoolBatch(factoryAddress(registry), signer, pools, command.permit);
+            console.log(
+                `✅ ${batch.pools.length} pools created (tx ${batch.receipt.hash}, ${batch.permit2 ? "Permit2 signature" : `${batch.permits} permits, ${batch.approvals} approvals`})`
+            );
+            for (const [i, created] of batch.pools.entries()) {
+                const label =
+                    entries[i].label ?? (await defaultPoolLabel(created.token, signer.address, created.nonce));
+                registry.pools[label] = { address: created.pool, token: created.token, creator: signer.address };
+                console.log(`   pools.${label}: ${created.pool}`);
+            }
+            await writeRegistry(network.name, registry);
+            break;
+        }
+        case "fund": {
+            const pool = resolvePool(registry, command.pool);
+            const report = await inspectPool(pool, ethers.provider);
+            const result = await fundPool(
+                pool,
+                signer,
+                await parseAmount(report.token, command.amount),
+                command.permit
+            );
+            console.log(
+                `✅ Funded ${command.amount} ${report.symbol} via ${result.method}${result.approved ? " (approved first)" : ""}`
+            );
+            break;
+        }
+        case "approve-permit2": {
+            const token = resolveToken(registry, command.token);
+            const approved = await approvePermit2(signer, token);
+            console.log(approved ? `✅ Permit2 approved for ${token}` : `ℹ️ Permit2 already approved for ${token}`);
+            break;
+        }
+        case "request-withdrawal": {
+            const pool = resolvePool(registry, command.pool);
+            const { token } = await inspectPool(pool, ethers.provider);
+            const amount = command.amount ? await parseAmount(token, command.amount) : undefined;
+            const request = await requestWithdrawal(pool, signer, amount);
+            console.log(
+                `⏳ Withdrawal of ${request.amount} requested, executable at ${new Date(Number(request.executableAt) * 1000).toISOString()}`
+            );
+            break;
+        }
+        case "execute-withdrawal": {
+            const { amount } = await executeWithdrawal(resolvePool(registry, command.pool), signer);
+            console.log(`✅ Withdrew ${amount}`);
+            break;
+        }
+        case "cancel-withdrawal": {
+            await cancelWithdrawal(resolvePool(registry, command.pool), signer);
+            console.log("✅ Withdrawal cancelled");
+            break;
+        }
+        case "inspect": {
+            console.log(
+                "\n" + formatPoolReport(await inspectPool(resolvePool(registry, command.pool), ethers.provider))
+            );
+            break;
+        }
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("❌ Pool command failed:", error.message ?? error);
+        process.exit(1);
+    });
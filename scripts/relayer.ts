@@ -0,0 +1,62 @@
+import { ethers, network } from "hardhat";
+import { readRegistry } from "./utils";
+import { routerAddress as registryRouterAddress } from "./utils/registry";
+import { createRelayer, createRelayerServer } from "./utils/relayer";
+
+/**
+ * Gas-sponsored claim relayer
+ * Accepts signed ClaimData over HTTP and submits ClaimRouter.claimAll batches from the first configured signer
+ *
+ * Environment:
+ *   CLAIM_ROUTER_ADDRESS  ClaimRouter address (defaults to the ClaimRouter entry of deployments/<network>.json)
+ *   RELAYER_PORT          HTTP port (default 8787)
+ *   RELAYER_INTERVAL_MS   Flush interval in milliseconds (default 30000, 0 = flush only via POST /flush)
+ */
+async function main() {
+    const [sponsor] = await ethers.getSigners();
+
+    const routerAddress = process.env.CLAIM_ROUTER_ADDRESS ?? registryRouterAddress(await readRegistry(network.name));
+
+    const port = Number(process.env.RELAYER_PORT ?? 8787);
+    const intervalMs = Number(process.env.RELAYER_INTERVAL_MS ?? 30000);
+
+    const router = await ethers.getContractAt("ClaimRouter", routerAddress, sponsor);
+    const relayer = createRelayer(router);
+    const server = createRelayerServer(relayer);
+
+    console.log("🛰️  Claim Relayer");
+    console.log("Network:", network.name);
+    console.log("ClaimRouter:", routerAddress);
+    console.log("Sponsor:", sponsor.address);
+    console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(sponsor.address)));
+
+    if (intervalMs > 0) {
+        let flushing = false;
+        setInterval(async () => {
+            const unconfirmed = relayer.batches().some((batch) => batch.status === "pending");
+            if (flushing || (relayer.pending().length === 0 && !unconfirmed)) return;
+            flushing = true;
+            try {
+                const { batches, dropped } = await relayer.flush();
+                for (const batch of batches) {
+                    console.log(
+                        `Batch #${batch.id}: ${batch.status} ${batch.txHash ?? batch.error} (${batch.successful}/${batch.claims.length})`
+                    );
+                }
+                if (dropped.length > 0) console.log(`Dropped ${dropped.length} claim(s) after simulation`);
+            } catch (error) {
+                console.error("❌ Flush failed:", error);
+            } finally {
+                flushing = false;
+            }
+        }, intervalMs);
+    }
+
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    console.log(`✅ Listening on http://localhost:${port}`);
+}
+
+main().catch((error) => {
+    console.error("❌ Relayer failed:", error);
+    process.exit(1);
+});
@@ -1,5 +1,6 @@
 import { promises as fs } from "fs";
 import path from "path";
+import { DeploymentRegistry, loadRegistry, saveRegistry } from "./utils/registry";
 
 export async function parseArgs(input?: string): Promise<any[]> {
     if (!input) return [];
@@ -20,19 +21,16 @@ export async function loadArgsFileOrEmpty(filePath?: string): Promise<any[]> {
     return JSON.parse(raw);
 }
 
-export async function readRegistry(networkName: string) {
-    const p = path.resolve(process.cwd(), "deployments", `${networkName}.json`);
-    try {
-        const raw = await fs.readFile(p, "utf8");
-        return JSON.parse(raw);
-    } catch {
-        return { contracts: {} as Record<string, { address: string; args?: any[]; txHash?: string; impl?: string }> };
-    }
+/**
+ * Load deployments/<network>.json (legacy files are migrated, see utils/registry.ts)
+ */
+export async function readRegistry(networkName: string, chainId?: number): Promise<DeploymentRegistry> {
+    return loadRegistry(networkName, chainId);
 }
 
-export async function writeRegistry(networkName: string, data: any) {
-    const dir = path.resolve(process.cwd(), "deployments");
-    await fs.mkdir(dir, { recursive: true });
-    const p = path.resolve(dir, `${networkName}.json`);
-    await fs.writeFile(p, JSON.stringify(data, null, 2) + "\n", "utf8");
+/**
+ * Validate and write deployments/<network>.json in the current registry schema
+ */
+export async function writeRegistry(networkName: string, data: DeploymentRegistry) {
+    await saveRegistry({ ...data, network: networkName });
 }
@@ -0,0 +1,181 @@
+import { ethers } from "ethers";
+import { RewardPoolFactory__factory } from "../../typechain-types";
+import { isValidSignatureNow } from "./claim-signing";
+
+/**
+ * Account SDK for factory claim authorizations (payout redirection to a recipient, recipient changes by a delegate)
+ * CRITICAL: Domain, types and digest must match RewardPoolFactory.authorizeClaimsWithSig byte for byte
+ * NOTE: Smart-contract accounts are checked with ERC-1271 - sign with the key the wallet's isValidSignature
+ * accepts (e.g. its owner), the account field stays the wallet address
+ */
+
+/**
+ * EIP-712 domain name - MUST match EIP712("RewardPoolFactory", "1") in the RewardPoolFactory constructor
+ */
+export const CLAIM_AUTHORIZATION_DOMAIN_NAME = "RewardPoolFactory";
+
+/**
+ * EIP-712 domain version - MUST match EIP712("RewardPoolFactory", "1") in the RewardPoolFactory constructor
+ */
+export const CLAIM_AUTHORIZATION_DOMAIN_VERSION = "1";
+
+/**
+ * EIP-712 types for the ClaimAuthorization struct - MUST match RewardPoolFactory.CLAIM_AUTHORIZATION_TYPEHASH
+ */
+export const CLAIM_AUTHORIZATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+    ClaimAuthorization: [
+        { name: "account", type: "address" },
+        { name: "recipient", type: "address" },
+        { name: "delegate", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+    ]
+};
+
+/**
+ * Type hash derived from CLAIM_AUTHORIZATION_TYPES
+ */
+export const CLAIM_AUTHORIZATION_TYPEHASH = ethers.id(
+    ethers.TypedDataEncoder.from(CLAIM_AUTHORIZATION_TYPES).encodeType("ClaimAuthorization")
+);
+
+/**
+ * Claim authorization signed by the account
+ */
+export interface ClaimAuthorizationMessage {
+    account: string;
+    recipient: string; // ZeroAddress = pay the account itself
+    delegate: string; // ZeroAddress = no delegate
+    nonce: bigint; // RewardPoolFactory.nonces(account)
+    deadline: bigint; // Signature expiry timestamp (always enforced)
+}
+
+/**
+ * Signed authorization for ClaimRouter.authorizeAndClaimAll
+ */
+export interface ClaimAuthorizationData {
+    factory: string;
+    account: string;
+    recipient: string;
+    delegate: string;
+    deadline: bigint;
+    signature: string;
+}
+
+/**
+ * Build the EIP-712 domain of a factory
+ * @param chainId Network chain ID
+ * @param factory Factory address used as verifyingContract
+ * @returns EIP-712 domain
+ */
+export function buildFactoryDomain(chainId: ethers.BigNumberish, factory: string): ethers.TypedDataDomain {
+    return {
+        name: CLAIM_AUTHORIZATION_DOMAIN_NAME,
+        version: CLAIM_AUTHORIZATION_DOMAIN_VERSION,
+        chainId: ethers.toBigInt(chainId),
+        verifyingContract: ethers.getAddress(factory)
+    };
+}
+
+/**
+ * Compute the EIP-712 digest the factory checks the account signature against
+ * @param domain Factory domain
+ * @param authorization Claim authorization
+ * @returns EIP-712 digest
+ */
+export function computeClaimAuthorizationDigest(
+    domain: ethers.TypedDataDomain,
+    authorization: ClaimAuthorizationMessage
+): string {
+    return ethers.TypedDataEncoder.hash(domain, CLAIM_AUTHORIZATION_TYPES, authorization);
+}
+
+/**
+ * Sign a claim authorization
+ * @param signer Account key (EOA) or key accepted by the smart account's isValidSignature
+ * @param domain Factory domain
+ * @param authorization Claim authorization
+ * @returns EIP-712 signature
+ */
+export async function signClaimAuthorization(
+    signer: ethers.Signer,
+    domain: ethers.TypedDataDomain,
+    authorization: ClaimAuthorizationMessage
+): Promise<string> {
+    return await signer.signTypedData(domain, CLAIM_AUTHORIZATION_TYPES, authorization);
+}
+
+/**
+ * Sign the next claim authorization of an account (reads its nonce from the factory)
+ * @param factory Factory address
+ * @param signer Account key (see signClaimAuthorization)
+ * @param account Account whose payouts are redirected (EOA or smart account)
+ * @param recipient Recipient of the payouts (ZeroAddress = the account itself)
+ * @param delegate Address allowed to change the recipient (ZeroAddress = none)
+ * @param deadline Signature expiry timestamp
+ * @returns Signed data for authorizeClaimsWithSig or ClaimRouter.authorizeAndClaimAll
+ */
+export async function prepareClaimAuthorization(
+    factory: string,
+    signer: ethers.Signer,
+    account: string,
+    recipient: string,
+    delegate: string,
+    deadline: bigint
+): Promise<ClaimAuthorizationData> {
+    const contract = RewardPoolFactory__factory.connect(factory, signer);
+    const nonce = await contract.nonces(account);
+    const { chainId } = await signer.provider!.getNetwork();
+
+    const signature = await signClaimAuthorization(signer, buildFactoryDomain(chainId, factory), {
+        account,
+        recipient,
+        delegate,
+        nonce,
+        deadline
+    });
+    return { factory: ethers.getAddress(factory), account, recipient, delegate, deadline, signature };
+}
+
+/**
+ * Pre-flight a signed authorization before relaying it (nonce, deadline and signature)
+ * @param data Signed authorization
+ * @param provider Provider
+ * @returns Reason the factory would reject it, or undefined if it would be accepted
+ */
+export async function checkClaimAuthorization(
+    data: ClaimAuthorizationData,
+    provider: ethers.Provider
+): Promise<string | undefined> {
+    const contract = RewardPoolFactory__factory.connect(data.factory, provider);
+    const latest = await provider.getBlock("latest");
+    if (BigInt(latest!.timestamp) > data.deadline) return "Authorization expired";
+
+    const { chainId } = await provider.getNetwork();
+    const digest = computeClaimAuthorizationDigest(buildFactoryDomain(chainId, data.factory), {
+        account: data.account,
+        recipient: data.recipient,
+        delegate: data.delegate,
+        nonce: await contract.nonces(data.account),
+        deadline: data.deadline
+    });
+    if (!(await isValidSignatureNow(data.account, digest, data.signature, provider))) {
+        return "Invalid account signature (or stale nonce)";
+    }
+    return undefined;
+}
+
+/**
+ * Resolve where an account's payouts go
+ * @param factory Factory address
+ * @param account Account address
+ * @param runner Provider or signer
+ * @returns Recipient set by the account, or the account itself
+ */
+export async function resolveClaimRecipient(
+    factory: string,
+    account: string,
+    runner: ethers.ContractRunner
+): Promise<string> {
+    return await RewardPoolFactory__factory.connect(factory, runner).claimRecipient(account);
+}
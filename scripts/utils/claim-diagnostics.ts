@@ -0,0 +1,148 @@
+import { ethers } from "ethers";
+import {
+    ClaimRouter,
+    ClaimRouter__factory,
+    MultiTokenRewardPoolImplementation__factory,
+    RewardPoolImplementation__factory
+} from "../../typechain-types";
+import { ClaimData } from "./claim-signing";
+
+/**
+ * Failure diagnostics for ClaimRouter batches (ClaimFailed codes and previewClaimAll outcomes)
+ * CRITICAL: Codes are revert selectors - match on the decoded error name and argument, not on the message
+ * NOTE: The reason field is the error's string argument ("claim" for AlreadyExists("claim")), not a sentence
+ */
+
+/**
+ * Code of Error(string) reverts (require with a message)
+ */
+export const ERROR_STRING_CODE = "0x08c379a0";
+
+/**
+ * Code of Panic(uint256) reverts (arithmetic errors, failed assertions)
+ */
+export const PANIC_CODE = "0x4e487b71";
+
+/**
+ * Code of reverts without data (out of gas, call to a non-contract)
+ */
+export const EMPTY_REVERT_CODE = "0x00000000";
+
+/**
+ * Readable messages of the failures a claim can hit, keyed by "ErrorName:argument"
+ */
+export const CLAIM_FAILURE_MESSAGES: Record<string, string> = {
+    "AlreadyExists:claim": "Voucher already claimed (cumulative amount not above the claimed amount)",
+    "InvalidParameter:vault": "Not a vault (getFactory failed)",
+    "InvalidParameter:factory": "Vault factory not approved by the router",
+    "InvalidParameter:balance": "Vault balance too low to pay the claim",
+    "InvalidParameter:token": "Token not in the pool",
+    "SecurityViolation:deadline": "Voucher expired",
+    "SecurityViolation:signature": "Invalid publisher signature",
+    "SecurityViolation:publisher_revoked":
+        "Publisher keys revoked by the guardian (no publisher yet, or Merkle root posted before the revocation)",
+    "SecurityViolation:threshold": "Claim above the single-signer limits needs publisher set signatures",
+    "EnforcedPause:": "Vault paused",
+    "SafeERC20FailedOperation:": "Token transfer failed",
+    "ReentrancyGuardReentrantCall:": "Reentrant call"
+};
+
+/**
+ * Decoded claim failure
+ */
+export interface ClaimFailure {
+    code: string; // Revert selector
+    error: string; // Error name ("AlreadyExists", "Error", "Panic", "EmptyRevert", "Unknown"...)
+    reason: string; // String argument of the error (empty if none)
+    message: string; // Readable description
+}
+
+/**
+ * Outcome of one claim of a previewed batch
+ */
+export interface ClaimPreviewResult {
+    claim: ClaimData;
+    success: boolean;
+    gross: bigint;
+    fee: bigint;
+    net: bigint;
+    failure: ClaimFailure | null; // null on success
+}
+
+/**
+ * Error names by selector, from the contracts a claim goes through
+ */
+const ERROR_NAMES: Map<string, string> = (() => {
+    const names = new Map<string, string>();
+    for (const iface of [
+        RewardPoolImplementation__factory.createInterface(),
+        MultiTokenRewardPoolImplementation__factory.createInterface(),
+        ClaimRouter__factory.createInterface()
+    ]) {
+        iface.forEachError((fragment) => names.set(fragment.selector, fragment.name));
+    }
+    return names;
+})();
+
+/**
+ * Decode a ClaimFailed code and reason
+ * @param code Failure code (bytes4)
+ * @param reason Failure argument
+ * @returns Error name and readable message
+ */
+export function decodeClaimFailure(code: string, reason: string): ClaimFailure {
+    const selector = code.toLowerCase();
+    if (selector === EMPTY_REVERT_CODE) {
+        return { code: selector, error: "EmptyRevert", reason, message: "Reverted without data (out of gas?)" };
+    }
+    if (selector === ERROR_STRING_CODE) return { code: selector, error: "Error", reason, message: reason };
+    if (selector === PANIC_CODE) {
+        return { code: selector, error: "Panic", reason, message: "Panic (arithmetic error or failed assertion)" };
+    }
+
+    const error = ERROR_NAMES.get(selector);
+    if (!error) return { code: selector, error: "Unknown", reason, message: `Unknown error ${selector}` };
+    const message = CLAIM_FAILURE_MESSAGES[`${error}:${reason}`] ?? (reason ? `${error}(${reason})` : error);
+    return { code: selector, error, reason, message };
+}
+
+/**
+ * Decode the ClaimFailed events of a batch receipt
+ * @param router ClaimRouter (for its interface)
+ * @param logs Receipt logs
+ * @returns Vault, account and decoded failure of every failed claim
+ */
+export function parseClaimFailures(
+    router: ClaimRouter,
+    logs: readonly ethers.Log[]
+): Array<{ vault: string; account: string; failure: ClaimFailure }> {
+    const failures: Array<{ vault: string; account: string; failure: ClaimFailure }> = [];
+    for (const log of logs) {
+        const parsed = router.interface.parseLog(log);
+        if (parsed?.name !== "ClaimFailed") continue;
+        failures.push({
+            vault: parsed.args.vault,
+            account: parsed.args.account,
+            failure: decodeClaimFailure(parsed.args.code, parsed.args.reason)
+        });
+    }
+    return failures;
+}
+
+/**
+ * Dry-run a claimAll batch (previewClaimAll through eth_call - no tokens move)
+ * @param router ClaimRouter
+ * @param claims Batch (at most maxBatchSize claims, run in order)
+ * @returns Outcome of each claim
+ */
+export async function previewClaims(router: ClaimRouter, claims: ClaimData[]): Promise<ClaimPreviewResult[]> {
+    const previews = await router.previewClaimAll.staticCall(claims);
+    return previews.map((preview, i) => ({
+        claim: claims[i],
+        success: preview.success,
+        gross: preview.gross,
+        fee: preview.fee,
+        net: preview.net,
+        failure: preview.success ? null : decodeClaimFailure(preview.code, preview.reason)
+    }));
+}
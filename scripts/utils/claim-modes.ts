@@ -0,0 +1,102 @@
+import { ethers } from "ethers";
+import { ClaimRouter } from "../../typechain-types";
+import { ClaimFailure, ClaimPreviewResult, decodeClaimFailure, previewClaims } from "./claim-diagnostics";
+import { ClaimData } from "./claim-signing";
+
+/**
+ * Mode selection for ClaimRouter batches: claimAll (best-effort) or claimAllAtomic (all-or-nothing)
+ * CRITICAL: An atomic batch reverts on its first failing claim and still costs gas - plan it from a preview
+ * NOTE: Vouchers are cumulative, so claims dropped from a best-effort batch can be resubmitted later as-is
+ */
+
+/**
+ * Batch semantics
+ */
+export type ClaimBatchMode = "best-effort" | "atomic";
+
+/**
+ * Planning options
+ */
+export interface ClaimBatchOptions {
+    mode?: ClaimBatchMode | "auto"; // auto (default): atomic when every claim is expected to succeed
+    netToleranceBps?: number; // Atomic minNetTotal below the previewed net total (default 0 = exact)
+}
+
+/**
+ * Batch ready to submit
+ */
+export interface ClaimBatchPlan {
+    mode: ClaimBatchMode;
+    claims: ClaimData[]; // Claims to submit (best-effort plans leave out the ones expected to fail)
+    skipped: ClaimPreviewResult[]; // Claims expected to fail, with their decoded failure
+    expectedNet: bigint; // Previewed net total of the submitted claims
+    minNetTotal: bigint; // claimAllAtomic guard (0 for best-effort)
+}
+
+/**
+ * Preview a batch and choose how to submit it
+ * @param router ClaimRouter
+ * @param claims Batch (at most maxBatchSize claims)
+ * @param options Mode and net tolerance
+ * @returns Plan for submitClaimBatch
+ */
+export async function planClaimBatch(
+    router: ClaimRouter,
+    claims: ClaimData[],
+    options: ClaimBatchOptions = {}
+): Promise<ClaimBatchPlan> {
+    const tolerance = options.netToleranceBps ?? 0;
+    if (!Number.isInteger(tolerance) || tolerance < 0 || tolerance > 10000) {
+        throw new Error("netToleranceBps must be an integer between 0 and 10000");
+    }
+
+    const previews = await previewClaims(router, claims);
+    const skipped = previews.filter((preview) => !preview.success);
+    const mode = options.mode ?? "auto";
+    if (mode === "atomic" && skipped.length > 0) {
+        const index = previews.indexOf(skipped[0]);
+        throw new Error(`Claim ${index} would revert the atomic batch: ${skipped[0].failure!.message}`);
+    }
+
+    const resolved: ClaimBatchMode = mode === "auto" ? (skipped.length === 0 ? "atomic" : "best-effort") : mode;
+    const submitted = previews.filter((preview) => preview.success);
+    const expectedNet = submitted.reduce((total, preview) => total + preview.net, 0n);
+    return {
+        mode: resolved,
+        claims: submitted.map((preview) => preview.claim),
+        skipped,
+        expectedNet,
+        minNetTotal: resolved === "atomic" ? (expectedNet * BigInt(10000 - tolerance)) / 10000n : 0n
+    };
+}
+
+/**
+ * Submit a planned batch with its mode
+ * @param router ClaimRouter connected to the submitting signer
+ * @param plan Plan from planClaimBatch
+ * @returns Transaction
+ */
+export async function submitClaimBatch(
+    router: ClaimRouter,
+    plan: ClaimBatchPlan
+): Promise<ethers.ContractTransactionResponse> {
+    if (plan.claims.length === 0) throw new Error("No claim expected to succeed");
+    return plan.mode === "atomic"
+        ? await router.claimAllAtomic(plan.claims, plan.minNetTotal)
+        : await router.claimAll(plan.claims);
+}
+
+/**
+ * Decode the ClaimReverted error of a failed atomic batch
+ * @param router ClaimRouter (for its interface)
+ * @param data Revert data
+ * @returns Index and decoded failure of the claim that aborted the batch, or null for other errors
+ */
+export function decodeAtomicClaimError(
+    router: ClaimRouter,
+    data: string
+): { index: number; failure: ClaimFailure } | null {
+    const parsed = router.interface.parseError(data);
+    if (parsed?.name !== "ClaimReverted") return null;
+    return { index: Number(parsed.args.index), failure: decodeClaimFailure(parsed.args.code, parsed.args.reason) };
+}
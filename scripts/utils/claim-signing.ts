@@ -0,0 +1,419 @@
+import { ethers } from "ethers";
+import {
+    IERC1271__factory,
+    RewardPoolFactory__factory,
+    RewardPoolImplementation__factory
+} from "../../typechain-types";
+
+/**
+ * Publisher SDK for RewardPoolImplementation claim vouchers
+ * CRITICAL: Domain, types and digest must match RewardPoolImplementation.payWithSig byte for byte
+ * NOTE: Smart-contract publishers (Safe, smart accounts) are verified with ERC-1271 - sign the same typed data
+ * with the key the publisher contract's isValidSignature accepts, then check with isValidPublisherSignature
+ */
+
+/**
+ * EIP-712 domain name - MUST match __EIP712_init("FactoryVault", "1") in RewardPoolImplementation.initialize
+ */
+export const CLAIM_DOMAIN_NAME = "FactoryVault";
+
+/**
+ * EIP-712 domain version - MUST match __EIP712_init("FactoryVault", "1") in RewardPoolImplementation.initialize
+ */
+export const CLAIM_DOMAIN_VERSION = "1";
+
+/**
+ * EIP-712 types for the Claim struct - MUST match RewardPoolImplementation.CLAIM_TYPEHASH
+ */
+export const CLAIM_TYPES: Record<string, ethers.TypedDataField[]> = {
+    Claim: [
+        { name: "account", type: "address" },
+        { name: "cumulativeAmount", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+    ]
+};
+
+/**
+ * Type hash derived from CLAIM_TYPES (keccak256("Claim(address account,uint256 cumulativeAmount,uint256 deadline)"))
+ */
+export const CLAIM_TYPEHASH = ethers.id(ethers.TypedDataEncoder.from(CLAIM_TYPES).encodeType("Claim"));
+
+/**
+ * EIP-712 types for the publisher's committed liability - MUST match RewardPoolImplementation.LIABILITY_TYPEHASH
+ */
+export const LIABILITY_TYPES: Record<string, ethers.TypedDataField[]> = {
+    Liability: [{ name: "totalCumulativeAmount", type: "uint256" }]
+};
+
+/**
+ * EIP-712 types for the token-bound Claim struct - MUST match MultiTokenRewardPoolImplementation.CLAIM_TYPEHASH
+ */
+export const MULTI_TOKEN_CLAIM_TYPES: Record<string, ethers.TypedDataField[]> = {
+    Claim: [
+        { name: "token", type: "address" },
+        { name: "account", type: "address" },
+        { name: "cumulativeAmount", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+    ]
+};
+
+/**
+ * Type hash derived from MULTI_TOKEN_CLAIM_TYPES
+ * (keccak256("Claim(address token,address account,uint256 cumulativeAmount,uint256 deadline)"))
+ */
+export const MULTI_TOKEN_CLAIM_TYPEHASH = ethers.id(
+    ethers.TypedDataEncoder.from(MULTI_TOKEN_CLAIM_TYPES).encodeType("Claim")
+);
+
+/**
+ * EIP-712 types for the committed liability of one token - MUST match
+ * MultiTokenRewardPoolImplementation.LIABILITY_TYPEHASH
+ */
+export const MULTI_TOKEN_LIABILITY_TYPES: Record<string, ethers.TypedDataField[]> = {
+    Liability: [
+        { name: "token", type: "address" },
+        { name: "totalCumulativeAmount", type: "uint256" }
+    ]
+};
+
+/**
+ * ERC-1271 isValidSignature magic value (its selector)
+ */
+export const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+/**
+ * Deadline value for vouchers that never expire
+ */
+export const NO_DEADLINE = 0n;
+
+/**
+ * Claim voucher signed by the publisher
+ */
+export interface ClaimMessage {
+    account: string;
+    cumulativeAmount: bigint;
+    deadline: bigint; // Signature expiry timestamp (NO_DEADLINE = never expires)
+}
+
+/**
+ * Batch claim data structure for ClaimRouter.claimAll
+ */
+export interface ClaimData {
+    vault: string;
+    account: string;
+    cumulativeAmount: bigint;
+    deadline: bigint;
+    signature: string;
+}
+
+/**
+ * Token-bound claim voucher for multi-token vaults (cumulative per token)
+ */
+export interface MultiTokenClaimMessage extends ClaimMessage {
+    token: string;
+}
+
+/**
+ * Batch claim data structure for ClaimRouter.claimAllMultiToken
+ */
+export interface MultiTokenClaimData extends ClaimData {
+    token: string;
+}
+
+/**
+ * Build the EIP-712 domain of a vault
+ * @param chainId Network chain ID
+ * @param vault Vault (clone) address used as verifyingContract
+ * @returns EIP-712 domain
+ */
+export function buildClaimDomain(chainId: ethers.BigNumberish, vault: string): ethers.TypedDataDomain {
+    return {
+        name: CLAIM_DOMAIN_NAME,
+        version: CLAIM_DOMAIN_VERSION,
+        chainId: ethers.toBigInt(chainId),
+        verifyingContract: ethers.getAddress(vault)
+    };
+}
+
+/**
+ * Compute a voucher deadline relative to a reference time
+ * @param ttlSeconds Validity window in seconds
+ * @param nowSeconds Reference timestamp (defaults to local clock; prefer latest block timestamp)
+ * @returns Deadline timestamp
+ */
+export function deadlineFromNow(ttlSeconds: number, nowSeconds: number = Math.floor(Date.now() / 1000)): bigint {
+    return BigInt(nowSeconds + ttlSeconds);
+}
+
+/**
+ * Check whether a voucher is expired at a given timestamp - MUST match payWithSig deadline check
+ * @param deadline Voucher deadline
+ * @param timestamp Block timestamp to check against
+ * @returns True if the vault would reject the voucher as expired
+ */
+export function isClaimExpired(deadline: bigint, timestamp: number | bigint): boolean {
+    return deadline !== NO_DEADLINE && BigInt(timestamp) > deadline;
+}
+
+/**
+ * Compute the Claim struct hash - MUST match keccak256(abi.encode(CLAIM_TYPEHASH, account, cumulativeAmount, deadline))
+ * @param claim Claim voucher
+ * @returns Struct hash
+ */
+export function hashClaimStruct(claim: ClaimMessage): string {
+    return ethers.TypedDataEncoder.hashStruct("Claim", CLAIM_TYPES, claim);
+}
+
+/**
+ * Compute the EIP-712 digest the vault recovers the publisher from (_hashTypedDataV4)
+ * @param domain Vault domain
+ * @param claim Claim voucher
+ * @returns EIP-712 digest
+ */
+export function computeClaimDigest(domain: ethers.TypedDataDomain, claim: ClaimMessage): string {
+    return ethers.TypedDataEncoder.hash(domain, CLAIM_TYPES, claim);
+}
+
+/**
+ * Sign a claim voucher as the publisher
+ * @param signer Publisher signer
+ * @param domain Vault domain
+ * @param claim Claim voucher
+ * @returns EIP-712 signature
+ */
+export async function signClaim(
+    signer: ethers.Signer,
+    domain: ethers.TypedDataDomain,
+    claim: ClaimMessage
+): Promise<string> {
+    return await signer.signTypedData(domain, CLAIM_TYPES, claim);
+}
+
+/**
+ * Sign the committed liability of a vault (sum of the latest cumulative amount signed for every account)
+ * @param signer Publisher signer
+ * @param domain Vault domain
+ * @param totalCumulativeAmount Total cumulative amount of all vouchers issued for the vault
+ * @returns EIP-712 signature for RewardPoolImplementation.commitLiability
+ */
+export async function signLiability(
+    signer: ethers.Signer,
+    domain: ethers.TypedDataDomain,
+    totalCumulativeAmount: bigint
+): Promise<string> {
+    return await signer.signTypedData(domain, LIABILITY_TYPES, { totalCumulativeAmount });
+}
+
+/**
+ * Recover the signer of a claim voucher locally (EOA publishers only, see isValidPublisherSignature)
+ * @param domain Vault domain
+ * @param claim Claim voucher
+ * @param signature EIP-712 signature
+ * @returns Recovered signer address
+ */
+export function recoverClaimSigner(domain: ethers.TypedDataDomain, claim: ClaimMessage, signature: string): string {
+    return ethers.verifyTypedData(domain, CLAIM_TYPES, claim, signature);
+}
+
+/**
+ * Check a signature of a digest like OpenZeppelin SignatureChecker.isValidSignatureNow (ERC-1271 for contracts,
+ * ECDSA otherwise)
+ * @param signer Expected signer (EOA or contract)
+ * @param digest Signed EIP-712 digest
+ * @param signature Signature
+ * @param runner Provider or signer connected to a provider
+ * @returns True if the contracts would accept the signature now
+ */
+export async function isValidSignatureNow(
+    signer: string,
+    digest: string,
+    signature: string,
+    runner: ethers.ContractRunner
+): Promise<boolean> {
+    if ((await runner.provider!.getCode(signer)) === "0x") {
+        try {
+            return ethers.recoverAddress(digest, signature) === ethers.getAddress(signer);
+        } catch {
+            return false; // Not a valid ECDSA signature
+        }
+    }
+    try {
+        return (
+            (await IERC1271__factory.connect(signer, runner).isValidSignature(digest, signature)) ===
+            ERC1271_MAGIC_VALUE
+        );
+    } catch {
+        return false; // Reverting or non-compliant contract
+    }
+}
+
+/**
+ * Check a single publisher signature against the factory keys (current publisher, or a previous one in grace)
+ * NOTE: Signature check only - payWithSig also rejects amounts above the factory single-signer limits
+ * (getPublisherPolicy), which need an aggregated signature of the publisher set (see threshold-signing.ts)
+ * @param vault Vault (clone) address
+ * @param digest Signed EIP-712 digest (see computeClaimDigest)
+ * @param signature Publisher signature (ECDSA or ERC-1271)
+ * @param provider Provider connected to the vault's network
+ * @returns True if a publisher key accepted in the next block signed the digest
+ */
+export async function isValidPublisherSignature(
+    vault: string,
+    digest: string,
+    signature: string,
+    provider: ethers.Provider
+): Promise<boolean> {
+    const factory = await RewardPoolImplementation__factory.connect(vault, provider).getFactory();
+    return await RewardPoolFactory__factory.connect(factory, provider).isValidPublisherSignature(digest, signature);
+}
+
+/**
+ * Self-check the SDK against a deployed vault using its eip712Domain() and CLAIM_TYPEHASH
+ * MANDATORY: Run before signing for a new vault or network to prevent unverifiable vouchers
+ * @param vault Vault (clone) address
+ * @param runner Provider or signer connected to the vault's network
+ * @param expectedChainId Chain ID the vouchers will be signed for
+ * @returns Domain read from the vault, ready to be used for signing
+ */
+export async function verifyVaultDomain(
+    vault: string,
+    runner: ethers.ContractRunner,
+    expectedChainId: ethers.BigNumberish
+): Promise<ethers.TypedDataDomain> {
+    const contract = RewardPoolImplementation__factory.connect(vault, runner);
+    const [fields, name, version, chainId, verifyingContract, salt, extensions] = await contract.eip712Domain();
+    const onChainTypehash = await contract.CLAIM_TYPEHASH();
+
+    // ERC-5267: 0x0f = name, version, chainId, verifyingContract (no salt, no extensions)
+    if (fields !== "0x0f") throw new Error(`Domain fields mismatch: ${fields}`);
+    if (salt !== ethers.ZeroHash || extensions.length > 0) throw new Error("Unexpected domain salt or extensions");
+    if (name !== CLAIM_DOMAIN_NAME)
+        throw new Error(`Domain name mismatch: TS=${CLAIM_DOMAIN_NAME} vs Solidity=${name}`);
+    if (version !== CLAIM_DOMAIN_VERSION) {
+        throw new Error(`Domain version mismatch: TS=${CLAIM_DOMAIN_VERSION} vs Solidity=${version}`);
+    }
+    if (chainId !== ethers.toBigInt(expectedChainId)) {
+        throw new Error(`Chain ID mismatch: expected=${expectedChainId} vs Solidity=${chainId}`);
+    }
+    if (verifyingContract.toLowerCase() !== vault.toLowerCase()) {
+        throw new Error(`Verifying contract mismatch: TS=${vault} vs Solidity=${verifyingContract}`);
+    }
+    if (onChainTypehash !== CLAIM_TYPEHASH) {
+        throw new Error(`Typehash mismatch: TS=${CLAIM_TYPEHASH} vs Solidity=${onChainTypehash}`);
+    }
+
+    return buildClaimDomain(chainId, verifyingContract);
+}
+
+/**
+ * Generate multiple claim signatures for batch operations
+ * @param signer Publisher signer
+ * @param claims Array of claim parameters (per-claim deadline overrides defaultDeadline)
+ * @param chainId Network chain ID
+ * @param defaultDeadline Deadline applied to claims without one (NO_DEADLINE by default)
+ * @returns Array of signed claim data
+ */
+export async function generateBatchClaims(
+    signer: ethers.Signer,
+    claims: Array<{
+        vault: string;
+        account: string;
+        cumulativeAmount: bigint;
+        deadline?: bigint;
+    }>,
+    chainId: ethers.BigNumberish,
+    defaultDeadline: bigint = NO_DEADLINE
+): Promise<ClaimData[]> {
+    const signedClaims: ClaimData[] = [];
+
+    for (const claim of claims) {
+        const deadline = claim.deadline ?? defaultDeadline;
+        const signature = await signClaim(signer, buildClaimDomain(chainId, claim.vault), {
+            account: claim.account,
+            cumulativeAmount: claim.cumulativeAmount,
+            deadline
+        });
+
+        signedClaims.push({
+            ...claim,
+            deadline,
+            signature
+        });
+    }
+
+    return signedClaims;
+}
+
+/**
+ * Sign a token-bound claim voucher for a multi-token vault as the publisher
+ * NOTE: Multi-token vaults share the "FactoryVault" domain; the token in the struct prevents cross-token replay
+ * @param signer Publisher signer
+ * @param domain Vault domain
+ * @param claim Token-bound claim voucher
+ * @returns EIP-712 signature
+ */
+export async function signMultiTokenClaim(
+    signer: ethers.Signer,
+    domain: ethers.TypedDataDomain,
+    claim: MultiTokenClaimMessage
+): Promise<string> {
+    return await signer.signTypedData(domain, MULTI_TOKEN_CLAIM_TYPES, claim);
+}
+
+/**
+ * Sign the committed liability of one token of a multi-token vault
+ * @param signer Publisher signer
+ * @param domain Vault domain
+ * @param token Pool token
+ * @param totalCumulativeAmount Total cumulative amount of all vouchers issued in this token
+ * @returns EIP-712 signature for MultiTokenRewardPoolImplementation.commitLiability
+ */
+export async function signMultiTokenLiability(
+    signer: ethers.Signer,
+    domain: ethers.TypedDataDomain,
+    token: string,
+    totalCumulativeAmount: bigint
+): Promise<string> {
+    return await signer.signTypedData(domain, MULTI_TOKEN_LIABILITY_TYPES, { token, totalCumulativeAmount });
+}
+
+/**
+ * Generate multiple token-bound claim signatures for ClaimRouter.claimAllMultiToken
+ * @param signer Publisher signer
+ * @param claims Array of claim parameters (per-claim deadline overrides defaultDeadline)
+ * @param chainId Network chain ID
+ * @param defaultDeadline Deadline applied to claims without one (NO_DEADLINE by default)
+ * @returns Array of signed multi-token claim data
+ */
+export async function generateMultiTokenBatchClaims(
+    signer: ethers.Signer,
+    claims: Array<{
+        vault: string;
+        token: string;
+        account: string;
+        cumulativeAmount: bigint;
+        deadline?: bigint;
+    }>,
+    chainId: ethers.BigNumberish,
+    defaultDeadline: bigint = NO_DEADLINE
+): Promise<MultiTokenClaimData[]> {
+    const signedClaims: MultiTokenClaimData[] = [];
+
+    for (const claim of claims) {
+        const deadline = claim.deadline ?? defaultDeadline;
+        const signature = await signMultiTokenClaim(signer, buildClaimDomain(chainId, claim.vault), {
+            token: claim.token,
+            account: claim.account,
+            cumulativeAmount: claim.cumulativeAmount,
+            deadline
+        });
+
+        signedClaims.push({
+            ...claim,
+            deadline,
+            signature
+        });
+    }
+
+    return signedClaims;
+}
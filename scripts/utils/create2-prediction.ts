@@ -1,8 +1,9 @@
 import { ethers } from "ethers";
 
 /**
- * TypeScript utilities for CREATE2 prediction and EIP-712 signature generation
+ * TypeScript utilities for CREATE2 prediction
  * CRITICAL: Must match Solidity implementation exactly for cross-language compatibility
+ * NOTE: EIP-712 claim signing lives in ./claim-signing
  */
 
 /**
@@ -64,75 +65,65 @@ export function predictPoolAddress(
 }
 
 /**
- * EIP-712 domain for vault signatures
- */
-export interface EIP712Domain {
-    name: string;
-    version: string;
-    chainId: number;
-    verifyingContract: string;
-}
-
-/**
- * Claim structure for EIP-712 signatures
- */
-export interface ClaimStruct {
-    account: string;
-    cumulativeAmount: string;
-    deadline: number;
-}
-
-/**
- * Generate EIP-712 signature for claim
- * @param signer Ethereum signer
- * @param vaultAddress Vault contract address
- * @param account Account to receive payment
- * @param cumulativeAmount Cumulative amount (as string to handle bigint)
- * @param deadline Signature deadline
- * @param chainId Network chain ID
- * @returns EIP-712 signature
+ * Predict the next pool address of a creator/token pair for an implementation version
+ * Reads the version's implementation and the current nonce from the factory registry
+ * @param factoryContract Factory contract instance
+ * @param creator Creator address
+ * @param token Token address
+ * @param version Implementation version (defaults to the factory's defaultVersion)
+ * @returns Predicted pool address, salt, implementation, version and nonce
  */
-export async function signClaim(
-    signer: ethers.Signer,
-    vaultAddress: string,
-    account: string,
-    cumulativeAmount: string,
-    deadline: number,
-    chainId: number
-): Promise<string> {
-    const domain: EIP712Domain = {
-        name: "FactoryVault",
-        version: "1",
-        chainId,
-        verifyingContract: vaultAddress
-    };
-
-    const types = {
-        Claim: [
-            { name: "account", type: "address" },
-            { name: "cumulativeAmount", type: "uint256" },
-            { name: "deadline", type: "uint256" }
-        ]
-    };
-
-    const value: ClaimStruct = {
-        account,
-        cumulativeAmount,
-        deadline
-    };
+export async function predictVersionedPoolAddress(
+    factoryContract: any,
+    creator: string,
+    token: string,
+    version?: number | bigint
+): Promise<{ predicted: string; salt: string; implementation: string; version: bigint; nonce: bigint }> {
+    const resolvedVersion = BigInt(version ?? (await factoryContract.defaultVersion()));
+    const implementation: string = await factoryContract.implementations(resolvedVersion);
+    if (implementation === ethers.ZeroAddress) {
+        throw new Error(`Implementation version ${resolvedVersion} is not registered`);
+    }
 
-    return await signer.signTypedData(domain, types, value);
+    const nonce: bigint = await factoryContract.poolNonce(creator, token);
+    const { predicted, salt } = predictPoolAddress(
+        await factoryContract.getAddress(),
+        implementation,
+        creator,
+        token,
+        Number(nonce)
+    );
+    return { predicted, salt, implementation, version: resolvedVersion, nonce };
 }
 
 /**
- * Batch claim data structure for ClaimRouter
+ * Predict every pool of a createAndFundPools batch (default implementation version)
+ * A token that appears several times uses consecutive nonces, exactly like the factory loop
+ * @param factoryContract Factory contract instance
+ * @param creator Creator address (msg.sender of the batch)
+ * @param tokens Token of each pool, in batch order
+ * @returns Predicted pool address, salt and nonce of each pool, in batch order
  */
-export interface ClaimData {
-    vault: string;
-    account: string;
-    cumulativeAmount: string;
-    deadline: number;
-    signature: string;
+export async function predictPoolBatch(
+    factoryContract: any,
+    creator: string,
+    tokens: string[]
+): Promise<Array<{ token: string; predicted: string; salt: string; nonce: bigint }>> {
+    const implementation: string = await factoryContract.implementations(await factoryContract.defaultVersion());
+    const factory: string = await factoryContract.getAddress();
+
+    const nextNonce = new Map<string, bigint>();
+    const predictions = [];
+    for (const token of tokens) {
+        const key = token.toLowerCase();
+        if (!nextNonce.has(key)) nextNonce.set(key, await factoryContract.poolNonce(creator, token));
+        const nonce = nextNonce.get(key)!;
+        nextNonce.set(key, nonce + 1n);
+
+        const { predicted, salt } = predictPoolAddress(factory, implementation, creator, token, Number(nonce));
+        predictions.push({ token, predicted, salt, nonce });
+    }
+    return predictions;
 }
 
 /**
@@ -142,12 +133,14 @@ export interface ClaimData {
  * @param implementationAddress Implementation contract address
  * @param creator Creator address
  * @param token Token address
+ * @param version Implementation version of implementationAddress (defaults to the factory's defaultVersion)
  */
 export async function validatePrediction(
     factoryContract: any,
     implementationAddress: string,
     creator: string,
-    token: string
+    token: string,
+    version?: number | bigint
 ): Promise<void> {
     // Get current nonce from contract
     const nonce = await factoryContract.poolNonce(creator, token);
@@ -162,7 +155,10 @@ export async function validatePrediction(
     );
 
     // Solidity prediction via contract (uses current nonce internally)
-    const [solidityPredicted, soliditySalt] = await factoryContract.predictPoolAddress(creator, token);
+    const [solidityPredicted, soliditySalt] =
+        version === undefined
+            ? await factoryContract.predictPoolAddress(creator, token)
+            : await factoryContract.predictPoolAddressForVersion(creator, token, version);
 
     // CRITICAL: Both predictions AND salts must match exactly
     if (tsPredicted.toLowerCase() !== solidityPredicted.toLowerCase()) {
@@ -172,7 +168,7 @@ export async function validatePrediction(
         throw new Error(`Salt mismatch: TS=${tsSalt} vs Solidity=${soliditySalt}`);
     }
 
-    console.log(`✅ CREATE2 prediction validated: ${tsPredicted} (nonce: ${nonce})`);
+    console.log(`✅ CREATE2 prediction validated: ${tsPredicted} (nonce: ${nonce}, version: ${version ?? "default"})`);
 }
 
 /**
@@ -230,41 +226,3 @@ export const NETWORK_CONFIG = {
         }
     }
 } as const;
-
-/**
- * Generate multiple claim signatures for batch operations
- * @param signer Publisher signer
- * @param claims Array of claim parameters
- * @param chainId Network chain ID
- * @returns Array of signed claim data
- */
-export async function generateBatchClaims(
-    signer: ethers.Signer,
-    claims: Array<{
-        vault: string;
-        account: string;
-        cumulativeAmount: string;
-        deadline: number;
-    }>,
-    chainId: number
-): Promise<ClaimData[]> {
-    const signedClaims: ClaimData[] = [];
-
-    for (const claim of claims) {
-        const signature = await signClaim(
-            signer,
-            claim.vault,
-            claim.account,
-            claim.cumulativeAmount,
-            claim.deadline,
-            chainId
-        );
-
-        signedClaims.push({
-            ...claim,
-            signature
-        });
-    }
-
-    return signedClaims;
-}
\ No newline at end of file
@@ -0,0 +1,443 @@
+import { ethers } from "ethers";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Artifacts } from "hardhat/types";
+import {
+    ClaimRouter__factory,
+    MultiTokenRewardPoolImplementation__factory,
+    RewardPoolFactory__factory,
+    RewardPoolImplementation__factory
+} from "../../typechain-types";
+import { readRegistry, writeRegistry } from "../utils";
+import { DeploymentRegistry, RegistryContract } from "./registry";
+
+/**
+ * Declarative deployment pipeline
+ * Diffs a per-network spec (deploy-config/<network>.json) against the deployments/ registry and on-chain state,
+ * then runs only the missing steps
+ * CRITICAL: The registry is written after every confirmed step - a failed run resumes where it stopped
+ * NOTE: Governance calls are only executed when the deployer holds the timelock role, otherwise they are reported
+ * NOTE: Registry contracts whose runtime bytecode differs from the compiled artifact (immutables masked) are
+ * redeployed; the superseded entry is kept as <name>@<address> with legacy: true
+ */
+
+/**
+ * Placeholder resolving to the deploying signer in role fields (testnets and local networks only)
+ */
+export const DEPLOYER_ROLE_PLACEHOLDER = "deployer";
+
+/**
+ * Contracts managed by the pipeline, in deployment order
+ */
+export const PIPELINE_CONTRACTS = [
+    "RewardPoolImplementation",
+    "MultiTokenRewardPoolImplementation",
+    "RewardPoolFactory",
+    "ClaimRouter"
+] as const;
+
+export type PipelineContract = (typeof PIPELINE_CONTRACTS)[number];
+
+/**
+ * Per-network deployment spec
+ */
+export interface DeploySpec {
+    chainId: number;
+    confirmations?: number; // Confirmations awaited per transaction (default 1)
+    roles: {
+        treasury: string;
+        timelock: string;
+        guardian: string;
+        publisher: string;
+    };
+    multiTokenPools?: boolean; // Deploy and register the multi-token implementation (default false)
+    allowedTokens?: Record<string, string>; // Symbol -> token address
+    router?: {
+        maxBatchSize?: number;
+        approvedFactories?: string[]; // Registry names or addresses (default ["RewardPoolFactory"])
+    };
+}
+
+/**
+ * Registry persistence (defaults to deployments/<network>.json)
+ */
+export interface RegistryStore {
+    load(chainId: number): Promise<DeploymentRegistry>;
+    save(registry: DeploymentRegistry): Promise<void>;
+}
+
+/**
+ * Single pipeline step
+ */
+export interface DeployStep {
+    id: string;
+    kind: "deploy" | "call";
+    contract: PipelineContract;
+    method?: string; // Call steps only
+    args: unknown[];
+    executor: "deployer" | "timelock";
+    description: string;
+}
+
+/**
+ * Outcome of a pipeline run
+ */
+export interface DeployResult {
+    executed: Array<DeployStep & { txHash: string }>;
+    skipped: DeployStep[]; // Already in desired state
+    governance: DeployStep[]; // Require the timelock - not executed
+    addresses: Partial<Record<PipelineContract, string>>;
+}
+
+/**
+ * Pipeline options
+ */
+export interface DeployOptions {
+    signer: ethers.Signer;
+    networkName: string;
+    artifacts: Artifacts; // Compiled artifacts the deployed bytecode is checked against
+    registry?: RegistryStore;
+    deploy?: boolean; // Run deployment steps (default true, false = configuration only)
+    dryRun?: boolean; // Plan without sending transactions
+    log?: (message: string) => void;
+}
+
+/**
+ * Load and validate the spec of a network
+ * @param networkName Hardhat network name
+ * @param dir Directory of specs (default deploy-config/)
+ * @returns Validated deployment spec
+ */
+export async function loadDeploySpec(networkName: string, dir: string = "deploy-config"): Promise<DeploySpec> {
+    const p = path.resolve(process.cwd(), dir, `${networkName}.json`);
+    let raw: string;
+    try {
+        raw = await fs.readFile(p, "utf8");
+    } catch {
+        throw new Error(`No deploy spec for network ${networkName}: expected ${p}`);
+    }
+    return validateDeploySpec(JSON.parse(raw));
+}
+
+/**
+ * Validate a deployment spec
+ * @param spec Parsed spec
+ * @returns The spec, typed
+ */
+export function validateDeploySpec(spec: DeploySpec): DeploySpec {
+    const errors: string[] = [];
+    const isRole = (value: unknown) =>
+        value === DEPLOYER_ROLE_PLACEHOLDER || (typeof value === "string" && ethers.isAddress(value));
+
+    if (!Number.isInteger(spec.chainId)) errors.push("chainId must be an integer");
+    for (const role of ["treasury", "timelock", "guardian", "publisher"] as const) {
+        const value = spec.roles?.[role];
+        if (!isRole(value) || value === ethers.ZeroAddress)
+            errors.push(`roles.${role} must be an address or "deployer"`);
+    }
+    for (const [symbol, token] of Object.entries(spec.allowedTokens ?? {})) {
+        if (!ethers.isAddress(token) || token === ethers.ZeroAddress)
+            errors.push(`allowedTokens.${symbol} is not an address`);
+    }
+    const maxBatchSize = spec.router?.maxBatchSize;
+    if (maxBatchSize !== undefined && (!Number.isInteger(maxBatchSize) || maxBatchSize < 1 || maxBatchSize > 100)) {
+        errors.push("router.maxBatchSize must be within 1..100");
+    }
+
+    if (errors.length > 0) throw new Error(`Invalid deploy spec:\n  - ${errors.join("\n  - ")}`);
+    return spec;
+}
+
+function defaultRegistryStore(networkName: string): RegistryStore {
+    return {
+        load: (chainId) => readRegistry(networkName, chainId),
+        save: (registry) => writeRegistry(networkName, registry)
+    };
+}
+
+function resolveRoles(spec: DeploySpec, deployer: string): DeploySpec["roles"] {
+    const resolve = (value: string) => ethers.getAddress(value === DEPLOYER_ROLE_PLACEHOLDER ? deployer : value);
+    return {
+        treasury: resolve(spec.roles.treasury),
+        timelock: resolve(spec.roles.timelock),
+        guardian: resolve(spec.roles.guardian),
+        publisher: resolve(spec.roles.publisher)
+    };
+}
+
+function contractFactory(name: PipelineContract, signer: ethers.Signer): ethers.ContractFactory {
+    switch (name) {
+        case "RewardPoolImplementation":
+            return new RewardPoolImplementation__factory(signer);
+        case "MultiTokenRewardPoolImplementation":
+            return new MultiTokenRewardPoolImplementation__factory(signer);
+        case "RewardPoolFactory":
+            return new RewardPoolFactory__factory(signer);
+        case "ClaimRouter":
+            return new ClaimRouter__factory(signer);
+    }
+}
+
+function contractInterface(name: PipelineContract): ethers.Interface {
+    switch (name) {
+        case "RewardPoolImplementation":
+            return RewardPoolImplementation__factory.createInterface();
+        case "MultiTokenRewardPoolImplementation":
+            return MultiTokenRewardPoolImplementation__factory.createInterface();
+        case "RewardPoolFactory":
+            return RewardPoolFactory__factory.createInterface();
+        case "ClaimRouter":
+            return ClaimRouter__factory.createInterface();
+    }
+}
+
+function sameArgs(a: unknown[] | undefined, b: unknown[]): boolean {
+    return JSON.stringify((a ?? []).map(String)) === JSON.stringify(b.map(String));
+}
+
+/**
+ * Check whether a registry entry is confirmed on-chain, resolving pending deployments
+ * @returns Whether the contract is live at the registry address
+ */
+async function isDeployed(provider: ethers.Provider, entry: RegistryContract | undefined): Promise<boolean> {
+    if (!entry) return false;
+    if (entry.pending && entry.txHash) {
+        // Interrupted run: wait for the sent deployment instead of sending a duplicate
+        const tx = await provider.getTransaction(entry.txHash);
+        if (tx) await tx.wait();
+    }
+    return (await provider.getCode(entry.address)) !== "0x";
+}
+
+/**
+ * Compare the runtime bytecode at an address with the compiled artifact
+ * Immutable slots are zeroed in the artifact, so they are masked in the deployed code before comparing
+ * @returns Whether the deployed code was compiled from the current sources
+ */
+async function matchesArtifact(
+    provider: ethers.Provider,
+    artifacts: Artifacts,
+    name: PipelineContract,
+    address: string
+): Promise<boolean> {
+    const sourceName = `contracts/${name}.sol`;
+    const buildInfo = await artifacts.getBuildInfo(`${sourceName}:${name}`);
+    if (!buildInfo) throw new Error(`No build info for ${name} - compile first`);
+    const { deployedBytecode } = buildInfo.output.contracts[sourceName][name].evm;
+
+    const expected = ethers.getBytes(`0x${deployedBytecode.object}`);
+    const deployed = ethers.getBytes(await provider.getCode(address));
+    if (deployed.length !== expected.length) return false;
+    for (const references of Object.values(deployedBytecode.immutableReferences ?? {})) {
+        for (const { start, length } of references) deployed.fill(0, start, start + length);
+    }
+    return ethers.hexlify(deployed) === ethers.hexlify(expected);
+}
+
+/**
+ * Run the pipeline: deploy missing contracts, then apply missing configuration
+ * @param spec Validated deployment spec
+ * @param options Pipeline options
+ * @returns Executed, skipped and governance-only steps
+ */
+export async function runDeployment(spec: DeploySpec, options: DeployOptions): Promise<DeployResult> {
+    const { signer, networkName, dryRun = false, deploy = true } = options;
+    const log = options.log ?? (() => undefined);
+    const store = options.registry ?? defaultRegistryStore(networkName);
+    const provider = signer.provider!;
+    const deployer = await signer.getAddress();
+
+    const chainId = Number((await provider.getNetwork()).chainId);
+    if (chainId !== spec.chainId) throw new Error(`Chain ID mismatch: spec=${spec.chainId} vs network=${chainId}`);
+
+    const roles = resolveRoles(spec, deployer);
+    const registry = await store.load(chainId);
+    const result: DeployResult = { executed: [], skipped: [], governance: [], addresses: {} };
+
+    // ----------- Deployments ----------- //
+    const constructorArgs = (name: PipelineContract): unknown[] => {
+        switch (name) {
+            case "RewardPoolFactory":
+                return [
+                    result.addresses.RewardPoolImplementation ?? "<RewardPoolImplementation>",
+                    roles.treasury,
+                    roles.timelock,
+                    roles.guardian,
+                    roles.publisher
+                ];
+            case "ClaimRouter":
+                return [roles.timelock];
+            default:
+                return [];
+        }
+    };
+
+    for (const name of PIPELINE_CONTRACTS) {
+        if (name === "MultiTokenRewardPoolImplementation" && !spec.multiTokenPools) continue;
+
+        const args = constructorArgs(name);
+        const step: DeployStep = {
+            id: `deploy:${name}`,
+            kind: "deploy",
+            contract: name,
+            args,
+            executor: "deployer",
+            description: `Deploy ${name}`
+        };
+        const entry = registry.contracts[name];
+
+        const deployed = await isDeployed(provider, entry);
+
+        if (entry?.legacy || (deployed && !(await matchesArtifact(provider, options.artifacts, name, entry.address)))) {
+            // Deployed from other sources (e.g. a migrated registry): keep it for reference and redeploy
+            log(`⚠️  ${name} at ${entry.address} does not match the compiled artifact - redeploying`);
+            if (!dryRun) {
+                registry.contracts[`${name}@${entry.address}`] = { ...entry, legacy: true };
+                delete registry.contracts[name];
+                await store.save(registry);
+            }
+        } else if (deployed) {
+            // Immutable constructor arguments cannot be reconciled in place
+            if (!sameArgs(entry.args, args)) {
+                throw new Error(
+                    `${name} at ${entry.address} was deployed with ${JSON.stringify(entry.args ?? [])}, spec requires ` +
+                        `${JSON.stringify(args)} - remove its registry entry to redeploy`
+                );
+            }
+            if (entry.pending) {
+                delete entry.pending;
+                await store.save(registry);
+            }
+            result.addresses[name] = ethers.getAddress(entry.address);
+            result.skipped.push(step);
+            continue;
+        }
+
+        if (!deploy) throw new Error(`${name} is not deployed on ${networkName} - run the deployment first`);
+        if (dryRun) {
+            result.executed.push({ ...step, txHash: "" });
+            continue;
+        }
+
+        log(`🔧 ${step.description}...`);
+        const contract = await contractFactory(name, signer).deploy(...args);
+        const tx = contract.deploymentTransaction()!;
+        registry.contracts[name] = { address: await contract.getAddress(), args, txHash: tx.hash, pending: true };
+        await store.save(registry);
+
+        await tx.wait(spec.confirmations ?? 1);
+        delete registry.contracts[name].pending;
+        await store.save(registry);
+
+        result.addresses[name] = ethers.getAddress(await contract.getAddress());
+        result.executed.push({ ...step, txHash: tx.hash });
+        log(`✅ ${name}: ${result.addresses[name]}`);
+    }
+
+    // ----------- Configuration ----------- //
+    if (!dryRun) {
+        registry.roles = roles;
+        for (const [symbol, token] of Object.entries(spec.allowedTokens ?? {})) {
+            registry.tokens[symbol.toUpperCase()] = ethers.getAddress(token);
+        }
+        await store.save(registry);
+    }
+
+    const steps = await planConfiguration(spec, result.addresses, registry.contracts, provider);
+    const isTimelock = deployer === roles.timelock;
+
+    for (const { step, done } of steps) {
+        if (done) {
+            result.skipped.push(step);
+        } else if (!isTimelock) {
+            result.governance.push(step);
+        } else if (dryRun) {
+            result.executed.push({ ...step, txHash: "" });
+        } else {
+            log(`⚙️  ${step.description}...`);
+            const contract = new ethers.Contract(
+                result.addresses[step.contract]!,
+                contractInterface(step.contract),
+                signer
+            );
+            const tx: ethers.ContractTransactionResponse = await contract[step.method!](...step.args);
+            await tx.wait(spec.confirmations ?? 1);
+            result.executed.push({ ...step, txHash: tx.hash });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Diff the configuration of the spec against on-chain state
+ * Steps on contracts that are not deployed yet (dry runs) are always pending
+ */
+async function planConfiguration(
+    spec: DeploySpec,
+    addresses: DeployResult["addresses"],
+    contracts: Record<string, RegistryContract>,
+    provider: ethers.Provider
+): Promise<Array<{ step: DeployStep; done: boolean }>> {
+    const steps: Array<{ step: DeployStep; done: boolean }> = [];
+    const factoryAddress = addresses.RewardPoolFactory;
+    const routerAddress = addresses.ClaimRouter;
+    const factory = factoryAddress ? RewardPoolFactory__factory.connect(factoryAddress, provider) : undefined;
+    const router = routerAddress ? ClaimRouter__factory.connect(routerAddress, provider) : undefined;
+
+    const call = (contract: PipelineContract, method: string, args: unknown[], description: string): DeployStep => ({
+        id: `call:${contract}.${method}(${args.join(",")})`,
+        kind: "call",
+        contract,
+        method,
+        args,
+        executor: "timelock",
+        description
+    });
+
+    for (const [symbol, token] of Object.entries(spec.allowedTokens ?? {})) {
+        const address = ethers.getAddress(token);
+        steps.push({
+            step: call("RewardPoolFactory", "setTokenAllowed", [address, true], `Allow ${symbol} (${address})`),
+            done: factory ? await factory.allowedTokens(address) : false
+        });
+    }
+
+    if (spec.multiTokenPools) {
+        const implementation = addresses.MultiTokenRewardPoolImplementation ?? "<MultiTokenRewardPoolImplementation>";
+        steps.push({
+            step: call(
+                "RewardPoolFactory",
+                "setMultiTokenImplementation",
+                [implementation],
+                `Register multi-token implementation ${implementation}`
+            ),
+            done: factory ? (await factory.multiTokenImplementation()) === implementation : false
+        });
+    }
+
+    for (const target of spec.router?.approvedFactories ?? ["RewardPoolFactory"]) {
+        const address = ethers.isAddress(target)
+            ? ethers.getAddress(target)
+            : (addresses[target as PipelineContract] ?? contracts[target]?.address ?? `<${target}>`);
+        steps.push({
+            step: call(
+                "ClaimRouter",
+                "setFactoryApproved",
+                [address, true],
+                `Approve factory ${address} in ClaimRouter`
+            ),
+            done: router && ethers.isAddress(address) ? await router.approvedFactories(address) : false
+        });
+    }
+
+    if (spec.router?.maxBatchSize !== undefined) {
+        const size = spec.router.maxBatchSize;
+        steps.push({
+            step: call("ClaimRouter", "setMaxBatchSize", [size], `Set ClaimRouter max batch size to ${size}`),
+            done: router ? (await router.maxBatchSize()) === BigInt(size) : false
+        });
+    }
+
+    return steps;
+}
@@ -0,0 +1,65 @@
+import { ethers } from "ethers";
+import { RewardPoolImplementation__factory } from "../../typechain-types";
+
+/**
+ * Fee quotes for RewardPoolImplementation claims
+ * CRITICAL: Rounding must match RewardPoolImplementation._settleClaim exactly
+ */
+
+/**
+ * Basis points denominator - MUST match RewardPoolImplementation.FEE_DENOMINATOR
+ */
+export const FEE_DENOMINATOR = 10000n;
+
+/**
+ * Breakdown of the next claim of a cumulative voucher
+ */
+export interface FeeQuote {
+    feeBps: bigint;
+    gross: bigint;
+    fee: bigint;
+    net: bigint;
+}
+
+/**
+ * Quote the payout of a cumulative claim
+ * Fees telescope over cumulative amounts, so at a constant rate the total fee paid
+ * always equals cumulativeAmount * feeBps / FEE_DENOMINATOR
+ * @param feeBps Fee in basis points (RewardPoolImplementation.feeBps())
+ * @param cumulativeAmount Cumulative amount of the voucher
+ * @param alreadyClaimed Cumulative amount already claimed by the account (default: 0)
+ * @returns Gross, fee and net amounts of the claim
+ */
+export function quoteClaimFee(
+    feeBps: ethers.BigNumberish,
+    cumulativeAmount: ethers.BigNumberish,
+    alreadyClaimed: ethers.BigNumberish = 0n
+): FeeQuote {
+    const bps = ethers.toBigInt(feeBps);
+    const cumulative = ethers.toBigInt(cumulativeAmount);
+    const previous = ethers.toBigInt(alreadyClaimed);
+    if (cumulative <= previous) throw new Error(`Nothing to claim: cumulative=${cumulative} claimed=${previous}`);
+
+    const gross = cumulative - previous;
+    const fee = (cumulative * bps) / FEE_DENOMINATOR - (previous * bps) / FEE_DENOMINATOR;
+    return { feeBps: bps, gross, fee, net: gross - fee };
+}
+
+/**
+ * Quote the next claim of an account against the live fee schedule of a vault
+ * @param vault Vault (clone) address
+ * @param runner Provider or signer
+ * @param account Claiming account
+ * @param cumulativeAmount Cumulative amount of the voucher
+ * @returns Gross, fee and net amounts of the claim
+ */
+export async function fetchFeeQuote(
+    vault: string,
+    runner: ethers.ContractRunner,
+    account: string,
+    cumulativeAmount: ethers.BigNumberish
+): Promise<FeeQuote> {
+    const contract = RewardPoolImplementation__factory.connect(vault, runner);
+    const [feeBps, alreadyClaimed] = await Promise.all([contract.feeBps(), contract.alreadyClaimed(account)]);
+    return quoteClaimFee(feeBps, cumulativeAmount, alreadyClaimed);
+}
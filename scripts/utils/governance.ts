@@ -0,0 +1,895 @@
+import { ethers } from "ethers";
+import {
+    ClaimRouter__factory,
+    IERC20__factory,
+    MultiTokenRewardPoolImplementation__factory,
+    RewardPoolFactory__factory,
+    RewardPoolImplementation__factory,
+    TimelockController__factory
+} from "../../typechain-types";
+import { fetchPublisherHistory, publisherKeysAt } from "./publisher-keys";
+
+/**
+ * Governance proposal generator for TIMELOCK-gated functions
+ * Produces TimelockController scheduleBatch/executeBatch calls and Safe transaction-builder JSON
+ * CRITICAL: Time-dependent preconditions are evaluated at the earliest execution time (now + timelock delay)
+ */
+
+/**
+ * Safe transaction-builder format version
+ */
+export const SAFE_TX_BUILDER_VERSION = "1.0";
+
+/**
+ * Governance action (one privileged call)
+ */
+export type GovernanceAction =
+    | { action: "setTokenAllowed"; token: string; allowed: boolean }
+    | { action: "initiatePublisherRotation"; newPublisher: string }
+    | { action: "schedulePublisherRotation"; newPublisher: string; activationTime: number } // Unix seconds
+    | { action: "cancelPublisherRotation" }
+    | { action: "revokePublisher"; publisher: string }
+    | { action: "setPublisherSigner"; signer: string; enabled: boolean }
+    | { action: "setPublisherThreshold"; threshold: number }
+    | { action: "setThresholdLimits"; token: string; perClaim: string; perDay: string } // Base units (0 = no limit)
+    | { action: "registerImplementation"; implementation: string }
+    | { action: "setDefaultVersion"; version: number }
+    | { action: "setVersionDeprecated"; version: number; deprecated: boolean }
+    | { action: "setMultiTokenImplementation"; implementation: string } // Zero address disables multi-token pools
+    | { action: "setDefaultFeeBps"; feeBps: number }
+    | { action: "setFeeTier"; tier: number; feeBps: number; enabled: boolean }
+    | { action: "setCreatorFeeTier"; creator: string; tier: number } // Tier 0 = default fee
+    | { action: "setPoolFeeOverride"; pool: string; feeBps: number; enabled: boolean }
+    | { action: "unpause"; target: "factory" | string } // "factory" or a pool address
+    | { action: "updatePlatformTreasury"; pool: string; newTreasury: string }
+    | { action: "initiateEmergencySweepNotice"; pool: string; to: string; justification: string }
+    | { action: "emergencySweepAll"; pool: string; to: string }
+    | { action: "resetLiability"; pool: string; amount: string; token?: string } // token: multi-token pools only
+    | { action: "setClaimAggregator"; router: string; approved: boolean }
+    | { action: "setFactoryApproved"; factory: string; approved: boolean }
+    | { action: "setMaxBatchSize"; size: number };
+
+/**
+ * Deployed contracts the actions apply to
+ */
+export interface GovernanceContext {
+    factory: string;
+    router?: string;
+    provider: ethers.Provider;
+}
+
+/**
+ * Human-readable state change
+ */
+export interface StateDiff {
+    contract: string;
+    field: string;
+    from: string;
+    to: string;
+}
+
+/**
+ * Encoded call with its validation report
+ */
+export interface PreparedCall {
+    action: GovernanceAction["action"];
+    target: string;
+    value: bigint;
+    data: string;
+    description: string;
+    diff: StateDiff[];
+    errors: string[]; // Violated preconditions (the call would revert or be a no-op)
+}
+
+/**
+ * TimelockController batch proposal
+ */
+export interface TimelockProposal {
+    timelock: string;
+    targets: string[];
+    values: bigint[];
+    payloads: string[];
+    predecessor: string;
+    salt: string;
+    delay: bigint;
+    operationId: string;
+    earliestExecution: bigint; // Timestamp if scheduled now
+    schedule: { to: string; data: string };
+    execute: { to: string; data: string };
+}
+
+/**
+ * Safe transaction-builder batch file
+ */
+export interface SafeBatchFile {
+    version: string;
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: Array<{
+        to: string;
+        value: string;
+        data: string;
+        contractMethod: null;
+        contractInputsValues: null;
+    }>;
+}
+
+const factoryInterface = RewardPoolFactory__factory.createInterface();
+const poolInterface = RewardPoolImplementation__factory.createInterface();
+const multiTokenPoolInterface = MultiTokenRewardPoolImplementation__factory.createInterface();
+const routerInterface = ClaimRouter__factory.createInterface();
+const timelockInterface = TimelockController__factory.createInterface();
+
+function formatTimestamp(timestamp: bigint): string {
+    return timestamp === 0n ? "0" : `${timestamp} (${new Date(Number(timestamp) * 1000).toISOString()})`;
+}
+
+/**
+ * Read the minimum delay of the TIMELOCK (0 when the timelock is not a TimelockController, e.g. a Safe)
+ * @param timelock TIMELOCK address
+ * @param provider Provider
+ * @returns Minimum delay in seconds
+ */
+export async function readTimelockDelay(timelock: string, provider: ethers.Provider): Promise<bigint> {
+    if ((await provider.getCode(timelock)) === "0x") return 0n;
+    try {
+        return await TimelockController__factory.connect(timelock, provider).getMinDelay();
+    } catch {
+        return 0n;
+    }
+}
+
+/**
+ * Encode an action and validate its preconditions against on-chain state
+ * @param ctx Governance context
+ * @param action Action to prepare
+ * @param executionTime Earliest execution timestamp (time-dependent checks use it)
+ * @returns Prepared call with diff and precondition errors
+ */
+export async function prepareAction(
+    ctx: GovernanceContext,
+    action: GovernanceAction,
+    executionTime: bigint
+): Promise<PreparedCall> {
+    const provider = ctx.provider;
+    const factory = RewardPoolFactory__factory.connect(ctx.factory, provider);
+    const errors: string[] = [];
+    const diff: StateDiff[] = [];
+    const prepared = (target: string, data: string, description: string): PreparedCall => ({
+        action: action.action,
+        target: ethers.getAddress(target),
+        value: 0n,
+        data,
+        description,
+        diff,
+        errors
+    });
+    const requireAddress = (value: string, field: string) => {
+        if (!ethers.isAddress(value) || value === ethers.ZeroAddress)
+            errors.push(`${field} must be a non-zero address`);
+    };
+    const requireFeeBps = async (feeBps: number) => {
+        const max = await factory.MAX_FEE_BPS();
+        if (!Number.isInteger(feeBps) || feeBps < 0 || BigInt(feeBps) > max)
+            errors.push(`feeBps must be within 0..${max}`);
+    };
+    const requireTier = (tier: number, min: number) => {
+        if (!Number.isInteger(tier) || tier < min || tier > 255) errors.push(`tier must be within ${min}..255`);
+    };
+
+    // Pools must come from this factory - a foreign pool would not accept our TIMELOCK anyway
+    const loadPool = async (pool: string) => {
+        const contract = RewardPoolImplementation__factory.connect(pool, provider);
+        try {
+            if ((await contract.getFactory()) !== ethers.getAddress(ctx.factory))
+                errors.push(`${pool} is not a pool of ${ctx.factory}`);
+        } catch {
+            errors.push(`${pool} is not a reward pool`);
+        }
+        return contract;
+    };
+
+    switch (action.action) {
+        case "setTokenAllowed": {
+            requireAddress(action.token, "token");
+            const current = errors.length === 0 ? await factory.allowedTokens(action.token) : false;
+            if (current === action.allowed)
+                errors.push(`Token ${action.token} is already ${action.allowed ? "allowed" : "disallowed"}`);
+            if (action.allowed && errors.length === 0 && (await provider.getCode(action.token)) === "0x") {
+                errors.push(`Token ${action.token} has no code`);
+            }
+            diff.push({
+                contract: ctx.factory,
+                field: `allowedTokens[${action.token}]`,
+                from: String(current),
+                to: String(action.allowed)
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setTokenAllowed", [action.token, action.allowed]),
+                `${action.allowed ? "Allow" : "Disallow"} token ${action.token}`
+            );
+        }
+
+        case "initiatePublisherRotation":
+        case "schedulePublisherRotation": {
+            requireAddress(action.newPublisher, "newPublisher");
+            const scheduled = action.action === "schedulePublisherRotation";
+            const activation = scheduled ? BigInt(action.activationTime) : executionTime;
+            const [publisher, pendingUntil, history, gracePeriod, maxDelay, maxGrace] = await Promise.all([
+                factory.publisher(),
+                factory.publisherActivation(),
+                fetchPublisherHistory(ctx.factory, provider),
+                factory.PUBLISHER_GRACE_PERIOD(),
+                factory.MAX_PUBLISHER_ACTIVATION_DELAY(),
+                factory.MAX_GRACE_PUBLISHERS()
+            ]);
+            if (errors.length === 0 && ethers.getAddress(action.newPublisher) === publisher)
+                errors.push("newPublisher is the latest publisher");
+            if (pendingUntil > executionTime)
+                errors.push(`Scheduled rotation to ${publisher} activates ${formatTimestamp(pendingUntil)}`);
+            if (scheduled && (activation <= executionTime || activation > executionTime + maxDelay))
+                errors.push(`activationTime must be within ${maxDelay}s after execution`);
+            const leaving = history[history.length - 1 - Number(maxGrace)];
+            if (leaving && leaving.graceEnd > executionTime)
+                errors.push(
+                    `Too many previous publishers in grace (${leaving.publisher} until ${formatTimestamp(leaving.graceEnd)})`
+                );
+
+            const current = publisherKeysAt(history, executionTime).current ?? ethers.ZeroAddress;
+            diff.push({ contract: ctx.factory, field: "publisher", from: current, to: action.newPublisher });
+            // No grace for the keys revoked by an emergency revocation
+            if (publisher !== ethers.ZeroAddress) {
+                diff.push({
+                    contract: ctx.factory,
+                    field: `graceEnd[${publisher}]`,
+                    from: "-",
+                    to: scheduled ? formatTimestamp(activation + gracePeriod) : `execution + ${gracePeriod}s`
+                });
+            }
+            if (!scheduled) {
+                return prepared(
+                    ctx.factory,
+                    factoryInterface.encodeFunctionData("initiatePublisherRotation", [action.newPublisher]),
+                    `Rotate publisher ${publisher} -> ${action.newPublisher}`
+                );
+            }
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("schedulePublisherRotation", [action.newPublisher, activation]),
+                `Rotate publisher ${publisher} -> ${action.newPublisher} at ${formatTimestamp(activation)}`
+            );
+        }
+
+        case "cancelPublisherRotation": {
+            const history = await fetchPublisherHistory(ctx.factory, provider);
+            const [restored, cancelled] = history.slice(-2);
+            if (!cancelled) errors.push("No publisher rotation to cancel");
+            else if (executionTime >= restored.graceEnd)
+                errors.push(`${restored.publisher} is no longer accepted at execution (grace period over or revoked)`);
+            if (cancelled) {
+                diff.push({
+                    contract: ctx.factory,
+                    field: "publisher",
+                    from: cancelled.publisher,
+                    to: restored.publisher
+                });
+            }
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("cancelPublisherRotation"),
+                `Cancel publisher rotation (restore ${restored?.publisher ?? "-"})`
+            );
+        }
+
+        case "revokePublisher": {
+            requireAddress(action.publisher, "publisher");
+            const history = await fetchPublisherHistory(ctx.factory, provider);
+            const grace =
+                errors.length === 0
+                    ? publisherKeysAt(history, executionTime).grace.find(
+                          (key) => key.publisher === ethers.getAddress(action.publisher)
+                      )
+                    : undefined;
+            if (errors.length === 0 && !grace)
+                errors.push(`${action.publisher} is not a previous publisher in grace at execution`);
+            diff.push({
+                contract: ctx.factory,
+                field: `graceEnd[${action.publisher}]`,
+                from: grace ? formatTimestamp(grace.graceEnd) : "-",
+                to: "execution"
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("revokePublisher", [action.publisher]),
+                `Revoke previous publisher ${action.publisher}`
+            );
+        }
+
+        case "setPublisherSigner": {
+            requireAddress(action.signer, "signer");
+            const [member, threshold, signerCount] = await Promise.all([
+                errors.length === 0 ? factory.isPublisherSigner(action.signer) : Promise.resolve(false),
+                factory.publisherThreshold(),
+                factory.publisherSignerCount()
+            ]);
+            if (errors.length === 0 && member === action.enabled)
+                errors.push(`Signer ${action.signer} is already ${action.enabled ? "in" : "out of"} the publisher set`);
+            if (!action.enabled && signerCount <= threshold)
+                errors.push(`Removing a signer would leave fewer than ${threshold} (threshold) signers`);
+            const nextCount = action.enabled ? signerCount + 1n : signerCount - 1n;
+            diff.push(
+                {
+                    contract: ctx.factory,
+                    field: `isPublisherSigner[${action.signer}]`,
+                    from: String(member),
+                    to: String(action.enabled)
+                },
+                {
+                    contract: ctx.factory,
+                    field: "publisherSignerCount",
+                    from: signerCount.toString(),
+                    to: nextCount.toString()
+                }
+            );
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setPublisherSigner", [action.signer, action.enabled]),
+                `${action.enabled ? "Add" : "Remove"} publisher set signer ${action.signer}`
+            );
+        }
+
+        case "setPublisherThreshold": {
+            const [threshold, signerCount] = await Promise.all([
+                factory.publisherThreshold(),
+                factory.publisherSignerCount()
+            ]);
+            if (!Number.isInteger(action.threshold) || action.threshold === 1 || action.threshold < 0)
+                errors.push("threshold must be 0 (disabled) or at least 2");
+            else if (BigInt(action.threshold) > signerCount)
+                errors.push(`threshold ${action.threshold} exceeds the ${signerCount} publisher set signers`);
+            if (threshold === BigInt(action.threshold))
+                errors.push(`publisherThreshold is already ${action.threshold}`);
+            diff.push({
+                contract: ctx.factory,
+                field: "publisherThreshold",
+                from: threshold.toString(),
+                to: String(action.threshold)
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setPublisherThreshold", [action.threshold]),
+                action.threshold === 0
+                    ? "Disable the publisher set threshold"
+                    : `Require ${action.threshold}-of-${signerCount} publisher signatures above the limits`
+            );
+        }
+
+        case "setThresholdLimits": {
+            requireAddress(action.token, "token");
+            const perClaim = BigInt(action.perClaim);
+            const perDay = BigInt(action.perDay);
+            if (perClaim < 0n || perDay < 0n || perClaim >= 2n ** 128n || perDay >= 2n ** 128n)
+                errors.push("limits must fit in uint128");
+            const [currentClaim, currentDay] =
+                errors.length === 0 ? await factory.thresholdLimits(action.token) : [0n, 0n];
+            if (errors.length === 0 && !(await factory.allowedTokens(action.token)))
+                errors.push(`Token ${action.token} is not allowed (limits would have no pool to apply to)`);
+            diff.push(
+                {
+                    contract: ctx.factory,
+                    field: `thresholdLimits[${action.token}].perClaim`,
+                    from: currentClaim.toString(),
+                    to: perClaim.toString()
+                },
+                {
+                    contract: ctx.factory,
+                    field: `thresholdLimits[${action.token}].perDay`,
+                    from: currentDay.toString(),
+                    to: perDay.toString()
+                }
+            );
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setThresholdLimits", [action.token, perClaim, perDay]),
+                `Set single-signer limits of ${action.token} (per claim ${perClaim}, per day ${perDay})`
+            );
+        }
+
+        case "registerImplementation": {
+            requireAddress(action.implementation, "implementation");
+            const latest = await factory.latestVersion();
+            if (errors.length === 0) {
+                const version = await factory.implementationVersion(action.implementation);
+                if (version !== 0n) errors.push(`${action.implementation} is already registered as version ${version}`);
+                else if ((await provider.getCode(action.implementation)) === "0x")
+                    errors.push(`Implementation ${action.implementation} has no code`);
+            }
+            diff.push(
+                {
+                    contract: ctx.factory,
+                    field: "latestVersion",
+                    from: latest.toString(),
+                    to: (latest + 1n).toString()
+                },
+                {
+                    contract: ctx.factory,
+                    field: `implementations[${latest + 1n}]`,
+                    from: ethers.ZeroAddress,
+                    to: action.implementation
+                }
+            );
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("registerImplementation", [action.implementation]),
+                `Register implementation ${action.implementation} as version ${latest + 1n}`
+            );
+        }
+
+        case "setDefaultVersion":
+        case "setVersionDeprecated": {
+            const [latest, current] = await Promise.all([factory.latestVersion(), factory.defaultVersion()]);
+            const valid = Number.isInteger(action.version) && action.version >= 1 && BigInt(action.version) <= latest;
+            if (!valid) errors.push(`version must be a registered version (1..${latest})`);
+            const deprecated = valid ? await factory.deprecatedVersions(action.version) : false;
+
+            if (action.action === "setDefaultVersion") {
+                if (valid && deprecated) errors.push(`Version ${action.version} is deprecated`);
+                if (current === BigInt(action.version)) errors.push(`defaultVersion is already ${action.version}`);
+                diff.push({
+                    contract: ctx.factory,
+                    field: "defaultVersion",
+                    from: current.toString(),
+                    to: String(action.version)
+                });
+                return prepared(
+                    ctx.factory,
+                    factoryInterface.encodeFunctionData("setDefaultVersion", [action.version]),
+                    `Set default pool implementation version to ${action.version}`
+                );
+            }
+
+            if (action.deprecated && current === BigInt(action.version))
+                errors.push(`Version ${action.version} is the default version`);
+            if (valid && deprecated === action.deprecated)
+                errors.push(`Version ${action.version} is already ${action.deprecated ? "deprecated" : "active"}`);
+            diff.push({
+                contract: ctx.factory,
+                field: `deprecatedVersions[${action.version}]`,
+                from: String(deprecated),
+                to: String(action.deprecated)
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setVersionDeprecated", [action.version, action.deprecated]),
+                `${action.deprecated ? "Deprecate" : "Restore"} pool implementation version ${action.version}`
+            );
+        }
+
+        case "setMultiTokenImplementation": {
+            if (!ethers.isAddress(action.implementation)) errors.push("implementation must be an address");
+            const current = await factory.multiTokenImplementation();
+            if (errors.length === 0 && current === ethers.getAddress(action.implementation))
+                errors.push("implementation is the current multi-token implementation");
+            if (
+                errors.length === 0 &&
+                action.implementation !== ethers.ZeroAddress &&
+                (await provider.getCode(action.implementation)) === "0x"
+            ) {
+                errors.push(`Implementation ${action.implementation} has no code`);
+            }
+            diff.push({
+                contract: ctx.factory,
+                field: "multiTokenImplementation",
+                from: current,
+                to: action.implementation
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setMultiTokenImplementation", [action.implementation]),
+                action.implementation === ethers.ZeroAddress
+                    ? "Disable multi-token pool creation"
+                    : `Set multi-token implementation to ${action.implementation}`
+            );
+        }
+
+        case "setDefaultFeeBps": {
+            await requireFeeBps(action.feeBps);
+            const current = await factory.defaultFeeBps();
+            if (current === BigInt(action.feeBps)) errors.push(`defaultFeeBps is already ${action.feeBps}`);
+            diff.push({
+                contract: ctx.factory,
+                field: "defaultFeeBps",
+                from: current.toString(),
+                to: String(action.feeBps)
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setDefaultFeeBps", [action.feeBps]),
+                `Set default platform fee to ${action.feeBps} bps`
+            );
+        }
+
+        case "setFeeTier": {
+            requireTier(action.tier, 1);
+            await requireFeeBps(action.feeBps);
+            const [enabled, bps] = errors.length === 0 ? await factory.feeTiers(action.tier) : [false, 0n];
+            if (errors.length === 0 && enabled === action.enabled && bps === BigInt(action.feeBps))
+                errors.push(`Fee tier ${action.tier} is already ${action.feeBps} bps (enabled: ${action.enabled})`);
+            diff.push(
+                {
+                    contract: ctx.factory,
+                    field: `feeTiers[${action.tier}].bps`,
+                    from: bps.toString(),
+                    to: String(action.feeBps)
+                },
+                {
+                    contract: ctx.factory,
+                    field: `feeTiers[${action.tier}].enabled`,
+                    from: String(enabled),
+                    to: String(action.enabled)
+                }
+            );
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setFeeTier", [action.tier, action.feeBps, action.enabled]),
+                `${action.enabled ? "Set" : "Disable"} fee tier ${action.tier} (${action.feeBps} bps)`
+            );
+        }
+
+        case "setCreatorFeeTier": {
+            requireAddress(action.creator, "creator");
+            requireTier(action.tier, 0);
+            const current = errors.length === 0 ? await factory.creatorFeeTier(action.creator) : 0n;
+            if (errors.length === 0 && current === BigInt(action.tier))
+                errors.push(`Creator ${action.creator} is already in fee tier ${action.tier}`);
+            diff.push({
+                contract: ctx.factory,
+                field: `creatorFeeTier[${action.creator}]`,
+                from: current.toString(),
+                to: String(action.tier)
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setCreatorFeeTier", [action.creator, action.tier]),
+                action.tier === 0
+                    ? `Move creator ${action.creator} back to the default fee`
+                    : `Assign creator ${action.creator} to fee tier ${action.tier}`
+            );
+        }
+
+        case "setPoolFeeOverride": {
+            await requireFeeBps(action.feeBps);
+            await loadPool(action.pool);
+            const [enabled, bps] = errors.length === 0 ? await factory.poolFeeOverrides(action.pool) : [false, 0n];
+            if (errors.length === 0 && enabled === action.enabled && bps === BigInt(action.feeBps))
+                errors.push(
+                    `Fee override of pool ${action.pool} is already ${action.feeBps} bps (enabled: ${action.enabled})`
+                );
+            diff.push(
+                {
+                    contract: ctx.factory,
+                    field: `poolFeeOverrides[${action.pool}].bps`,
+                    from: bps.toString(),
+                    to: String(action.feeBps)
+                },
+                {
+                    contract: ctx.factory,
+                    field: `poolFeeOverrides[${action.pool}].enabled`,
+                    from: String(enabled),
+                    to: String(action.enabled)
+                }
+            );
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setPoolFeeOverride", [action.pool, action.feeBps, action.enabled]),
+                `${action.enabled ? "Override" : "Clear the override of"} the fee of pool ${action.pool} (${action.feeBps} bps)`
+            );
+        }
+
+        case "unpause": {
+            const target = action.target === "factory" ? ctx.factory : action.target;
+            const contract = action.target === "factory" ? factory : await loadPool(action.target);
+            const paused = await contract.paused();
+            if (!paused) errors.push(`${target} is not paused`);
+            diff.push({ contract: target, field: "paused", from: String(paused), to: "false" });
+            return prepared(
+                target,
+                factoryInterface.encodeFunctionData("unpause"),
+                `Unpause ${action.target === "factory" ? "factory" : `pool ${target}`}`
+            );
+        }
+
+        case "updatePlatformTreasury": {
+            requireAddress(action.newTreasury, "newTreasury");
+            const pool = await loadPool(action.pool);
+            const current = errors.length === 0 ? await pool.platformTreasury() : ethers.ZeroAddress;
+            if (errors.length === 0 && current === ethers.getAddress(action.newTreasury))
+                errors.push("newTreasury is the current treasury");
+            diff.push({ contract: action.pool, field: "platformTreasury", from: current, to: action.newTreasury });
+            return prepared(
+                action.pool,
+                poolInterface.encodeFunctionData("updatePlatformTreasury", [action.newTreasury]),
+                `Update treasury of pool ${action.pool}`
+            );
+        }
+
+        case "resetLiability": {
+            const amount = BigInt(action.amount);
+            if (amount < 0n) errors.push("amount must not be negative");
+            if (action.token !== undefined) requireAddress(action.token, "token");
+            await loadPool(action.pool);
+            const multiToken = MultiTokenRewardPoolImplementation__factory.connect(action.pool, provider);
+            let current = 0n;
+            if (errors.length === 0 && action.token !== undefined) {
+                if (!(await multiToken.isPoolToken(action.token)))
+                    errors.push(`Token ${action.token} is not in pool ${action.pool}`);
+                else current = await multiToken.committedLiability(action.token);
+            } else if (errors.length === 0) {
+                current = await RewardPoolImplementation__factory.connect(action.pool, provider).committedLiability();
+            }
+            if (errors.length === 0 && amount >= current)
+                errors.push(`amount must be below the committed liability (${current})`);
+            diff.push({
+                contract: action.pool,
+                field: action.token !== undefined ? `committedLiability[${action.token}]` : "committedLiability",
+                from: current.toString(),
+                to: amount.toString()
+            });
+            return prepared(
+                action.pool,
+                action.token !== undefined
+                    ? multiTokenPoolInterface.encodeFunctionData("resetLiability", [action.token, amount])
+                    : poolInterface.encodeFunctionData("resetLiability", [amount]),
+                `Reset committed liability of pool ${action.pool}${action.token !== undefined ? ` (${action.token})` : ""} to ${amount}`
+            );
+        }
+
+        case "initiateEmergencySweepNotice": {
+            requireAddress(action.to, "to");
+            if (action.justification.trim().length === 0) errors.push("justification is required");
+            const pool = await loadPool(action.pool);
+            if (errors.length === 0) {
+                const [paused, lastClaim, gracePeriod, noticePeriod] = await Promise.all([
+                    pool.paused(),
+                    pool.lastClaimTimestamp(),
+                    pool.EMERGENCY_SWEEP_GRACE_PERIOD(),
+                    pool.EMERGENCY_NOTICE_PERIOD()
+                ]);
+                if (!paused) errors.push(`Pool ${action.pool} must be paused by the guardian first`);
+                if (executionTime < lastClaim + gracePeriod) {
+                    errors.push(
+                        `Last claim grace period ends ${formatTimestamp(lastClaim + gracePeriod)}, after execution`
+                    );
+                }
+                diff.push({
+                    contract: action.pool,
+                    field: "emergencyNoticeTimestamp",
+                    from: formatTimestamp(await pool.emergencyNoticeTimestamp()),
+                    to: `execution (sweep possible after + ${noticePeriod}s)`
+                });
+            }
+            return prepared(
+                action.pool,
+                poolInterface.encodeFunctionData("initiateEmergencySweepNotice", [action.to, action.justification]),
+                `Emergency sweep notice for pool ${action.pool} to ${action.to}`
+            );
+        }
+
+        case "emergencySweepAll": {
+            requireAddress(action.to, "to");
+            const pool = await loadPool(action.pool);
+            if (errors.length === 0) {
+                const [notice, noticePeriod] = await Promise.all([
+                    pool.emergencyNoticeTimestamp(),
+                    pool.EMERGENCY_NOTICE_PERIOD()
+                ]);
+                if (notice === 0n) errors.push(`Pool ${action.pool} has no emergency notice`);
+                else if (executionTime < notice + noticePeriod)
+                    errors.push(`Notice period ends ${formatTimestamp(notice + noticePeriod)}, after execution`);
+
+                // Single-token pools expose token(), multi-token pools tokens()
+                let tokens: string[];
+                try {
+                    tokens = [await pool.token()];
+                } catch {
+                    tokens = await MultiTokenRewardPoolImplementation__factory.connect(action.pool, provider).tokens();
+                }
+                let total = 0n;
+                for (const token of tokens) {
+                    const balance = await IERC20__factory.connect(token, provider).balanceOf(action.pool);
+                    total += balance;
+                    diff.push({
+                        contract: token,
+                        field: `balanceOf(${action.to})`,
+                        from: "current",
+                        to: `+${balance}`
+                    });
+                }
+                if (total === 0n) errors.push(`Pool ${action.pool} holds no tokens`);
+            }
+            return prepared(
+                action.pool,
+                poolInterface.encodeFunctionData("emergencySweepAll", [action.to]),
+                `Emergency sweep of pool ${action.pool} to ${action.to}`
+            );
+        }
+
+        case "setClaimAggregator": {
+            requireAddress(action.router, "router");
+            const current = errors.length === 0 ? await factory.claimAggregators(action.router) : false;
+            if (current === action.approved)
+                errors.push(`Router ${action.router} is already ${action.approved ? "approved" : "unapproved"}`);
+            diff.push({
+                contract: ctx.factory,
+                field: `claimAggregators[${action.router}]`,
+                from: String(current),
+                to: String(action.approved)
+            });
+            return prepared(
+                ctx.factory,
+                factoryInterface.encodeFunctionData("setClaimAggregator", [action.router, action.approved]),
+                `${action.approved ? "Allow" : "Disallow"} aggregated payouts to router ${action.router}`
+            );
+        }
+
+        case "setFactoryApproved": {
+            if (!ctx.router) throw new Error("setFactoryApproved requires a ClaimRouter address");
+            requireAddress(action.factory, "factory");
+            const router = ClaimRouter__factory.connect(ctx.router, provider);
+            const current = errors.length === 0 ? await router.approvedFactories(action.factory) : false;
+            if (current === action.approved)
+                errors.push(`Factory ${action.factory} is already ${action.approved ? "approved" : "unapproved"}`);
+            diff.push({
+                contract: ctx.router,
+                field: `approvedFactories[${action.factory}]`,
+                from: String(current),
+                to: String(action.approved)
+            });
+            return prepared(
+                ctx.router,
+                routerInterface.encodeFunctionData("setFactoryApproved", [action.factory, action.approved]),
+                `${action.approved ? "Approve" : "Revoke"} factory ${action.factory} in ClaimRouter`
+            );
+        }
+
+        case "setMaxBatchSize": {
+            if (!ctx.router) throw new Error("setMaxBatchSize requires a ClaimRouter address");
+            const router = ClaimRouter__factory.connect(ctx.router, provider);
+            if (!Number.isInteger(action.size) || action.size < 1 || action.size > 100)
+                errors.push("size must be within 1..100");
+            const current = await router.maxBatchSize();
+            if (current === BigInt(action.size)) errors.push(`maxBatchSize is already ${action.size}`);
+            diff.push({
+                contract: ctx.router,
+                field: "maxBatchSize",
+                from: current.toString(),
+                to: String(action.size)
+            });
+            return prepared(
+                ctx.router,
+                routerInterface.encodeFunctionData("setMaxBatchSize", [action.size]),
+                `Set ClaimRouter max batch size to ${action.size}`
+            );
+        }
+    }
+}
+
+/**
+ * Build the TimelockController batch of prepared calls
+ * @param timelock TimelockController address
+ * @param calls Prepared calls (executed in order)
+ * @param delay Delay passed to scheduleBatch (>= getMinDelay)
+ * @param now Current timestamp
+ * @param salt Operation salt (vary it to schedule the same calls twice)
+ * @param predecessor Operation that must execute first (zero = none)
+ * @returns Timelock proposal
+ */
+export function buildTimelockProposal(
+    timelock: string,
+    calls: PreparedCall[],
+    delay: bigint,
+    now: bigint,
+    salt: string = ethers.ZeroHash,
+    predecessor: string = ethers.ZeroHash
+): TimelockProposal {
+    if (calls.length === 0) throw new Error("Nothing to propose");
+
+    const targets = calls.map((call) => call.target);
+    const values = calls.map((call) => call.value);
+    const payloads = calls.map((call) => call.data);
+    // MUST match TimelockController.hashOperationBatch
+    const operationId = ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(
+            ["address[]", "uint256[]", "bytes[]", "bytes32", "bytes32"],
+            [targets, values, payloads, predecessor, salt]
+        )
+    );
+
+    return {
+        timelock: ethers.getAddress(timelock),
+        targets,
+        values,
+        payloads,
+        predecessor,
+        salt,
+        delay,
+        operationId,
+        earliestExecution: now + delay,
+        schedule: {
+            to: ethers.getAddress(timelock),
+            data: timelockInterface.encodeFunctionData("scheduleBatch", [
+                targets,
+                values,
+                payloads,
+                predecessor,
+                salt,
+                delay
+            ])
+        },
+        execute: {
+            to: ethers.getAddress(timelock),
+            data: timelockInterface.encodeFunctionData("executeBatch", [targets, values, payloads, predecessor, salt])
+        }
+    };
+}
+
+/**
+ * Build a Safe transaction-builder batch file
+ * @param chainId Network chain ID
+ * @param safe Safe address submitting the batch
+ * @param name Batch name
+ * @param description Batch description
+ * @param transactions Raw transactions
+ * @returns JSON-serializable Safe batch
+ */
+export function buildSafeBatch(
+    chainId: ethers.BigNumberish,
+    safe: string,
+    name: string,
+    description: string,
+    transactions: Array<{ to: string; value?: bigint; data: string }>
+): SafeBatchFile {
+    return {
+        version: SAFE_TX_BUILDER_VERSION,
+        chainId: ethers.toBigInt(chainId).toString(),
+        createdAt: Date.now(),
+        meta: {
+            name,
+            description,
+            txBuilderVersion: "1.16.5",
+            createdFromSafeAddress: ethers.getAddress(safe),
+            createdFromOwnerAddress: ""
+        },
+        transactions: transactions.map((tx) => ({
+            to: ethers.getAddress(tx.to),
+            value: (tx.value ?? 0n).toString(),
+            data: tx.data,
+            contractMethod: null,
+            contractInputsValues: null
+        }))
+    };
+}
+
+/**
+ * Render the diff of prepared calls as text
+ * @param calls Prepared calls
+ * @returns Multi-line human-readable diff
+ */
+export function formatDiff(calls: PreparedCall[]): string {
+    const lines: string[] = [];
+    calls.forEach((call, i) => {
+        lines.push(`${i + 1}. ${call.description}`);
+        for (const change of call.diff)
+            lines.push(`     ${change.contract}.${change.field}: ${change.from} -> ${change.to}`);
+        for (const error of call.errors) lines.push(`     ✖ ${error}`);
+    });
+    return lines.join("\n");
+}
@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+import { RewardPoolFactory__factory, RewardPoolImplementation__factory } from "../../typechain-types";
+
+/**
+ * Guardian incident response for a publisher key leak: revoke every publisher key, then pause the known pools
+ * CRITICAL: Revocation comes first - it stops every voucher at once, pausing pools one by one leaves a window
+ * NOTE: Single and multi-token pools share pause()/paused(); only the timelock can unpause them or install a
+ * new publisher afterwards
+ */
+
+/**
+ * Outcome of one pool
+ */
+export interface PoolPauseResult {
+    pool: string;
+    status: "paused" | "already-paused" | "failed";
+    txHash?: string;
+    error?: string;
+}
+
+/**
+ * Incident response report
+ */
+export interface IncidentResponseReport {
+    revokedPublisher: string | null; // Publisher current at the revocation (null if the keys were already revoked)
+    revocationTx: string | null;
+    pools: PoolPauseResult[];
+}
+
+/**
+ * Revoke the publisher keys and pause every pool
+ * @param factory Factory address
+ * @param pools Pool addresses (e.g. poolAddresses(registry))
+ * @param guardian Factory GUARDIAN signer
+ * @param onProgress Optional callback after each step
+ * @returns Report (pools that could not be paused are reported, not thrown)
+ */
+export async function respondToPublisherCompromise(
+    factory: string,
+    pools: string[],
+    guardian: ethers.Signer,
+    onProgress?: (step: string) => void
+): Promise<IncidentResponseReport> {
+    const contract = RewardPoolFactory__factory.connect(factory, guardian);
+    const expected = await contract.GUARDIAN();
+    if (ethers.getAddress(await guardian.getAddress()) !== expected) {
+        throw new Error(`Signer is not the factory guardian (${expected})`);
+    }
+
+    const report: IncidentResponseReport = { revokedPublisher: null, revocationTx: null, pools: [] };
+    const [current] = await contract.getPublisherInfo();
+    if ((await contract.publisher()) !== ethers.ZeroAddress) {
+        const receipt = await (await contract.emergencyRevokePublishers()).wait();
+        report.revokedPublisher = current;
+        report.revocationTx = receipt!.hash;
+        onProgress?.(`Publisher keys revoked (${receipt!.hash})`);
+    } else {
+        onProgress?.("Publisher keys already revoked");
+    }
+
+    for (const address of pools) {
+        const pool = RewardPoolImplementation__factory.connect(address, guardian);
+        try {
+            if (await pool.paused()) {
+                report.pools.push({ pool: address, status: "already-paused" });
+                onProgress?.(`${address} already paused`);
+                continue;
+            }
+            const receipt = await (await pool.pause()).wait();
+            report.pools.push({ pool: address, status: "paused", txHash: receipt!.hash });
+            onProgress?.(`${address} paused (${receipt!.hash})`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            report.pools.push({ pool: address, status: "failed", error: message });
+            onProgress?.(`${address} failed: ${message}`);
+        }
+    }
+    return report;
+}
@@ -0,0 +1,744 @@
+import { ethers } from "ethers";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+    ClaimRouter__factory,
+    MultiTokenRewardPoolImplementation__factory,
+    RewardPoolFactory__factory,
+    RewardPoolImplementation__factory
+} from "../../typechain-types";
+import { decodeClaimFailure } from "./claim-diagnostics";
+import { quoteClaimFee } from "./fee-quote";
+
+/**
+ * Event indexer rebuilding factory, pool and router state from logs
+ * CRITICAL: Logs must be applied in (blockNumber, logIndex) order - fees depend on the fee schedule at claim time
+ * NOTE: Amounts are decimal strings so the model round-trips through JSON checkpoints unchanged
+ */
+
+/**
+ * Model schema version (bump on breaking changes to invalidate old checkpoints)
+ */
+export const INDEXER_SCHEMA_VERSION = 3;
+
+/**
+ * Publisher grace period - MUST match RewardPoolFactory.PUBLISHER_GRACE_PERIOD
+ */
+const PUBLISHER_GRACE_PERIOD = 7n * 24n * 60n * 60n;
+
+/**
+ * Previous publishers checked by the factory - MUST match RewardPoolFactory.MAX_GRACE_PUBLISHERS
+ */
+const MAX_GRACE_PUBLISHERS = 3;
+
+const factoryInterface = RewardPoolFactory__factory.createInterface();
+const poolInterface = RewardPoolImplementation__factory.createInterface();
+const multiTokenPoolInterface = MultiTokenRewardPoolImplementation__factory.createInterface();
+const routerInterface = ClaimRouter__factory.createInterface();
+
+/**
+ * Position of a log in the chain
+ */
+export interface LogRef {
+    blockNumber: number;
+    txHash: string;
+    logIndex: number;
+}
+
+/**
+ * Governance or operational action recorded verbatim
+ */
+export interface GovernanceAction extends LogRef {
+    contract: string;
+    event: string;
+    args: Record<string, string | boolean | string[]>;
+}
+
+/**
+ * Per-account, per-token claim totals
+ */
+export interface AccountClaims {
+    claimed: string; // Cumulative gross amount claimed
+    fees: string; // Cumulative platform fees paid
+    released: string; // Cumulative vesting releases
+    lastClaimBlock: number;
+}
+
+/**
+ * Funding or withdrawal movement
+ */
+export interface FundsMovement extends LogRef {
+    account: string;
+    token: string;
+    amount: string;
+}
+
+/**
+ * Indexed pool state
+ */
+export interface PoolRecord {
+    address: string;
+    kind: "single" | "multi";
+    creator: string;
+    tokens: string[];
+    version: string | null; // Implementation version (null for multi-token pools)
+    salt: string;
+    nonce: string;
+    created: LogRef;
+    funded: Record<string, string>; // token -> total funded
+    withdrawn: Record<string, string>; // token -> total withdrawn
+    claimed: Record<string, string>; // token -> total gross claimed
+    fees: Record<string, string>; // token -> total fees
+    accounts: Record<string, Record<string, AccountClaims>>; // account -> token -> totals
+    fundingHistory: FundsMovement[];
+    withdrawalHistory: FundsMovement[];
+    merkleRoot: string | null;
+    merkleEpoch: string;
+    committedLiability: Record<string, string>; // token -> publisher-committed liability
+    paused: boolean;
+}
+
+/**
+ * Indexed factory governance state
+ */
+export interface FactoryState {
+    publisher: string | null; // Latest publisher (a scheduled one signs from graceEndTime - grace period)
+    oldPublisher: string | null; // Latest entry of gracePublishers
+    graceEndTime: string;
+    gracePublishers: Array<{ publisher: string; graceEnd: string }>; // Retired publishers with a grace end, latest first
+    paused: boolean;
+    allowedTokens: Record<string, boolean>;
+    defaultFeeBps: string;
+    feeTiers: Record<string, { enabled: boolean; bps: string }>;
+    creatorFeeTiers: Record<string, string>;
+    poolFeeOverrides: Record<string, { enabled: boolean; bps: string }>;
+    implementations: Record<string, string>;
+    defaultVersion: string;
+    deprecatedVersions: Record<string, boolean>;
+    multiTokenImplementation: string | null;
+}
+
+/**
+ * Indexed router state
+ */
+export interface RouterState {
+    approvedFactories: Record<string, boolean>;
+    maxBatchSize: string;
+    batches: number;
+    successfulClaims: number;
+    failedClaims: number;
+    failureReasons: Record<string, number>; // Decoded failure message -> count
+    totalGross: string;
+    totalFees: string;
+    totalNet: string;
+}
+
+/**
+ * Complete indexer model (JSON-serializable)
+ */
+export interface IndexerState {
+    schemaVersion: number;
+    chainId: string;
+    factory: string;
+    router: string | null;
+    startBlock: number;
+    lastProcessedBlock: number; // Checkpoint: every log up to and including this block is applied
+    factoryState: FactoryState;
+    pools: Record<string, PoolRecord>;
+    routerState: RouterState;
+    governance: GovernanceAction[];
+}
+
+/**
+ * Indexer configuration
+ */
+export interface IndexerConfig {
+    chainId: ethers.BigNumberish;
+    factory: string;
+    router?: string;
+    startBlock: number; // Factory deployment block
+    // Constructor state emits no events - pass it to start from a complete model
+    publisher?: string; // Initial publisher
+    poolImplementation?: string; // Version 1 implementation
+    defaultFeeBps?: bigint; // Initial default fee (defaults to 1000)
+}
+
+/**
+ * Sync options
+ */
+export interface SyncOptions {
+    toBlock?: number; // Defaults to latest - confirmations
+    confirmations?: number; // Blocks kept away from the head for reorg safety (default 0)
+    blockRange?: number; // Blocks per getLogs query (default 2000)
+    addressesPerQuery?: number; // Addresses per getLogs query (default 500)
+    onCheckpoint?: (state: IndexerState) => Promise<void> | void; // Called after each applied range
+}
+
+const FACTORY_GOVERNANCE_EVENTS = new Set([
+    "TokenAllowedUpdated",
+    "PublisherRotationInitiated",
+    "PublisherRotationScheduled",
+    "PublisherRotationCancelled",
+    "PublisherRevoked",
+    "PublisherEmergencyRevoked",
+    "DefaultFeeUpdated",
+    "FeeTierUpdated",
+    "CreatorFeeTierUpdated",
+    "PoolFeeOverrideUpdated",
+    "ImplementationRegistered",
+    "DefaultVersionUpdated",
+    "VersionDeprecationUpdated",
+    "MultiTokenImplementationUpdated",
+    "ClaimAuthorizationUpdated",
+    "PublisherSignerUpdated",
+    "PublisherThresholdUpdated",
+    "ThresholdLimitsUpdated",
+    "ClaimAggregatorUpdated",
+    "Paused",
+    "Unpaused",
+    "RoleGranted",
+    "RoleRevoked"
+]);
+
+const POOL_GOVERNANCE_EVENTS = new Set([
+    "PlatformTreasuryUpdated",
+    "EmergencySweepNoticeInitiated",
+    "EmergencySweep",
+    "MerkleRootUpdated",
+    "LiabilityCommitted",
+    "LiabilityReset",
+    "VestingScheduleUpdated",
+    "WithdrawalRequested",
+    "WithdrawalCancelled",
+    "TokenAdded",
+    "Paused",
+    "Unpaused"
+]);
+
+const ROUTER_GOVERNANCE_EVENTS = new Set(["FactoryApprovalUpdated", "MaxBatchSizeUpdated"]);
+
+/**
+ * Create an empty indexer model
+ * @param config Indexer configuration
+ * @returns Empty state positioned before startBlock
+ */
+export function createIndexerState(config: IndexerConfig): IndexerState {
+    return {
+        schemaVersion: INDEXER_SCHEMA_VERSION,
+        chainId: ethers.toBigInt(config.chainId).toString(),
+        factory: ethers.getAddress(config.factory),
+        router: config.router ? ethers.getAddress(config.router) : null,
+        startBlock: config.startBlock,
+        lastProcessedBlock: config.startBlock - 1,
+        factoryState: {
+            publisher: config.publisher ? ethers.getAddress(config.publisher) : null,
+            oldPublisher: null,
+            graceEndTime: "0",
+            gracePublishers: [],
+            paused: false,
+            allowedTokens: {},
+            defaultFeeBps: (config.defaultFeeBps ?? 1000n).toString(),
+            feeTiers: {},
+            creatorFeeTiers: {},
+            poolFeeOverrides: {},
+            implementations: config.poolImplementation ? { "1": ethers.getAddress(config.poolImplementation) } : {},
+            defaultVersion: "1",
+            deprecatedVersions: {},
+            multiTokenImplementation: null
+        },
+        pools: {},
+        routerState: {
+            approvedFactories: {},
+            maxBatchSize: "20",
+            batches: 0,
+            successfulClaims: 0,
+            failedClaims: 0,
+            failureReasons: {},
+            totalGross: "0",
+            totalFees: "0",
+            totalNet: "0"
+        },
+        governance: []
+    };
+}
+
+/**
+ * Resolve the fee of a pool from the indexed schedule - MUST match RewardPoolFactory.getFeeBps
+ * @param state Indexer state
+ * @param pool Pool record
+ * @returns Fee in basis points
+ */
+export function resolveFeeBps(state: IndexerState, pool: PoolRecord): bigint {
+    const { poolFeeOverrides, creatorFeeTiers, feeTiers, defaultFeeBps } = state.factoryState;
+    const override = poolFeeOverrides[pool.address];
+    if (override?.enabled) return BigInt(override.bps);
+
+    const tier = creatorFeeTiers[pool.creator];
+    if (tier !== undefined && tier !== "0" && feeTiers[tier]?.enabled) return BigInt(feeTiers[tier].bps);
+
+    return BigInt(defaultFeeBps);
+}
+
+function add(a: string | undefined, b: bigint): string {
+    return (BigInt(a ?? "0") + b).toString();
+}
+
+function optionalAddress(address: string): string | null {
+    return address === ethers.ZeroAddress ? null : ethers.getAddress(address);
+}
+
+function retirePublisher(factoryState: FactoryState, oldPublisher: string, graceEnd: bigint): void {
+    // No grace after an emergency revocation (the outgoing key is the zero address)
+    if (oldPublisher !== ethers.ZeroAddress) {
+        factoryState.gracePublishers.unshift({
+            publisher: ethers.getAddress(oldPublisher),
+            graceEnd: graceEnd.toString()
+        });
+        factoryState.gracePublishers.splice(MAX_GRACE_PUBLISHERS);
+    }
+    syncGracePublisher(factoryState);
+}
+
+function dropGracePublisher(factoryState: FactoryState, publisher: string): void {
+    const index = factoryState.gracePublishers.findIndex((key) => key.publisher === ethers.getAddress(publisher));
+    if (index >= 0) factoryState.gracePublishers.splice(index, 1);
+    syncGracePublisher(factoryState);
+}
+
+function syncGracePublisher(factoryState: FactoryState): void {
+    const [latest] = factoryState.gracePublishers;
+    factoryState.oldPublisher = latest?.publisher ?? null;
+    factoryState.graceEndTime = latest?.graceEnd ?? "0";
+}
+
+function serializeArgs(parsed: ethers.LogDescription): Record<string, string | boolean | string[]> {
+    const args: Record<string, string | boolean | string[]> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+        const value = parsed.args[i];
+        args[input.name] = Array.isArray(value)
+            ? value.map((item) => item.toString())
+            : typeof value === "boolean"
+              ? value
+              : value.toString();
+    });
+    return args;
+}
+
+function logRef(log: ethers.Log): LogRef {
+    return { blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index };
+}
+
+function newPool(
+    address: string,
+    kind: PoolRecord["kind"],
+    creator: string,
+    tokens: string[],
+    version: string | null,
+    salt: string,
+    nonce: string,
+    created: LogRef
+): PoolRecord {
+    return {
+        address,
+        kind,
+        creator,
+        tokens,
+        version,
+        salt,
+        nonce,
+        created,
+        funded: {},
+        withdrawn: {},
+        claimed: {},
+        fees: {},
+        accounts: {},
+        fundingHistory: [],
+        withdrawalHistory: [],
+        merkleRoot: null,
+        merkleEpoch: "0",
+        committedLiability: {},
+        paused: false
+    };
+}
+
+function accountClaims(pool: PoolRecord, account: string, token: string): AccountClaims {
+    pool.accounts[account] ??= {};
+    pool.accounts[account][token] ??= { claimed: "0", fees: "0", released: "0", lastClaimBlock: 0 };
+    return pool.accounts[account][token];
+}
+
+function applyFactoryLog(state: IndexerState, log: ethers.Log, parsed: ethers.LogDescription): void {
+    const factoryState = state.factoryState;
+    const a = parsed.args;
+    switch (parsed.name) {
+        case "PoolCreated":
+        case "PoolCreatedAndFunded": {
+            const pool = ethers.getAddress(a.pool);
+            state.pools[pool] = newPool(
+                pool,
+                "single",
+                ethers.getAddress(a.creator),
+                [ethers.getAddress(a.token)],
+                a.version.toString(),
+                a.salt,
+                a.nonce.toString(),
+                logRef(log)
+            );
+            if (parsed.name === "PoolCreatedAndFunded") {
+                // Funded through the factory's transferFrom (the pool emits no Funded event)
+                const record = state.pools[pool];
+                const token = record.tokens[0];
+                record.funded[token] = add(record.funded[token], a.fundingAmount);
+                record.fundingHistory.push({
+                    ...logRef(log),
+                    account: record.creator,
+                    token,
+                    amount: a.fundingAmount.toString()
+                });
+            }
+            return;
+        }
+        case "MultiTokenPoolCreated": {
+            const pool = ethers.getAddress(a.pool);
+            const tokens = (a.tokens as string[]).map((token) => ethers.getAddress(token));
+            state.pools[pool] = newPool(
+                pool,
+                "multi",
+                ethers.getAddress(a.creator),
+                tokens,
+                null,
+                a.salt,
+                a.nonce.toString(),
+                logRef(log)
+            );
+            return;
+        }
+        case "TokenAllowedUpdated":
+            factoryState.allowedTokens[ethers.getAddress(a.token)] = a.allowed;
+            break;
+        case "PublisherRotationInitiated":
+            factoryState.publisher = ethers.getAddress(a.newPublisher);
+            retirePublisher(factoryState, a.oldPublisher, a.graceEndTime);
+            break;
+        case "PublisherRotationScheduled":
+            factoryState.publisher = ethers.getAddress(a.newPublisher);
+            retirePublisher(factoryState, a.oldPublisher, a.activationTime + PUBLISHER_GRACE_PERIOD);
+            break;
+        case "PublisherEmergencyRevoked":
+            factoryState.publisher = null;
+            factoryState.gracePublishers = [];
+            syncGracePublisher(factoryState);
+            break;
+        case "PublisherRevoked":
+            dropGracePublisher(factoryState, a.revokedPublisher);
+            break;
+        case "PublisherRotationCancelled":
+            // The restored key ends its grace record; earlier publishers keep theirs
+            factoryState.publisher = optionalAddress(a.restoredPublisher);
+            if (factoryState.publisher) dropGracePublisher(factoryState, factoryState.publisher);
+            break;
+        case "DefaultFeeUpdated":
+            factoryState.defaultFeeBps = a.newFeeBps.toString();
+            break;
+        case "FeeTierUpdated":
+            factoryState.feeTiers[a.tier.toString()] = { enabled: a.enabled, bps: a.feeBps.toString() };
+            break;
+        case "CreatorFeeTierUpdated":
+            factoryState.creatorFeeTiers[ethers.getAddress(a.creator)] = a.tier.toString();
+            break;
+        case "PoolFeeOverrideUpdated":
+            factoryState.poolFeeOverrides[ethers.getAddress(a.pool)] = { enabled: a.enabled, bps: a.feeBps.toString() };
+            break;
+        case "ImplementationRegistered":
+            factoryState.implementations[a.version.toString()] = ethers.getAddress(a.implementation);
+            break;
+        case "DefaultVersionUpdated":
+            factoryState.defaultVersion = a.newVersion.toString();
+            break;
+        case "VersionDeprecationUpdated":
+            factoryState.deprecatedVersions[a.version.toString()] = a.deprecated;
+            break;
+        case "MultiTokenImplementationUpdated":
+            factoryState.multiTokenImplementation =
+                a.newImplementation === ethers.ZeroAddress ? null : ethers.getAddress(a.newImplementation);
+            break;
+        case "Paused":
+            factoryState.paused = true;
+            break;
+        case "Unpaused":
+            factoryState.paused = false;
+            break;
+    }
+
+    if (FACTORY_GOVERNANCE_EVENTS.has(parsed.name)) {
+        state.governance.push({
+            ...logRef(log),
+            contract: state.factory,
+            event: parsed.name,
+            args: serializeArgs(parsed)
+        });
+    }
+}
+
+function applyPoolLog(state: IndexerState, pool: PoolRecord, log: ethers.Log, parsed: ethers.LogDescription): void {
+    const a = parsed.args;
+    switch (parsed.name) {
+        case "Funded": {
+            const token = ethers.getAddress(a.token);
+            pool.funded[token] = add(pool.funded[token], a.amount);
+            pool.fundingHistory.push({
+                ...logRef(log),
+                account: ethers.getAddress(a.funder),
+                token,
+                amount: a.amount.toString()
+            });
+            break;
+        }
+        case "Withdrawn": {
+            const token = ethers.getAddress(a.token);
+            pool.withdrawn[token] = add(pool.withdrawn[token], a.amount);
+            pool.withdrawalHistory.push({
+                ...logRef(log),
+                account: ethers.getAddress(a.creator),
+                token,
+                amount: a.amount.toString()
+            });
+            break;
+        }
+        case "ClaimedMinimal": {
+            const token = ethers.getAddress(a.token);
+            const claims = accountClaims(pool, ethers.getAddress(a.account), token);
+            const { gross, fee } = quoteClaimFee(
+                resolveFeeBps(state, pool),
+                a.cumulativeAmount,
+                BigInt(claims.claimed)
+            );
+            claims.claimed = a.cumulativeAmount.toString();
+            claims.fees = add(claims.fees, fee);
+            claims.lastClaimBlock = log.blockNumber;
+            pool.claimed[token] = add(pool.claimed[token], gross);
+            pool.fees[token] = add(pool.fees[token], fee);
+            break;
+        }
+        case "Released": {
+            const claims = accountClaims(pool, ethers.getAddress(a.account), ethers.getAddress(a.token));
+            claims.released = add(claims.released, a.amount);
+            break;
+        }
+        case "TokenAdded":
+            pool.tokens.push(ethers.getAddress(a.token));
+            break;
+        case "MerkleRootUpdated":
+            pool.merkleRoot = a.root;
+            pool.merkleEpoch = a.epoch.toString();
+            break;
+        // Multi-token pools name the token, single-token pools have one
+        case "LiabilityCommitted":
+            pool.committedLiability[pool.kind === "multi" ? ethers.getAddress(a.token) : pool.tokens[0]] =
+                a.totalCumulativeAmount.toString();
+            break;
+        case "LiabilityReset":
+            pool.committedLiability[pool.kind === "multi" ? ethers.getAddress(a.token) : pool.tokens[0]] =
+                a.newLiability.toString();
+            break;
+        case "Paused":
+            pool.paused = true;
+            break;
+        case "Unpaused":
+            pool.paused = false;
+            break;
+    }
+
+    if (POOL_GOVERNANCE_EVENTS.has(parsed.name)) {
+        state.governance.push({
+            ...logRef(log),
+            contract: pool.address,
+            event: parsed.name,
+            args: serializeArgs(parsed)
+        });
+    }
+}
+
+function applyRouterLog(state: IndexerState, log: ethers.Log, parsed: ethers.LogDescription): void {
+    const router = state.routerState;
+    const a = parsed.args;
+    switch (parsed.name) {
+        case "BatchClaimed":
+            router.batches += 1;
+            router.totalGross = add(router.totalGross, a.totalGross);
+            router.totalFees = add(router.totalFees, a.totalFees);
+            router.totalNet = add(router.totalNet, a.totalNet);
+            break;
+        case "ClaimSucceeded":
+            router.successfulClaims += 1;
+            break;
+        case "ClaimFailed": {
+            const { message } = decodeClaimFailure(a.code, a.reason);
+            router.failedClaims += 1;
+            router.failureReasons[message] = (router.failureReasons[message] ?? 0) + 1;
+            break;
+        }
+        case "FactoryApprovalUpdated":
+            router.approvedFactories[ethers.getAddress(a.factory)] = a.approved;
+            break;
+        case "MaxBatchSizeUpdated":
+            router.maxBatchSize = a.newSize.toString();
+            break;
+    }
+
+    if (ROUTER_GOVERNANCE_EVENTS.has(parsed.name)) {
+        state.governance.push({
+            ...logRef(log),
+            contract: state.router!,
+            event: parsed.name,
+            args: serializeArgs(parsed)
+        });
+    }
+}
+
+/**
+ * Apply one log to the model (unknown logs are ignored)
+ * @param state Indexer state (mutated)
+ * @param log Log from the factory, the router or an indexed pool
+ */
+export function applyLog(state: IndexerState, log: ethers.Log): void {
+    const address = ethers.getAddress(log.address);
+
+    if (address === state.factory) {
+        const parsed = factoryInterface.parseLog(log);
+        if (parsed) applyFactoryLog(state, log, parsed);
+        return;
+    }
+
+    if (address === state.router) {
+        const parsed = routerInterface.parseLog(log);
+        if (parsed) applyRouterLog(state, log, parsed);
+        return;
+    }
+
+    const pool = state.pools[address];
+    if (pool) {
+        const parsed = (pool.kind === "multi" ? multiTokenPoolInterface : poolInterface).parseLog(log);
+        if (parsed) applyPoolLog(state, pool, log, parsed);
+    }
+}
+
+function compareLogs(a: ethers.Log, b: ethers.Log): number {
+    return a.blockNumber - b.blockNumber || a.index - b.index;
+}
+
+async function getLogsForAddresses(
+    provider: ethers.Provider,
+    addresses: string[],
+    fromBlock: number,
+    toBlock: number,
+    addressesPerQuery: number
+): Promise<ethers.Log[]> {
+    const logs: ethers.Log[] = [];
+    for (let i = 0; i < addresses.length; i += addressesPerQuery) {
+        logs.push(
+            ...(await provider.getLogs({ address: addresses.slice(i, i + addressesPerQuery), fromBlock, toBlock }))
+        );
+    }
+    return logs.sort(compareLogs);
+}
+
+/**
+ * Replay logs from the checkpoint up to the target block
+ * Pools created in a range are discovered from factory logs first, then all logs of the range are applied in order
+ * @param provider Provider to read logs from
+ * @param state Indexer state (mutated, resumes from lastProcessedBlock)
+ * @param options Sync options
+ * @returns Updated state
+ */
+export async function syncIndexer(
+    provider: ethers.Provider,
+    state: IndexerState,
+    options: SyncOptions = {}
+): Promise<IndexerState> {
+    const network = await provider.getNetwork();
+    if (network.chainId.toString() !== state.chainId) {
+        throw new Error(`Chain ID mismatch: state=${state.chainId} vs provider=${network.chainId}`);
+    }
+
+    const blockRange = options.blockRange ?? 2000;
+    const addressesPerQuery = options.addressesPerQuery ?? 500;
+    const toBlock = options.toBlock ?? (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+
+    while (state.lastProcessedBlock < toBlock) {
+        const fromBlock = state.lastProcessedBlock + 1;
+        const rangeEnd = Math.min(fromBlock + blockRange - 1, toBlock);
+
+        // Discover pools created in this range so their logs are fetched together with the factory logs
+        const factoryLogs = await provider.getLogs({ address: state.factory, fromBlock, toBlock: rangeEnd });
+        const newPools = factoryLogs
+            .map((log) => factoryInterface.parseLog(log))
+            .filter(
+                (parsed) =>
+                    parsed && ["PoolCreated", "PoolCreatedAndFunded", "MultiTokenPoolCreated"].includes(parsed.name)
+            )
+            .map((parsed) => ethers.getAddress(parsed!.args.pool));
+
+        const addresses = [...(state.router ? [state.router] : []), ...Object.keys(state.pools), ...newPools];
+        const logs = [
+            ...factoryLogs,
+            ...(await getLogsForAddresses(provider, addresses, fromBlock, rangeEnd, addressesPerQuery))
+        ];
+
+        for (const log of logs.sort(compareLogs)) {
+            applyLog(state, log);
+        }
+
+        state.lastProcessedBlock = rangeEnd;
+        await options.onCheckpoint?.(state);
+    }
+
+    return state;
+}
+
+/**
+ * Write the model as a JSON checkpoint
+ * @param filePath Output path
+ * @param state Indexer state
+ */
+export async function saveCheckpoint(filePath: string, state: IndexerState): Promise<void> {
+    const p = path.resolve(process.cwd(), filePath);
+    await fs.mkdir(path.dirname(p), { recursive: true });
+    // Write-then-rename so an interrupted save never corrupts the previous checkpoint
+    await fs.writeFile(`${p}.tmp`, JSON.stringify(state, null, 2) + "\n", "utf8");
+    await fs.rename(`${p}.tmp`, p);
+}
+
+/**
+ * Load a JSON checkpoint, or create a fresh model when none exists
+ * NOTE: Only a missing file starts over - unreadable or corrupt checkpoints throw instead of replaying from startBlock
+ * @param filePath Checkpoint path
+ * @param config Indexer configuration (must match the checkpoint)
+ * @returns Indexer state ready for syncIndexer
+ */
+export async function loadCheckpoint(filePath: string, config: IndexerConfig): Promise<IndexerState> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(path.resolve(process.cwd(), filePath), "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return createIndexerState(config);
+        throw error;
+    }
+
+    let state: IndexerState;
+    try {
+        state = JSON.parse(raw);
+    } catch (error) {
+        throw new Error(`Checkpoint ${filePath} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (state.schemaVersion !== INDEXER_SCHEMA_VERSION) {
+        throw new Error(`Checkpoint schema mismatch: file=${state.schemaVersion} vs indexer=${INDEXER_SCHEMA_VERSION}`);
+    }
+    if (
+        state.factory !== ethers.getAddress(config.factory) ||
+        state.chainId !== ethers.toBigInt(config.chainId).toString()
+    ) {
+        throw new Error(`Checkpoint ${filePath} belongs to another factory or chain`);
+    }
+    return state;
+}
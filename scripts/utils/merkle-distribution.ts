@@ -0,0 +1,209 @@
+import { ethers } from "ethers";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Merkle distribution builder for RewardPoolImplementation.claimWithProof
+ * CRITICAL: Leaf encoding and pair hashing must match the vault and OpenZeppelin MerkleProof exactly
+ */
+
+/**
+ * Cumulative entitlement of one account
+ */
+export interface DistributionEntry {
+    account: string;
+    cumulativeAmount: bigint;
+}
+
+/**
+ * JSON distribution file served to claimants (amounts as decimal strings)
+ */
+export interface MerkleDistribution {
+    vault: string;
+    chainId: string;
+    epoch: string;
+    root: string;
+    totalCumulativeAmount: string;
+    claims: Record<string, { cumulativeAmount: string; proof: string[] }>;
+}
+
+/**
+ * Batch proof claim data structure for ClaimRouter.claimAllWithProofs
+ */
+export interface ProofClaimData {
+    vault: string;
+    account: string;
+    cumulativeAmount: bigint;
+    proof: string[];
+}
+
+/**
+ * Compute a distribution leaf - MUST match keccak256(bytes.concat(keccak256(abi.encode(account, cumulativeAmount))))
+ * @param account Account address
+ * @param cumulativeAmount Cumulative amount due
+ * @returns Leaf hash
+ */
+export function hashDistributionLeaf(account: string, cumulativeAmount: bigint): string {
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [account, cumulativeAmount]);
+    return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+/**
+ * Commutative pair hash - MUST match OpenZeppelin Hashes.commutativeKeccak256
+ */
+function hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b) ? ethers.keccak256(ethers.concat([a, b])) : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Build all tree layers bottom-up (odd nodes are promoted unchanged)
+ * @param leaves Leaf hashes
+ * @returns Layers from leaves to root
+ */
+function buildLayers(leaves: string[]): string[][] {
+    const layers: string[][] = [[...leaves].sort()];
+    while (layers[layers.length - 1].length > 1) {
+        const current = layers[layers.length - 1];
+        const next: string[] = [];
+        for (let i = 0; i < current.length; i += 2) {
+            next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+        }
+        layers.push(next);
+    }
+    return layers;
+}
+
+/**
+ * Generate the inclusion proof of a leaf
+ * @param layers Tree layers from buildLayers
+ * @param leaf Leaf hash
+ * @returns Sibling hashes from leaf to root
+ */
+function getProof(layers: string[][], leaf: string): string[] {
+    let index = layers[0].indexOf(leaf);
+    if (index < 0) throw new Error(`Leaf not in tree: ${leaf}`);
+
+    const proof: string[] = [];
+    for (let level = 0; level < layers.length - 1; level++) {
+        const sibling = index % 2 === 0 ? index + 1 : index - 1;
+        if (sibling < layers[level].length) proof.push(layers[level][sibling]);
+        index = Math.floor(index / 2);
+    }
+    return proof;
+}
+
+/**
+ * Verify a proof locally - mirrors MerkleProof.verifyCalldata in claimWithProof
+ * @param root Merkle root
+ * @param account Account address
+ * @param cumulativeAmount Cumulative amount due
+ * @param proof Inclusion proof
+ * @returns Whether the proof is valid
+ */
+export function verifyDistributionProof(
+    root: string,
+    account: string,
+    cumulativeAmount: bigint,
+    proof: string[]
+): boolean {
+    let computed = hashDistributionLeaf(account, cumulativeAmount);
+    for (const sibling of proof) {
+        computed = hashPair(computed, sibling);
+    }
+    return computed === root;
+}
+
+/**
+ * Build a cumulative Merkle distribution for one vault
+ * @param vault Vault (clone) address
+ * @param chainId Network chain ID
+ * @param epoch Distribution epoch (must exceed the vault's current merkleEpoch when posted)
+ * @param entries Cumulative entitlements (one per account, amounts never decrease across epochs)
+ * @returns JSON-serializable distribution with root and per-account proofs
+ */
+export function buildMerkleDistribution(
+    vault: string,
+    chainId: ethers.BigNumberish,
+    epoch: ethers.BigNumberish,
+    entries: DistributionEntry[]
+): MerkleDistribution {
+    if (entries.length === 0) throw new Error("Distribution must contain at least one entry");
+
+    const seen = new Set<string>();
+    let total = 0n;
+    const leaves = entries.map(({ account, cumulativeAmount }) => {
+        const normalized = ethers.getAddress(account);
+        if (seen.has(normalized)) throw new Error(`Duplicate account in distribution: ${normalized}`);
+        if (cumulativeAmount <= 0n) throw new Error(`Invalid cumulative amount for ${normalized}`);
+        seen.add(normalized);
+        total += cumulativeAmount;
+        return hashDistributionLeaf(normalized, cumulativeAmount);
+    });
+
+    const layers = buildLayers(leaves);
+    const root = layers[layers.length - 1][0];
+
+    const claims: MerkleDistribution["claims"] = {};
+    entries.forEach(({ account, cumulativeAmount }, i) => {
+        claims[ethers.getAddress(account)] = {
+            cumulativeAmount: cumulativeAmount.toString(),
+            proof: getProof(layers, leaves[i])
+        };
+    });
+
+    return {
+        vault: ethers.getAddress(vault),
+        chainId: ethers.toBigInt(chainId).toString(),
+        epoch: ethers.toBigInt(epoch).toString(),
+        root,
+        totalCumulativeAmount: total.toString(),
+        claims
+    };
+}
+
+/**
+ * Build ClaimRouter.claimAllWithProofs items from one or more distributions
+ * @param distributions Distribution files (one per vault)
+ * @param account Account to build claims for
+ * @returns Proof claim data for every vault the account appears in
+ */
+export function buildProofClaims(distributions: MerkleDistribution[], account: string): ProofClaimData[] {
+    const normalized = ethers.getAddress(account);
+    return distributions
+        .filter((distribution) => distribution.claims[normalized] !== undefined)
+        .map((distribution) => ({
+            vault: distribution.vault,
+            account: normalized,
+            cumulativeAmount: BigInt(distribution.claims[normalized].cumulativeAmount),
+            proof: distribution.claims[normalized].proof
+        }));
+}
+
+/**
+ * Write a distribution JSON file
+ * @param filePath Output path
+ * @param distribution Distribution to write
+ */
+export async function writeDistributionFile(filePath: string, distribution: MerkleDistribution): Promise<void> {
+    const p = path.resolve(process.cwd(), filePath);
+    await fs.mkdir(path.dirname(p), { recursive: true });
+    await fs.writeFile(p, JSON.stringify(distribution, null, 2) + "\n", "utf8");
+}
+
+/**
+ * Read a distribution JSON file and check its root against its proofs
+ * @param filePath Input path
+ * @returns Parsed distribution
+ */
+export async function readDistributionFile(filePath: string): Promise<MerkleDistribution> {
+    const raw = await fs.readFile(path.resolve(process.cwd(), filePath), "utf8");
+    const distribution: MerkleDistribution = JSON.parse(raw);
+
+    for (const [account, { cumulativeAmount, proof }] of Object.entries(distribution.claims)) {
+        if (!verifyDistributionProof(distribution.root, account, BigInt(cumulativeAmount), proof)) {
+            throw new Error(`Invalid proof for ${account} in ${filePath}`);
+        }
+    }
+
+    return distribution;
+}
@@ -0,0 +1,194 @@
+import { ethers } from "ethers";
+import { IERC20Metadata__factory, ISignatureTransfer__factory, MockPermit2__factory } from "../../typechain-types";
+
+/**
+ * Permit2 SignatureTransfer SDK (funding pools and factory create-and-fund without EIP-2612)
+ * CRITICAL: The spender is part of the signed message - sign for the pool (fundWithPermit2) or for the
+ * factory (createAndFundPoolWithPermit2 / createAndFundPoolsWithPermit2), never for Permit2 itself
+ * NOTE: The owner must have approved Permit2 for the token once (see approvePermit2)
+ */
+
+/**
+ * Canonical Permit2 deployment - MUST match PERMIT2 in the factory and pool contracts
+ */
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+/**
+ * EIP-712 types for a single-token transfer - MUST match Permit2 PERMIT_TRANSFER_FROM_TYPEHASH
+ */
+export const PERMIT_TRANSFER_FROM_TYPES: Record<string, ethers.TypedDataField[]> = {
+    PermitTransferFrom: [
+        { name: "permitted", type: "TokenPermissions" },
+        { name: "spender", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+    ],
+    TokenPermissions: [
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" }
+    ]
+};
+
+/**
+ * EIP-712 types for a multi-token transfer - MUST match Permit2 PERMIT_BATCH_TRANSFER_FROM_TYPEHASH
+ */
+export const PERMIT_BATCH_TRANSFER_FROM_TYPES: Record<string, ethers.TypedDataField[]> = {
+    PermitBatchTransferFrom: [
+        { name: "permitted", type: "TokenPermissions[]" },
+        { name: "spender", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+    ],
+    TokenPermissions: PERMIT_TRANSFER_FROM_TYPES.TokenPermissions
+};
+
+/**
+ * Token and maximum amount of a transfer
+ */
+export interface TokenPermissions {
+    token: string;
+    amount: bigint;
+}
+
+/**
+ * Single-token permit (the spender is added when signing)
+ */
+export interface PermitTransferFrom {
+    permitted: TokenPermissions;
+    nonce: bigint; // Unordered nonce (any unused value, see nextPermit2Nonce)
+    deadline: bigint; // Signature expiry timestamp
+}
+
+/**
+ * Multi-token permit (the spender is added when signing)
+ */
+export interface PermitBatchTransferFrom {
+    permitted: TokenPermissions[];
+    nonce: bigint;
+    deadline: bigint;
+}
+
+/**
+ * Build the Permit2 EIP-712 domain (name "Permit2", no version)
+ * @param chainId Chain ID
+ * @param permit2 Permit2 address (default: canonical deployment)
+ * @returns Typed data domain
+ */
+export function permit2Domain(chainId: bigint | number, permit2: string = PERMIT2_ADDRESS): ethers.TypedDataDomain {
+    return { name: "Permit2", chainId, verifyingContract: permit2 };
+}
+
+/**
+ * Sign a single-token Permit2 transfer
+ * @param signer Token owner
+ * @param permit Token, amount, nonce and deadline
+ * @param spender Contract that calls Permit2 (the pool or the factory)
+ * @param permit2 Permit2 address (default: canonical deployment)
+ * @returns Signature (65 bytes)
+ */
+export async function signPermit2Transfer(
+    signer: ethers.Signer,
+    permit: PermitTransferFrom,
+    spender: string,
+    permit2: string = PERMIT2_ADDRESS
+): Promise<string> {
+    const { chainId } = await signer.provider!.getNetwork();
+    return signer.signTypedData(permit2Domain(chainId, permit2), PERMIT_TRANSFER_FROM_TYPES, { ...permit, spender });
+}
+
+/**
+ * Sign a multi-token Permit2 transfer (one signature for every entry)
+ * @param signer Token owner
+ * @param permit Tokens and amounts, nonce and deadline
+ * @param spender Contract that calls Permit2 (the factory)
+ * @param permit2 Permit2 address (default: canonical deployment)
+ * @returns Signature (65 bytes)
+ */
+export async function signPermit2BatchTransfer(
+    signer: ethers.Signer,
+    permit: PermitBatchTransferFrom,
+    spender: string,
+    permit2: string = PERMIT2_ADDRESS
+): Promise<string> {
+    const { chainId } = await signer.provider!.getNetwork();
+    return signer.signTypedData(permit2Domain(chainId, permit2), PERMIT_BATCH_TRANSFER_FROM_TYPES, {
+        ...permit,
+        spender
+    });
+}
+
+/**
+ * Find the first unused unordered nonce of an owner (bit n of word w is nonce w * 256 + n)
+ * @param owner Token owner
+ * @param runner Provider or signer
+ * @param permit2 Permit2 address (default: canonical deployment)
+ * @returns Unused nonce
+ */
+export async function nextPermit2Nonce(
+    owner: string,
+    runner: ethers.ContractRunner,
+    permit2: string = PERMIT2_ADDRESS
+): Promise<bigint> {
+    const contract = ISignatureTransfer__factory.connect(permit2, runner);
+    for (let word = 0n; ; word++) {
+        const bitmap = await contract.nonceBitmap(owner, word);
+        if (bitmap === ethers.MaxUint256) continue;
+        let bit = 0n;
+        while ((bitmap >> bit) & 1n) bit++;
+        return (word << 8n) + bit;
+    }
+}
+
+/**
+ * Check whether Permit2 is deployed and can move an amount of the owner's tokens
+ * @param owner Token owner
+ * @param token Token address
+ * @param amount Amount to move
+ * @param provider Provider
+ * @param permit2 Permit2 address (default: canonical deployment)
+ * @returns True if Permit2 has code and an allowance of at least amount
+ */
+export async function canUsePermit2(
+    owner: string,
+    token: string,
+    amount: bigint,
+    provider: ethers.Provider,
+    permit2: string = PERMIT2_ADDRESS
+): Promise<boolean> {
+    if ((await provider.getCode(permit2)) === "0x") return false;
+    return (await IERC20Metadata__factory.connect(token, provider).allowance(owner, permit2)) >= amount;
+}
+
+/**
+ * Approve Permit2 for a token (unlimited, once per token)
+ * @param signer Token owner
+ * @param token Token address
+ * @param permit2 Permit2 address (default: canonical deployment)
+ * @returns True if an approve transaction was sent
+ */
+export async function approvePermit2(
+    signer: ethers.Signer,
+    token: string,
+    permit2: string = PERMIT2_ADDRESS
+): Promise<boolean> {
+    const erc20 = IERC20Metadata__factory.connect(token, signer);
+    if ((await erc20.allowance(await signer.getAddress(), permit2)) === ethers.MaxUint256) return false;
+    await (await erc20.approve(permit2, ethers.MaxUint256)).wait();
+    return true;
+}
+
+/**
+ * Install the local Permit2 (MockPermit2) at the canonical address - hardhat networks only
+ * @param signer Deployer of the template contract
+ * @param provider Provider accepting hardhat_setCode
+ * @returns Canonical Permit2 address
+ */
+export async function installLocalPermit2(
+    signer: ethers.Signer,
+    provider: ethers.Provider & { send(method: string, params: unknown[]): Promise<unknown> }
+): Promise<string> {
+    const template = await new MockPermit2__factory(signer).deploy();
+    const code = await provider.getCode(await template.getAddress());
+    await provider.send("hardhat_setCode", [PERMIT2_ADDRESS, code]);
+    return PERMIT2_ADDRESS;
+}
@@ -0,0 +1,586 @@
+import { ethers } from "ethers";
+import {
+    IERC20Metadata__factory,
+    IERC20Permit__factory,
+    IERC5267__factory,
+    RewardPoolFactory__factory,
+    RewardPoolImplementation__factory
+} from "../../typechain-types";
+import { predictPoolBatch } from "./create2-prediction";
+import { canUsePermit2, nextPermit2Nonce, signPermit2BatchTransfer, signPermit2Transfer } from "./permit2";
+
+/**
+ * Creator-side pool lifecycle: predict, create, fund (with EIP-2612 permits when supported), withdraw and inspect
+ * CRITICAL: A permit is only signed when the token's domain separator matches the domain we would sign -
+ * a mismatching domain (USDC variants, non-standard versions) falls back to Permit2 when the funder has
+ * approved it, and to approve + fund otherwise
+ * NOTE: Single-token pools only; multi-token pools have their own funding functions
+ */
+
+/**
+ * Parsed CLI command
+ */
+export type PoolCommand =
+    | { command: "predict"; token: string }
+    | { command: "create"; token: string; amount?: string; label?: string }
+    | { command: "create-batch"; file: string; permit: boolean }
+    | { command: "fund"; pool: string; amount: string; permit: boolean }
+    | { command: "approve-permit2"; token: string }
+    | { command: "request-withdrawal"; pool: string; amount?: string }
+    | { command: "execute-withdrawal"; pool: string }
+    | { command: "cancel-withdrawal"; pool: string }
+    | { command: "inspect"; pool: string };
+
+/**
+ * Predicted pool of the next creation
+ */
+export interface PoolPrediction {
+    pool: string;
+    salt: string;
+    nonce: bigint;
+}
+
+/**
+ * Created batch
+ */
+export interface PoolBatchResult {
+    pools: Array<{ token: string; amount: bigint; pool: string; nonce: bigint }>;
+    permits: number; // Tokens whose allowance was granted by permit
+    permit2: boolean; // Funded through one Permit2 batch signature (createAndFundPoolsWithPermit2)
+    approvals: number; // Tokens approved with a separate transaction
+    receipt: ethers.TransactionReceipt;
+}
+
+/**
+ * Funding outcome
+ */
+export interface FundResult {
+    method: "fundWithPermit" | "fundWithPermit2" | "fund";
+    approved: boolean; // An approve transaction was sent first
+    receipt: ethers.TransactionReceipt;
+}
+
+/**
+ * Pool status report
+ */
+export interface PoolReport {
+    pool: string;
+    token: string;
+    symbol: string;
+    decimals: number;
+    creator: string;
+    balance: bigint;
+    globalAlreadyClaimed: bigint;
+    committedLiability: bigint;
+    outstandingLiability: bigint;
+    withdrawable: bigint;
+    feeBps: bigint;
+    lastClaimTimestamp: bigint;
+    paused: boolean;
+    pendingWithdrawal: { amount: bigint; executableAt: bigint } | null;
+    emergencyNotice: { initiatedAt: bigint; executableAt: bigint } | null;
+}
+
+const COMMANDS = [
+    "predict",
+    "create",
+    "create-batch",
+    "fund",
+    "approve-permit2",
+    "request-withdrawal",
+    "execute-withdrawal",
+    "cancel-withdrawal",
+    "inspect"
+] as const;
+
+/**
+ * Parse CLI arguments (<command> --flag value ...)
+ * @param argv Arguments after the script name
+ * @returns Typed command
+ */
+export function parsePoolCommand(argv: string[]): PoolCommand {
+    const [command, ...rest] = argv;
+    if (!(COMMANDS as readonly string[]).includes(command)) {
+        throw new Error(`Unknown command "${command ?? ""}" (expected one of: ${COMMANDS.join(", ")})`);
+    }
+
+    const flags: Record<string, string | true> = {};
+    for (let i = 0; i < rest.length; i++) {
+        if (!rest[i].startsWith("--")) throw new Error(`Unexpected argument "${rest[i]}"`);
+        const next = rest[i + 1];
+        flags[rest[i].slice(2)] = next === undefined || next.startsWith("--") ? true : rest[++i];
+    }
+    const value = (flag: string, required: boolean): string | undefined => {
+        const v = flags[flag];
+        if (v === true) throw new Error(`--${flag} needs a value`);
+        if (v === undefined && required) throw new Error(`${command} requires --${flag}`);
+        return v;
+    };
+
+    switch (command as PoolCommand["command"]) {
+        case "predict":
+            return { command: "predict", token: value("token", true)! };
+        case "create":
+            return {
+                command: "create",
+                token: value("token", true)!,
+                amount: value("amount", false),
+                label: value("label", false)
+            };
+        case "create-batch":
+            return { command: "create-batch", file: value("file", true)!, permit: flags["no-permit"] !== true };
+        case "fund":
+            return {
+                command: "fund",
+                pool: value("pool", true)!,
+                amount: value("amount", true)!,
+                permit: flags["no-permit"] !== true
+            };
+        case "approve-permit2":
+            return { command: "approve-permit2", token: value("token", true)! };
+        case "request-withdrawal":
+            return { command: "request-withdrawal", pool: value("pool", true)!, amount: value("amount", false) };
+        case "execute-withdrawal":
+        case "cancel-withdrawal":
+        case "inspect":
+            return { command: command as "inspect", pool: value("pool", true)! };
+    }
+}
+
+// ----------- Creation ----------- //
+
+/**
+ * Predict the address of the creator's next pool for a token
+ * @param factory Factory address
+ * @param creator Creator address
+ * @param token Token address
+ * @param runner Provider or signer
+ * @returns Predicted pool, salt and nonce
+ */
+export async function predictNextPool(
+    factory: string,
+    creator: string,
+    token: string,
+    runner: ethers.ContractRunner
+): Promise<PoolPrediction> {
+    const contract = RewardPoolFactory__factory.connect(factory, runner);
+    const nonce = await contract.poolNonce(creator, token);
+    const [pool, salt] = await contract.predictPoolAddressWithNonce(creator, token, nonce);
+    return { pool, salt, nonce };
+}
+
+/**
+ * Create a pool, funded atomically when an amount is given (approves the factory if needed)
+ * @param factory Factory address
+ * @param signer Creator
+ * @param token Token address
+ * @param amount Funding amount (0 for an empty pool)
+ * @returns Prediction (checked against the created pool) and receipt
+ */
+export async function createPool(
+    factory: string,
+    signer: ethers.Signer,
+    token: string,
+    amount: bigint = 0n
+): Promise<PoolPrediction & { receipt: ethers.TransactionReceipt }> {
+    const contract = RewardPoolFactory__factory.connect(factory, signer);
+    const creator = await signer.getAddress();
+    if (!(await contract.allowedTokens(token))) throw new Error(`Token ${token} is not allowed by the factory`);
+
+    const prediction = await predictNextPool(factory, creator, token, signer);
+    if (amount > 0n) await ensureAllowance(signer, token, factory, amount);
+
+    const tx = amount > 0n ? await contract.createAndFundPool(token, amount) : await contract.createPool(token);
+    const receipt = (await tx.wait())!;
+
+    const created = receipt.logs
+        .map((log) => {
+            try {
+                return contract.interface.parseLog(log);
+            } catch {
+                return null;
+            }
+        })
+        .find((log) => log?.name === "PoolCreated" || log?.name === "PoolCreatedAndFunded");
+    if (!created || created.args.pool !== prediction.pool) {
+        throw new Error(`Created pool ${created?.args.pool} does not match the prediction ${prediction.pool}`);
+    }
+    return { ...prediction, receipt };
+}
+
+// ----------- Funding ----------- //
+
+async function ensureAllowance(signer: ethers.Signer, token: string, spender: string, amount: bigint) {
+    const erc20 = IERC20Metadata__factory.connect(token, signer);
+    if ((await erc20.allowance(await signer.getAddress(), spender)) >= amount) return false;
+    await (await erc20.approve(spender, amount)).wait();
+    return true;
+}
+
+/**
+ * Resolve the EIP-712 domain of a token's EIP-2612 permit
+ * Uses ERC-5267 eip712Domain() when available, otherwise name() and version() (default "1"),
+ * and only returns a domain whose separator matches DOMAIN_SEPARATOR()
+ * @param token Token address
+ * @param provider Provider
+ * @returns Permit domain, or undefined if the token does not support EIP-2612 permits
+ */
+export async function permitDomain(
+    token: string,
+    provider: ethers.Provider
+): Promise<ethers.TypedDataDomain | undefined> {
+    const permit = IERC20Permit__factory.connect(token, provider);
+    let separator: string;
+    try {
+        separator = await permit.DOMAIN_SEPARATOR();
+        await permit.nonces(ethers.ZeroAddress);
+    } catch {
+        return undefined;
+    }
+
+    let domain: ethers.TypedDataDomain;
+    try {
+        const { name, version, chainId, verifyingContract } = await IERC5267__factory.connect(
+            token,
+            provider
+        ).eip712Domain();
+        domain = { name, version, chainId, verifyingContract };
+    } catch {
+        const metadata = new ethers.Contract(
+            token,
+            ["function name() view returns (string)", "function version() view returns (string)"],
+            provider
+        );
+        domain = {
+            name: await metadata.name(),
+            version: await metadata.version().catch(() => "1"),
+            chainId: (await provider.getNetwork()).chainId,
+            verifyingContract: token
+        };
+    }
+    return ethers.TypedDataEncoder.hashDomain(domain) === separator ? domain : undefined;
+}
+
+/**
+ * Sign an EIP-2612 permit
+ * @param signer Token owner
+ * @param token Token address
+ * @param domain Permit domain (see permitDomain)
+ * @param spender Spender address
+ * @param value Allowance
+ * @param deadline Permit deadline (unix seconds)
+ * @returns Split signature
+ */
+export async function signPermit(
+    signer: ethers.Signer,
+    token: string,
+    domain: ethers.TypedDataDomain,
+    spender: string,
+    value: bigint,
+    deadline: bigint
+): Promise<ethers.Signature> {
+    const owner = await signer.getAddress();
+    const nonce = await IERC20Permit__factory.connect(token, signer).nonces(owner);
+    const types = {
+        Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" }
+        ]
+    };
+    return ethers.Signature.from(await signer.signTypedData(domain, types, { owner, spender, value, nonce, deadline }));
+}
+
+/**
+ * Fund a pool, with a permit when the token supports it and no allowance is set
+ * @param pool Pool address
+ * @param signer Funder
+ * @param amount Amount to fund
+ * @param usePermit Try EIP-2612, then Permit2, before approve + fund (default true)
+ * @param deadlineSeconds Permit validity (default 30 minutes)
+ * @returns Funding method and receipt
+ */
+export async function fundPool(
+    pool: string,
+    signer: ethers.Signer,
+    amount: bigint,
+    usePermit: boolean = true,
+    deadlineSeconds: number = 30 * 60
+): Promise<FundResult> {
+    const contract = RewardPoolImplementation__factory.connect(pool, signer);
+    const token = await contract.token();
+    const provider = signer.provider!;
+    const allowance = await IERC20Metadata__factory.connect(token, provider).allowance(await signer.getAddress(), pool);
+
+    const domain = usePermit && allowance < amount ? await permitDomain(token, provider) : undefined;
+    if (domain) {
+        const deadline = BigInt((await provider.getBlock("latest"))!.timestamp + deadlineSeconds);
+        const { v, r, s } = await signPermit(signer, token, domain, pool, amount, deadline);
+        const receipt = (await (await contract.fundWithPermit(amount, deadline, v, r, s)).wait())!;
+        return { method: "fundWithPermit", approved: false, receipt };
+    }
+
+    const funder = await signer.getAddress();
+    if (usePermit && allowance < amount && (await canUsePermit2(funder, token, amount, provider))) {
+        const deadline = BigInt((await provider.getBlock("latest"))!.timestamp + deadlineSeconds);
+        const nonce = await nextPermit2Nonce(funder, provider);
+        const signature = await signPermit2Transfer(signer, { permitted: { token, amount }, nonce, deadline }, pool);
+        const receipt = (await (await contract.fundWithPermit2(amount, nonce, deadline, signature)).wait())!;
+        return { method: "fundWithPermit2", approved: false, receipt };
+    }
+
+    const approved = await ensureAllowance(signer, token, pool, amount);
+    const receipt = (await (await contract.fund(amount)).wait())!;
+    return { method: "fund", approved, receipt };
+}
+
+// ----------- Batch Creation ----------- //
+
+/**
+ * Create and fund several pools in one transaction (createAndFundPools)
+ * Allowances cover the total per token: permits when supported (createAndFundPoolsWithPermit), approvals otherwise
+ * When a token without EIP-2612 needs an allowance and Permit2 can move every token, the whole batch is funded
+ * with one Permit2 signature instead (createAndFundPoolsWithPermit2)
+ * @param factory Factory address
+ * @param signer Creator
+ * @param pools Token and funding amount of each pool
+ * @param usePermit Try EIP-2612 and Permit2 before approvals (default true)
+ * @param deadlineSeconds Permit validity (default 30 minutes)
+ * @returns Created pools (checked against the predictions) and receipt
+ */
+export async function createPoolBatch(
+    factory: string,
+    signer: ethers.Signer,
+    pools: Array<{ token: string; amount: bigint }>,
+    usePermit: boolean = true,
+    deadlineSeconds: number = 30 * 60
+): Promise<PoolBatchResult> {
+    const contract = RewardPoolFactory__factory.connect(factory, signer);
+    const creator = await signer.getAddress();
+    const provider = signer.provider!;
+
+    const totals = new Map<string, bigint>();
+    for (const { token, amount } of pools) {
+        if (amount <= 0n) throw new Error(`Funding amount of ${token} must be positive`);
+        const key = ethers.getAddress(token);
+        totals.set(key, (totals.get(key) ?? 0n) + amount);
+    }
+    for (const token of totals.keys()) {
+        if (!(await contract.allowedTokens(token))) throw new Error(`Token ${token} is not allowed by the factory`);
+    }
+
+    const predictions = await predictPoolBatch(
+        contract,
+        creator,
+        pools.map((pool) => pool.token)
+    );
+
+    const deadline = BigInt((await provider.getBlock("latest"))!.timestamp + deadlineSeconds);
+    const domains = new Map<string, ethers.TypedDataDomain | undefined>();
+    for (const [token, total] of totals) {
+        const allowance = await IERC20Metadata__factory.connect(token, provider).allowance(creator, factory);
+        if (allowance < total) domains.set(token, usePermit ? await permitDomain(token, provider) : undefined);
+    }
+
+    let permit2 = false;
+    if (usePermit && [...domains.values()].some((domain) => !domain)) {
+        permit2 = true;
+        for (const [token, total] of totals) {
+            permit2 &&= await canUsePermit2(creator, token, total, provider);
+        }
+    }
+
+    const permits = [];
+    let approvals = 0;
+    let tx: ethers.ContractTransactionResponse;
+    if (permit2) {
+        const permit = {
+            permitted: pools.map(({ token, amount }) => ({ token, amount })),
+            nonce: await nextPermit2Nonce(creator, provider),
+            deadline
+        };
+        const signature = await signPermit2BatchTransfer(signer, permit, factory);
+        tx = await contract.createAndFundPoolsWithPermit2(permit, signature);
+    } else {
+        for (const [token, domain] of domains) {
+            if (domain) {
+                const { v, r, s } = await signPermit(signer, token, domain, factory, totals.get(token)!, deadline);
+                permits.push({ token, value: totals.get(token)!, deadline, v, r, s });
+            } else {
+                await ensureAllowance(signer, token, factory, totals.get(token)!);
+                approvals++;
+            }
+        }
+        tx =
+            permits.length > 0
+                ? await contract.createAndFundPoolsWithPermit(pools, permits)
+                : await contract.createAndFundPools(pools);
+    }
+    const receipt = (await tx.wait())!;
+
+    const created = receipt.logs
+        .filter((log) => log.address === contract.target)
+        .map((log) => contract.interface.parseLog(log))
+        .filter((log) => log?.name === "PoolCreatedAndFunded")
+        .map((log) => log!.args.pool as string);
+    predictions.forEach(({ predicted }, i) => {
+        if (created[i] !== predicted) {
+            throw new Error(`Created pool ${created[i]} does not match the prediction ${predicted} (index ${i})`);
+        }
+    });
+
+    return {
+        pools: predictions.map(({ token, predicted, nonce }, i) => ({
+            token,
+            amount: pools[i].amount,
+            pool: predicted,
+            nonce
+        })),
+        permits: permits.length,
+        permit2,
+        approvals,
+        receipt
+    };
+}
+
+// ----------- Withdrawals ----------- //
+
+/**
+ * Request a withdrawal of excess funds (executable after WITHDRAWAL_DELAY)
+ * @param pool Pool address
+ * @param signer Creator
+ * @param amount Amount (defaults to the whole withdrawable amount)
+ * @returns Requested amount, earliest execution time and receipt
+ */
+export async function requestWithdrawal(
+    pool: string,
+    signer: ethers.Signer,
+    amount?: bigint
+): Promise<{ amount: bigint; executableAt: bigint; receipt: ethers.TransactionReceipt }> {
+    const contract = RewardPoolImplementation__factory.connect(pool, signer);
+    const withdrawable = await contract.withdrawableAmount();
+    const requested = amount ?? withdrawable;
+    if (requested === 0n) throw new Error("Nothing to withdraw");
+    if (requested > withdrawable) throw new Error(`Only ${withdrawable} is withdrawable`);
+
+    const receipt = (await (await contract.requestWithdrawal(requested)).wait())!;
+    const { executableAt } = await contract.pendingWithdrawal();
+    return { amount: requested, executableAt, receipt };
+}
+
+/**
+ * Execute the pending withdrawal once its delay has elapsed
+ * @param pool Pool address
+ * @param signer Creator
+ * @returns Withdrawn amount and receipt
+ */
+export async function executeWithdrawal(
+    pool: string,
+    signer: ethers.Signer
+): Promise<{ amount: bigint; receipt: ethers.TransactionReceipt }> {
+    const contract = RewardPoolImplementation__factory.connect(pool, signer);
+    const { amount, executableAt } = await contract.pendingWithdrawal();
+    if (executableAt === 0n) throw new Error("No pending withdrawal");
+
+    const now = BigInt((await signer.provider!.getBlock("latest"))!.timestamp);
+    if (now < executableAt) {
+        throw new Error(`Withdrawal is executable at ${new Date(Number(executableAt) * 1000).toISOString()}`);
+    }
+    if (amount > (await contract.withdrawableAmount())) {
+        throw new Error("Liabilities committed during the delay reduced the withdrawable amount - request again");
+    }
+
+    const receipt = (await (await contract.executeWithdrawal()).wait())!;
+    return { amount, receipt };
+}
+
+/**
+ * Cancel the pending withdrawal
+ * @param pool Pool address
+ * @param signer Creator
+ * @returns Receipt
+ */
+export async function cancelWithdrawal(pool: string, signer: ethers.Signer): Promise<ethers.TransactionReceipt> {
+    const contract = RewardPoolImplementation__factory.connect(pool, signer);
+    if ((await contract.pendingWithdrawal()).executableAt === 0n) throw new Error("No pending withdrawal");
+    return (await (await contract.cancelWithdrawal()).wait())!;
+}
+
+// ----------- Inspection ----------- //
+
+/**
+ * Read the status of a pool
+ * @param pool Pool address
+ * @param provider Provider
+ * @returns Status report
+ */
+export async function inspectPool(pool: string, provider: ethers.Provider): Promise<PoolReport> {
+    const contract = RewardPoolImplementation__factory.connect(pool, provider);
+    const token = await contract.token();
+    const erc20 = IERC20Metadata__factory.connect(token, provider);
+
+    const [withdrawal, noticeTimestamp, noticePeriod] = await Promise.all([
+        contract.pendingWithdrawal(),
+        contract.emergencyNoticeTimestamp(),
+        contract.EMERGENCY_NOTICE_PERIOD()
+    ]);
+
+    return {
+        pool: ethers.getAddress(pool),
+        token,
+        symbol: await erc20.symbol(),
+        decimals: Number(await erc20.decimals()),
+        creator: await contract.creator(),
+        balance: await erc20.balanceOf(pool),
+        globalAlreadyClaimed: await contract.globalAlreadyClaimed(),
+        committedLiability: await contract.committedLiability(),
+        outstandingLiability: await contract.outstandingLiability(),
+        withdrawable: await contract.withdrawableAmount(),
+        feeBps: await contract.feeBps(),
+        lastClaimTimestamp: await contract.lastClaimTimestamp(),
+        paused: await contract.paused(),
+        pendingWithdrawal:
+            withdrawal.executableAt === 0n
+                ? null
+                : { amount: withdrawal.amount, executableAt: withdrawal.executableAt },
+        emergencyNotice:
+            noticeTimestamp === 0n
+                ? null
+                : { initiatedAt: noticeTimestamp, executableAt: noticeTimestamp + noticePeriod }
+    };
+}
+
+/**
+ * Format a pool report for the console
+ * @param report Pool report
+ * @returns Multi-line report
+ */
+export function formatPoolReport(report: PoolReport): string {
+    const amount = (value: bigint) => `${ethers.formatUnits(value, report.decimals)} ${report.symbol}`;
+    const time = (value: bigint) => (value === 0n ? "never" : new Date(Number(value) * 1000).toISOString());
+
+    return [
+        `Pool:                ${report.pool}`,
+        `Token:               ${report.symbol} (${report.token})`,
+        `Creator:             ${report.creator}`,
+        `Balance:             ${amount(report.balance)}`,
+        `Claimed (global):    ${amount(report.globalAlreadyClaimed)}`,
+        `Committed liability: ${amount(report.committedLiability)} (outstanding ${amount(report.outstandingLiability)})`,
+        `Withdrawable:        ${amount(report.withdrawable)}`,
+        `Fee:                 ${report.feeBps} bps`,
+        `Last claim:          ${time(report.lastClaimTimestamp)}`,
+        `Paused:              ${report.paused ? "yes" : "no"}`,
+        `Pending withdrawal:  ${
+            report.pendingWithdrawal
+                ? `${amount(report.pendingWithdrawal.amount)} executable at ${time(report.pendingWithdrawal.executableAt)}`
+                : "none"
+        }`,
+        `Emergency notice:    ${
+            report.emergencyNotice
+                ? `initiated ${time(report.emergencyNotice.initiatedAt)}, sweep possible from ${time(report.emergencyNotice.executableAt)}`
+                : "none"
+        }`
+    ].join("\n");
+}
@@ -0,0 +1,94 @@
+import { ethers } from "ethers";
+import { RewardPoolFactory__factory } from "../../typechain-types";
+
+/**
+ * Publisher key selection from the factory rotation history (scheduled activations, grace periods, revocations)
+ * CRITICAL: Acceptance must match RewardPoolFactory.isValidPublisherSignature - a key is accepted from its
+ * activation until it retires, then until its grace end (cut short by revocation or cancellation)
+ * NOTE: Pass the timestamp of the block expected to include the claim - keys switch exactly at activation
+ * NOTE: A guardian emergency revocation records the zero address as current - no key is accepted until the
+ * timelock rotates to a new publisher
+ */
+
+/**
+ * One publisher key of the factory history
+ */
+export interface PublisherKeyRecord {
+    publisher: string;
+    activatedAt: bigint; // Becomes (or became) the current publisher
+    retiredAt: bigint; // Replaced by a later key (0 = current or scheduled)
+    graceEnd: bigint; // Accepted until then after retiring
+}
+
+/**
+ * Keys accepted at a given time
+ */
+export interface PublisherKeySet {
+    current: string | null; // Current publisher (null before the first activation or while revoked)
+    grace: Array<{ publisher: string; graceEnd: bigint }>; // Previous publishers still accepted, latest first
+    scheduled: { publisher: string; activatedAt: bigint } | null; // Rotation not active yet
+}
+
+/**
+ * Read the publisher history of a factory
+ * @param factory Factory address
+ * @param runner Provider or signer
+ * @returns Records in activation order
+ */
+export async function fetchPublisherHistory(
+    factory: string,
+    runner: ethers.ContractRunner
+): Promise<PublisherKeyRecord[]> {
+    const records = await RewardPoolFactory__factory.connect(factory, runner).getPublisherHistory();
+    return records.map((record) => ({
+        publisher: record.publisher,
+        activatedAt: record.activatedAt,
+        retiredAt: record.retiredAt,
+        graceEnd: record.graceEnd
+    }));
+}
+
+/**
+ * Resolve the keys accepted at a timestamp
+ * @param history Records from fetchPublisherHistory
+ * @param timestamp Block timestamp (seconds)
+ * @returns Current, grace and scheduled keys
+ */
+export function publisherKeysAt(history: PublisherKeyRecord[], timestamp: bigint): PublisherKeySet {
+    const keys: PublisherKeySet = { current: null, grace: [], scheduled: null };
+    let active = false;
+    for (let i = history.length - 1; i >= 0; i--) {
+        const record = history[i];
+        if (record.activatedAt > timestamp) {
+            // Cancelled rotations are retired at (or before) their activation
+            if (record.retiredAt === 0n)
+                keys.scheduled = { publisher: record.publisher, activatedAt: record.activatedAt };
+        } else if (record.retiredAt === 0n || timestamp < record.retiredAt) {
+            if (active) continue;
+            active = true;
+            if (record.publisher !== ethers.ZeroAddress) keys.current = record.publisher;
+        } else if (timestamp < record.graceEnd) {
+            keys.grace.push({ publisher: record.publisher, graceEnd: record.graceEnd });
+        }
+    }
+    return keys;
+}
+
+/**
+ * Pick the key to sign with among the ones a signing backend holds
+ * @param history Records from fetchPublisherHistory
+ * @param timestamp Block timestamp the claim is expected in
+ * @param available Publisher addresses the backend can sign for
+ * @returns Current publisher if held, else the held previous publisher with the latest grace end
+ */
+export function selectPublisherKey(history: PublisherKeyRecord[], timestamp: bigint, available: string[]): string {
+    const held = new Set(available.map((address) => ethers.getAddress(address)));
+    const keys = publisherKeysAt(history, timestamp);
+    if (keys.current && held.has(ethers.getAddress(keys.current))) return keys.current;
+
+    const grace = keys.grace
+        .filter((key) => held.has(ethers.getAddress(key.publisher)))
+        .sort((a, b) => (a.graceEnd > b.graceEnd ? -1 : a.graceEnd < b.graceEnd ? 1 : 0));
+    if (grace.length > 0) return grace[0].publisher;
+    throw new Error(`No held publisher key is accepted at ${timestamp} (current ${keys.current ?? "none"})`);
+}
@@ -0,0 +1,379 @@
+import { ethers } from "ethers";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Deployment registry shared by every script (deployments/<network>.json)
+ * CRITICAL: Files are validated on read and write - a malformed registry must never drive a deployment
+ * NOTE: Legacy files are migrated in memory on read and rewritten in the current schema on the next write
+ */
+
+/**
+ * Current registry schema version
+ */
+export const REGISTRY_SCHEMA_VERSION = 1;
+
+/**
+ * Default registry directory
+ */
+export const REGISTRY_DIR = "deployments";
+
+/**
+ * Protocol roles recorded in the registry
+ */
+export const REGISTRY_ROLES = ["treasury", "timelock", "guardian", "publisher"] as const;
+
+export type RegistryRole = (typeof REGISTRY_ROLES)[number];
+
+/**
+ * Source verification status of a contract (written by scripts/verify.ts)
+ */
+export interface RegistryVerification {
+    etherscan?: "verified" | "failed" | "skipped";
+    sourcify?: "perfect" | "partial" | "failed" | "skipped";
+    proxy?: string; // Implementation an EIP-1167 clone was linked to
+    error?: string;
+    checkedAt: string;
+}
+
+/**
+ * Deployed contract
+ */
+export interface RegistryContract {
+    address: string;
+    args?: unknown[]; // Constructor arguments (for verification and redeploy checks)
+    txHash?: string;
+    impl?: string; // Implementation behind a proxy
+    pending?: boolean; // Deployment sent but not confirmed yet
+    legacy?: boolean; // Superseded deployment kept for reference (<name>@<address>), ignored by deploy and verify
+    verification?: RegistryVerification;
+}
+
+/**
+ * Pool deployed through the factory
+ */
+export interface RegistryPool {
+    address: string;
+    token?: string;
+    creator?: string;
+    verification?: RegistryVerification;
+}
+
+/**
+ * Deployment registry of one network
+ */
+export interface DeploymentRegistry {
+    schemaVersion: number;
+    network: string;
+    chainId: number;
+    updatedAt: string;
+    contracts: Record<string, RegistryContract>;
+    roles: Partial<Record<RegistryRole, string>>;
+    tokens: Record<string, string>; // Symbol -> address
+    pools: Record<string, RegistryPool>; // Label -> pool
+}
+
+/**
+ * Create an empty registry
+ * @param network Network name
+ * @param chainId Network chain ID
+ * @returns Empty registry in the current schema
+ */
+export function createRegistry(network: string, chainId: number): DeploymentRegistry {
+    return {
+        schemaVersion: REGISTRY_SCHEMA_VERSION,
+        network,
+        chainId,
+        updatedAt: new Date(0).toISOString(),
+        contracts: {},
+        roles: {},
+        tokens: {},
+        pools: {}
+    };
+}
+
+/**
+ * Validate a registry against the current schema
+ * @param data Parsed registry
+ * @returns The registry, typed, with checksummed addresses
+ */
+export function validateRegistry(data: unknown): DeploymentRegistry {
+    const errors: string[] = [];
+    const registry = data as DeploymentRegistry;
+    const isObject = (value: unknown) => typeof value === "object" && value !== null && !Array.isArray(value);
+    const address = (value: unknown, field: string): string => {
+        if (typeof value !== "string" || !ethers.isAddress(value)) {
+            errors.push(`${field} must be an address`);
+            return value as string;
+        }
+        return ethers.getAddress(value);
+    };
+
+    if (!isObject(registry)) throw new Error("Invalid registry: not an object");
+    if (registry.schemaVersion !== REGISTRY_SCHEMA_VERSION) {
+        errors.push(`schemaVersion must be ${REGISTRY_SCHEMA_VERSION} (got ${registry.schemaVersion})`);
+    }
+    if (typeof registry.network !== "string" || registry.network.length === 0) errors.push("network must be a string");
+    if (!Number.isInteger(registry.chainId) || registry.chainId < 0) errors.push("chainId must be an integer");
+    if (typeof registry.updatedAt !== "string") errors.push("updatedAt must be an ISO timestamp");
+
+    for (const field of ["contracts", "roles", "tokens", "pools"] as const) {
+        if (!isObject(registry[field])) errors.push(`${field} must be an object`);
+    }
+    if (errors.length > 0) throw new Error(`Invalid registry:\n  - ${errors.join("\n  - ")}`);
+
+    for (const [name, entry] of Object.entries(registry.contracts)) {
+        if (!isObject(entry)) {
+            errors.push(`contracts.${name} must be an object`);
+            continue;
+        }
+        entry.address = address(entry.address, `contracts.${name}.address`);
+        if (entry.args !== undefined && !Array.isArray(entry.args))
+            errors.push(`contracts.${name}.args must be an array`);
+        if (entry.txHash !== undefined && !ethers.isHexString(entry.txHash, 32)) {
+            errors.push(`contracts.${name}.txHash must be a transaction hash`);
+        }
+        if (entry.impl !== undefined) entry.impl = address(entry.impl, `contracts.${name}.impl`);
+    }
+    for (const [role, value] of Object.entries(registry.roles)) {
+        if (!(REGISTRY_ROLES as readonly string[]).includes(role)) errors.push(`roles.${role} is not a known role`);
+        registry.roles[role as RegistryRole] = address(value, `roles.${role}`);
+    }
+    for (const [symbol, value] of Object.entries(registry.tokens)) {
+        registry.tokens[symbol] = address(value, `tokens.${symbol}`);
+    }
+    for (const [label, pool] of Object.entries(registry.pools)) {
+        if (!isObject(pool)) {
+            errors.push(`pools.${label} must be an object`);
+            continue;
+        }
+        pool.address = address(pool.address, `pools.${label}.address`);
+        if (pool.token !== undefined) pool.token = address(pool.token, `pools.${label}.token`);
+        if (pool.creator !== undefined) pool.creator = address(pool.creator, `pools.${label}.creator`);
+    }
+
+    if (errors.length > 0) throw new Error(`Invalid registry:\n  - ${errors.join("\n  - ")}`);
+    return registry;
+}
+
+// ----------- Migrations ----------- //
+
+/**
+ * Legacy deployment summary written by the former deploy-sepolia-safe.ts
+ * ({ network, chainId, contracts: { implementation, factory, claimRouter, tokens|testTokens, testPools }, config })
+ * Its contracts predate the current sources, so they are migrated as legacy entries (<name>@<address>)
+ */
+interface LegacySummary {
+    network: string;
+    chainId: number;
+    timestamp?: string;
+    contracts: {
+        implementation?: string;
+        factory?: string;
+        claimRouter?: string;
+        tokens?: Record<string, string>;
+        testTokens?: Record<string, string>;
+        testPools?: Record<string, string>;
+    };
+    config?: Partial<Record<RegistryRole, string>>;
+}
+
+function isLegacySummary(data: Record<string, unknown>): boolean {
+    const contracts = data.contracts as Record<string, unknown> | undefined;
+    return typeof contracts?.factory === "string" || typeof contracts?.implementation === "string";
+}
+
+function migrateLegacySummary(data: LegacySummary): DeploymentRegistry {
+    const registry = createRegistry(data.network, Number(data.chainId));
+    registry.updatedAt = data.timestamp ?? registry.updatedAt;
+    registry.roles = { ...(data.config ?? {}) };
+
+    const { implementation, factory, claimRouter } = data.contracts;
+    const { treasury, timelock, guardian, publisher } = registry.roles;
+    const legacy = (name: string, address: string, args: unknown[]) => {
+        const key = `${name}@${ethers.isAddress(address) ? ethers.getAddress(address) : address}`;
+        registry.contracts[key] = { address, args, legacy: true };
+    };
+    if (implementation) legacy("RewardPoolImplementation", implementation, []);
+    if (factory) legacy("RewardPoolFactory", factory, [implementation, treasury, timelock, guardian, publisher]);
+    if (claimRouter) legacy("ClaimRouter", claimRouter, [timelock]);
+
+    for (const [symbol, token] of Object.entries({ ...data.contracts.testTokens, ...data.contracts.tokens })) {
+        registry.tokens[symbol.toUpperCase()] = token;
+    }
+    for (const [label, pool] of Object.entries(data.contracts.testPools ?? {})) {
+        registry.pools[label] = { address: pool };
+    }
+    return registry;
+}
+
+/**
+ * Migrate any known registry shape to the current schema
+ * Supported: current schema, unversioned { contracts: { name: { address, args, txHash, impl } } },
+ * and legacy deployment summaries (<network>-<chainId>[-safe].json)
+ * @param data Parsed registry file
+ * @param network Network name (used when the file does not record it)
+ * @param chainId Chain ID (used when the file does not record it)
+ * @returns Validated registry in the current schema
+ */
+export function migrateRegistry(data: unknown, network: string, chainId: number = 0): DeploymentRegistry {
+    const raw = (data ?? {}) as Record<string, unknown>;
+
+    if (raw.schemaVersion === REGISTRY_SCHEMA_VERSION) return validateRegistry(raw);
+    if (raw.schemaVersion !== undefined) {
+        throw new Error(
+            `Unsupported registry schemaVersion ${raw.schemaVersion} (this tool supports ${REGISTRY_SCHEMA_VERSION})`
+        );
+    }
+
+    if (isLegacySummary(raw)) return validateRegistry(migrateLegacySummary(raw as unknown as LegacySummary));
+
+    // Unversioned { contracts } registry
+    const registry = createRegistry(network, chainId);
+    registry.contracts = (raw.contracts as Record<string, RegistryContract>) ?? {};
+    return validateRegistry(registry);
+}
+
+// ----------- Persistence ----------- //
+
+/**
+ * Find legacy registry files of a network (<network>-<chainId>.json, <network>-<chainId>-safe.json)
+ * @param network Network name
+ * @param dir Registry directory
+ * @returns Paths, most specific ("-safe") first
+ */
+export async function findLegacyRegistryFiles(network: string, dir: string = REGISTRY_DIR): Promise<string[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(path.resolve(process.cwd(), dir));
+    } catch {
+        return [];
+    }
+    const pattern = new RegExp(`^${network.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-\\d+(-safe)?\\.json$`);
+    return files
+        .filter((file) => pattern.test(file))
+        .sort((a, b) => Number(b.endsWith("-safe.json")) - Number(a.endsWith("-safe.json")))
+        .map((file) => path.resolve(process.cwd(), dir, file));
+}
+
+/**
+ * Load the registry of a network, migrating legacy files when no current registry exists
+ * @param network Network name
+ * @param chainId Chain ID recorded in a new registry
+ * @param dir Registry directory
+ * @returns Validated registry (empty when nothing is deployed)
+ */
+export async function loadRegistry(
+    network: string,
+    chainId: number = 0,
+    dir: string = REGISTRY_DIR
+): Promise<DeploymentRegistry> {
+    const p = path.resolve(process.cwd(), dir, `${network}.json`);
+    let raw: string | undefined;
+    try {
+        raw = await fs.readFile(p, "utf8");
+    } catch {
+        const [legacy] = await findLegacyRegistryFiles(network, dir);
+        if (legacy) raw = await fs.readFile(legacy, "utf8");
+    }
+    if (raw === undefined) return createRegistry(network, chainId);
+
+    const registry = migrateRegistry(JSON.parse(raw), network, chainId);
+    if (chainId !== 0 && registry.chainId !== 0 && registry.chainId !== chainId) {
+        throw new Error(`Registry of ${network} is for chain ${registry.chainId}, not ${chainId}`);
+    }
+    if (registry.chainId === 0) registry.chainId = chainId;
+    return registry;
+}
+
+/**
+ * Validate and write the registry of a network
+ * @param registry Registry to save
+ * @param dir Registry directory
+ */
+export async function saveRegistry(registry: DeploymentRegistry, dir: string = REGISTRY_DIR): Promise<void> {
+    const validated = validateRegistry({ ...registry, updatedAt: new Date().toISOString() });
+    const directory = path.resolve(process.cwd(), dir);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(
+        path.join(directory, `${registry.network}.json`),
+        JSON.stringify(validated, null, 2) + "\n",
+        "utf8"
+    );
+}
+
+// ----------- Typed Accessors ----------- //
+
+/**
+ * Get a deployed contract address
+ * @param registry Deployment registry
+ * @param name Contract name
+ * @returns Checksummed address
+ */
+export function contractAddress(registry: DeploymentRegistry, name: string): string {
+    const entry = registry.contracts[name];
+    if (!entry) throw new Error(`No ${name} in the ${registry.network} registry`);
+    if (entry.pending) throw new Error(`${name} deployment on ${registry.network} is not confirmed (${entry.txHash})`);
+    return entry.address;
+}
+
+/**
+ * RewardPoolFactory address
+ */
+export function factoryAddress(registry: DeploymentRegistry): string {
+    return contractAddress(registry, "RewardPoolFactory");
+}
+
+/**
+ * ClaimRouter address
+ */
+export function routerAddress(registry: DeploymentRegistry): string {
+    return contractAddress(registry, "ClaimRouter");
+}
+
+/**
+ * RewardPoolImplementation address (version 1 of the factory registry)
+ */
+export function implementationAddress(registry: DeploymentRegistry): string {
+    return contractAddress(registry, "RewardPoolImplementation");
+}
+
+/**
+ * MultiTokenRewardPoolImplementation address
+ */
+export function multiTokenImplementationAddress(registry: DeploymentRegistry): string {
+    return contractAddress(registry, "MultiTokenRewardPoolImplementation");
+}
+
+/**
+ * Role address
+ * @param registry Deployment registry
+ * @param role Protocol role
+ * @returns Checksummed address
+ */
+export function roleAddress(registry: DeploymentRegistry, role: RegistryRole): string {
+    const address = registry.roles[role];
+    if (!address) throw new Error(`No ${role} role in the ${registry.network} registry`);
+    return address;
+}
+
+/**
+ * Token address by symbol
+ * @param registry Deployment registry
+ * @param symbol Token symbol (case-insensitive)
+ * @returns Checksummed address
+ */
+export function tokenAddress(registry: DeploymentRegistry, symbol: string): string {
+    const address = registry.tokens[symbol.toUpperCase()];
+    if (!address) throw new Error(`No ${symbol} token in the ${registry.network} registry`);
+    return address;
+}
+
+/**
+ * Addresses of the recorded pools
+ * @param registry Deployment registry
+ * @returns Pool addresses
+ */
+export function poolAddresses(registry: DeploymentRegistry): string[] {
+    return Object.values(registry.pools).map((pool) => pool.address);
+}
@@ -0,0 +1,349 @@
+import { ethers } from "ethers";
+import http from "http";
+import { ClaimRouter } from "../../typechain-types";
+import { decodeClaimFailure, previewClaims } from "./claim-diagnostics";
+import { ClaimData } from "./claim-signing";
+
+/**
+ * Gas-sponsored relayer for ClaimRouter.claimAll batches
+ * CRITICAL: Only claims that pass previewClaimAll are submitted - a failed claim still costs the relayer gas
+ * NOTE: Vouchers are cumulative, so only the highest valid submission per (vault, account) is relayed; lower ones
+ * stay queued as fallbacks since submissions are unverified until simulation (a forged high amount must not evict them)
+ * NOTE: At most MAX_CANDIDATES_PER_ACCOUNT submissions are queued per (vault, account); further ones are rejected until
+ * a flush resolves the queued ones
+ */
+
+/**
+ * Maximum accepted HTTP request body (bytes)
+ */
+export const MAX_REQUEST_BODY = 1024 * 1024;
+
+/**
+ * Maximum queued submissions per (vault, account)
+ */
+export const MAX_CANDIDATES_PER_ACCOUNT = 5;
+
+/**
+ * Outcome of a submission
+ */
+export type SubmissionStatus = "accepted" | "replaced" | "fallback" | "ignored" | "rejected";
+
+/**
+ * Claim dropped before or during submission
+ */
+export interface DroppedClaim {
+    claim: ClaimData;
+    reason: string;
+}
+
+/**
+ * Submitted batch and its receipt
+ */
+export interface BatchRecord {
+    id: number;
+    claims: ClaimData[];
+    status: "pending" | "confirmed" | "reverted" | "error";
+    txHash: string | null;
+    blockNumber: number | null;
+    gasUsed: bigint | null;
+    successful: number;
+    failed: DroppedClaim[]; // Claims reported by ClaimFailed events
+    error: string | null;
+}
+
+/**
+ * Result of one flush
+ */
+export interface FlushResult {
+    batches: BatchRecord[]; // Batches submitted, or pending ones whose receipt arrived
+    dropped: DroppedClaim[]; // Claims rejected by simulation
+}
+
+/**
+ * Relayer instance
+ */
+export interface Relayer {
+    submit(claim: ClaimData): SubmissionStatus;
+    pending(): ClaimData[];
+    flush(): Promise<FlushResult>;
+    batches(): BatchRecord[];
+}
+
+function claimKey(claim: ClaimData): string {
+    return `${claim.vault.toLowerCase()}:${claim.account.toLowerCase()}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+}
+
+/**
+ * Parse a JSON claim submission (amounts as decimal strings or numbers)
+ * @param input Untrusted JSON value
+ * @returns Normalized claim data
+ */
+export function parseClaimSubmission(input: unknown): ClaimData {
+    if (typeof input !== "object" || input === null) throw new Error("Claim must be an object");
+    const raw = input as Record<string, unknown>;
+
+    const address = (field: string) => {
+        if (typeof raw[field] !== "string" || !ethers.isAddress(raw[field])) throw new Error(`Invalid ${field}`);
+        return ethers.getAddress(raw[field] as string);
+    };
+    const uint = (field: string, fallback?: bigint) => {
+        if (raw[field] === undefined && fallback !== undefined) return fallback;
+        if (typeof raw[field] !== "string" && typeof raw[field] !== "number") throw new Error(`Invalid ${field}`);
+        try {
+            const value = BigInt(raw[field] as string | number);
+            if (value < 0n) throw new Error();
+            return value;
+        } catch {
+            throw new Error(`Invalid ${field}`);
+        }
+    };
+
+    if (typeof raw.signature !== "string" || !ethers.isHexString(raw.signature)) throw new Error("Invalid signature");
+
+    const cumulativeAmount = uint("cumulativeAmount");
+    if (cumulativeAmount === 0n) throw new Error("Invalid cumulativeAmount");
+
+    return {
+        vault: address("vault"),
+        account: address("account"),
+        cumulativeAmount,
+        deadline: uint("deadline", 0n),
+        signature: raw.signature
+    };
+}
+
+/**
+ * Create a relayer submitting batches through a ClaimRouter
+ * @param router ClaimRouter connected to the sponsoring signer
+ * @returns Relayer with an in-memory queue
+ */
+export function createRelayer(router: ClaimRouter): Relayer {
+    const queue = new Map<string, ClaimData[]>(); // Candidates per (vault, account), highest cumulative amount first
+    const records: BatchRecord[] = [];
+
+    function submit(claim: ClaimData): SubmissionStatus {
+        const key = claimKey(claim);
+        const candidates = queue.get(key);
+        if (!candidates) {
+            queue.set(key, [claim]);
+            return "accepted";
+        }
+        if (candidates.some((c) => c.cumulativeAmount === claim.cumulativeAmount && c.signature === claim.signature)) {
+            return "ignored";
+        }
+        if (candidates.length >= MAX_CANDIDATES_PER_ACCOUNT) return "rejected";
+        // Cumulative vouchers: a higher amount supersedes every lower one, once simulation proves it valid
+        const index = candidates.findIndex((c) => c.cumulativeAmount < claim.cumulativeAmount);
+        if (index === -1) candidates.push(claim);
+        else candidates.splice(index, 0, claim);
+        return index === 0 ? "replaced" : "fallback";
+    }
+
+    async function simulate(
+        candidates: ClaimData[][],
+        maxBatchSize: number
+    ): Promise<{ valid: ClaimData[]; dropped: DroppedClaim[] }> {
+        const valid: ClaimData[] = [];
+        const dropped: DroppedClaim[] = [];
+        // Each round simulates the best remaining candidate of every account; failures fall back to the next one
+        for (let round = candidates; round.length > 0; ) {
+            const next: ClaimData[][] = [];
+            for (const batch of chunk(round, maxBatchSize)) {
+                try {
+                    const best = batch.map(([claim]) => claim);
+                    for (const [i, preview] of (await previewClaims(router, best)).entries()) {
+                        if (preview.success) {
+                            valid.push(preview.claim);
+                        } else {
+                            dropped.push({ claim: preview.claim, reason: preview.failure!.message });
+                            if (batch[i].length > 1) next.push(batch[i].slice(1));
+                        }
+                    }
+                } catch {
+                    // Simulation unavailable - requeue the chunk's remaining candidates for the next flush
+                    batch.flat().forEach(submit);
+                }
+            }
+            round = next;
+        }
+        return { valid, dropped };
+    }
+
+    function settle(record: BatchRecord, receipt: ethers.TransactionReceipt): void {
+        record.status = receipt.status === 1 ? "confirmed" : "reverted";
+        record.blockNumber = receipt.blockNumber;
+        record.gasUsed = receipt.gasUsed;
+        record.error = null;
+
+        for (const log of receipt.logs) {
+            const parsed = router.interface.parseLog(log);
+            if (parsed?.name === "ClaimSucceeded") {
+                record.successful += 1;
+            } else if (parsed?.name === "ClaimFailed") {
+                const key = `${parsed.args.vault.toLowerCase()}:${parsed.args.account.toLowerCase()}`;
+                const claim = record.claims.find((c) => claimKey(c) === key)!;
+                record.failed.push({
+                    claim,
+                    reason: decodeClaimFailure(parsed.args.code, parsed.args.reason).message
+                });
+            }
+        }
+    }
+
+    async function recheck(): Promise<BatchRecord[]> {
+        const settled: BatchRecord[] = [];
+        for (const record of records.filter((r) => r.status === "pending" && r.txHash)) {
+            try {
+                const receipt = await router.runner!.provider!.getTransactionReceipt(record.txHash!);
+                if (!receipt) continue;
+                settle(record, receipt);
+                settled.push(record);
+            } catch (e) {
+                record.error = (e as Error).message;
+            }
+        }
+        return settled;
+    }
+
+    async function submitBatch(claims: ClaimData[]): Promise<BatchRecord> {
+        const record: BatchRecord = {
+            id: records.length + 1,
+            claims,
+            status: "pending",
+            txHash: null,
+            blockNumber: null,
+            gasUsed: null,
+            successful: 0,
+            failed: [],
+            error: null
+        };
+        records.push(record);
+
+        let tx: ethers.ContractTransactionResponse;
+        try {
+            tx = await router.claimAll(claims);
+        } catch (e) {
+            // Never sent - requeue unless a newer voucher arrived meanwhile
+            record.status = "error";
+            record.error = (e as Error).message;
+            claims.forEach(submit);
+            return record;
+        }
+
+        record.txHash = tx.hash;
+        try {
+            const receipt = await tx.wait();
+            if (!receipt) throw new Error("Missing receipt");
+            settle(record, receipt);
+        } catch (e) {
+            if (ethers.isError(e, "CALL_EXCEPTION") && e.receipt) {
+                settle(record, e.receipt);
+            } else {
+                // Sent: it may still be mined, so the claims are not requeued and the next flush checks the receipt
+                record.error = (e as Error).message;
+            }
+        }
+        return record;
+    }
+
+    async function flush(): Promise<FlushResult> {
+        const batches = await recheck();
+        if (queue.size === 0) return { batches, dropped: [] };
+        // Read before draining the queue: a failed RPC call must not lose the submissions
+        const maxBatchSize = Number(await router.maxBatchSize());
+
+        const candidates = [...queue.values()];
+        queue.clear();
+        const { valid, dropped } = await simulate(candidates, maxBatchSize);
+
+        for (const batch of chunk(valid, maxBatchSize)) {
+            batches.push(await submitBatch(batch));
+        }
+        return { batches, dropped };
+    }
+
+    return {
+        submit,
+        pending: () => [...queue.values()].map(([best]) => best),
+        flush,
+        batches: () => [...records]
+    };
+}
+
+function toJson(value: unknown): string {
+    return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        req.on("data", (data: Buffer) => {
+            body += data.toString("utf8");
+            if (body.length > MAX_REQUEST_BODY) {
+                reject(new Error("Request body too large"));
+                req.destroy();
+            }
+        });
+        req.on("end", () => resolve(body));
+        req.on("error", reject);
+    });
+}
+
+/**
+ * Create the HTTP API of a relayer
+ * Routes:
+ *   POST /claims  - submit one claim or an array of claims
+ *   GET  /claims  - list queued claims
+ *   POST /flush   - simulate and submit queued claims
+ *   GET  /batches - list submitted batches with receipts
+ *   GET  /health  - liveness probe
+ * @param relayer Relayer instance
+ * @returns HTTP server (not listening)
+ */
+export function createRelayerServer(relayer: Relayer): http.Server {
+    return http.createServer(async (req, res) => {
+        const send = (status: number, payload: unknown) => {
+            res.writeHead(status, { "Content-Type": "application/json" });
+            res.end(toJson(payload));
+        };
+
+        try {
+            const route = `${req.method} ${new URL(req.url ?? "/", "http://localhost").pathname}`;
+            switch (route) {
+                case "GET /health":
+                    return send(200, { ok: true, pending: relayer.pending().length });
+                case "GET /claims":
+                    return send(200, relayer.pending());
+                case "GET /batches":
+                    return send(200, relayer.batches());
+                case "POST /flush":
+                    return send(200, await relayer.flush());
+                case "POST /claims": {
+                    let claims: ClaimData[];
+                    try {
+                        const body = JSON.parse(await readBody(req));
+                        claims = (Array.isArray(body) ? body : [body]).map(parseClaimSubmission);
+                    } catch (e) {
+                        return send(400, { error: (e as Error).message });
+                    }
+                    const results = claims.map((claim) => ({
+                        vault: claim.vault,
+                        account: claim.account,
+                        status: relayer.submit(claim)
+                    }));
+                    return send(202, { results, pending: relayer.pending().length });
+                }
+                default:
+                    return send(404, { error: `Unknown route: ${route}` });
+            }
+        } catch (e) {
+            return send(500, { error: (e as Error).message });
+        }
+    });
+}
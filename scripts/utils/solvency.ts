@@ -0,0 +1,110 @@
+import { ethers } from "ethers";
+import {
+    IERC20__factory,
+    MultiTokenRewardPoolImplementation__factory,
+    RewardPoolImplementation__factory
+} from "../../typechain-types";
+
+/**
+ * Solvency helpers for RewardPoolImplementation and MultiTokenRewardPoolImplementation dashboards
+ * CRITICAL: Reserved amounts must match outstandingLiability / withdrawableAmount on-chain
+ * NOTE: Multi-token pools are reported per token and have no vesting (totalUnreleased is 0)
+ */
+
+/**
+ * On-chain accounting inputs of a pool
+ */
+export interface PoolAccounting {
+    balance: bigint; // Token balance of the vault
+    committedLiability: bigint; // Publisher-committed total cumulative amount
+    globalAlreadyClaimed: bigint; // Total cumulative amount already claimed
+    totalUnreleased: bigint; // Vesting balances granted but not released
+    pendingWithdrawal: bigint; // Amount of the creator's pending withdrawal request (0 = none)
+}
+
+/**
+ * Solvency report of a pool
+ */
+export interface PoolSolvency {
+    outstandingLiability: bigint; // Committed but unclaimed amount
+    reserved: bigint; // outstandingLiability + totalUnreleased
+    withdrawable: bigint; // Excess the creator can withdraw
+    shortfall: bigint; // Missing funds to cover reserved amounts (0 when solvent)
+    solventAfterWithdrawal: boolean; // Whether the pending withdrawal can still execute
+    coverageBps: bigint | null; // balance / reserved in basis points (null when nothing is reserved)
+}
+
+/**
+ * Compute the solvency of a pool from its accounting
+ * @param accounting On-chain accounting inputs
+ * @returns Solvency report
+ */
+export function computeSolvency(accounting: PoolAccounting): PoolSolvency {
+    const { balance, committedLiability, globalAlreadyClaimed, totalUnreleased, pendingWithdrawal } = accounting;
+
+    const outstandingLiability =
+        committedLiability > globalAlreadyClaimed ? committedLiability - globalAlreadyClaimed : 0n;
+    const reserved = outstandingLiability + totalUnreleased;
+    const withdrawable = balance > reserved ? balance - reserved : 0n;
+
+    return {
+        outstandingLiability,
+        reserved,
+        withdrawable,
+        shortfall: reserved > balance ? reserved - balance : 0n,
+        solventAfterWithdrawal: pendingWithdrawal <= withdrawable,
+        coverageBps: reserved === 0n ? null : (balance * 10000n) / reserved
+    };
+}
+
+/**
+ * Read the accounting of a pool and compute its solvency
+ * @param vault Vault (clone) address
+ * @param runner Provider or signer
+ * @returns Accounting inputs and solvency report
+ */
+export async function fetchPoolSolvency(
+    vault: string,
+    runner: ethers.ContractRunner
+): Promise<{ accounting: PoolAccounting; solvency: PoolSolvency }> {
+    const contract = RewardPoolImplementation__factory.connect(vault, runner);
+    const token = IERC20__factory.connect(await contract.token(), runner);
+
+    const [balance, committedLiability, globalAlreadyClaimed, totalUnreleased, [pendingWithdrawal]] = await Promise.all(
+        [
+            token.balanceOf(vault),
+            contract.committedLiability(),
+            contract.globalAlreadyClaimed(),
+            contract.totalUnreleased(),
+            contract.pendingWithdrawal()
+        ]
+    );
+
+    const accounting = { balance, committedLiability, globalAlreadyClaimed, totalUnreleased, pendingWithdrawal };
+    return { accounting, solvency: computeSolvency(accounting) };
+}
+
+/**
+ * Read the accounting of one token of a multi-token pool and compute its solvency
+ * @param vault Multi-token vault (clone) address
+ * @param token Pool token
+ * @param runner Provider or signer
+ * @returns Accounting inputs and solvency report
+ */
+export async function fetchMultiTokenPoolSolvency(
+    vault: string,
+    token: string,
+    runner: ethers.ContractRunner
+): Promise<{ accounting: PoolAccounting; solvency: PoolSolvency }> {
+    const contract = MultiTokenRewardPoolImplementation__factory.connect(vault, runner);
+
+    const [balance, committedLiability, globalAlreadyClaimed, [pendingWithdrawal]] = await Promise.all([
+        IERC20__factory.connect(token, runner).balanceOf(vault),
+        contract.committedLiability(token),
+        contract.globalAlreadyClaimed(token),
+        contract.pendingWithdrawals(token)
+    ]);
+
+    const accounting = { balance, committedLiability, globalAlreadyClaimed, totalUnreleased: 0n, pendingWithdrawal };
+    return { accounting, solvency: computeSolvency(accounting) };
+}
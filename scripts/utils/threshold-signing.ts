@@ -0,0 +1,356 @@
+import { ethers } from "ethers";
+import { RewardPoolFactory__factory, RewardPoolImplementation__factory } from "../../typechain-types";
+import {
+    CLAIM_TYPES,
+    ClaimMessage,
+    LIABILITY_TYPES,
+    MULTI_TOKEN_CLAIM_TYPES,
+    MULTI_TOKEN_LIABILITY_TYPES,
+    MultiTokenClaimMessage,
+    isValidSignatureNow
+} from "./claim-signing";
+
+/**
+ * Publisher set (M-of-N) SDK for claims above the factory single-signer limits
+ * CRITICAL: Encoding must match RewardPoolFactory.isValidThresholdSignature - abi.encode(address[], bytes[]) with
+ * signers strictly ascending, every signer in the set and every signature valid
+ * NOTE: Each member signs the same voucher typed data as the publisher (same vault domain); smart-account
+ * members sign with the key their isValidSignature accepts
+ */
+
+/**
+ * One publisher set member able to sign typed data (local key, JSON-RPC/hardware signer, remote service...)
+ */
+export interface PublisherSignerBackend {
+    name: string; // Label used in failure reports
+    address: string; // Address registered in the publisher set (EOA or smart account)
+    signTypedData(
+        domain: ethers.TypedDataDomain,
+        types: Record<string, ethers.TypedDataField[]>,
+        value: Record<string, unknown>
+    ): Promise<string>;
+}
+
+/**
+ * Signature of one publisher set member
+ */
+export interface ThresholdSignaturePart {
+    signer: string;
+    signature: string;
+}
+
+/**
+ * Combined signature with the members that could not sign
+ */
+export interface ThresholdSignatureResult {
+    signature: string; // Aggregated signature for payWithSig
+    signers: string[]; // Members included (ascending)
+    failures: Array<{ name: string; error: string }>;
+}
+
+/**
+ * Publisher set policy of a token
+ */
+export interface PublisherPolicy {
+    threshold: number; // 0 = no threshold, limits not enforced
+    signerCount: number;
+    perClaimLimit: bigint; // 0 = no per-claim limit
+    perDayLimit: bigint; // 0 = no daily limit
+}
+
+/**
+ * Wrap an ethers signer (Wallet, JSON-RPC or hardware signer) as a publisher set member
+ * @param signer Signer whose address is in the set
+ * @param name Label used in failure reports
+ * @returns Backend
+ */
+export async function signerBackend(signer: ethers.Signer, name: string = "signer"): Promise<PublisherSignerBackend> {
+    const address = await signer.getAddress();
+    return {
+        name,
+        address,
+        signTypedData: (domain, types, value) => signer.signTypedData(domain, types, value)
+    };
+}
+
+/**
+ * Wrap a smart account (ERC-1271) member whose isValidSignature accepts its owner's signature of the digest
+ * @param account Smart account address in the set
+ * @param owner Owner key of the account
+ * @param name Label used in failure reports
+ * @returns Backend
+ */
+export function smartAccountBackend(
+    account: string,
+    owner: ethers.Signer,
+    name: string = "smart-account"
+): PublisherSignerBackend {
+    return {
+        name,
+        address: ethers.getAddress(account),
+        signTypedData: (domain, types, value) => owner.signTypedData(domain, types, value)
+    };
+}
+
+/**
+ * Wrap a remote signing service: POST { address, domain, types, value } (bigints as strings) -> { signature }
+ * @param url Signing endpoint
+ * @param address Member address the service signs for
+ * @param name Label used in failure reports
+ * @returns Backend
+ */
+export function remoteSignerBackend(url: string, address: string, name: string = url): PublisherSignerBackend {
+    return {
+        name,
+        address: ethers.getAddress(address),
+        signTypedData: async (domain, types, value) => {
+            const body = JSON.stringify({ address, domain, types, value }, (_, v) =>
+                typeof v === "bigint" ? v.toString() : v
+            );
+            const response = await fetch(url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body
+            });
+            if (!response.ok) throw new Error(`Signer returned HTTP ${response.status}`);
+            const { signature } = (await response.json()) as { signature?: string };
+            if (!signature || !ethers.isHexString(signature)) throw new Error("Signer returned no signature");
+            return signature;
+        }
+    };
+}
+
+/**
+ * Combine member signatures into the aggregated signature (sorted by signer, duplicates rejected)
+ * @param parts Member signatures
+ * @returns abi.encode(address[] signers, bytes[] signatures)
+ */
+export function encodeThresholdSignature(parts: ThresholdSignaturePart[]): string {
+    const sorted = [...parts].sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1));
+    for (let i = 1; i < sorted.length; i++) {
+        if (BigInt(sorted[i].signer) === BigInt(sorted[i - 1].signer)) {
+            throw new Error(`Duplicate signer ${sorted[i].signer}`);
+        }
+    }
+    return ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address[]", "bytes[]"],
+        [sorted.map((part) => part.signer), sorted.map((part) => part.signature)]
+    );
+}
+
+/**
+ * Split an aggregated signature into member signatures
+ * @param signature Aggregated signature
+ * @returns Member signatures in encoded order
+ */
+export function decodeThresholdSignature(signature: string): ThresholdSignaturePart[] {
+    const [signers, signatures] = ethers.AbiCoder.defaultAbiCoder().decode(["address[]", "bytes[]"], signature);
+    if (signers.length !== signatures.length) throw new Error("Signer and signature counts differ");
+    return (signers as string[]).map((signer, i) => ({ signer, signature: signatures[i] as string }));
+}
+
+/**
+ * Ask every backend to sign typed data and combine the signatures
+ * @param backends Publisher set members to ask (in parallel)
+ * @param domain Vault domain
+ * @param types Voucher types
+ * @param value Voucher
+ * @param threshold Required signatures
+ * @param provider Optional provider - when given, invalid signatures are reported as failures instead of included
+ * @returns Aggregated signature of every member that signed
+ */
+export async function collectThresholdSignatures(
+    backends: PublisherSignerBackend[],
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>,
+    threshold: number,
+    provider?: ethers.Provider
+): Promise<ThresholdSignatureResult> {
+    const digest = ethers.TypedDataEncoder.hash(domain, types, value);
+    const settled = await Promise.allSettled(
+        backends.map(async (backend) => {
+            const signature = await backend.signTypedData(domain, types, value);
+            if (provider && !(await isValidSignatureNow(backend.address, digest, signature, provider))) {
+                throw new Error("Invalid signature");
+            }
+            return { signer: backend.address, signature };
+        })
+    );
+
+    const parts: ThresholdSignaturePart[] = [];
+    const failures: ThresholdSignatureResult["failures"] = [];
+    settled.forEach((result, i) => {
+        if (result.status === "fulfilled") parts.push(result.value);
+        else failures.push({ name: backends[i].name, error: String(result.reason?.message ?? result.reason) });
+    });
+    if (parts.length < threshold) {
+        const details = failures.map((failure) => `${failure.name}: ${failure.error}`).join("; ");
+        throw new Error(`Only ${parts.length} of ${threshold} required signatures collected (${details})`);
+    }
+
+    const signature = encodeThresholdSignature(parts);
+    return { signature, signers: decodeThresholdSignature(signature).map((part) => part.signer), failures };
+}
+
+/**
+ * Collect the publisher set signatures of a claim voucher
+ * @param backends Publisher set members
+ * @param domain Vault domain
+ * @param claim Claim voucher
+ * @param threshold Required signatures
+ * @param provider Optional provider used to drop invalid signatures
+ * @returns Aggregated signature for RewardPoolImplementation.payWithSig
+ */
+export async function signThresholdClaim(
+    backends: PublisherSignerBackend[],
+    domain: ethers.TypedDataDomain,
+    claim: ClaimMessage,
+    threshold: number,
+    provider?: ethers.Provider
+): Promise<ThresholdSignatureResult> {
+    return await collectThresholdSignatures(backends, domain, CLAIM_TYPES, { ...claim }, threshold, provider);
+}
+
+/**
+ * Collect the publisher set signatures of a token-bound claim voucher
+ * @param backends Publisher set members
+ * @param domain Vault domain
+ * @param claim Token-bound claim voucher
+ * @param threshold Required signatures
+ * @param provider Optional provider used to drop invalid signatures
+ * @returns Aggregated signature for MultiTokenRewardPoolImplementation.payWithSig
+ */
+export async function signThresholdMultiTokenClaim(
+    backends: PublisherSignerBackend[],
+    domain: ethers.TypedDataDomain,
+    claim: MultiTokenClaimMessage,
+    threshold: number,
+    provider?: ethers.Provider
+): Promise<ThresholdSignatureResult> {
+    return await collectThresholdSignatures(
+        backends,
+        domain,
+        MULTI_TOKEN_CLAIM_TYPES,
+        { ...claim },
+        threshold,
+        provider
+    );
+}
+
+/**
+ * Collect the publisher set signatures of a committed liability (instead of the publisher's single signature)
+ * @param backends Publisher set members
+ * @param domain Vault domain
+ * @param totalCumulativeAmount Total cumulative amount of all vouchers issued for the vault
+ * @param threshold Required signatures
+ * @param provider Optional provider used to drop invalid signatures
+ * @returns Aggregated signature for RewardPoolImplementation.commitLiability
+ */
+export async function signThresholdLiability(
+    backends: PublisherSignerBackend[],
+    domain: ethers.TypedDataDomain,
+    totalCumulativeAmount: bigint,
+    threshold: number,
+    provider?: ethers.Provider
+): Promise<ThresholdSignatureResult> {
+    return await collectThresholdSignatures(
+        backends,
+        domain,
+        LIABILITY_TYPES,
+        { totalCumulativeAmount },
+        threshold,
+        provider
+    );
+}
+
+/**
+ * Collect the publisher set signatures of the committed liability of one token of a multi-token vault
+ * @param backends Publisher set members
+ * @param domain Vault domain
+ * @param token Pool token
+ * @param totalCumulativeAmount Total cumulative amount of all vouchers issued in this token
+ * @param threshold Required signatures
+ * @param provider Optional provider used to drop invalid signatures
+ * @returns Aggregated signature for MultiTokenRewardPoolImplementation.commitLiability
+ */
+export async function signThresholdMultiTokenLiability(
+    backends: PublisherSignerBackend[],
+    domain: ethers.TypedDataDomain,
+    token: string,
+    totalCumulativeAmount: bigint,
+    threshold: number,
+    provider?: ethers.Provider
+): Promise<ThresholdSignatureResult> {
+    return await collectThresholdSignatures(
+        backends,
+        domain,
+        MULTI_TOKEN_LIABILITY_TYPES,
+        { token, totalCumulativeAmount },
+        threshold,
+        provider
+    );
+}
+
+/**
+ * Read the publisher set policy applying to a token
+ * @param factory Factory address
+ * @param token Token address
+ * @param runner Provider or signer
+ * @returns Threshold, set size and single-signer limits
+ */
+export async function fetchPublisherPolicy(
+    factory: string,
+    token: string,
+    runner: ethers.ContractRunner
+): Promise<PublisherPolicy> {
+    const contract = RewardPoolFactory__factory.connect(factory, runner);
+    const [threshold, signerCount, [perClaim, perDay]] = await Promise.all([
+        contract.publisherThreshold(),
+        contract.publisherSignerCount(),
+        contract.thresholdLimits(token)
+    ]);
+    return {
+        threshold: Number(threshold),
+        signerCount: Number(signerCount),
+        perClaimLimit: perClaim,
+        perDayLimit: perDay
+    };
+}
+
+/**
+ * Decide whether a single-token voucher needs the publisher set threshold (mirrors _exceedsSingleSignerLimits)
+ * NOTE: Uses the latest block's day and today's factory-wide volume - claims landing first (in any pool of the
+ * factory) can push a voucher over the daily limit
+ * @param vault Vault (clone) address
+ * @param account Account to pay
+ * @param cumulativeAmount Cumulative amount of the voucher
+ * @param provider Provider
+ * @returns True if payWithSig needs an aggregated signature
+ */
+export async function requiresThresholdSignature(
+    vault: string,
+    account: string,
+    cumulativeAmount: bigint,
+    provider: ethers.Provider
+): Promise<boolean> {
+    const pool = RewardPoolImplementation__factory.connect(vault, provider);
+    const [factory, token, alreadyClaimed, latest] = await Promise.all([
+        pool.getFactory(),
+        pool.token(),
+        pool.alreadyClaimed(account),
+        provider.getBlock("latest")
+    ]);
+    const [policy, volume] = await Promise.all([
+        fetchPublisherPolicy(factory, token, provider),
+        RewardPoolFactory__factory.connect(factory, provider).singleSignerVolume(token)
+    ]);
+    const amount = cumulativeAmount - alreadyClaimed;
+    if (policy.threshold === 0 || amount <= 0n) return false;
+    if (policy.perClaimLimit !== 0n && amount > policy.perClaimLimit) return true;
+    if (policy.perDayLimit === 0n) return false;
+
+    const today = BigInt(latest!.timestamp) / 86400n;
+    const spent = (volume.day === today ? volume.amount : 0n) + amount;
+    return spent > policy.perDayLimit;
+}
@@ -0,0 +1,277 @@
+import { ethers } from "ethers";
+import type { Artifacts } from "hardhat/types";
+import type { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import type { Sourcify } from "@nomicfoundation/hardhat-verify/sourcify";
+import { DeploymentRegistry, RegistryVerification } from "./registry";
+
+/**
+ * Source verification of registry contracts on Etherscan-compatible explorers and Sourcify
+ * CRITICAL: Constructor arguments come from the registry - they must be the ones the contract was deployed with
+ * NOTE: Pools are EIP-1167 clones without source of their own - they are linked to their verified implementation
+ * through the explorer's proxy verification instead
+ */
+
+const CLONE_PREFIX = "0x363d3d373d3d3d363d73";
+const CLONE_SUFFIX = "5af43d82803e903d91602b57fd5bf3";
+
+/**
+ * Contract or pool to verify
+ */
+export interface VerificationTarget {
+    label: string; // Registry key (contracts.<name> or pools.<label>)
+    address: string;
+    contract?: string; // Fully qualified name, e.g. contracts/ClaimRouter.sol:ClaimRouter
+    args: unknown[];
+    implementation?: string; // Set for EIP-1167 clones
+}
+
+/**
+ * Verification outcome of one target
+ */
+export interface VerificationResult {
+    target: VerificationTarget;
+    status: RegistryVerification;
+}
+
+/**
+ * Verification options
+ */
+export interface VerificationOptions {
+    artifacts: Artifacts;
+    provider: ethers.Provider;
+    etherscan?: Etherscan; // Omitted to skip Etherscan
+    sourcify?: Sourcify; // Omitted to skip Sourcify
+    names?: string[]; // Registry keys to verify (all contracts and pools by default)
+    force?: boolean; // Re-submit targets already recorded as verified
+    pollIntervalMs?: number; // Proxy verification polling interval (default 3000)
+    save?: (registry: DeploymentRegistry) => Promise<void>; // Called after every target
+    log?: (message: string) => void;
+}
+
+/**
+ * Implementation behind an EIP-1167 minimal proxy
+ * @param code Runtime bytecode
+ * @returns Implementation address, or undefined if the code is not a clone
+ */
+export function cloneImplementation(code: string): string | undefined {
+    const lower = code.toLowerCase();
+    if (lower.length !== 2 + 45 * 2 || !lower.startsWith(CLONE_PREFIX) || !lower.endsWith(CLONE_SUFFIX)) {
+        return undefined;
+    }
+    return ethers.getAddress("0x" + lower.slice(CLONE_PREFIX.length, CLONE_PREFIX.length + 40));
+}
+
+/**
+ * Collect the verification targets of a registry
+ * Contracts come first (implementations before the factory) so clones are linked to verified code
+ * @param registry Deployment registry
+ * @param provider Provider used to detect clones
+ * @param names Registry keys to include (all by default)
+ * @returns Targets in verification order
+ */
+export async function collectVerificationTargets(
+    registry: DeploymentRegistry,
+    provider: ethers.Provider,
+    names?: string[]
+): Promise<VerificationTarget[]> {
+    const selected = (label: string) => !names || names.includes(label);
+    const targets: VerificationTarget[] = [];
+
+    for (const [name, entry] of Object.entries(registry.contracts)) {
+        if (!selected(name) || entry.pending || entry.legacy) continue;
+        targets.push({
+            label: name,
+            address: entry.address,
+            contract: `contracts/${name}.sol:${name}`,
+            args: entry.args ?? []
+        });
+    }
+    targets.sort((a, b) => Number(b.label.endsWith("Implementation")) - Number(a.label.endsWith("Implementation")));
+
+    for (const [label, pool] of Object.entries(registry.pools)) {
+        if (!selected(label)) continue;
+        const implementation = cloneImplementation(await provider.getCode(pool.address));
+        if (!implementation) throw new Error(`Pool ${label} (${pool.address}) is not an EIP-1167 clone`);
+        targets.push({ label, address: pool.address, args: [], implementation });
+    }
+    return targets;
+}
+
+/**
+ * Encode constructor arguments the way explorers expect them (hex without 0x)
+ * @param artifacts Hardhat artifacts
+ * @param contract Fully qualified contract name
+ * @param args Constructor arguments
+ * @returns Encoded arguments
+ */
+export async function encodeConstructorArgs(artifacts: Artifacts, contract: string, args: unknown[]): Promise<string> {
+    const { abi } = await artifacts.readArtifact(contract);
+    return new ethers.Interface(abi).encodeDeploy(args).slice(2);
+}
+
+// ----------- Explorers ----------- //
+
+async function verifyOnEtherscan(
+    etherscan: Etherscan,
+    artifacts: Artifacts,
+    target: VerificationTarget
+): Promise<Pick<RegistryVerification, "etherscan" | "error">> {
+    if (await etherscan.isVerified(target.address)) return { etherscan: "verified" };
+
+    const buildInfo = await artifacts.getBuildInfo(target.contract!);
+    if (!buildInfo) throw new Error(`No build info for ${target.contract} - compile first`);
+
+    const submission = await etherscan.verify(
+        target.address,
+        JSON.stringify(buildInfo.input),
+        target.contract!,
+        `v${buildInfo.solcLongVersion}`,
+        await encodeConstructorArgs(artifacts, target.contract!, target.args)
+    );
+    const status = await etherscan.getVerificationStatus(submission.message);
+    if (status.isSuccess() || status.isAlreadyVerified()) return { etherscan: "verified" };
+    return { etherscan: "failed", error: status.message };
+}
+
+async function verifyOnSourcify(
+    sourcify: Sourcify,
+    artifacts: Artifacts,
+    target: VerificationTarget
+): Promise<Pick<RegistryVerification, "sourcify" | "error">> {
+    const existing = await sourcify.isVerified(target.address);
+    if (existing) return { sourcify: existing };
+
+    const buildInfo = await artifacts.getBuildInfo(target.contract!);
+    if (!buildInfo) throw new Error(`No build info for ${target.contract} - compile first`);
+    const [sourceName, contractName] = target.contract!.split(":");
+
+    // Sourcify recompiles from the metadata, which lists every source it needs
+    const output = buildInfo.output.contracts[sourceName][contractName] as { metadata?: string };
+    if (!output.metadata) throw new Error(`No metadata for ${target.contract}`);
+    const metadata = output.metadata;
+    const files: Record<string, string> = { "metadata.json": metadata };
+    for (const source of Object.keys(JSON.parse(metadata).sources)) {
+        files[source] = buildInfo.input.sources[source].content;
+    }
+
+    const response = await sourcify.verify(target.address, files);
+    return response.isOk() ? { sourcify: response.status } : { sourcify: "failed", error: response.error };
+}
+
+/**
+ * Link an EIP-1167 clone to its implementation (Etherscan proxy verification)
+ * Not part of the hardhat-verify API, so the endpoint is called directly
+ */
+async function verifyProxyOnEtherscan(
+    etherscan: Etherscan,
+    target: VerificationTarget,
+    pollIntervalMs: number
+): Promise<Pick<RegistryVerification, "etherscan" | "error">> {
+    const call = async (parameters: Record<string, string>, post: boolean) => {
+        const search = new URLSearchParams({ apikey: etherscan.apiKey, module: "contract", ...parameters });
+        if (etherscan.chainId !== undefined) search.set("chainid", String(etherscan.chainId));
+        const response = post
+            ? await fetch(etherscan.apiUrl, {
+                  method: "POST",
+                  headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                  body: search.toString()
+              })
+            : await fetch(`${etherscan.apiUrl}?${search.toString()}`);
+        if (!response.ok) throw new Error(`Explorer returned HTTP ${response.status}`);
+        return (await response.json()) as { status: string; result: string };
+    };
+
+    const submission = await call(
+        { action: "verifyproxycontract", address: target.address, expectedimplementation: target.implementation! },
+        true
+    );
+    if (submission.status !== "1") return { etherscan: "failed", error: submission.result };
+
+    for (;;) {
+        const status = await call({ action: "checkproxyverification", guid: submission.result }, false);
+        if (status.status === "1") return { etherscan: "verified" };
+        if (!/pending/i.test(status.result)) return { etherscan: "failed", error: status.result };
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+}
+
+// ----------- Runner ----------- //
+
+function verificationOf(registry: DeploymentRegistry, label: string): RegistryVerification | undefined {
+    return (registry.contracts[label] ?? registry.pools[label])?.verification;
+}
+
+function isComplete(status: RegistryVerification | undefined, options: VerificationOptions): boolean {
+    if (!status) return false;
+    const etherscanDone = !options.etherscan || status.etherscan === "verified";
+    const sourcifyDone =
+        !options.sourcify ||
+        status.sourcify === "perfect" ||
+        status.sourcify === "partial" ||
+        status.sourcify === "skipped";
+    return etherscanDone && sourcifyDone;
+}
+
+/**
+ * Verify every contract and pool of a registry and record the outcome in it
+ * Failures are recorded per target and do not stop the batch
+ * @param registry Deployment registry (verification fields are updated in place)
+ * @param options Explorers, artifacts and selection
+ * @returns Outcome of every target that was submitted
+ */
+export async function runVerification(
+    registry: DeploymentRegistry,
+    options: VerificationOptions
+): Promise<VerificationResult[]> {
+    const log = options.log ?? (() => undefined);
+    const results: VerificationResult[] = [];
+
+    for (const target of await collectVerificationTargets(registry, options.provider, options.names)) {
+        if (!options.force && isComplete(verificationOf(registry, target.label), options)) {
+            log(`⏭️  ${target.label} already verified`);
+            continue;
+        }
+
+        const status: RegistryVerification = { checkedAt: new Date().toISOString() };
+        const errors: string[] = [];
+        const attempt = async <T extends Partial<RegistryVerification>>(explorer: string, run: () => Promise<T>) => {
+            try {
+                const { error, ...outcome } = await run();
+                Object.assign(status, outcome);
+                if (error) errors.push(`${explorer}: ${error}`);
+            } catch (error) {
+                Object.assign(status, { [explorer]: "failed" });
+                errors.push(`${explorer}: ${(error as Error).message}`);
+            }
+        };
+
+        if (target.implementation) {
+            status.proxy = target.implementation;
+            if (options.etherscan) {
+                await attempt("etherscan", () =>
+                    verifyProxyOnEtherscan(options.etherscan!, target, options.pollIntervalMs ?? 3000)
+                );
+            }
+            // Sourcify only verifies compiled sources, a clone has none
+            if (options.sourcify) status.sourcify = "skipped";
+        } else {
+            if (options.etherscan) {
+                await attempt("etherscan", () => verifyOnEtherscan(options.etherscan!, options.artifacts, target));
+            }
+            if (options.sourcify) {
+                await attempt("sourcify", () => verifyOnSourcify(options.sourcify!, options.artifacts, target));
+            }
+        }
+        if (errors.length > 0) status.error = errors.join("; ");
+
+        const entry = registry.contracts[target.label] ?? registry.pools[target.label];
+        entry.verification = status;
+        results.push({ target, status });
+        log(
+            `${errors.length > 0 ? "❌" : "✅"} ${target.label} (${target.address})${status.error ? ` - ${status.error}` : ""}`
+        );
+
+        if (options.save) await options.save(registry);
+    }
+    return results;
+}
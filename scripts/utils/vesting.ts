@@ -0,0 +1,129 @@
+import { ethers } from "ethers";
+import { RewardPoolImplementation__factory } from "../../typechain-types";
+
+/**
+ * Vesting simulation for RewardPoolImplementation pools with a vesting schedule
+ * CRITICAL: Weighted start and rounding must match _grantVesting and _vestedAmount exactly
+ */
+
+/**
+ * Pool vesting schedule (seconds)
+ */
+export interface VestingSchedule {
+    cliff: bigint;
+    duration: bigint;
+}
+
+/**
+ * Vesting balance of one account - mirrors RewardPoolImplementation.VestingBalance
+ */
+export interface VestingBalance {
+    total: bigint;
+    released: bigint;
+    start: bigint;
+    firstGrant: bigint;
+}
+
+/**
+ * Net amount granted by a claim at a given block timestamp
+ */
+export interface VestingGrant {
+    timestamp: bigint;
+    amount: bigint;
+}
+
+/**
+ * Point of a simulated unlock curve
+ */
+export interface UnlockPoint {
+    timestamp: bigint;
+    vested: bigint;
+    locked: bigint;
+}
+
+/**
+ * Empty vesting balance (account without grants)
+ */
+export const EMPTY_VESTING_BALANCE: VestingBalance = { total: 0n, released: 0n, start: 0n, firstGrant: 0n };
+
+/**
+ * Apply a grant to a vesting balance - MUST match _grantVesting (amount-weighted start)
+ * @param balance Current vesting balance
+ * @param grant Net amount granted and its block timestamp
+ * @returns Updated vesting balance
+ */
+export function applyVestingGrant(balance: VestingBalance, grant: VestingGrant): VestingBalance {
+    if (balance.total === 0n) {
+        return { ...balance, total: grant.amount, start: grant.timestamp, firstGrant: grant.timestamp };
+    }
+    const start = (balance.start * balance.total + grant.timestamp * grant.amount) / (balance.total + grant.amount);
+    return { ...balance, total: balance.total + grant.amount, start };
+}
+
+/**
+ * Compute the vested amount of a balance at a timestamp - MUST match _vestedAmount
+ * @param balance Vesting balance
+ * @param schedule Pool vesting schedule
+ * @param timestamp Timestamp to evaluate
+ * @returns Vested amount (released included)
+ */
+export function vestedAmountAt(balance: VestingBalance, schedule: VestingSchedule, timestamp: bigint): bigint {
+    if (balance.total === 0n || timestamp < balance.firstGrant + schedule.cliff) return 0n;
+
+    const elapsed = timestamp > balance.start ? timestamp - balance.start : 0n;
+    if (elapsed >= schedule.duration) return balance.total;
+    return (balance.total * elapsed) / schedule.duration;
+}
+
+/**
+ * Simulate the unlock curve of an account from its grants
+ * @param schedule Pool vesting schedule
+ * @param grants Net grants in chronological order
+ * @param timestamps Timestamps to sample (grants after a sampled timestamp are not yet applied)
+ * @returns Vested and locked amounts at each sampled timestamp
+ */
+export function simulateUnlockCurve(
+    schedule: VestingSchedule,
+    grants: VestingGrant[],
+    timestamps: bigint[]
+): UnlockPoint[] {
+    return timestamps.map((timestamp) => {
+        const balance = grants
+            .filter((grant) => grant.timestamp <= timestamp)
+            .reduce(applyVestingGrant, EMPTY_VESTING_BALANCE);
+        const vested = vestedAmountAt(balance, schedule, timestamp);
+        return { timestamp, vested, locked: balance.total - vested };
+    });
+}
+
+/**
+ * Evenly spaced sample timestamps for unlock curves
+ * @param from First timestamp
+ * @param to Last timestamp (included)
+ * @param steps Number of intervals
+ * @returns Sample timestamps
+ */
+export function sampleTimestamps(from: bigint, to: bigint, steps: number): bigint[] {
+    if (steps <= 0 || to < from) throw new Error(`Invalid sampling range: ${from}..${to} in ${steps} steps`);
+    return Array.from({ length: steps + 1 }, (_, i) => from + ((to - from) * BigInt(i)) / BigInt(steps));
+}
+
+/**
+ * Read the vesting schedule and an account's vesting balance from a vault
+ * @param vault Vault (clone) address
+ * @param runner Provider or signer
+ * @param account Account address
+ * @returns Schedule and balance, ready for vestedAmountAt / simulateUnlockCurve
+ */
+export async function fetchVestingState(
+    vault: string,
+    runner: ethers.ContractRunner,
+    account: string
+): Promise<{ schedule: VestingSchedule; balance: VestingBalance }> {
+    const contract = RewardPoolImplementation__factory.connect(vault, runner);
+    const [[cliff, duration], [total, released, start, firstGrant]] = await Promise.all([
+        contract.vestingSchedule(),
+        contract.vestingBalances(account)
+    ]);
+    return { schedule: { cliff, duration }, balance: { total, released, start, firstGrant } };
+}
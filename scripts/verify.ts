@@ -1,53 +1,72 @@
-import { run, network } from "hardhat";
-import { parseArgs, readRegistry } from "./utils";
+import hre, { artifacts, ethers, network } from "hardhat";
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import { Sourcify } from "@nomicfoundation/hardhat-verify/sourcify";
+import { parseArgs, readRegistry, writeRegistry } from "./utils";
+import { runVerification } from "./utils/verification";
 
+/**
+ * Verify the sources of the contracts and pools in deployments/<network>.json
+ * Constructor arguments are read from the registry and the outcome is written back to it
+ *
+ * Environment:
+ *   VERIFY_NAMES     Comma-separated registry keys (default: every contract and pool)
+ *   VERIFY_FORCE     "true" to re-submit targets already recorded as verified
+ *   VERIFY_EXPLORERS Comma-separated subset of "etherscan,sourcify" (default: both)
+ *   VERIFY_ADDRESS   Verify a contract outside the registry (with VERIFY_CONTRACT and optional VERIFY_ARGS)
+ */
 async function main() {
-    const argv = process.argv.slice(2);
-    const get = (flag: string) => {
-        const i = argv.indexOf(flag);
-        return i >= 0 ? argv[i + 1] : undefined;
-    };
-
-    const address = get("--address");
-    const name = get("--name");
-    const argsRaw = get("--args"); // optional
-    const networkName = get("--network");
-
-    if (!networkName) {
-        throw new Error("Usage: --network <network> is required (e.g., --network baseSepolia)");
-    }
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const explorers = (process.env.VERIFY_EXPLORERS ?? "etherscan,sourcify").split(",").map((e) => e.trim());
 
-    let target = address;
-    let args: any[] = [];
+    const etherscan = explorers.includes("etherscan")
+        ? Etherscan.fromChainConfig(
+              hre.config.etherscan.apiKey,
+              await Etherscan.getCurrentChainConfig(network.name, network.provider, hre.config.etherscan.customChains)
+          )
+        : undefined;
+    const sourcify =
+        explorers.includes("sourcify") && hre.config.sourcify.enabled
+            ? new Sourcify(chainId, hre.config.sourcify.apiUrl!, hre.config.sourcify.browserUrl!)
+            : undefined;
 
-    if (!target && !name) {
-        throw new Error('Usage: npm run verify -- --address 0x... [--args "[...]"]  OR  --name <RegistryName> [--args "[...]"]');
-    }
+    let registry = await readRegistry(network.name, chainId);
+    let save = (next: typeof registry) => writeRegistry(network.name, next);
 
-    if (!target && name) {
-        const reg = await readRegistry(networkName);
-        const rec = reg.contracts[name];
-        if (!rec) throw new Error(`No registry entry "${name}" for network ${networkName}`);
-        target = rec.address;
-        args = rec.args || [];
+    // Ad-hoc contract: verified through a throwaway registry that is not written
+    if (process.env.VERIFY_ADDRESS) {
+        const name = process.env.VERIFY_CONTRACT;
+        if (!name) throw new Error("VERIFY_CONTRACT is required with VERIFY_ADDRESS");
+        registry = { ...registry, contracts: {}, pools: {} };
+        registry.contracts[name] = {
+            address: ethers.getAddress(process.env.VERIFY_ADDRESS),
+            args: await parseArgs(process.env.VERIFY_ARGS)
+        };
+        save = async () => undefined;
     }
 
-    if (argsRaw) {
-        args = await parseArgs(argsRaw);
-    }
+    console.log("🔎 Contract Verification");
+    console.log("Network:", network.name, `(${chainId})`);
+    console.log("Explorers:", [etherscan && "etherscan", sourcify && "sourcify"].filter(Boolean).join(", ") || "none");
 
-    console.log(`[verify] network: ${networkName}`);
-    console.log(`[verify] address: ${target}`);
-    console.log(`[verify] args: ${JSON.stringify(args)}`);
+    const results = await runVerification(registry, {
+        artifacts,
+        provider: ethers.provider,
+        etherscan,
+        sourcify,
+        names: process.env.VERIFY_NAMES?.split(",").map((name) => name.trim()),
+        force: process.env.VERIFY_FORCE === "true",
+        save,
+        log: console.log
+    });
 
-    // Since we're running with ts-node, we can't use Hardhat's run command
-    // Instead, provide instructions for manual verification
-    console.log(`[verify] To verify this contract, run:`);
-    console.log(`npx hardhat verify --network ${networkName} ${target} ${args.length > 0 ? JSON.stringify(args) : ''}`);
-    console.log(`[verify] done`);
+    const failed = results.filter((result) => result.status.error);
+    console.log(`\n📋 ${results.length - failed.length}/${results.length} verified`);
+    if (failed.length > 0) process.exitCode = 1;
 }
 
-main().catch((e) => {
-    console.error(e);
-    process.exit(1);
-});
+main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+        console.error("❌ Verification failed:", error);
+        process.exit(1);
+    });
@@ -9,6 +9,18 @@ import {
 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { buildMerkleDistribution, buildProofClaims } from "../scripts/utils/merkle-distribution";
+import { prepareClaimAuthorization } from "../scripts/utils/claim-authorization";
+import {
+    CLAIM_FAILURE_MESSAGES,
+    EMPTY_REVERT_CODE,
+    ERROR_STRING_CODE,
+    PANIC_CODE,
+    decodeClaimFailure,
+    parseClaimFailures,
+    previewClaims
+} from "../scripts/utils/claim-diagnostics";
+import { decodeAtomicClaimError, planClaimBatch, submitClaimBatch } from "../scripts/utils/claim-modes";
 
 describe("ClaimRouter", function () {
     let factory: RewardPoolFactory;
@@ -154,6 +166,7 @@ describe("ClaimRouter", function () {
                 vault: await await vault1.getAddress(),
                 account: claimer.address,
                 cumulativeAmount: CLAIM_AMOUNT,
+                deadline: 0,
                 signature
             }];
 
@@ -174,12 +187,14 @@ describe("ClaimRouter", function () {
                     vault: await await vault1.getAddress(),
                     account: claimer.address,
                     cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
                     signature: signature1
                 },
                 {
                     vault: await await vault2.getAddress(),
                     account: claimer.address,
                     cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
                     signature: signature2
                 }
             ];
@@ -201,12 +216,14 @@ describe("ClaimRouter", function () {
                     vault: await await vault1.getAddress(),
                     account: claimer.address,
                     cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
                     signature: validSignature
                 },
                 {
                     vault: await await vault2.getAddress(),
                     account: claimer.address,
                     cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
                     signature: invalidSignature
                 }
             ];
@@ -241,12 +258,13 @@ describe("ClaimRouter", function () {
                 vault: await rogueVault.getAddress(),
                 account: claimer.address,
                 cumulativeAmount: CLAIM_AMOUNT,
+                deadline: 0,
                 signature
             }];
 
             await expect(claimRouter.connect(relayer).claimAll(claimData))
                 .to.emit(claimRouter, "ClaimFailed")
-                .withArgs(await rogueVault.getAddress(), claimer.address, "Factory not approved")
+                .withArgs(await rogueVault.getAddress(), claimer.address, errorCode("InvalidParameter"), "factory")
                 .to.emit(claimRouter, "BatchClaimed")
                 .withArgs(relayer.address, 0, 1, 0, 0, 0, anyValue);
         });
@@ -263,24 +281,59 @@ describe("ClaimRouter", function () {
                     vault: await await vault1.getAddress(),
                     account: claimer.address,
                     cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
                     signature: signature1
                 },
                 {
                     vault: await await vault2.getAddress(),
                     account: claimer.address,
                     cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
                     signature: signature2
                 }
             ];
 
             await expect(claimRouter.connect(relayer).claimAll(claimData))
                 .to.emit(claimRouter, "ClaimFailed")
-                .withArgs(await vault1.getAddress(), claimer.address, "Low-level failure")
+                .withArgs(await vault1.getAddress(), claimer.address, errorCode("EnforcedPause"), "")
                 .to.emit(claimRouter, "ClaimSucceeded")
                 .to.emit(claimRouter, "BatchClaimed")
                 .withArgs(relayer.address, 1, 1, CLAIM_AMOUNT, anyValue, anyValue, anyValue);
         });
 
+        it("Should report expired signatures with a distinct code", async function () {
+            const deadline = BigInt(await time.latest() + 3600);
+            const expiredSignature = await signClaim(publisher, await vault1.getAddress(), claimer.address, CLAIM_AMOUNT, deadline);
+            const validSignature = await signClaim(publisher, await vault2.getAddress(), claimer.address, CLAIM_AMOUNT);
+
+            await time.increase(3601);
+
+            const claimData = [
+                {
+                    vault: await vault1.getAddress(),
+                    account: claimer.address,
+                    cumulativeAmount: CLAIM_AMOUNT,
+                    deadline,
+                    signature: expiredSignature
+                },
+                {
+                    vault: await vault2.getAddress(),
+                    account: claimer.address,
+                    cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
+                    signature: validSignature
+                }
+            ];
+
+            await expect(claimRouter.connect(relayer).claimAll(claimData))
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await vault1.getAddress(), claimer.address, errorCode("SecurityViolation"), "deadline")
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(relayer.address, 1, 1, CLAIM_AMOUNT, anyValue, anyValue, anyValue);
+
+            expect(await vault1.alreadyClaimed(claimer.address)).to.equal(0);
+        });
+
         it("Should reject empty batches", async function () {
             await expect(claimRouter.connect(relayer).claimAll([]))
                 .to.be.revertedWithCustomError(claimRouter, "InvalidParameter")
@@ -293,6 +346,7 @@ describe("ClaimRouter", function () {
                 vault: await await vault1.getAddress(),
                 account: claimer.address,
                 cumulativeAmount: CLAIM_AMOUNT,
+                deadline: 0,
                 signature: "0x00"
             });
 
@@ -309,6 +363,7 @@ describe("ClaimRouter", function () {
                 vault: invalidVault,
                 account: claimer.address,
                 cumulativeAmount: CLAIM_AMOUNT,
+                deadline: 0,
                 signature
             }];
 
@@ -318,6 +373,458 @@ describe("ClaimRouter", function () {
         });
     });
 
+    describe("Batch Proof Claims", function () {
+        it("Should batch Merkle claims across vaults", async function () {
+            const chainId = (await ethers.provider.getNetwork()).chainId;
+            const distributions = [];
+            for (const vault of [vault1, vault2]) {
+                const distribution = buildMerkleDistribution(await vault.getAddress(), chainId, 1, [
+                    { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT },
+                    { account: relayer.address, cumulativeAmount: CLAIM_AMOUNT * 2n }
+                ]);
+                await vault.connect(publisher).setMerkleRoot(distribution.root, 1);
+                distributions.push(distribution);
+            }
+
+            await expect(claimRouter.connect(relayer).claimAllWithProofs(buildProofClaims(distributions, claimer.address)))
+                .to.emit(claimRouter, "ClaimSucceeded")
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(relayer.address, 2, 0, CLAIM_AMOUNT * 2n, anyValue, anyValue, anyValue);
+
+            expect(await vault1.alreadyClaimed(claimer.address)).to.equal(CLAIM_AMOUNT);
+            expect(await vault2.alreadyClaimed(claimer.address)).to.equal(CLAIM_AMOUNT);
+        });
+
+        it("Should handle invalid proofs and unapproved factories gracefully", async function () {
+            const chainId = (await ethers.provider.getNetwork()).chainId;
+            const distribution = buildMerkleDistribution(await vault1.getAddress(), chainId, 1, [
+                { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT }
+            ]);
+            await vault1.connect(publisher).setMerkleRoot(distribution.root, 1);
+            await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), false);
+
+            const claims = [
+                { vault: await vault1.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, proof: [] }
+            ];
+
+            await expect(claimRouter.connect(relayer).claimAllWithProofs(claims))
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await vault1.getAddress(), claimer.address, errorCode("InvalidParameter"), "factory");
+
+            await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), true);
+            await expect(claimRouter.connect(relayer).claimAllWithProofs([{ ...claims[0], cumulativeAmount: CLAIM_AMOUNT * 2n }]))
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(relayer.address, 0, 1, 0, 0, 0, anyValue);
+        });
+    });
+
+    describe("Claim Authorizations", function () {
+        it("Should authorize a smart wallet and pay its recipient in the same batch", async function () {
+            const WalletFactory = await ethers.getContractFactory("MockSmartWallet");
+            const wallet = await WalletFactory.deploy(claimer.address);
+            const walletAddress = await wallet.getAddress();
+            const recipient = ethers.Wallet.createRandom().address;
+
+            const authorization = await prepareClaimAuthorization(
+                await factory.getAddress(),
+                claimer,
+                walletAddress,
+                recipient,
+                ethers.ZeroAddress,
+                BigInt(await time.latest()) + 3600n
+            );
+            const claimData = [await vault1.getAddress(), await vault2.getAddress()].map(async vault => ({
+                vault,
+                account: walletAddress,
+                cumulativeAmount: CLAIM_AMOUNT,
+                deadline: 0,
+                signature: await signClaim(publisher, vault, walletAddress, CLAIM_AMOUNT)
+            }));
+
+            await expect(claimRouter.connect(relayer).authorizeAndClaimAll([authorization], await Promise.all(claimData)))
+                .to.emit(factory, "ClaimAuthorizationUpdated")
+                .withArgs(walletAddress, recipient, ethers.ZeroAddress)
+                .and.to.emit(vault1, "ClaimRedirected")
+                .and.to.emit(vault2, "ClaimRedirected")
+                .and.to.emit(claimRouter, "BatchClaimed")
+                .withArgs(relayer.address, 2, 0, CLAIM_AMOUNT * 2n, anyValue, anyValue, anyValue);
+
+            const net = CLAIM_AMOUNT - CLAIM_AMOUNT * 1000n / 10000n;
+            expect(await testToken.balanceOf(recipient)).to.equal(net);
+            expect(await testToken2.balanceOf(recipient)).to.equal(net);
+            expect(await testToken.balanceOf(walletAddress)).to.equal(0);
+        });
+
+        it("Should reject the whole batch for unapproved factories or invalid authorizations", async function () {
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const signature = await signClaim(publisher, await vault1.getAddress(), claimer.address, CLAIM_AMOUNT);
+            const claimData = [{
+                vault: await vault1.getAddress(),
+                account: claimer.address,
+                cumulativeAmount: CLAIM_AMOUNT,
+                deadline: 0,
+                signature
+            }];
+
+            const unapproved = await prepareClaimAuthorization(
+                await factory.getAddress(), claimer, claimer.address, relayer.address, ethers.ZeroAddress, deadline
+            );
+            await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), false);
+            await expect(claimRouter.authorizeAndClaimAll([unapproved], claimData))
+                .to.be.revertedWithCustomError(claimRouter, "InvalidParameter")
+                .withArgs("factory");
+            await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), true);
+
+            // Signed by the relayer on the claimer's behalf
+            const forged = await prepareClaimAuthorization(
+                await factory.getAddress(), relayer, claimer.address, relayer.address, ethers.ZeroAddress, deadline
+            );
+            await expect(claimRouter.authorizeAndClaimAll([forged], claimData))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("signature");
+            expect(await vault1.alreadyClaimed(claimer.address)).to.equal(0);
+        });
+    });
+
+    describe("Failure Diagnostics", function () {
+        it("Should report vault custom errors as structured codes", async function () {
+            const signature = await signClaim(publisher, await vault1.getAddress(), claimer.address, CLAIM_AMOUNT);
+            const forged = await signClaim(claimer, await vault2.getAddress(), claimer.address, CLAIM_AMOUNT);
+            await vault1.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature);
+
+            const claimData = [
+                { vault: await vault1.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline: 0, signature },
+                { vault: await vault2.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline: 0, signature: forged }
+            ];
+
+            const tx = claimRouter.connect(relayer).claimAll(claimData);
+            await expect(tx)
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await vault1.getAddress(), claimer.address, errorCode("AlreadyExists"), "claim")
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await vault2.getAddress(), claimer.address, errorCode("SecurityViolation"), "signature");
+
+            const failures = parseClaimFailures(claimRouter, (await (await tx).wait())!.logs);
+            expect(failures.map(f => [f.failure.error, f.failure.reason, f.failure.message])).to.deep.equal([
+                ["AlreadyExists", "claim", CLAIM_FAILURE_MESSAGES["AlreadyExists:claim"]],
+                ["SecurityViolation", "signature", "Invalid publisher signature"]
+            ]);
+        });
+
+        it("Should preview batch outcomes without moving tokens", async function () {
+            const deadline = BigInt(await time.latest() + 60);
+            const signature1 = await signClaim(publisher, await vault1.getAddress(), claimer.address, CLAIM_AMOUNT);
+            const expired = await signClaim(publisher, await vault2.getAddress(), creator.address, CLAIM_AMOUNT, deadline);
+            const signature2 = await signClaim(publisher, await vault2.getAddress(), claimer.address, CLAIM_AMOUNT * 2n);
+            await time.increase(61);
+
+            const claimData = [
+                { vault: await vault1.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline: 0n, signature: signature1 },
+                // Same voucher again: claims run in order, so the second one sees the first
+                { vault: await vault1.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline: 0n, signature: signature1 },
+                { vault: await vault2.getAddress(), account: creator.address, cumulativeAmount: CLAIM_AMOUNT, deadline, signature: expired },
+                { vault: await vault2.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT * 2n, deadline: 0n, signature: signature2 }
+            ];
+
+            const previews = await previewClaims(claimRouter.connect(relayer), claimData);
+            const fee = CLAIM_AMOUNT / 10n;
+
+            expect(previews.map(p => p.success)).to.deep.equal([true, false, false, true]);
+            expect([previews[0].gross, previews[0].fee, previews[0].net]).to.deep.equal([CLAIM_AMOUNT, fee, CLAIM_AMOUNT - fee]);
+            expect(previews[3].gross).to.equal(CLAIM_AMOUNT * 2n);
+            expect(previews[1].failure).to.deep.equal({
+                code: errorCode("AlreadyExists"),
+                error: "AlreadyExists",
+                reason: "claim",
+                message: CLAIM_FAILURE_MESSAGES["AlreadyExists:claim"]
+            });
+            expect(previews[2].failure?.message).to.equal("Voucher expired");
+
+            // Nothing was paid
+            expect(await vault1.alreadyClaimed(claimer.address)).to.equal(0);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(0);
+        });
+
+        it("Should reject direct simulation calls and invalid preview batches", async function () {
+            await expect(claimRouter.connect(relayer).simulateClaimAll([]))
+                .to.be.revertedWithCustomError(claimRouter, "Unauthorized")
+                .withArgs("router");
+            await expect(claimRouter.previewClaimAll.staticCall([]))
+                .to.be.revertedWithCustomError(claimRouter, "InvalidParameter")
+                .withArgs("batch_size");
+        });
+
+        it("Should decode require messages, panics and unknown errors", async function () {
+            expect(decodeClaimFailure(ERROR_STRING_CODE, "Token paused").message).to.equal("Token paused");
+            expect(decodeClaimFailure(PANIC_CODE, "").error).to.equal("Panic");
+            expect(decodeClaimFailure(EMPTY_REVERT_CODE, "").error).to.equal("EmptyRevert");
+            expect(decodeClaimFailure("0xdeadbeef", "").message).to.equal("Unknown error 0xdeadbeef");
+            expect(decodeClaimFailure(errorCode("InvalidParameter"), "liability").message).to.equal("InvalidParameter(liability)");
+        });
+    });
+
+    describe("Atomic Batches", function () {
+        const FEE = CLAIM_AMOUNT / 10n;
+
+        async function claimFor(vault: RewardPoolImplementation, signer: SignerWithAddress = publisher, deadline = 0n) {
+            return {
+                vault: await vault.getAddress(),
+                account: claimer.address,
+                cumulativeAmount: CLAIM_AMOUNT,
+                deadline,
+                signature: await signClaim(signer, await vault.getAddress(), claimer.address, CLAIM_AMOUNT, deadline)
+            };
+        }
+
+        it("Should pay every claim of an atomic batch", async function () {
+            const claimData = [await claimFor(vault1), await claimFor(vault2)];
+
+            await expect(claimRouter.connect(relayer).claimAllAtomic(claimData, (CLAIM_AMOUNT - FEE) * 2n))
+                .to.emit(claimRouter, "ClaimSucceeded")
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(relayer.address, 2, 0, CLAIM_AMOUNT * 2n, FEE * 2n, (CLAIM_AMOUNT - FEE) * 2n, anyValue);
+
+            expect(await testToken.balanceOf(claimer.address)).to.equal(CLAIM_AMOUNT - FEE);
+            expect(await testToken2.balanceOf(claimer.address)).to.equal(CLAIM_AMOUNT - FEE);
+        });
+
+        it("Should revert the whole batch on the first failing claim", async function () {
+            const valid = await claimFor(vault1);
+            const forged = await claimFor(vault2, claimer);
+
+            await expect(claimRouter.connect(relayer).claimAllAtomic([valid, forged], 0))
+                .to.be.revertedWithCustomError(claimRouter, "ClaimReverted")
+                .withArgs(1, errorCode("SecurityViolation"), "signature");
+            expect(await vault1.alreadyClaimed(claimer.address)).to.equal(0);
+
+            const deadline = BigInt(await time.latest() + 60);
+            const expiring = await claimFor(vault2, publisher, deadline);
+            await time.increase(61);
+            await expect(claimRouter.connect(relayer).claimAllAtomic([valid, expiring], 0))
+                .to.be.revertedWithCustomError(claimRouter, "ClaimReverted")
+                .withArgs(1, errorCode("SecurityViolation"), "deadline");
+        });
+
+        it("Should validate every vault before claiming", async function () {
+            await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), false);
+
+            await expect(claimRouter.connect(relayer).claimAllAtomic([await claimFor(vault1)], 0))
+                .to.be.revertedWithCustomError(claimRouter, "ClaimReverted")
+                .withArgs(0, errorCode("InvalidParameter"), "factory");
+            await expect(claimRouter.connect(relayer).claimAllAtomic([], 0))
+                .to.be.revertedWithCustomError(claimRouter, "InvalidParameter")
+                .withArgs("batch_size");
+        });
+
+        it("Should enforce the minimum net total", async function () {
+            const claimData = [await claimFor(vault1)];
+
+            await expect(claimRouter.connect(relayer).claimAllAtomic(claimData, CLAIM_AMOUNT - FEE + 1n))
+                .to.be.revertedWithCustomError(claimRouter, "InvalidParameter")
+                .withArgs("net_total");
+        });
+
+        it("Should choose the batch mode from a preview", async function () {
+            const valid = [await claimFor(vault1), await claimFor(vault2)];
+            const forged = await claimFor(vault2, claimer);
+            const router = claimRouter.connect(relayer);
+
+            const atomic = await planClaimBatch(router, valid, { netToleranceBps: 100 });
+            expect(atomic.mode).to.equal("atomic");
+            expect(atomic.expectedNet).to.equal((CLAIM_AMOUNT - FEE) * 2n);
+            expect(atomic.minNetTotal).to.equal((CLAIM_AMOUNT - FEE) * 2n * 99n / 100n);
+
+            const bestEffort = await planClaimBatch(router, [valid[0], forged]);
+            expect(bestEffort.mode).to.equal("best-effort");
+            expect(bestEffort.claims).to.deep.equal([valid[0]]);
+            expect(bestEffort.skipped.map(p => p.failure?.message)).to.deep.equal(["Invalid publisher signature"]);
+
+            let error: Error | undefined;
+            try {
+                await planClaimBatch(router, [valid[0], forged], { mode: "atomic" });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.equal("Claim 1 would revert the atomic batch: Invalid publisher signature");
+
+            await expect(submitClaimBatch(router, atomic))
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(relayer.address, 2, 0, CLAIM_AMOUNT * 2n, FEE * 2n, (CLAIM_AMOUNT - FEE) * 2n, anyValue);
+        });
+
+        it("Should decode the claim that aborted an atomic batch", async function () {
+            const claimData = [await claimFor(vault1), await claimFor(vault2, claimer)];
+            let data = "0x";
+            try {
+                await claimRouter.claimAllAtomic.staticCall(claimData, 0);
+            } catch (e) {
+                data = (e as { data: string }).data;
+            }
+
+            expect(decodeAtomicClaimError(claimRouter, data)).to.deep.equal({
+                index: 1,
+                failure: {
+                    code: errorCode("SecurityViolation"),
+                    error: "SecurityViolation",
+                    reason: "signature",
+                    message: "Invalid publisher signature"
+                }
+            });
+        });
+    });
+
+    describe("Aggregated Payouts", function () {
+        const FEE = CLAIM_AMOUNT / 10n;
+        const NET = CLAIM_AMOUNT - FEE;
+        let vault3: RewardPoolImplementation;
+
+        beforeEach(async function () {
+            await factory.connect(timelock).setClaimAggregator(await claimRouter.getAddress(), true);
+
+            // Second pool of the first token
+            vault3 = await createFundedPool(creator2, testToken);
+        });
+
+        async function claimFor(vault: RewardPoolImplementation, account: string, amount = CLAIM_AMOUNT) {
+            return {
+                vault: await vault.getAddress(),
+                account,
+                cumulativeAmount: amount,
+                deadline: 0n,
+                signature: await signClaim(publisher, await vault.getAddress(), account, amount)
+            };
+        }
+
+        it("Should send one net transfer per account and token and one fee transfer per treasury", async function () {
+            const claimData = [
+                await claimFor(vault1, claimer.address),
+                await claimFor(vault2, claimer.address),
+                await claimFor(vault3, claimer.address),
+                await claimFor(vault3, funder.address)
+            ];
+
+            const tx = claimRouter.connect(relayer).claimAllAggregated(claimData);
+            await expect(tx)
+                .to.emit(claimRouter, "AggregatedPayoutSent")
+                .withArgs(claimer.address, claimer.address, await testToken.getAddress(), NET * 2n)
+                .to.emit(claimRouter, "AggregatedPayoutSent")
+                .withArgs(claimer.address, claimer.address, await testToken2.getAddress(), NET)
+                .to.emit(claimRouter, "AggregatedPayoutSent")
+                .withArgs(funder.address, funder.address, await testToken.getAddress(), NET)
+                .to.emit(claimRouter, "AggregatedFeeSent")
+                .withArgs(treasury.address, await testToken.getAddress(), FEE * 3n)
+                .to.emit(claimRouter, "AggregatedFeeSent")
+                .withArgs(treasury.address, await testToken2.getAddress(), FEE)
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(relayer.address, 4, 0, CLAIM_AMOUNT * 4n, FEE * 4n, NET * 4n, anyValue);
+
+            // One transfer of each token to the claimer and the treasury
+            const receipt = (await (await tx).wait())!;
+            const transfers = receipt.logs
+                .filter(log => log.address === testToken.target)
+                .map(log => testToken.interface.parseLog(log)!)
+                .filter(parsed => parsed.name === "Transfer" && parsed.args.from === claimRouter.target);
+            expect(transfers.map(t => [t.args.to, t.args.value])).to.deep.equal([
+                [claimer.address, NET * 2n],
+                [funder.address, NET],
+                [treasury.address, FEE * 3n]
+            ]);
+
+            expect(await testToken.balanceOf(await claimRouter.getAddress())).to.equal(0);
+            expect(await testToken2.balanceOf(await claimRouter.getAddress())).to.equal(0);
+            expect(await vault1.alreadyClaimed(claimer.address)).to.equal(CLAIM_AMOUNT);
+            expect(await vault3.alreadyFeePaid(funder.address)).to.equal(FEE);
+        });
+
+        it("Should pay the recipient authorized by the account", async function () {
+            await factory.connect(claimer).authorizeClaims(relayer.address, ethers.ZeroAddress);
+
+            await expect(claimRouter.claimAllAggregated([await claimFor(vault1, claimer.address), await claimFor(vault3, claimer.address)]))
+                .to.emit(claimRouter, "AggregatedPayoutSent")
+                .withArgs(claimer.address, relayer.address, await testToken.getAddress(), NET * 2n);
+
+            expect(await testToken.balanceOf(claimer.address)).to.equal(0);
+            expect(await testToken.balanceOf(relayer.address)).to.equal(NET * 2n);
+        });
+
+        it("Should report failed claims and keep paying the others", async function () {
+            const paid = await claimFor(vault1, claimer.address);
+            await claimRouter.claimAllAggregated([paid]);
+            await vault3.connect(creator2).setVestingSchedule(0, 30 * 24 * 60 * 60);
+
+            await expect(claimRouter.claimAllAggregated([paid, await claimFor(vault3, claimer.address), await claimFor(vault2, claimer.address)]))
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await vault1.getAddress(), claimer.address, errorCode("AlreadyExists"), "claim")
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await vault3.getAddress(), claimer.address, errorCode("InvalidParameter"), "vesting")
+                .to.emit(claimRouter, "AggregatedPayoutSent")
+                .withArgs(claimer.address, claimer.address, await testToken2.getAddress(), NET)
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(anyValue, 1, 2, CLAIM_AMOUNT, FEE, NET, anyValue);
+        });
+
+        it("Should only pay routers approved by the factory", async function () {
+            await factory.connect(timelock).setClaimAggregator(await claimRouter.getAddress(), false);
+
+            await expect(claimRouter.claimAllAggregated([await claimFor(vault1, claimer.address)]))
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await vault1.getAddress(), claimer.address, errorCode("Unauthorized"), "router");
+            await expect(vault1.connect(relayer).payWithSigToRouter(claimer.address, CLAIM_AMOUNT, 0, (await claimFor(vault1, claimer.address)).signature))
+                .to.be.revertedWithCustomError(vault1, "Unauthorized")
+                .withArgs("router");
+            await expect(factory.connect(guardian).setClaimAggregator(relayer.address, true))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(timelock).setClaimAggregator(ethers.ZeroAddress, true))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("router");
+        });
+
+        it("Should revert the batch when a vault payout arrives short", async function () {
+            const FeeTokenFactory = await ethers.getContractFactory("FeeOnTransferToken");
+            const feeToken = await FeeTokenFactory.deploy("FeeToken", "FEE");
+            await factory.connect(timelock).setTokenAllowed(await feeToken.getAddress(), true);
+            const [feeVaultAddress] = await factory.predictPoolAddress(creator.address, await feeToken.getAddress());
+            await factory.connect(creator).createPool(await feeToken.getAddress());
+            const feeVault = await ethers.getContractAt("RewardPoolImplementation", feeVaultAddress);
+            await feeToken.mint(feeVaultAddress, FUND_AMOUNT); // fund() rejects fee-on-transfer tokens
+
+            await expect(claimRouter.claimAllAggregated([await claimFor(vault1, claimer.address), await claimFor(feeVault, claimer.address)]))
+                .to.be.revertedWithCustomError(claimRouter, "SecurityViolation")
+                .withArgs("token_transfer");
+            expect(await vault1.alreadyClaimed(claimer.address)).to.equal(0);
+        });
+
+        it("Should skip vaults the factory did not create", async function () {
+            const MockFactory = await ethers.getContractFactory("MockMisreportingVault");
+            const forged = await MockFactory.deploy();
+            await forged.initialize(await testToken.getAddress(), relayer.address, await factory.getAddress(), creator.address);
+            await testToken.mint(await claimRouter.getAddress(), CLAIM_AMOUNT); // Funds a forged payout could take
+
+            const claim = { ...(await claimFor(vault1, claimer.address)), vault: await forged.getAddress() };
+            await expect(claimRouter.claimAllAggregated([claim]))
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(await forged.getAddress(), claimer.address, errorCode("InvalidParameter"), "vault");
+            expect(await testToken.balanceOf(await claimRouter.getAddress())).to.equal(CLAIM_AMOUNT);
+        });
+
+        it("Should revert the batch when a vault misreports its payout", async function () {
+            // A factory clone of a broken implementation passes the registry check
+            const MockFactory = await ethers.getContractFactory("MockMisreportingVault");
+            const broken = await MockFactory.deploy();
+            await factory.connect(timelock).registerImplementation(await broken.getAddress());
+            const version = await factory.latestVersion();
+            const [cloneAddress] = await factory.predictPoolAddressForVersion(creator.address, await testToken.getAddress(), version);
+            await factory.connect(creator).createPoolWithVersion(await testToken.getAddress(), version);
+            await testToken.mint(await claimRouter.getAddress(), CLAIM_AMOUNT);
+
+            const claim = { ...(await claimFor(vault1, claimer.address)), vault: cloneAddress };
+            await expect(claimRouter.claimAllAggregated([claim]))
+                .to.be.revertedWithCustomError(claimRouter, "SecurityViolation")
+                .withArgs("accounting");
+        });
+    });
+
     describe("Gas Benchmarks", function () {
         it("Should benchmark batch claim gas usage", async function () {
             // Create batch of 5 claims
@@ -336,6 +843,7 @@ describe("ClaimRouter", function () {
                     vault: i % 2 === 0 ? await await vault1.getAddress() : await await vault2.getAddress(),
                     account: claimer.address,
                     cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0,
                     signature
                 });
             }
@@ -348,14 +856,60 @@ describe("ClaimRouter", function () {
             console.log(`Batch claim gas per item: ${gasPerClaim.toFixed(0)}`);
             expect(gasPerClaim).to.be.lessThan(110000);
         });
+
+        it("Should benchmark aggregated payout gas usage", async function () {
+            // One account claiming from 5 pools of the same token
+            await factory.connect(timelock).setClaimAggregator(await claimRouter.getAddress(), true);
+            const vaults = [vault1];
+            for (let i = 0; i < 4; i++) vaults.push(await createFundedPool(creator, testToken));
+
+            async function batchFor(account: string) {
+                const claimData = [];
+                for (const vault of vaults) {
+                    claimData.push({
+                        vault: await vault.getAddress(),
+                        account,
+                        cumulativeAmount: CLAIM_AMOUNT,
+                        deadline: 0,
+                        signature: await signClaim(publisher, await vault.getAddress(), account, CLAIM_AMOUNT)
+                    });
+                }
+                return claimData;
+            }
+
+            // Fresh accounts for both modes (same cold storage)
+            const direct = await (await claimRouter.connect(relayer).claimAll(await batchFor(claimer.address))).wait();
+            const aggregated = await (await claimRouter.connect(relayer).claimAllAggregated(await batchFor(funder.address))).wait();
+
+            const directPerClaim = Number(direct!.gasUsed) / vaults.length;
+            const aggregatedPerClaim = Number(aggregated!.gasUsed) / vaults.length;
+            console.log(`Batch claim gas per item: ${directPerClaim.toFixed(0)} direct, ${aggregatedPerClaim.toFixed(0)} aggregated`);
+            expect(aggregatedPerClaim).to.be.lessThan(directPerClaim);
+            expect(aggregatedPerClaim).to.be.lessThan(140000);
+        });
     });
 
+    async function createFundedPool(poolCreator: SignerWithAddress, token: TestToken) {
+        const [poolAddress] = await factory.predictPoolAddress(poolCreator.address, await token.getAddress());
+        await factory.connect(poolCreator).createPool(await token.getAddress());
+        await token.mint(funder.address, FUND_AMOUNT);
+        await token.connect(funder).approve(poolAddress, FUND_AMOUNT);
+        const pool = await ethers.getContractAt("RewardPoolImplementation", poolAddress);
+        await pool.connect(funder).fund(FUND_AMOUNT);
+        return pool;
+    }
+
+    function errorCode(name: string): string {
+        return vault1.interface.getError(name)!.selector;
+    }
+
     // Helper function for signing claims
     async function signClaim(
         signer: SignerWithAddress,
         vaultAddress: string,
         account: string,
-        cumulativeAmount: bigint
+        cumulativeAmount: bigint,
+        deadline: bigint = 0n
     ): Promise<string> {
         const chainId = await ethers.provider.getNetwork().then(n => n.chainId);
 
@@ -369,13 +923,15 @@ describe("ClaimRouter", function () {
         const types = {
             Claim: [
                 { name: "account", type: "address" },
-                { name: "cumulativeAmount", type: "uint256" }
+                { name: "cumulativeAmount", type: "uint256" },
+                { name: "deadline", type: "uint256" }
             ]
         };
 
         const value = {
             account,
-            cumulativeAmount: cumulativeAmount.toString()
+            cumulativeAmount: cumulativeAmount.toString(),
+            deadline: deadline.toString()
         };
 
         return await signer.signTypedData(domain, types, value);
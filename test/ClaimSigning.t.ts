@@ -0,0 +1,182 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+    RewardPoolFactory,
+    RewardPoolImplementation,
+    TestToken,
+    ClaimRouter
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    CLAIM_TYPEHASH,
+    buildClaimDomain,
+    computeClaimDigest,
+    deadlineFromNow,
+    generateBatchClaims,
+    hashClaimStruct,
+    isClaimExpired,
+    NO_DEADLINE,
+    recoverClaimSigner,
+    signClaim,
+    verifyVaultDomain
+} from "../scripts/utils/claim-signing";
+
+describe("Claim Signing SDK", function () {
+    let factory: RewardPoolFactory;
+    let implementation: RewardPoolImplementation;
+    let vault: RewardPoolImplementation;
+    let testToken: TestToken;
+    let claimRouter: ClaimRouter;
+    let chainId: bigint;
+
+    let timelock: SignerWithAddress;
+    let guardian: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+    let treasury: SignerWithAddress;
+    let funder: SignerWithAddress;
+    let claimer: SignerWithAddress;
+    let relayer: SignerWithAddress;
+
+    const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+    const CLAIM_AMOUNT = ethers.parseUnits("100", 18);
+
+    beforeEach(async function () {
+        [timelock, guardian, publisher, creator, treasury, funder, claimer, relayer] = await ethers.getSigners();
+        chainId = (await ethers.provider.getNetwork()).chainId;
+
+        // Deploy test token
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        testToken = await TestTokenFactory.deploy("Test Token", "TEST", 18);
+
+        // Deploy implementation
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        implementation = await ImplFactory.deploy();
+
+        // Deploy factory
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        factory = await FactoryFactory.deploy(
+            await implementation.getAddress(),
+            treasury.address,
+            timelock.address,
+            guardian.address,
+            publisher.address
+        );
+
+        // Deploy ClaimRouter
+        const RouterFactory = await ethers.getContractFactory("ClaimRouter");
+        claimRouter = await RouterFactory.deploy(timelock.address);
+
+        // Setup: Approve factory in router and token in factory
+        await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), true);
+        await factory.connect(timelock).setTokenAllowed(await testToken.getAddress(), true);
+
+        // Create and fund vault
+        const [vaultAddress] = await factory.predictPoolAddress(creator.address, await testToken.getAddress());
+        await factory.connect(creator).createPool(await testToken.getAddress());
+        vault = await ethers.getContractAt("RewardPoolImplementation", vaultAddress);
+
+        await testToken.mint(funder.address, FUND_AMOUNT);
+        await testToken.connect(funder).approve(vaultAddress, FUND_AMOUNT);
+        await vault.connect(funder).fund(FUND_AMOUNT);
+    });
+
+    describe("Typed data", function () {
+        it("Should derive the same type hash as the contract", async function () {
+            expect(CLAIM_TYPEHASH).to.equal(await vault.CLAIM_TYPEHASH());
+            expect(CLAIM_TYPEHASH).to.equal(
+                ethers.id("Claim(address account,uint256 cumulativeAmount,uint256 deadline)")
+            );
+        });
+
+        it("Should hash the struct exactly like abi.encode(CLAIM_TYPEHASH, account, cumulativeAmount, deadline)", async function () {
+            const deadline = 1_900_000_000n;
+            const expected = ethers.keccak256(
+                ethers.AbiCoder.defaultAbiCoder().encode(
+                    ["bytes32", "address", "uint256", "uint256"],
+                    [CLAIM_TYPEHASH, claimer.address, CLAIM_AMOUNT, deadline]
+                )
+            );
+
+            expect(hashClaimStruct({ account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline })).to.equal(
+                expected
+            );
+        });
+
+        it("Should mirror the on-chain expiry rule", async function () {
+            expect(isClaimExpired(NO_DEADLINE, 2_000_000_000)).to.be.false;
+            expect(isClaimExpired(100n, 100)).to.be.false;
+            expect(isClaimExpired(100n, 101)).to.be.true;
+            expect(deadlineFromNow(3600, 1_000)).to.equal(4_600n);
+        });
+    });
+
+    describe("Domain self-check", function () {
+        it("Should return the on-chain domain of a deployed vault", async function () {
+            const domain = await verifyVaultDomain(await vault.getAddress(), ethers.provider, chainId);
+
+            expect(domain).to.deep.equal(buildClaimDomain(chainId, await vault.getAddress()));
+        });
+
+        it("Should reject a chain ID mismatch", async function () {
+            let error: Error | undefined;
+            try {
+                await verifyVaultDomain(await vault.getAddress(), ethers.provider, 8453);
+            } catch (e) {
+                error = e as Error;
+            }
+
+            expect(error?.message).to.contain("Chain ID mismatch");
+        });
+    });
+
+    describe("Signing and recovery", function () {
+        it("Should produce signatures accepted by payWithSig", async function () {
+            const domain = await verifyVaultDomain(await vault.getAddress(), ethers.provider, chainId);
+            const deadline = deadlineFromNow(3600, await time.latest());
+            const claim = { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline };
+            const signature = await signClaim(publisher, domain, claim);
+
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, deadline, signature))
+                .to.emit(vault, "ClaimedMinimal")
+                .withArgs(claimer.address, await testToken.getAddress(), CLAIM_AMOUNT);
+        });
+
+        it("Should recover the publisher locally from signature and digest", async function () {
+            const domain = buildClaimDomain(chainId, await vault.getAddress());
+            const claim = { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline: NO_DEADLINE };
+            const signature = await signClaim(publisher, domain, claim);
+
+            expect(recoverClaimSigner(domain, claim, signature)).to.equal(publisher.address);
+            expect(ethers.recoverAddress(computeClaimDigest(domain, claim), signature)).to.equal(publisher.address);
+        });
+
+        it("Should not recover the publisher for a tampered voucher", async function () {
+            const domain = buildClaimDomain(chainId, await vault.getAddress());
+            const claim = { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline: NO_DEADLINE };
+            const signature = await signClaim(publisher, domain, claim);
+
+            expect(recoverClaimSigner(domain, { ...claim, cumulativeAmount: CLAIM_AMOUNT + 1n }, signature)).to.not.equal(
+                publisher.address
+            );
+            expect(recoverClaimSigner(domain, { ...claim, deadline: 1n }, signature)).to.not.equal(publisher.address);
+        });
+
+        it("Should generate batch claims accepted by ClaimRouter", async function () {
+            const claims = await generateBatchClaims(
+                publisher,
+                [{ vault: await vault.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT }],
+                chainId,
+                deadlineFromNow(3600, await time.latest())
+            );
+
+            expect(claims[0].deadline).to.be.greaterThan(NO_DEADLINE);
+
+            await expect(claimRouter.connect(relayer).claimAll(claims))
+                .to.emit(claimRouter, "ClaimSucceeded");
+
+            expect(await vault.alreadyClaimed(claimer.address)).to.equal(CLAIM_AMOUNT);
+        });
+    });
+});
@@ -0,0 +1,296 @@
+import { artifacts, ethers } from "hardhat";
+import { expect } from "chai";
+import { TestToken } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DeploySpec, RegistryStore, runDeployment, validateDeploySpec } from "../scripts/utils/deploy-pipeline";
+import { DeploymentRegistry, createRegistry } from "../scripts/utils/registry";
+
+describe("DeployPipeline", function () {
+    let deployer: SignerWithAddress;
+    let timelock: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let usdc: TestToken;
+    let weth: TestToken;
+
+    let spec: DeploySpec;
+    let registry: DeploymentRegistry;
+    let store: RegistryStore;
+
+    beforeEach(async function () {
+        [deployer, timelock, publisher] = await ethers.getSigners();
+
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        usdc = await TestTokenFactory.deploy("USD Coin", "USDC", 6);
+        weth = await TestTokenFactory.deploy("Wrapped Ether", "WETH", 18);
+
+        spec = {
+            chainId: 31337,
+            roles: { treasury: "deployer", timelock: "deployer", guardian: "deployer", publisher: publisher.address },
+            multiTokenPools: true,
+            allowedTokens: { USDC: await usdc.getAddress(), WETH: await weth.getAddress() },
+            router: { maxBatchSize: 50, approvedFactories: ["RewardPoolFactory"] }
+        };
+
+        // In-memory registry (snapshots like the JSON file)
+        registry = createRegistry("hardhat", 31337);
+        store = {
+            load: async () => JSON.parse(JSON.stringify(registry)),
+            save: async (next) => {
+                registry = JSON.parse(JSON.stringify(next));
+            }
+        };
+    });
+
+    describe("Spec Validation", function () {
+        it("Should reject invalid roles, tokens and batch sizes", function () {
+            let error: Error | undefined;
+            try {
+                validateDeploySpec({
+                    chainId: 31337,
+                    roles: {
+                        treasury: "0x1234",
+                        timelock: "deployer",
+                        guardian: ethers.ZeroAddress,
+                        publisher: "deployer"
+                    },
+                    allowedTokens: { BAD: "nope" },
+                    router: { maxBatchSize: 500 }
+                });
+            } catch (e) {
+                error = e as Error;
+            }
+
+            expect(error?.message).to.contain("roles.treasury");
+            expect(error?.message).to.contain("roles.guardian");
+            expect(error?.message).to.contain("allowedTokens.BAD");
+            expect(error?.message).to.contain("router.maxBatchSize");
+        });
+
+        it("Should reject a spec for another chain", async function () {
+            let error: Error | undefined;
+            try {
+                await runDeployment(
+                    { ...spec, chainId: 8453 },
+                    { signer: deployer, networkName: "hardhat", artifacts, registry: store }
+                );
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("Chain ID mismatch");
+        });
+    });
+
+    describe("Deployment", function () {
+        it("Should deploy and configure the whole system", async function () {
+            const result = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store
+            });
+
+            const factory = await ethers.getContractAt("RewardPoolFactory", result.addresses.RewardPoolFactory!);
+            const router = await ethers.getContractAt("ClaimRouter", result.addresses.ClaimRouter!);
+
+            expect(await factory.POOL_IMPLEMENTATION()).to.equal(result.addresses.RewardPoolImplementation);
+            expect(await factory.TIMELOCK()).to.equal(deployer.address);
+            expect(await factory.publisher()).to.equal(publisher.address);
+            expect(await factory.allowedTokens(await usdc.getAddress())).to.equal(true);
+            expect(await factory.allowedTokens(await weth.getAddress())).to.equal(true);
+            expect(await factory.multiTokenImplementation()).to.equal(
+                result.addresses.MultiTokenRewardPoolImplementation
+            );
+            expect(await router.approvedFactories(await factory.getAddress())).to.equal(true);
+            expect(await router.maxBatchSize()).to.equal(50);
+
+            expect(Object.keys(registry.contracts)).to.have.members([
+                "RewardPoolImplementation",
+                "MultiTokenRewardPoolImplementation",
+                "RewardPoolFactory",
+                "ClaimRouter"
+            ]);
+            expect(registry.contracts.ClaimRouter.pending).to.equal(undefined);
+        });
+
+        it("Should be a no-op when re-run against the same state", async function () {
+            await runDeployment(spec, { signer: deployer, networkName: "hardhat", artifacts, registry: store });
+            const blockBefore = await ethers.provider.getBlockNumber();
+
+            const result = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store
+            });
+
+            expect(result.executed).to.have.length(0);
+            expect(result.skipped).to.have.length(4 + 5); // Contracts + configuration steps
+            expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+        });
+
+        it("Should only run steps that drifted from the spec", async function () {
+            const first = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store
+            });
+            const factory = await ethers.getContractAt("RewardPoolFactory", first.addresses.RewardPoolFactory!);
+            await factory.setTokenAllowed(await weth.getAddress(), false);
+
+            const result = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store
+            });
+
+            expect(result.executed.map((step) => step.method)).to.deep.equal(["setTokenAllowed"]);
+            expect(await factory.allowedTokens(await weth.getAddress())).to.equal(true);
+        });
+
+        it("Should resume after a partial failure without redeploying", async function () {
+            // The router rejects the zero factory after every contract is deployed
+            const brokenRouter = { ...spec, router: { approvedFactories: [ethers.ZeroAddress] } };
+
+            let error: Error | undefined;
+            try {
+                await runDeployment(brokenRouter, {
+                    signer: deployer,
+                    networkName: "hardhat",
+                    artifacts,
+                    registry: store
+                });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error).to.not.equal(undefined);
+            const deployed = { ...registry.contracts };
+
+            const result = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store
+            });
+
+            expect(result.executed.filter((step) => step.kind === "deploy")).to.have.length(0);
+            expect(registry.contracts).to.deep.equal(deployed);
+            expect(
+                await (
+                    await ethers.getContractAt("ClaimRouter", result.addresses.ClaimRouter!)
+                ).approvedFactories(result.addresses.RewardPoolFactory!)
+            ).to.equal(true);
+        });
+
+        it("Should wait for a pending deployment instead of sending a duplicate", async function () {
+            const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+            const implementation = await ImplFactory.deploy();
+            registry.contracts.RewardPoolImplementation = {
+                address: await implementation.getAddress(),
+                args: [],
+                txHash: implementation.deploymentTransaction()!.hash,
+                pending: true
+            };
+
+            const result = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store
+            });
+
+            expect(result.addresses.RewardPoolImplementation).to.equal(await implementation.getAddress());
+            expect(registry.contracts.RewardPoolImplementation.pending).to.equal(undefined);
+        });
+
+        it("Should redeploy contracts whose bytecode does not match the artifact", async function () {
+            // Migrated registry pointing at code compiled from other sources
+            const stale = await usdc.getAddress();
+            registry.contracts.ClaimRouter = { address: stale, args: [deployer.address] };
+
+            const result = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store
+            });
+
+            expect(result.executed.map((step) => step.id)).to.include("deploy:ClaimRouter");
+            expect(result.addresses.ClaimRouter).to.not.equal(stale);
+            expect(registry.contracts.ClaimRouter.address).to.equal(result.addresses.ClaimRouter);
+            expect(registry.contracts[`ClaimRouter@${stale}`]).to.deep.equal({
+                address: stale,
+                args: [deployer.address],
+                legacy: true
+            });
+        });
+
+        it("Should refuse to reuse a contract deployed with different constructor arguments", async function () {
+            await runDeployment(spec, { signer: deployer, networkName: "hardhat", artifacts, registry: store });
+
+            let error: Error | undefined;
+            try {
+                await runDeployment(
+                    { ...spec, roles: { ...spec.roles, guardian: timelock.address } },
+                    { signer: deployer, networkName: "hardhat", artifacts, registry: store }
+                );
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("remove its registry entry to redeploy");
+        });
+    });
+
+    describe("Governance Steps", function () {
+        it("Should report timelock-only steps when the deployer is not the timelock", async function () {
+            const result = await runDeployment(
+                { ...spec, roles: { ...spec.roles, timelock: timelock.address } },
+                { signer: deployer, networkName: "hardhat", artifacts, registry: store }
+            );
+
+            expect(result.executed.every((step) => step.kind === "deploy")).to.equal(true);
+            expect(result.governance.map((step) => step.method)).to.deep.equal([
+                "setTokenAllowed",
+                "setTokenAllowed",
+                "setMultiTokenImplementation",
+                "setFactoryApproved",
+                "setMaxBatchSize"
+            ]);
+            const factory = await ethers.getContractAt("RewardPoolFactory", result.addresses.RewardPoolFactory!);
+            expect(await factory.allowedTokens(await usdc.getAddress())).to.equal(false);
+        });
+
+        it("Should plan without sending transactions in dry-run mode", async function () {
+            const blockBefore = await ethers.provider.getBlockNumber();
+
+            const result = await runDeployment(spec, {
+                signer: deployer,
+                networkName: "hardhat",
+                artifacts,
+                registry: store,
+                dryRun: true
+            });
+
+            expect(result.executed).to.have.length(4 + 5);
+            expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+            expect(registry.contracts).to.deep.equal({});
+        });
+
+        it("Should fail configuration-only runs when contracts are missing", async function () {
+            let error: Error | undefined;
+            try {
+                await runDeployment(spec, {
+                    signer: deployer,
+                    networkName: "hardhat",
+                    artifacts,
+                    registry: store,
+                    deploy: false
+                });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("is not deployed");
+        });
+    });
+});
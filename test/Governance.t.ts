@@ -0,0 +1,398 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { RewardPoolFactory, RewardPoolImplementation, TestToken, ClaimRouter, TestTimelock } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    GovernanceAction,
+    GovernanceContext,
+    buildSafeBatch,
+    buildTimelockProposal,
+    formatDiff,
+    prepareAction,
+    readTimelockDelay
+} from "../scripts/utils/governance";
+import { buildClaimDomain, signLiability } from "../scripts/utils/claim-signing";
+
+describe("Governance", function () {
+    let factory: RewardPoolFactory;
+    let vault: RewardPoolImplementation;
+    let testToken: TestToken;
+    let claimRouter: ClaimRouter;
+    let timelock: TestTimelock;
+
+    let safe: SignerWithAddress;
+    let guardian: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let newPublisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+    let treasury: SignerWithAddress;
+
+    let ctx: GovernanceContext;
+
+    const MIN_DELAY = 24 * 60 * 60;
+    const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+
+    beforeEach(async function () {
+        [safe, guardian, publisher, newPublisher, creator, treasury] = await ethers.getSigners();
+
+        // The Safe proposes and executes on an OpenZeppelin TimelockController
+        const TimelockFactory = await ethers.getContractFactory("TestTimelock");
+        timelock = await TimelockFactory.deploy(MIN_DELAY, [safe.address], [safe.address], ethers.ZeroAddress);
+
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        testToken = await TestTokenFactory.deploy("Test Token", "TEST", 18);
+
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        const implementation = await ImplFactory.deploy();
+
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        factory = await FactoryFactory.deploy(
+            await implementation.getAddress(),
+            treasury.address,
+            await timelock.getAddress(),
+            guardian.address,
+            publisher.address
+        );
+
+        const RouterFactory = await ethers.getContractFactory("ClaimRouter");
+        claimRouter = await RouterFactory.deploy(await timelock.getAddress());
+
+        ctx = {
+            factory: await factory.getAddress(),
+            router: await claimRouter.getAddress(),
+            provider: ethers.provider
+        };
+    });
+
+    async function now() {
+        return BigInt(await time.latest());
+    }
+
+    // Prepare, schedule through the Safe, wait the delay and execute
+    async function executeThroughTimelock(actions: GovernanceAction[]) {
+        const calls = [];
+        for (const action of actions) calls.push(await prepareAction(ctx, action, (await now()) + BigInt(MIN_DELAY)));
+        const proposal = buildTimelockProposal(await timelock.getAddress(), calls, BigInt(MIN_DELAY), await now());
+
+        await safe.sendTransaction(proposal.schedule);
+        await time.increase(MIN_DELAY);
+        await safe.sendTransaction(proposal.execute);
+        return { calls, proposal };
+    }
+
+    async function createFundedVault() {
+        await executeThroughTimelock([
+            { action: "setTokenAllowed", token: await testToken.getAddress(), allowed: true }
+        ]);
+        const [vaultAddress] = await factory.predictPoolAddress(creator.address, await testToken.getAddress());
+        await factory.connect(creator).createPool(await testToken.getAddress());
+        vault = await ethers.getContractAt("RewardPoolImplementation", vaultAddress);
+
+        await testToken.mint(creator.address, FUND_AMOUNT);
+        await testToken.connect(creator).approve(vaultAddress, FUND_AMOUNT);
+        await vault.connect(creator).fund(FUND_AMOUNT);
+    }
+
+    describe("Timelock Batches", function () {
+        it("Should read the timelock delay (0 for direct calls)", async function () {
+            expect(await readTimelockDelay(await timelock.getAddress(), ethers.provider)).to.equal(MIN_DELAY);
+            expect(await readTimelockDelay(safe.address, ethers.provider)).to.equal(0);
+        });
+
+        it("Should schedule and execute a batch of factory and router actions", async function () {
+            const { calls, proposal } = await executeThroughTimelock([
+                { action: "setTokenAllowed", token: await testToken.getAddress(), allowed: true },
+                { action: "setFactoryApproved", factory: await factory.getAddress(), approved: true },
+                { action: "setClaimAggregator", router: await claimRouter.getAddress(), approved: true },
+                { action: "setMaxBatchSize", size: 50 }
+            ]);
+
+            expect(calls.every((call) => call.errors.length === 0)).to.equal(true);
+            expect(proposal.operationId).to.equal(
+                await timelock.hashOperationBatch(
+                    proposal.targets,
+                    proposal.values,
+                    proposal.payloads,
+                    proposal.predecessor,
+                    proposal.salt
+                )
+            );
+            expect(await timelock.isOperationDone(proposal.operationId)).to.equal(true);
+            expect(await factory.allowedTokens(await testToken.getAddress())).to.equal(true);
+            expect(await claimRouter.approvedFactories(await factory.getAddress())).to.equal(true);
+            expect(await factory.claimAggregators(await claimRouter.getAddress())).to.equal(true);
+            expect(await claimRouter.maxBatchSize()).to.equal(50);
+        });
+
+        it("Should rotate the publisher through the timelock", async function () {
+            await executeThroughTimelock([{ action: "initiatePublisherRotation", newPublisher: newPublisher.address }]);
+
+            expect(await factory.publisher()).to.equal(newPublisher.address);
+            expect(await factory.oldPublisher()).to.equal(publisher.address);
+        });
+
+        it("Should schedule and revoke publishers through the timelock", async function () {
+            const activation = Number(await now()) + MIN_DELAY + 24 * 60 * 60;
+            await executeThroughTimelock([
+                { action: "schedulePublisherRotation", newPublisher: newPublisher.address, activationTime: activation }
+            ]);
+            expect((await factory.getPublisherInfo()).current).to.equal(publisher.address);
+
+            await time.increaseTo(activation);
+            expect(await factory.getPublisherInfo()).to.deep.equal([
+                newPublisher.address,
+                publisher.address,
+                BigInt(activation + 7 * 24 * 60 * 60)
+            ]);
+
+            const { calls } = await executeThroughTimelock([{ action: "revokePublisher", publisher: publisher.address }]);
+            expect(calls[0].errors).to.have.length(0);
+            expect(await factory.oldPublisher()).to.equal(ethers.ZeroAddress);
+
+            const again = await prepareAction(ctx, { action: "revokePublisher", publisher: publisher.address }, await now());
+            expect(again.errors).to.deep.equal([`${publisher.address} is not a previous publisher in grace at execution`]);
+        });
+
+        it("Should configure the publisher set through the timelock", async function () {
+            await executeThroughTimelock([
+                { action: "setTokenAllowed", token: await testToken.getAddress(), allowed: true },
+                { action: "setPublisherSigner", signer: publisher.address, enabled: true },
+                { action: "setPublisherSigner", signer: newPublisher.address, enabled: true }
+            ]);
+            const { calls } = await executeThroughTimelock([
+                { action: "setPublisherThreshold", threshold: 2 },
+                {
+                    action: "setThresholdLimits",
+                    token: await testToken.getAddress(),
+                    perClaim: ethers.parseUnits("500", 18).toString(),
+                    perDay: ethers.parseUnits("5000", 18).toString()
+                }
+            ]);
+
+            expect(calls.every((call) => call.errors.length === 0)).to.equal(true);
+            expect(calls[0].description).to.equal("Require 2-of-2 publisher signatures above the limits");
+            expect(await factory.publisherThreshold()).to.equal(2);
+            expect((await factory.getPublisherPolicy(await testToken.getAddress())).perDayLimit).to.equal(
+                ethers.parseUnits("5000", 18)
+            );
+
+            const removal = await prepareAction(
+                ctx,
+                { action: "setPublisherSigner", signer: newPublisher.address, enabled: false },
+                await now()
+            );
+            expect(removal.errors).to.deep.equal(["Removing a signer would leave fewer than 2 (threshold) signers"]);
+            expect(formatDiff([removal])).to.contain("publisherSignerCount: 2 -> 1");
+        });
+
+        it("Should manage implementation versions and fees through the timelock", async function () {
+            const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+            const implementationV2 = await ImplFactory.deploy();
+            const MultiImplFactory = await ethers.getContractFactory("MultiTokenRewardPoolImplementation");
+            const multiImplementation = await MultiImplFactory.deploy();
+
+            const first = await executeThroughTimelock([
+                { action: "registerImplementation", implementation: await implementationV2.getAddress() },
+                { action: "setMultiTokenImplementation", implementation: await multiImplementation.getAddress() },
+                { action: "setDefaultFeeBps", feeBps: 500 },
+                { action: "setFeeTier", tier: 1, feeBps: 200, enabled: true },
+                { action: "setCreatorFeeTier", creator: creator.address, tier: 1 }
+            ]);
+            expect(first.calls.every((call) => call.errors.length === 0)).to.equal(true);
+            expect(formatDiff(first.calls)).to.contain(
+                `implementations[2]: ${ethers.ZeroAddress} -> ${await implementationV2.getAddress()}`
+            );
+
+            await createFundedVault();
+            const second = await executeThroughTimelock([
+                { action: "setDefaultVersion", version: 2 },
+                { action: "setPoolFeeOverride", pool: await vault.getAddress(), feeBps: 0, enabled: true }
+            ]);
+            expect(second.calls.every((call) => call.errors.length === 0)).to.equal(true);
+            // Preconditions read the current state: version 1 is only deprecatable once no longer the default
+            const third = await executeThroughTimelock([{ action: "setVersionDeprecated", version: 1, deprecated: true }]);
+            expect(third.calls[0].errors).to.deep.equal([]);
+
+            expect(await factory.implementations(2)).to.equal(await implementationV2.getAddress());
+            expect(await factory.defaultVersion()).to.equal(2);
+            expect(await factory.deprecatedVersions(1)).to.equal(true);
+            expect(await factory.multiTokenImplementation()).to.equal(await multiImplementation.getAddress());
+            expect(await factory.defaultFeeBps()).to.equal(500);
+            expect(await factory.getFeeBps(ethers.ZeroAddress, creator.address)).to.equal(200);
+            expect(await factory.getFeeBps(await vault.getAddress(), creator.address)).to.equal(0);
+        });
+
+        it("Should produce Safe transaction-builder batches", async function () {
+            const call = await prepareAction(ctx, { action: "setMaxBatchSize", size: 30 }, await now());
+            const proposal = buildTimelockProposal(await timelock.getAddress(), [call], BigInt(MIN_DELAY), await now());
+            const batch = buildSafeBatch(31337, safe.address, "batch-size", call.description, [proposal.schedule]);
+
+            expect(batch.chainId).to.equal("31337");
+            expect(batch.meta.createdFromSafeAddress).to.equal(safe.address);
+            expect(batch.transactions).to.deep.equal([
+                {
+                    to: await timelock.getAddress(),
+                    value: "0",
+                    data: proposal.schedule.data,
+                    contractMethod: null,
+                    contractInputsValues: null
+                }
+            ]);
+        });
+    });
+
+    describe("Preconditions", function () {
+        it("Should show a human-readable diff", async function () {
+            const call = await prepareAction(
+                ctx,
+                { action: "setTokenAllowed", token: await testToken.getAddress(), allowed: true },
+                await now()
+            );
+
+            expect(formatDiff([call])).to.contain(`allowedTokens[${await testToken.getAddress()}]: false -> true`);
+        });
+
+        it("Should reject no-op changes", async function () {
+            const allowed = await prepareAction(
+                ctx,
+                { action: "setTokenAllowed", token: await testToken.getAddress(), allowed: false },
+                await now()
+            );
+            const batchSize = await prepareAction(ctx, { action: "setMaxBatchSize", size: 20 }, await now());
+
+            expect(allowed.errors).to.deep.equal([`Token ${await testToken.getAddress()} is already disallowed`]);
+            expect(batchSize.errors).to.deep.equal(["maxBatchSize is already 20"]);
+        });
+
+        it("Should require the target to be paused before unpausing", async function () {
+            const notPaused = await prepareAction(ctx, { action: "unpause", target: "factory" }, await now());
+            expect(notPaused.errors).to.deep.equal([`${ctx.factory} is not paused`]);
+
+            await factory.connect(guardian).pause();
+            const paused = await prepareAction(ctx, { action: "unpause", target: "factory" }, await now());
+            expect(paused.errors).to.have.length(0);
+        });
+
+        it("Should evaluate grace periods at the earliest execution time", async function () {
+            const none = await prepareAction(ctx, { action: "cancelPublisherRotation" }, await now());
+            expect(none.errors).to.deep.equal(["No publisher rotation to cancel"]);
+
+            await executeThroughTimelock([{ action: "initiatePublisherRotation", newPublisher: newPublisher.address }]);
+            const graceEndTime = await factory.graceEndTime();
+
+            // Cancellable now, but not once the timelock delay has elapsed
+            await time.increaseTo(graceEndTime - BigInt(MIN_DELAY / 2));
+            const tooLate = await prepareAction(
+                ctx,
+                { action: "cancelPublisherRotation" },
+                (await now()) + BigInt(MIN_DELAY)
+            );
+            expect(tooLate.errors[0]).to.contain("no longer accepted at execution");
+
+            // Rotating again during the grace period is fine, activating before execution is not
+            const rotation = await prepareAction(
+                ctx,
+                { action: "initiatePublisherRotation", newPublisher: creator.address },
+                await now()
+            );
+            expect(rotation.errors).to.have.length(0);
+            const scheduled = await prepareAction(
+                ctx,
+                { action: "schedulePublisherRotation", newPublisher: creator.address, activationTime: Number(await now()) },
+                (await now()) + BigInt(MIN_DELAY)
+            );
+            expect(scheduled.errors[0]).to.contain("activationTime must be within");
+        });
+
+        it("Should validate emergency sweep notices", async function () {
+            await createFundedVault();
+            const action: GovernanceAction = {
+                action: "initiateEmergencySweepNotice",
+                pool: await vault.getAddress(),
+                to: treasury.address,
+                justification: "Compromised publisher"
+            };
+
+            const notPaused = await prepareAction(ctx, action, await now());
+            expect(notPaused.errors[0]).to.contain("must be paused by the guardian first");
+            expect(notPaused.errors[1]).to.contain("Last claim grace period ends");
+
+            await vault.connect(guardian).pause();
+            const ready = await prepareAction(ctx, action, (await now()) + 181n * 24n * 60n * 60n);
+            expect(ready.errors).to.have.length(0);
+        });
+
+        it("Should require an elapsed notice before sweeping", async function () {
+            await createFundedVault();
+            const sweep = await prepareAction(
+                ctx,
+                { action: "emergencySweepAll", pool: await vault.getAddress(), to: treasury.address },
+                await now()
+            );
+
+            expect(sweep.errors).to.deep.equal([`Pool ${await vault.getAddress()} has no emergency notice`]);
+            expect(sweep.diff[0].to).to.equal(`+${FUND_AMOUNT}`);
+        });
+
+        it("Should lower a committed liability through the timelock", async function () {
+            await createFundedVault();
+            const chainId = (await ethers.provider.getNetwork()).chainId;
+            const domain = buildClaimDomain(chainId, await vault.getAddress());
+            await vault.commitLiability(FUND_AMOUNT, await signLiability(publisher, domain, FUND_AMOUNT));
+
+            const noop = await prepareAction(
+                ctx,
+                { action: "resetLiability", pool: await vault.getAddress(), amount: FUND_AMOUNT.toString() },
+                await now()
+            );
+            expect(noop.errors).to.deep.equal([`amount must be below the committed liability (${FUND_AMOUNT})`]);
+
+            const { calls } = await executeThroughTimelock([
+                { action: "resetLiability", pool: await vault.getAddress(), amount: "0" }
+            ]);
+            expect(calls[0].diff).to.deep.equal([
+                { contract: await vault.getAddress(), field: "committedLiability", from: FUND_AMOUNT.toString(), to: "0" }
+            ]);
+            expect(await vault.committedLiability()).to.equal(0);
+        });
+
+        it("Should validate implementation versions and fee settings", async function () {
+            const implementation = await factory.implementations(1);
+            const errors = async (action: GovernanceAction) => (await prepareAction(ctx, action, await now())).errors;
+
+            expect(await errors({ action: "registerImplementation", implementation })).to.deep.equal([
+                `${implementation} is already registered as version 1`
+            ]);
+            expect(await errors({ action: "setDefaultVersion", version: 2 })).to.deep.equal([
+                "version must be a registered version (1..1)"
+            ]);
+            expect(await errors({ action: "setDefaultVersion", version: 1 })).to.deep.equal(["defaultVersion is already 1"]);
+            expect(await errors({ action: "setVersionDeprecated", version: 1, deprecated: true })).to.deep.equal([
+                "Version 1 is the default version"
+            ]);
+            expect(await errors({ action: "setDefaultFeeBps", feeBps: 3000 })).to.deep.equal([
+                "feeBps must be within 0..2500"
+            ]);
+            expect(await errors({ action: "setFeeTier", tier: 0, feeBps: 100, enabled: true })).to.deep.equal([
+                "tier must be within 1..255"
+            ]);
+            expect(await errors({ action: "setCreatorFeeTier", creator: creator.address, tier: 0 })).to.deep.equal([
+                `Creator ${creator.address} is already in fee tier 0`
+            ]);
+            expect(
+                await errors({ action: "setPoolFeeOverride", pool: await testToken.getAddress(), feeBps: 0, enabled: true })
+            ).to.deep.equal([`${await testToken.getAddress()} is not a reward pool`]);
+        });
+
+        it("Should reject contracts that are not pools of the factory", async function () {
+            const call = await prepareAction(
+                ctx,
+                { action: "updatePlatformTreasury", pool: await testToken.getAddress(), newTreasury: creator.address },
+                await now()
+            );
+
+            expect(call.errors).to.contain(`${await testToken.getAddress()} is not a reward pool`);
+        });
+    });
+});
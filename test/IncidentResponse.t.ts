@@ -0,0 +1,107 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+    RewardPoolFactory,
+    RewardPoolImplementation,
+    MultiTokenRewardPoolImplementation,
+    TestToken
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { respondToPublisherCompromise } from "../scripts/utils/incident-response";
+
+describe("Incident Response", function () {
+    let factory: RewardPoolFactory;
+    let vault: RewardPoolImplementation;
+    let vault2: RewardPoolImplementation;
+    let multiVault: MultiTokenRewardPoolImplementation;
+    let testToken: TestToken;
+
+    let timelock: SignerWithAddress;
+    let guardian: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+    let treasury: SignerWithAddress;
+
+    beforeEach(async function () {
+        [timelock, guardian, publisher, creator, treasury] = await ethers.getSigners();
+
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        testToken = await TestTokenFactory.deploy("Test Token", "TEST", 18);
+
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        const implementation = await ImplFactory.deploy();
+        const MultiImplFactory = await ethers.getContractFactory("MultiTokenRewardPoolImplementation");
+        const multiImplementation = await MultiImplFactory.deploy();
+
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        factory = await FactoryFactory.deploy(
+            await implementation.getAddress(),
+            treasury.address,
+            timelock.address,
+            guardian.address,
+            publisher.address
+        );
+        await factory.connect(timelock).setTokenAllowed(await testToken.getAddress(), true);
+        await factory.connect(timelock).setMultiTokenImplementation(await multiImplementation.getAddress());
+
+        const token = await testToken.getAddress();
+        const [vaultAddress] = await factory.predictPoolAddress(creator.address, token);
+        await factory.connect(creator).createPool(token);
+        const [vault2Address] = await factory.predictPoolAddress(creator.address, token);
+        await factory.connect(creator).createPool(token);
+        const [multiVaultAddress] = await factory.predictMultiTokenPoolAddress(creator.address);
+        await factory.connect(creator).createMultiTokenPool([token]);
+
+        vault = await ethers.getContractAt("RewardPoolImplementation", vaultAddress);
+        vault2 = await ethers.getContractAt("RewardPoolImplementation", vault2Address);
+        multiVault = await ethers.getContractAt("MultiTokenRewardPoolImplementation", multiVaultAddress);
+    });
+
+    it("Should revoke the publisher keys and pause every pool", async function () {
+        await vault2.connect(guardian).pause();
+        const steps: string[] = [];
+
+        const report = await respondToPublisherCompromise(
+            await factory.getAddress(),
+            [await vault.getAddress(), await vault2.getAddress(), await multiVault.getAddress()],
+            guardian,
+            (step) => steps.push(step)
+        );
+
+        expect(report.revokedPublisher).to.equal(publisher.address);
+        expect(report.revocationTx).to.match(/^0x[0-9a-f]{64}$/);
+        expect(report.pools.map((pool) => pool.status)).to.deep.equal(["paused", "already-paused", "paused"]);
+        expect(steps).to.have.length(4);
+
+        expect(await factory.getPublisherInfo()).to.deep.equal([ethers.ZeroAddress, ethers.ZeroAddress, 0n]);
+        for (const pool of [vault, vault2, multiVault]) expect(await pool.paused()).to.equal(true);
+    });
+
+    it("Should skip the revocation when already done and report failing pools", async function () {
+        await factory.connect(guardian).emergencyRevokePublishers();
+
+        const report = await respondToPublisherCompromise(
+            await factory.getAddress(),
+            [await testToken.getAddress(), await vault.getAddress()],
+            guardian
+        );
+
+        expect(report.revokedPublisher).to.equal(null);
+        expect(report.revocationTx).to.equal(null);
+        expect(report.pools[0].status).to.equal("failed");
+        expect(report.pools[0].error).to.be.a("string");
+        expect(report.pools[1].status).to.equal("paused");
+    });
+
+    it("Should reject a signer that is not the guardian", async function () {
+        let error: Error | undefined;
+        try {
+            await respondToPublisherCompromise(await factory.getAddress(), [await vault.getAddress()], creator);
+        } catch (e) {
+            error = e as Error;
+        }
+
+        expect(error?.message).to.contain("Signer is not the factory guardian");
+        expect(await factory.publisher()).to.equal(publisher.address);
+    });
+});
@@ -0,0 +1,392 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import {
+    RewardPoolFactory,
+    RewardPoolImplementation,
+    MultiTokenRewardPoolImplementation,
+    TestToken,
+    ClaimRouter
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { buildClaimDomain, generateBatchClaims, signClaim, signMultiTokenClaim } from "../scripts/utils/claim-signing";
+import {
+    IndexerConfig,
+    IndexerState,
+    createIndexerState,
+    loadCheckpoint,
+    saveCheckpoint,
+    syncIndexer
+} from "../scripts/utils/indexer";
+
+describe("Indexer", function () {
+    let factory: RewardPoolFactory;
+    let implementation: RewardPoolImplementation;
+    let vault: RewardPoolImplementation;
+    let multiVault: MultiTokenRewardPoolImplementation;
+    let testToken: TestToken;
+    let testToken2: TestToken;
+    let claimRouter: ClaimRouter;
+
+    let timelock: SignerWithAddress;
+    let guardian: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let newPublisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+    let treasury: SignerWithAddress;
+    let funder: SignerWithAddress;
+    let claimer: SignerWithAddress;
+    let claimer2: SignerWithAddress;
+
+    let chainId: bigint;
+    let config: IndexerConfig;
+
+    const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+    const WITHDRAWAL_DELAY = 3 * 24 * 60 * 60;
+
+    beforeEach(async function () {
+        [timelock, guardian, publisher, newPublisher, creator, treasury, funder, claimer, claimer2] =
+            await ethers.getSigners();
+        chainId = (await ethers.provider.getNetwork()).chainId;
+
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        testToken = await TestTokenFactory.deploy("Test Token", "TEST", 18);
+        testToken2 = await TestTokenFactory.deploy("Test Token 2", "TEST2", 18);
+
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        implementation = await ImplFactory.deploy();
+        const MultiImplFactory = await ethers.getContractFactory("MultiTokenRewardPoolImplementation");
+        const multiImplementation = await MultiImplFactory.deploy();
+
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        factory = await FactoryFactory.deploy(
+            await implementation.getAddress(),
+            treasury.address,
+            timelock.address,
+            guardian.address,
+            publisher.address
+        );
+        const deploymentReceipt = await factory.deploymentTransaction()!.wait();
+
+        const RouterFactory = await ethers.getContractFactory("ClaimRouter");
+        claimRouter = await RouterFactory.deploy(timelock.address);
+
+        config = {
+            chainId,
+            factory: await factory.getAddress(),
+            router: await claimRouter.getAddress(),
+            startBlock: deploymentReceipt!.blockNumber,
+            publisher: publisher.address,
+            poolImplementation: await implementation.getAddress()
+        };
+
+        await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), true);
+        await factory.connect(timelock).setTokenAllowed(await testToken.getAddress(), true);
+        await factory.connect(timelock).setTokenAllowed(await testToken2.getAddress(), true);
+        await factory.connect(timelock).setMultiTokenImplementation(await multiImplementation.getAddress());
+
+        // Single-token pool funded directly, multi-token pool funded per token
+        const [vaultAddress] = await factory.predictPoolAddress(creator.address, await testToken.getAddress());
+        await factory.connect(creator).createPool(await testToken.getAddress());
+        vault = await ethers.getContractAt("RewardPoolImplementation", vaultAddress);
+
+        const [multiVaultAddress] = await factory.predictMultiTokenPoolAddress(creator.address);
+        await factory
+            .connect(creator)
+            .createMultiTokenPool([await testToken.getAddress(), await testToken2.getAddress()]);
+        multiVault = await ethers.getContractAt("MultiTokenRewardPoolImplementation", multiVaultAddress);
+
+        await testToken.mint(funder.address, FUND_AMOUNT * 3n);
+        await testToken2.mint(funder.address, FUND_AMOUNT);
+        await testToken.connect(funder).approve(vaultAddress, FUND_AMOUNT);
+        await vault.connect(funder).fund(FUND_AMOUNT);
+        await testToken.connect(funder).approve(multiVaultAddress, FUND_AMOUNT);
+        await multiVault.connect(funder).fund(await testToken.getAddress(), FUND_AMOUNT);
+        await testToken2.connect(funder).approve(multiVaultAddress, FUND_AMOUNT);
+        await multiVault.connect(funder).fund(await testToken2.getAddress(), FUND_AMOUNT);
+    });
+
+    async function claimDirect(account: string, cumulativeAmount: bigint, signer: SignerWithAddress = publisher) {
+        const signature = await signClaim(signer, buildClaimDomain(chainId, await vault.getAddress()), {
+            account,
+            cumulativeAmount,
+            deadline: 0n
+        });
+        await vault.payWithSig(account, cumulativeAmount, 0, signature);
+    }
+
+    async function claimMultiToken(token: TestToken, account: string, cumulativeAmount: bigint) {
+        const tokenAddress = await token.getAddress();
+        const signature = await signMultiTokenClaim(
+            publisher,
+            buildClaimDomain(chainId, await multiVault.getAddress()),
+            {
+                token: tokenAddress,
+                account,
+                cumulativeAmount,
+                deadline: 0n
+            }
+        );
+        await multiVault.payWithSig(tokenAddress, account, cumulativeAmount, 0, signature);
+    }
+
+    // First half of the activity: claims at the default fee, then a fee change
+    async function runFirstPhase() {
+        await claimDirect(claimer.address, ethers.parseUnits("100", 18));
+        await claimMultiToken(testToken2, claimer.address, ethers.parseUnits("40", 18));
+        await factory.connect(timelock).setDefaultFeeBps(500);
+    }
+
+    // Second half: router batch at the new fee, pool override, publisher rotation and withdrawal
+    async function runSecondPhase() {
+        const claims = await generateBatchClaims(
+            publisher,
+            [
+                {
+                    vault: await vault.getAddress(),
+                    account: claimer.address,
+                    cumulativeAmount: ethers.parseUnits("250", 18)
+                },
+                {
+                    vault: await vault.getAddress(),
+                    account: claimer2.address,
+                    cumulativeAmount: ethers.parseUnits("30", 18)
+                }
+            ],
+            chainId
+        );
+        await claimRouter.claimAll(claims);
+
+        await factory.connect(timelock).setPoolFeeOverride(await vault.getAddress(), 250, true);
+        await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+        await factory.connect(timelock).revokePublisher(publisher.address);
+        await claimDirect(claimer2.address, ethers.parseUnits("77", 18), newPublisher);
+
+        await vault.connect(creator).requestWithdrawal(ethers.parseUnits("100", 18));
+        await time.increase(WITHDRAWAL_DELAY);
+        await vault.connect(creator).executeWithdrawal();
+    }
+
+    describe("Replay", function () {
+        it("Should rebuild claimed totals and fees matching on-chain state", async function () {
+            await runFirstPhase();
+            await runSecondPhase();
+
+            const state = await syncIndexer(ethers.provider, createIndexerState(config), { blockRange: 5 });
+            const pool = state.pools[await vault.getAddress()];
+            const token = await testToken.getAddress();
+
+            for (const account of [claimer.address, claimer2.address]) {
+                expect(BigInt(pool.accounts[account][token].claimed)).to.equal(await vault.alreadyClaimed(account));
+                expect(BigInt(pool.accounts[account][token].fees)).to.equal(await vault.alreadyFeePaid(account));
+            }
+            expect(BigInt(pool.claimed[token])).to.equal(await vault.globalAlreadyClaimed());
+
+            const multiPool = state.pools[await multiVault.getAddress()];
+            const token2 = await testToken2.getAddress();
+            expect(multiPool.kind).to.equal("multi");
+            expect(BigInt(multiPool.accounts[claimer.address][token2].fees)).to.equal(
+                await multiVault.alreadyFeePaid(token2, claimer.address)
+            );
+        });
+
+        it("Should track pools, funding history and withdrawals", async function () {
+            await runFirstPhase();
+            await runSecondPhase();
+
+            const state = await syncIndexer(ethers.provider, createIndexerState(config));
+            const pool = state.pools[await vault.getAddress()];
+            const token = await testToken.getAddress();
+
+            expect(Object.keys(state.pools)).to.have.length(2);
+            expect(pool.creator).to.equal(creator.address);
+            expect(pool.version).to.equal("1");
+            expect(pool.fundingHistory).to.have.length(1);
+            expect(pool.funded[token]).to.equal(FUND_AMOUNT.toString());
+            expect(pool.withdrawn[token]).to.equal(ethers.parseUnits("100", 18).toString());
+
+            const multiPool = state.pools[await multiVault.getAddress()];
+            expect(multiPool.tokens).to.deep.equal([token, await testToken2.getAddress()]);
+            expect(multiPool.fundingHistory).to.have.length(2);
+        });
+
+        it("Should record governance actions and factory state", async function () {
+            await runFirstPhase();
+            await runSecondPhase();
+
+            const state = await syncIndexer(ethers.provider, createIndexerState(config));
+
+            expect(state.factoryState.publisher).to.equal(newPublisher.address);
+            expect(state.factoryState.oldPublisher).to.equal(null);
+            expect(state.factoryState.defaultFeeBps).to.equal("500");
+            expect(state.factoryState.poolFeeOverrides[await vault.getAddress()]).to.deep.equal({
+                enabled: true,
+                bps: "250"
+            });
+            expect(state.routerState.approvedFactories[await factory.getAddress()]).to.equal(true);
+            expect(state.routerState.batches).to.equal(1);
+            expect(state.routerState.successfulClaims).to.equal(2);
+
+            const events = state.governance.map((action) => action.event);
+            expect(events).to.include.members([
+                "TokenAllowedUpdated",
+                "DefaultFeeUpdated",
+                "PoolFeeOverrideUpdated",
+                "PublisherRotationInitiated",
+                "PublisherRevoked",
+                "WithdrawalRequested",
+                "FactoryApprovalUpdated"
+            ]);
+        });
+
+        it("Should record claim authorization updates", async function () {
+            await factory.connect(claimer).authorizeClaims(claimer2.address, ethers.ZeroAddress);
+
+            const state = await syncIndexer(ethers.provider, createIndexerState(config));
+
+            const update = state.governance.find((action) => action.event === "ClaimAuthorizationUpdated");
+            expect(update?.contract).to.equal(await factory.getAddress());
+            expect(update?.args).to.deep.equal({
+                account: claimer.address,
+                recipient: claimer2.address,
+                delegate: ethers.ZeroAddress
+            });
+        });
+
+        it("Should record publisher set changes", async function () {
+            await factory.connect(timelock).setPublisherSigner(guardian.address, true);
+            await factory.connect(timelock).setPublisherSigner(newPublisher.address, true);
+            await factory.connect(timelock).setPublisherThreshold(2);
+            await factory.connect(timelock).setThresholdLimits(await testToken.getAddress(), 100, 1000);
+
+            const state = await syncIndexer(ethers.provider, createIndexerState(config));
+
+            const actions = state.governance.filter((action) =>
+                ["PublisherSignerUpdated", "PublisherThresholdUpdated", "ThresholdLimitsUpdated"].includes(action.event)
+            );
+            expect(actions.map((action) => action.args)).to.deep.equal([
+                { signer: guardian.address, enabled: true },
+                { signer: newPublisher.address, enabled: true },
+                { oldThreshold: "0", newThreshold: "2" },
+                { token: await testToken.getAddress(), perClaim: "100", perDay: "1000" }
+            ]);
+        });
+
+        it("Should record claim aggregator approvals", async function () {
+            await factory.connect(timelock).setClaimAggregator(await claimRouter.getAddress(), true);
+
+            const state = await syncIndexer(ethers.provider, createIndexerState(config));
+
+            const approval = state.governance.find((action) => action.event === "ClaimAggregatorUpdated");
+            expect(approval?.args).to.deep.equal({ router: await claimRouter.getAddress(), approved: true });
+        });
+
+        it("Should keep earlier grace publishers after a cancelled rotation", async function () {
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            const [, , graceEnd] = await factory.getPublisherInfo();
+            await factory.connect(timelock).schedulePublisherRotation(creator.address, (await time.latest()) + 3600);
+            await factory.connect(timelock).cancelPublisherRotation();
+
+            const state = await syncIndexer(ethers.provider, createIndexerState(config));
+
+            expect(state.factoryState.publisher).to.equal(newPublisher.address);
+            expect(state.factoryState.oldPublisher).to.equal(publisher.address);
+            expect(state.factoryState.graceEndTime).to.equal(graceEnd.toString());
+            expect(state.factoryState.gracePublishers).to.deep.equal([
+                { publisher: publisher.address, graceEnd: graceEnd.toString() }
+            ]);
+        });
+
+        it("Should track an emergency revocation and the next publisher", async function () {
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            await factory.connect(guardian).emergencyRevokePublishers();
+
+            let state = await syncIndexer(ethers.provider, createIndexerState(config));
+            expect(state.factoryState.publisher).to.equal(null);
+            expect(state.factoryState.oldPublisher).to.equal(null);
+            expect(state.factoryState.graceEndTime).to.equal("0");
+            expect(state.governance.map((action) => action.event)).to.include("PublisherEmergencyRevoked");
+
+            await factory.connect(timelock).initiatePublisherRotation(creator.address);
+            state = await syncIndexer(ethers.provider, state);
+            expect(state.factoryState.publisher).to.equal(creator.address);
+            expect(state.factoryState.oldPublisher).to.equal(null);
+        });
+    });
+
+    describe("Checkpoints", function () {
+        let checkpointPath: string;
+
+        beforeEach(async function () {
+            checkpointPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "indexer-")), "checkpoint.json");
+        });
+
+        afterEach(async function () {
+            await fs.rm(path.dirname(checkpointPath), { recursive: true, force: true });
+        });
+
+        it("Should resume from a saved checkpoint and match a full replay", async function () {
+            await runFirstPhase();
+            const partial = await syncIndexer(ethers.provider, await loadCheckpoint(checkpointPath, config));
+            await saveCheckpoint(checkpointPath, partial);
+
+            await runSecondPhase();
+            const resumed = await syncIndexer(ethers.provider, await loadCheckpoint(checkpointPath, config));
+            const full = await syncIndexer(ethers.provider, createIndexerState(config));
+
+            expect(resumed.lastProcessedBlock).to.equal(await ethers.provider.getBlockNumber());
+            expect(JSON.parse(JSON.stringify(resumed))).to.deep.equal(JSON.parse(JSON.stringify(full)));
+        });
+
+        it("Should call onCheckpoint after each block range", async function () {
+            const checkpoints: number[] = [];
+            await syncIndexer(ethers.provider, createIndexerState(config), {
+                blockRange: 4,
+                onCheckpoint: (state: IndexerState) => {
+                    checkpoints.push(state.lastProcessedBlock);
+                }
+            });
+
+            const latest = await ethers.provider.getBlockNumber();
+            expect(checkpoints[checkpoints.length - 1]).to.equal(latest);
+            expect(checkpoints).to.have.length(Math.ceil((latest - config.startBlock + 1) / 4));
+        });
+
+        it("Should reject a checkpoint from another factory", async function () {
+            await saveCheckpoint(checkpointPath, createIndexerState({ ...config, factory: creator.address }));
+
+            let error: Error | undefined;
+            try {
+                await loadCheckpoint(checkpointPath, config);
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("belongs to another factory or chain");
+        });
+
+        it("Should only start over when the checkpoint is missing", async function () {
+            const fresh = await loadCheckpoint(checkpointPath, config);
+            expect(fresh.lastProcessedBlock).to.equal(config.startBlock - 1);
+
+            await fs.writeFile(checkpointPath, "{", "utf8");
+            let error: Error | undefined;
+            try {
+                await loadCheckpoint(checkpointPath, config);
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("is not valid JSON");
+
+            error = undefined;
+            try {
+                await loadCheckpoint(path.dirname(checkpointPath), config);
+            } catch (e) {
+                error = e as Error;
+            }
+            expect((error as NodeJS.ErrnoException | undefined)?.code).to.equal("EISDIR");
+        });
+    });
+});
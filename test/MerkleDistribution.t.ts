@@ -0,0 +1,121 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+    buildMerkleDistribution,
+    buildProofClaims,
+    hashDistributionLeaf,
+    readDistributionFile,
+    verifyDistributionProof,
+    writeDistributionFile
+} from "../scripts/utils/merkle-distribution";
+
+describe("Merkle Distribution Builder", function () {
+    const VAULT = "0x1234567890123456789012345678901234567890";
+    const CHAIN_ID = 31337n;
+
+    function randomEntries(count: number) {
+        return Array.from({ length: count }, (_, i) => ({
+            account: ethers.Wallet.createRandom().address,
+            cumulativeAmount: ethers.parseUnits(String(i + 1), 18)
+        }));
+    }
+
+    describe("Tree construction", function () {
+        it("Should use the leaf itself as root for a single entry", async function () {
+            const [entry] = randomEntries(1);
+            const distribution = buildMerkleDistribution(VAULT, CHAIN_ID, 1, [entry]);
+
+            expect(distribution.root).to.equal(hashDistributionLeaf(entry.account, entry.cumulativeAmount));
+            expect(distribution.claims[entry.account].proof).to.deep.equal([]);
+        });
+
+        it("Should produce valid proofs for every entry with odd and even sizes", async function () {
+            for (const size of [2, 3, 7, 16]) {
+                const entries = randomEntries(size);
+                const distribution = buildMerkleDistribution(VAULT, CHAIN_ID, 1, entries);
+
+                for (const { account, cumulativeAmount } of entries) {
+                    const { proof } = distribution.claims[account];
+                    expect(verifyDistributionProof(distribution.root, account, cumulativeAmount, proof)).to.be.true;
+                    expect(verifyDistributionProof(distribution.root, account, cumulativeAmount + 1n, proof)).to.be.false;
+                }
+            }
+        });
+
+        it("Should be independent of entry order", async function () {
+            const entries = randomEntries(5);
+            const forward = buildMerkleDistribution(VAULT, CHAIN_ID, 1, entries);
+            const reversed = buildMerkleDistribution(VAULT, CHAIN_ID, 1, [...entries].reverse());
+
+            expect(forward.root).to.equal(reversed.root);
+        });
+
+        it("Should sum cumulative amounts and normalize metadata", async function () {
+            const entries = randomEntries(3);
+            const distribution = buildMerkleDistribution(VAULT.toLowerCase(), CHAIN_ID, 4, entries);
+
+            expect(distribution.vault).to.equal(ethers.getAddress(VAULT));
+            expect(distribution.epoch).to.equal("4");
+            expect(distribution.totalCumulativeAmount).to.equal(ethers.parseUnits("6", 18).toString());
+        });
+
+        it("Should reject duplicate accounts and empty distributions", async function () {
+            const [entry] = randomEntries(1);
+
+            expect(() => buildMerkleDistribution(VAULT, CHAIN_ID, 1, [entry, { ...entry, account: entry.account.toLowerCase() }]))
+                .to.throw("Duplicate account");
+            expect(() => buildMerkleDistribution(VAULT, CHAIN_ID, 1, [])).to.throw("at least one entry");
+        });
+    });
+
+    describe("Distribution files", function () {
+        let tmpDir: string;
+
+        beforeEach(async function () {
+            tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "merkle-"));
+        });
+
+        afterEach(async function () {
+            await fs.rm(tmpDir, { recursive: true, force: true });
+        });
+
+        it("Should round-trip a distribution through JSON", async function () {
+            const entries = randomEntries(4);
+            const distribution = buildMerkleDistribution(VAULT, CHAIN_ID, 1, entries);
+            const filePath = path.join(tmpDir, "epoch-1.json");
+
+            await writeDistributionFile(filePath, distribution);
+            const loaded = await readDistributionFile(filePath);
+
+            expect(loaded).to.deep.equal(distribution);
+            expect(buildProofClaims([loaded], entries[2].account)).to.deep.equal([
+                {
+                    vault: ethers.getAddress(VAULT),
+                    account: entries[2].account,
+                    cumulativeAmount: entries[2].cumulativeAmount,
+                    proof: distribution.claims[entries[2].account].proof
+                }
+            ]);
+        });
+
+        it("Should reject tampered distribution files", async function () {
+            const entries = randomEntries(4);
+            const distribution = buildMerkleDistribution(VAULT, CHAIN_ID, 1, entries);
+            distribution.claims[entries[0].account].cumulativeAmount = "1";
+            const filePath = path.join(tmpDir, "tampered.json");
+            await writeDistributionFile(filePath, distribution);
+
+            let error: Error | undefined;
+            try {
+                await readDistributionFile(filePath);
+            } catch (e) {
+                error = e as Error;
+            }
+
+            expect(error?.message).to.contain("Invalid proof");
+        });
+    });
+});
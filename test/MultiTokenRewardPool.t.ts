@@ -0,0 +1,586 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+    RewardPoolFactory,
+    RewardPoolImplementation,
+    MultiTokenRewardPoolImplementation,
+    TestToken,
+    ClaimRouter
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+    MULTI_TOKEN_CLAIM_TYPEHASH,
+    buildClaimDomain,
+    generateMultiTokenBatchClaims,
+    signMultiTokenClaim,
+    signMultiTokenLiability
+} from "../scripts/utils/claim-signing";
+import { PERMIT2_ADDRESS, installLocalPermit2, nextPermit2Nonce, signPermit2Transfer } from "../scripts/utils/permit2";
+import {
+    signThresholdMultiTokenClaim,
+    signThresholdMultiTokenLiability,
+    signerBackend
+} from "../scripts/utils/threshold-signing";
+
+describe("MultiTokenRewardPool", function () {
+    let factory: RewardPoolFactory;
+    let implementation: RewardPoolImplementation;
+    let multiImplementation: MultiTokenRewardPoolImplementation;
+    let vault: MultiTokenRewardPoolImplementation;
+    let usdc: TestToken;
+    let projectToken: TestToken;
+    let otherToken: TestToken;
+    let claimRouter: ClaimRouter;
+    let chainId: bigint;
+
+    let timelock: SignerWithAddress;
+    let guardian: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+    let treasury: SignerWithAddress;
+    let funder: SignerWithAddress;
+    let claimer: SignerWithAddress;
+    let relayer: SignerWithAddress;
+
+    const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+    const CLAIM_AMOUNT = ethers.parseUnits("100", 18);
+    const FEE_BPS = 1000n; // 10% default
+    const WITHDRAWAL_DELAY = 3n * 24n * 3600n;
+
+    beforeEach(async function () {
+        [timelock, guardian, publisher, creator, treasury, funder, claimer, relayer] = await ethers.getSigners();
+        chainId = (await ethers.provider.getNetwork()).chainId;
+
+        // Deploy test tokens
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        usdc = await TestTokenFactory.deploy("USD Coin", "USDC", 18);
+        projectToken = await TestTokenFactory.deploy("Project Token", "PRJ", 18);
+        otherToken = await TestTokenFactory.deploy("Other Token", "OTH", 18);
+
+        // Deploy implementations
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        implementation = await ImplFactory.deploy();
+        const MultiImplFactory = await ethers.getContractFactory("MultiTokenRewardPoolImplementation");
+        multiImplementation = await MultiImplFactory.deploy();
+
+        // Deploy factory
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        factory = await FactoryFactory.deploy(
+            await implementation.getAddress(),
+            treasury.address,
+            timelock.address,
+            guardian.address,
+            publisher.address
+        );
+
+        // Deploy ClaimRouter
+        const RouterFactory = await ethers.getContractFactory("ClaimRouter");
+        claimRouter = await RouterFactory.deploy(timelock.address);
+
+        // Setup: Approve factory, tokens and multi-token implementation
+        await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), true);
+        await factory.connect(timelock).setTokenAllowed(await usdc.getAddress(), true);
+        await factory.connect(timelock).setTokenAllowed(await projectToken.getAddress(), true);
+        await factory.connect(timelock).setMultiTokenImplementation(await multiImplementation.getAddress());
+
+        // Create and fund multi-token vault
+        const tokens = [await usdc.getAddress(), await projectToken.getAddress()];
+        const [vaultAddress] = await factory.predictMultiTokenPoolAddress(creator.address);
+        await factory.connect(creator).createMultiTokenPool(tokens);
+        vault = await ethers.getContractAt("MultiTokenRewardPoolImplementation", vaultAddress);
+
+        for (const token of [usdc, projectToken]) {
+            await token.mint(funder.address, FUND_AMOUNT);
+            await token.connect(funder).approve(vaultAddress, FUND_AMOUNT);
+            await vault.connect(funder).fund(await token.getAddress(), FUND_AMOUNT);
+        }
+    });
+
+    async function signFor(token: TestToken | string, account: string, cumulativeAmount: bigint, deadline = 0n) {
+        const tokenAddress = typeof token === "string" ? token : await token.getAddress();
+        return await signMultiTokenClaim(publisher, buildClaimDomain(chainId, await vault.getAddress()), {
+            token: tokenAddress,
+            account,
+            cumulativeAmount,
+            deadline
+        });
+    }
+
+    describe("Factory", function () {
+        it("Should create multi-token pools at the predicted address", async function () {
+            const tokens = [await usdc.getAddress()];
+            const [predicted, salt] = await factory.predictMultiTokenPoolAddress(creator.address);
+
+            await expect(factory.connect(creator).createMultiTokenPool(tokens))
+                .to.emit(factory, "MultiTokenPoolCreated")
+                .withArgs(creator.address, predicted, salt, 1, tokens);
+
+            expect(await factory.poolNonce(creator.address, ethers.ZeroAddress)).to.equal(2);
+        });
+
+        it("Should initialize the pool with its tokens", async function () {
+            expect(await vault.tokens()).to.deep.equal([await usdc.getAddress(), await projectToken.getAddress()]);
+            expect(await vault.creator()).to.equal(creator.address);
+            expect(await vault.getFactory()).to.equal(await factory.getAddress());
+            expect(await vault.CLAIM_TYPEHASH()).to.equal(MULTI_TOKEN_CLAIM_TYPEHASH);
+        });
+
+        it("Should reject non-allowed, duplicate and empty token lists", async function () {
+            await expect(factory.connect(creator).createMultiTokenPool([await otherToken.getAddress()]))
+                .to.be.revertedWithCustomError(multiImplementation, "InvalidParameter")
+                .withArgs("token");
+            await expect(
+                factory.connect(creator).createMultiTokenPool([await usdc.getAddress(), await usdc.getAddress()])
+            )
+                .to.be.revertedWithCustomError(multiImplementation, "AlreadyExists")
+                .withArgs("token");
+            await expect(factory.connect(creator).createMultiTokenPool([]))
+                .to.be.revertedWithCustomError(multiImplementation, "InvalidParameter")
+                .withArgs("tokens");
+        });
+
+        it("Should reject creation while no multi-token implementation is set", async function () {
+            await expect(factory.connect(timelock).setMultiTokenImplementation(ethers.ZeroAddress))
+                .to.emit(factory, "MultiTokenImplementationUpdated")
+                .withArgs(await multiImplementation.getAddress(), ethers.ZeroAddress);
+
+            await expect(factory.connect(creator).createMultiTokenPool([await usdc.getAddress()]))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("implementation");
+        });
+
+        it("Should reject non-timelock implementation updates", async function () {
+            await expect(factory.connect(creator).setMultiTokenImplementation(ethers.ZeroAddress))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+        });
+    });
+
+    describe("Token management", function () {
+        it("Should let the creator add allow-listed tokens", async function () {
+            await factory.connect(timelock).setTokenAllowed(await otherToken.getAddress(), true);
+
+            await expect(vault.connect(creator).addToken(await otherToken.getAddress()))
+                .to.emit(vault, "TokenAdded")
+                .withArgs(await otherToken.getAddress());
+            expect(await vault.isPoolToken(await otherToken.getAddress())).to.be.true;
+        });
+
+        it("Should reject token additions from non-creators and non-allowed tokens", async function () {
+            await expect(vault.connect(funder).addToken(await otherToken.getAddress()))
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("creator");
+            await expect(vault.connect(creator).addToken(await otherToken.getAddress()))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("token");
+        });
+
+        it("Should only fund and withdraw pool tokens", async function () {
+            await expect(vault.connect(funder).fund(await otherToken.getAddress(), 1))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("token");
+
+            await expect(vault.connect(creator).requestWithdrawal(await otherToken.getAddress(), 1))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("token");
+        });
+
+        it("Should fund a pool token with a Permit2 signature", async function () {
+            await installLocalPermit2(timelock, ethers.provider);
+            await projectToken.mint(funder.address, FUND_AMOUNT);
+            await projectToken.connect(funder).approve(PERMIT2_ADDRESS, FUND_AMOUNT);
+
+            const token = await projectToken.getAddress();
+            const permit = {
+                permitted: { token, amount: FUND_AMOUNT },
+                nonce: await nextPermit2Nonce(funder.address, ethers.provider),
+                deadline: BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 3600)
+            };
+            const signature = await signPermit2Transfer(funder, permit, await vault.getAddress());
+
+            await expect(
+                vault.connect(funder).fundWithPermit2(token, FUND_AMOUNT, permit.nonce, permit.deadline, signature)
+            )
+                .to.emit(vault, "Funded")
+                .withArgs(funder.address, token, FUND_AMOUNT);
+            expect(await projectToken.balanceOf(await vault.getAddress())).to.equal(FUND_AMOUNT * 2n);
+
+            await expect(
+                vault
+                    .connect(funder)
+                    .fundWithPermit2(
+                        await otherToken.getAddress(),
+                        FUND_AMOUNT,
+                        permit.nonce,
+                        permit.deadline,
+                        signature
+                    )
+            )
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("token");
+        });
+    });
+
+    describe("Withdrawals", function () {
+        const LIABILITY = ethers.parseUnits("300", 18);
+
+        async function signLiabilityFor(token: TestToken, totalCumulativeAmount: bigint) {
+            return await signMultiTokenLiability(
+                publisher,
+                buildClaimDomain(chainId, await vault.getAddress()),
+                await token.getAddress(),
+                totalCumulativeAmount
+            );
+        }
+
+        it("Should withdraw one token after the delay", async function () {
+            const token = await usdc.getAddress();
+            await expect(vault.connect(creator).requestWithdrawal(token, CLAIM_AMOUNT))
+                .to.emit(vault, "WithdrawalRequested")
+                .withArgs(creator.address, token, CLAIM_AMOUNT, anyValue);
+            expect((await vault.pendingWithdrawals(token)).executableAt).to.equal(
+                BigInt(await time.latest()) + WITHDRAWAL_DELAY
+            );
+
+            await expect(vault.connect(creator).executeWithdrawal(token))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("withdrawal_delay");
+            await time.increase(WITHDRAWAL_DELAY);
+
+            // Requests are per token
+            await expect(vault.connect(creator).executeWithdrawal(await projectToken.getAddress()))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("no_request");
+            await expect(vault.connect(creator).executeWithdrawal(token))
+                .to.emit(vault, "Withdrawn")
+                .withArgs(creator.address, token, CLAIM_AMOUNT);
+            expect(await usdc.balanceOf(creator.address)).to.equal(CLAIM_AMOUNT);
+            expect((await vault.pendingWithdrawals(token)).executableAt).to.equal(0);
+        });
+
+        it("Should let the creator cancel a pending withdrawal", async function () {
+            const token = await usdc.getAddress();
+            await vault.connect(creator).requestWithdrawal(token, CLAIM_AMOUNT);
+
+            await expect(vault.connect(funder).cancelWithdrawal(token))
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("creator");
+            await expect(vault.connect(creator).cancelWithdrawal(token))
+                .to.emit(vault, "WithdrawalCancelled")
+                .withArgs(creator.address, token, CLAIM_AMOUNT);
+
+            await time.increase(WITHDRAWAL_DELAY);
+            await expect(vault.connect(creator).executeWithdrawal(token))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("no_request");
+        });
+
+        it("Should limit withdrawals to the excess over the liability of the token", async function () {
+            const token = await usdc.getAddress();
+            await expect(vault.connect(funder).commitLiability(token, LIABILITY, await signLiabilityFor(usdc, LIABILITY)))
+                .to.emit(vault, "LiabilityCommitted")
+                .withArgs(token, LIABILITY);
+
+            expect(await vault.withdrawableAmount(token)).to.equal(FUND_AMOUNT - LIABILITY);
+            expect(await vault.withdrawableAmount(await projectToken.getAddress())).to.equal(FUND_AMOUNT);
+            await expect(vault.connect(creator).requestWithdrawal(token, FUND_AMOUNT - LIABILITY + 1n))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("balance");
+
+            // Vouchers of one token cannot commit another
+            await expect(
+                vault.commitLiability(
+                    await projectToken.getAddress(),
+                    LIABILITY,
+                    await signLiabilityFor(usdc, LIABILITY)
+                )
+            )
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("signature");
+
+            // Claims consume the liability
+            await vault.payWithSig(token, claimer.address, CLAIM_AMOUNT, 0, await signFor(usdc, claimer.address, CLAIM_AMOUNT));
+            expect(await vault.outstandingLiability(token)).to.equal(LIABILITY - CLAIM_AMOUNT);
+            expect(await vault.withdrawableAmount(token)).to.equal(FUND_AMOUNT - LIABILITY);
+        });
+
+        it("Should let liabilities committed during the delay block the withdrawal", async function () {
+            const token = await usdc.getAddress();
+            await vault.connect(creator).requestWithdrawal(token, FUND_AMOUNT);
+            await vault.commitLiability(token, LIABILITY, await signLiabilityFor(usdc, LIABILITY));
+            await time.increase(WITHDRAWAL_DELAY);
+
+            await expect(vault.connect(creator).executeWithdrawal(token))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("balance");
+        });
+
+        it("Should cap commitments at what the pool can pay and let only the timelock lower them", async function () {
+            const token = await usdc.getAddress();
+            await expect(vault.commitLiability(token, ethers.MaxUint256, await signLiabilityFor(usdc, ethers.MaxUint256)))
+                .to.emit(vault, "LiabilityCommitted")
+                .withArgs(token, FUND_AMOUNT);
+            expect(await vault.withdrawableAmount(token)).to.equal(0);
+
+            await expect(vault.connect(creator).resetLiability(token, 0))
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("timelock");
+            await expect(vault.connect(timelock).resetLiability(token, FUND_AMOUNT))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("liability");
+            await expect(vault.connect(timelock).resetLiability(token, LIABILITY))
+                .to.emit(vault, "LiabilityReset")
+                .withArgs(token, FUND_AMOUNT, LIABILITY);
+            expect(await vault.withdrawableAmount(token)).to.equal(FUND_AMOUNT - LIABILITY);
+        });
+
+        it("Should commit liabilities outside the single-signer limits", async function () {
+            const token = await usdc.getAddress();
+            for (const signer of [guardian, relayer]) {
+                await factory.connect(timelock).setPublisherSigner(signer.address, true);
+            }
+            await factory.connect(timelock).setPublisherThreshold(2);
+            await factory.connect(timelock).setThresholdLimits(token, CLAIM_AMOUNT, CLAIM_AMOUNT);
+
+            // The publisher set may still sign liabilities
+            const { signature } = await signThresholdMultiTokenLiability(
+                [await signerBackend(guardian), await signerBackend(relayer)],
+                buildClaimDomain(chainId, await vault.getAddress()),
+                token,
+                LIABILITY / 2n,
+                2
+            );
+            await expect(vault.commitLiability(token, LIABILITY / 2n, signature))
+                .to.emit(vault, "LiabilityCommitted")
+                .withArgs(token, LIABILITY / 2n);
+
+            // Above the per-claim limit on the publisher signature alone, without spending the daily volume
+            await expect(vault.commitLiability(token, LIABILITY, await signLiabilityFor(usdc, LIABILITY)))
+                .to.emit(vault, "LiabilityCommitted")
+                .withArgs(token, LIABILITY);
+            expect((await factory.singleSignerVolume(token)).amount).to.equal(0);
+
+            await expect(
+                vault.payWithSig(token, claimer.address, CLAIM_AMOUNT, 0, await signFor(usdc, claimer.address, CLAIM_AMOUNT))
+            ).to.emit(vault, "ClaimedMinimal");
+        });
+    });
+
+    describe("Claims", function () {
+        it("Should track cumulative claims per token", async function () {
+            await vault.payWithSig(
+                await usdc.getAddress(),
+                claimer.address,
+                CLAIM_AMOUNT,
+                0,
+                await signFor(usdc, claimer.address, CLAIM_AMOUNT)
+            );
+            await expect(
+                vault.payWithSig(
+                    await projectToken.getAddress(),
+                    claimer.address,
+                    CLAIM_AMOUNT * 2n,
+                    0,
+                    await signFor(projectToken, claimer.address, CLAIM_AMOUNT * 2n)
+                )
+            )
+                .to.emit(vault, "ClaimedMinimal")
+                .withArgs(claimer.address, await projectToken.getAddress(), CLAIM_AMOUNT * 2n);
+
+            expect(await vault.alreadyClaimed(await usdc.getAddress(), claimer.address)).to.equal(CLAIM_AMOUNT);
+            expect(await vault.alreadyClaimed(await projectToken.getAddress(), claimer.address)).to.equal(
+                CLAIM_AMOUNT * 2n
+            );
+            expect(await vault.globalAlreadyClaimed(await usdc.getAddress())).to.equal(CLAIM_AMOUNT);
+            expect(await usdc.balanceOf(claimer.address)).to.equal(CLAIM_AMOUNT - (CLAIM_AMOUNT * FEE_BPS) / 10000n);
+            expect(await projectToken.balanceOf(treasury.address)).to.equal((CLAIM_AMOUNT * 2n * FEE_BPS) / 10000n);
+        });
+
+        it("Should reject vouchers replayed against another token", async function () {
+            const signature = await signFor(usdc, claimer.address, CLAIM_AMOUNT);
+
+            await expect(
+                vault.payWithSig(await projectToken.getAddress(), claimer.address, CLAIM_AMOUNT, 0, signature)
+            )
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("signature");
+        });
+
+        it("Should reject claims of tokens outside the pool", async function () {
+            const signature = await signFor(otherToken, claimer.address, CLAIM_AMOUNT);
+
+            await expect(
+                vault.payWithSig(await otherToken.getAddress(), claimer.address, CLAIM_AMOUNT, 0, signature)
+            )
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("token");
+        });
+
+        it("Should prevent replay within a token", async function () {
+            const signature = await signFor(usdc, claimer.address, CLAIM_AMOUNT);
+            await vault.payWithSig(await usdc.getAddress(), claimer.address, CLAIM_AMOUNT, 0, signature);
+
+            await expect(vault.payWithSig(await usdc.getAddress(), claimer.address, CLAIM_AMOUNT, 0, signature))
+                .to.be.revertedWithCustomError(vault, "AlreadyExists")
+                .withArgs("claim");
+        });
+
+        it("Should accept ERC-1271 signatures from a smart-contract publisher", async function () {
+            // The publisher key becomes the owner of a publisher contract; after the grace period only
+            // the contract is the publisher, so acceptance goes through isValidSignature
+            const WalletFactory = await ethers.getContractFactory("MockSmartWallet");
+            const wallet = await WalletFactory.deploy(publisher.address);
+            await factory.connect(timelock).initiatePublisherRotation(await wallet.getAddress());
+            await time.increase(7 * 24 * 60 * 60 + 1);
+
+            await expect(
+                vault.payWithSig(
+                    await usdc.getAddress(),
+                    claimer.address,
+                    CLAIM_AMOUNT,
+                    0,
+                    await signFor(usdc, claimer.address, CLAIM_AMOUNT)
+                )
+            )
+                .to.emit(vault, "ClaimedMinimal")
+                .withArgs(claimer.address, await usdc.getAddress(), CLAIM_AMOUNT);
+        });
+
+        it("Should pay the recipient authorized by the account", async function () {
+            const net = CLAIM_AMOUNT - (CLAIM_AMOUNT * FEE_BPS) / 10000n;
+            await factory.connect(claimer).authorizeClaims(relayer.address, ethers.ZeroAddress);
+
+            await expect(
+                vault.payWithSig(
+                    await usdc.getAddress(),
+                    claimer.address,
+                    CLAIM_AMOUNT,
+                    0,
+                    await signFor(usdc, claimer.address, CLAIM_AMOUNT)
+                )
+            )
+                .to.emit(vault, "ClaimRedirected")
+                .withArgs(claimer.address, relayer.address, net);
+
+            expect(await usdc.balanceOf(claimer.address)).to.equal(0);
+            expect(await usdc.balanceOf(relayer.address)).to.equal(net);
+        });
+
+        it("Should require the publisher set above the single-signer limits of a token", async function () {
+            for (const signer of [guardian, relayer]) {
+                await factory.connect(timelock).setPublisherSigner(signer.address, true);
+            }
+            await factory.connect(timelock).setPublisherThreshold(2);
+            await factory.connect(timelock).setThresholdLimits(await usdc.getAddress(), CLAIM_AMOUNT / 2n, 0);
+
+            await expect(
+                vault.payWithSig(
+                    await usdc.getAddress(),
+                    claimer.address,
+                    CLAIM_AMOUNT,
+                    0,
+                    await signFor(usdc, claimer.address, CLAIM_AMOUNT)
+                )
+            )
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("threshold");
+
+            // Limits are per token: the project token has none
+            await expect(
+                vault.payWithSig(
+                    await projectToken.getAddress(),
+                    claimer.address,
+                    CLAIM_AMOUNT,
+                    0,
+                    await signFor(projectToken, claimer.address, CLAIM_AMOUNT)
+                )
+            ).to.emit(vault, "ClaimedMinimal");
+            expect((await factory.singleSignerVolume(await projectToken.getAddress())).amount).to.equal(0);
+
+            const { signature } = await signThresholdMultiTokenClaim(
+                [await signerBackend(guardian), await signerBackend(relayer)],
+                buildClaimDomain(chainId, await vault.getAddress()),
+                { token: await usdc.getAddress(), account: claimer.address, cumulativeAmount: CLAIM_AMOUNT, deadline: 0n },
+                2
+            );
+            await expect(vault.payWithSig(await usdc.getAddress(), claimer.address, CLAIM_AMOUNT, 0, signature))
+                .to.emit(vault, "ClaimedMinimal")
+                .withArgs(claimer.address, await usdc.getAddress(), CLAIM_AMOUNT);
+        });
+    });
+
+    describe("Router batches", function () {
+        it("Should batch claims across the tokens of a pool", async function () {
+            const claims = await generateMultiTokenBatchClaims(
+                publisher,
+                [
+                    {
+                        vault: await vault.getAddress(),
+                        token: await usdc.getAddress(),
+                        account: claimer.address,
+                        cumulativeAmount: CLAIM_AMOUNT
+                    },
+                    {
+                        vault: await vault.getAddress(),
+                        token: await projectToken.getAddress(),
+                        account: claimer.address,
+                        cumulativeAmount: CLAIM_AMOUNT
+                    }
+                ],
+                chainId
+            );
+
+            await expect(claimRouter.connect(relayer).claimAllMultiToken(claims))
+                .to.emit(claimRouter, "BatchClaimed")
+                .withArgs(
+                    relayer.address,
+                    2,
+                    0,
+                    CLAIM_AMOUNT * 2n,
+                    (CLAIM_AMOUNT * 2n * FEE_BPS) / 10000n,
+                    CLAIM_AMOUNT * 2n - (CLAIM_AMOUNT * 2n * FEE_BPS) / 10000n,
+                    (value: bigint) => value > 0n
+                );
+
+            expect(await usdc.balanceOf(claimer.address)).to.be.greaterThan(0);
+            expect(await projectToken.balanceOf(claimer.address)).to.be.greaterThan(0);
+        });
+
+        it("Should continue the batch when one token claim fails", async function () {
+            const claims = await generateMultiTokenBatchClaims(
+                publisher,
+                [
+                    {
+                        vault: await vault.getAddress(),
+                        token: await usdc.getAddress(),
+                        account: claimer.address,
+                        cumulativeAmount: FUND_AMOUNT * 2n // exceeds balance
+                    },
+                    {
+                        vault: await vault.getAddress(),
+                        token: await projectToken.getAddress(),
+                        account: claimer.address,
+                        cumulativeAmount: CLAIM_AMOUNT
+                    }
+                ],
+                chainId
+            );
+
+            await expect(claimRouter.connect(relayer).claimAllMultiToken(claims))
+                .to.emit(claimRouter, "ClaimFailed")
+                .withArgs(
+                    await vault.getAddress(),
+                    claimer.address,
+                    vault.interface.getError("InvalidParameter")!.selector,
+                    "balance"
+                );
+
+            expect(await vault.alreadyClaimed(await usdc.getAddress(), claimer.address)).to.equal(0);
+            expect(await vault.alreadyClaimed(await projectToken.getAddress(), claimer.address)).to.equal(
+                CLAIM_AMOUNT
+            );
+        });
+    });
+});
@@ -0,0 +1,295 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { RewardPoolFactory, RewardPoolImplementation, TestToken } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    cancelWithdrawal,
+    createPool,
+    createPoolBatch,
+    executeWithdrawal,
+    formatPoolReport,
+    fundPool,
+    inspectPool,
+    parsePoolCommand,
+    permitDomain,
+    predictNextPool,
+    requestWithdrawal
+} from "../scripts/utils/pool-lifecycle";
+import { approvePermit2, installLocalPermit2 } from "../scripts/utils/permit2";
+
+describe("PoolLifecycle", function () {
+    let factory: RewardPoolFactory;
+    let testToken: TestToken;
+
+    let timelock: SignerWithAddress;
+    let guardian: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+    let treasury: SignerWithAddress;
+
+    const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+    const WITHDRAWAL_DELAY = 3 * 24 * 60 * 60;
+
+    beforeEach(async function () {
+        [timelock, guardian, publisher, creator, treasury] = await ethers.getSigners();
+
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        testToken = await TestTokenFactory.deploy("Test Token", "TEST", 18);
+
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        const implementation = await ImplFactory.deploy();
+
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        factory = await FactoryFactory.deploy(
+            await implementation.getAddress(),
+            treasury.address,
+            timelock.address,
+            guardian.address,
+            publisher.address
+        );
+        await factory.connect(timelock).setTokenAllowed(await testToken.getAddress(), true);
+        await testToken.mint(creator.address, FUND_AMOUNT * 10n);
+    });
+
+    async function deployPlainToken() {
+        const PlainTokenFactory = await ethers.getContractFactory("PlainToken");
+        const plainToken = await PlainTokenFactory.deploy("Plain Token", "PLAIN");
+        await factory.connect(timelock).setTokenAllowed(await plainToken.getAddress(), true);
+        await plainToken.mint(creator.address, FUND_AMOUNT * 10n);
+        return plainToken;
+    }
+
+    async function createdPool(amount: bigint = 0n): Promise<RewardPoolImplementation> {
+        const { pool } = await createPool(await factory.getAddress(), creator, await testToken.getAddress(), amount);
+        return ethers.getContractAt("RewardPoolImplementation", pool);
+    }
+
+    describe("Commands", function () {
+        it("Should parse subcommands and flags", function () {
+            expect(parsePoolCommand(["fund", "--pool", "launchPool", "--amount", "10.5", "--no-permit"])).to.deep.equal(
+                {
+                    command: "fund",
+                    pool: "launchPool",
+                    amount: "10.5",
+                    permit: false
+                }
+            );
+            expect(parsePoolCommand(["create-batch", "--file", "batch.json"])).to.deep.equal({
+                command: "create-batch",
+                file: "batch.json",
+                permit: true
+            });
+            expect(parsePoolCommand(["approve-permit2", "--token", "USDT"])).to.deep.equal({
+                command: "approve-permit2",
+                token: "USDT"
+            });
+            expect(parsePoolCommand(["create", "--token", "USDC"])).to.deep.equal({
+                command: "create",
+                token: "USDC",
+                amount: undefined,
+                label: undefined
+            });
+        });
+
+        it("Should reject unknown commands and missing flags", function () {
+            expect(() => parsePoolCommand(["drain"])).to.throw('Unknown command "drain"');
+            expect(() => parsePoolCommand(["fund", "--pool", "launchPool"])).to.throw("fund requires --amount");
+            expect(() => parsePoolCommand(["inspect", "--pool"])).to.throw("--pool needs a value");
+        });
+    });
+
+    describe("Creation", function () {
+        it("Should create the predicted pool and advance the nonce", async function () {
+            const token = await testToken.getAddress();
+            const first = await predictNextPool(await factory.getAddress(), creator.address, token, ethers.provider);
+
+            const created = await createPool(await factory.getAddress(), creator, token);
+            const second = await predictNextPool(await factory.getAddress(), creator.address, token, ethers.provider);
+
+            expect(created.pool).to.equal(first.pool);
+            expect(first.nonce).to.equal(0n);
+            expect(second.nonce).to.equal(1n);
+            expect(second.pool).to.not.equal(first.pool);
+        });
+
+        it("Should approve the factory and fund on creation", async function () {
+            const pool = await createdPool(FUND_AMOUNT);
+
+            expect(await testToken.balanceOf(await pool.getAddress())).to.equal(FUND_AMOUNT);
+            expect(await pool.creator()).to.equal(creator.address);
+        });
+
+        it("Should refuse tokens that are not allowed", async function () {
+            const TestTokenFactory = await ethers.getContractFactory("TestToken");
+            const other = await TestTokenFactory.deploy("Other", "OTHER", 18);
+
+            let error: Error | undefined;
+            try {
+                await createPool(await factory.getAddress(), creator, await other.getAddress());
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("is not allowed by the factory");
+        });
+    });
+
+    describe("Batch Creation", function () {
+        it("Should create a batch with one permit per token", async function () {
+            const token = await testToken.getAddress();
+            const pools = [
+                { token, amount: FUND_AMOUNT },
+                { token, amount: FUND_AMOUNT / 2n }
+            ];
+
+            const batch = await createPoolBatch(await factory.getAddress(), creator, pools);
+
+            expect(batch.permits).to.equal(1);
+            expect(batch.approvals).to.equal(0);
+            expect(batch.pools.map((pool) => pool.nonce)).to.deep.equal([0n, 1n]);
+            expect(await testToken.balanceOf(batch.pools[1].pool)).to.equal(FUND_AMOUNT / 2n);
+        });
+
+        it("Should approve the batch total without permits", async function () {
+            const token = await testToken.getAddress();
+
+            const batch = await createPoolBatch(
+                await factory.getAddress(),
+                creator,
+                [
+                    { token, amount: FUND_AMOUNT },
+                    { token, amount: FUND_AMOUNT }
+                ],
+                false
+            );
+
+            expect(batch.permits).to.equal(0);
+            expect(batch.approvals).to.equal(1);
+            expect(await testToken.balanceOf(batch.pools[0].pool)).to.equal(FUND_AMOUNT);
+        });
+
+        it("Should fund the whole batch through Permit2 when a token has no permit", async function () {
+            const plainToken = await deployPlainToken();
+            await installLocalPermit2(timelock, ethers.provider);
+            await approvePermit2(creator, await plainToken.getAddress());
+            await approvePermit2(creator, await testToken.getAddress());
+
+            const batch = await createPoolBatch(await factory.getAddress(), creator, [
+                { token: await plainToken.getAddress(), amount: FUND_AMOUNT },
+                { token: await testToken.getAddress(), amount: FUND_AMOUNT / 2n }
+            ]);
+
+            expect(batch.permit2).to.equal(true);
+            expect(batch.permits).to.equal(0);
+            expect(batch.approvals).to.equal(0);
+            expect(await plainToken.balanceOf(batch.pools[0].pool)).to.equal(FUND_AMOUNT);
+            expect(await testToken.balanceOf(batch.pools[1].pool)).to.equal(FUND_AMOUNT / 2n);
+        });
+    });
+
+    describe("Funding", function () {
+        it("Should fund with a permit when the token supports it", async function () {
+            const pool = await createdPool();
+
+            const result = await fundPool(await pool.getAddress(), creator, FUND_AMOUNT);
+
+            expect(result.method).to.equal("fundWithPermit");
+            expect(result.approved).to.equal(false);
+            expect(await testToken.balanceOf(await pool.getAddress())).to.equal(FUND_AMOUNT);
+        });
+
+        it("Should fall back to approve and fund", async function () {
+            const pool = await createdPool();
+
+            const result = await fundPool(await pool.getAddress(), creator, FUND_AMOUNT, false);
+
+            expect(result.method).to.equal("fund");
+            expect(result.approved).to.equal(true);
+            expect(await testToken.balanceOf(await pool.getAddress())).to.equal(FUND_AMOUNT);
+        });
+
+        it("Should fund through Permit2 when the token has no permit but Permit2 is approved", async function () {
+            const plainToken = await deployPlainToken();
+            const { pool } = await createPool(await factory.getAddress(), creator, await plainToken.getAddress());
+            await installLocalPermit2(timelock, ethers.provider);
+
+            // Not approved yet: approve + fund
+            const first = await fundPool(pool, creator, FUND_AMOUNT);
+            expect(first.method).to.equal("fund");
+
+            expect(await approvePermit2(creator, await plainToken.getAddress())).to.equal(true);
+            expect(await approvePermit2(creator, await plainToken.getAddress())).to.equal(false);
+            const second = await fundPool(pool, creator, FUND_AMOUNT);
+
+            expect(second.method).to.equal("fundWithPermit2");
+            expect(second.approved).to.equal(false);
+            expect(await plainToken.balanceOf(pool)).to.equal(FUND_AMOUNT * 2n);
+            expect(await plainToken.allowance(creator.address, pool)).to.equal(0n);
+        });
+
+        it("Should only resolve permit domains that match the token", async function () {
+            const FeeTokenFactory = await ethers.getContractFactory("FeeOnTransferToken");
+            const noPermit = await FeeTokenFactory.deploy("Fee Token", "FEE");
+
+            const domain = await permitDomain(await testToken.getAddress(), ethers.provider);
+            expect(domain?.name).to.equal("Test Token");
+            expect(domain?.version).to.equal("1");
+            expect(await permitDomain(await noPermit.getAddress(), ethers.provider)).to.equal(undefined);
+        });
+    });
+
+    describe("Withdrawals", function () {
+        it("Should request, wait and execute a withdrawal", async function () {
+            const pool = await createdPool(FUND_AMOUNT);
+
+            const request = await requestWithdrawal(await pool.getAddress(), creator);
+            expect(request.amount).to.equal(FUND_AMOUNT);
+
+            let error: Error | undefined;
+            try {
+                await executeWithdrawal(await pool.getAddress(), creator);
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("Withdrawal is executable at");
+
+            await time.increase(WITHDRAWAL_DELAY);
+            const before = await testToken.balanceOf(creator.address);
+            await executeWithdrawal(await pool.getAddress(), creator);
+            expect(await testToken.balanceOf(creator.address)).to.equal(before + FUND_AMOUNT);
+        });
+
+        it("Should cancel a pending withdrawal", async function () {
+            const pool = await createdPool(FUND_AMOUNT);
+            await requestWithdrawal(await pool.getAddress(), creator, FUND_AMOUNT / 2n);
+
+            await cancelWithdrawal(await pool.getAddress(), creator);
+
+            expect((await pool.pendingWithdrawal()).executableAt).to.equal(0n);
+        });
+    });
+
+    describe("Inspection", function () {
+        it("Should report balance, claims, pause state and emergency notice", async function () {
+            const pool = await createdPool(FUND_AMOUNT);
+            await pool.connect(guardian).pause();
+            await time.increase(181 * 24 * 60 * 60); // Past the last-claim grace period
+            await pool.connect(timelock).initiateEmergencySweepNotice(treasury.address, "Compromised publisher");
+
+            const report = await inspectPool(await pool.getAddress(), ethers.provider);
+
+            expect(report.symbol).to.equal("TEST");
+            expect(report.balance).to.equal(FUND_AMOUNT);
+            expect(report.globalAlreadyClaimed).to.equal(0n);
+            expect(report.lastClaimTimestamp).to.equal(await pool.lastClaimTimestamp());
+            expect(report.paused).to.equal(true);
+            expect(report.emergencyNotice!.executableAt - report.emergencyNotice!.initiatedAt).to.equal(
+                7n * 24n * 60n * 60n
+            );
+
+            const formatted = formatPoolReport(report);
+            expect(formatted).to.contain("Balance:             1000.0 TEST");
+            expect(formatted).to.contain("Paused:              yes");
+        });
+    });
+});
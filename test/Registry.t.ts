@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+    REGISTRY_SCHEMA_VERSION,
+    createRegistry,
+    factoryAddress,
+    loadRegistry,
+    migrateRegistry,
+    poolAddresses,
+    roleAddress,
+    routerAddress,
+    saveRegistry,
+    tokenAddress,
+    validateRegistry
+} from "../scripts/utils/registry";
+
+describe("Registry", function () {
+    const IMPLEMENTATION = "0x1020E62F81c8ffb2aCed14F2fBbc092A1F1de6A9";
+    const FACTORY = "0x1f7D82ccB742593118c91B0d5Ef34Dc6e41676bf";
+    const ROUTER = "0x1BFC02a7131Db713Fc25f7BeA0e4bE2CF065CFba";
+    const SAFE = "0x88b61192CdfCED65e969BD58fd37D48498dd69DE";
+    const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+    const POOL = "0x9032D89209EBEe4157786d340975F00fB7b78b11";
+
+    // Shape of deployments/<network>-<chainId>[-safe].json written by the former deploy script
+    const legacySummary = {
+        network: "baseSepolia",
+        chainId: 84532,
+        timestamp: "2025-09-02T19:39:26.972Z",
+        contracts: {
+            implementation: IMPLEMENTATION,
+            factory: FACTORY,
+            claimRouter: ROUTER,
+            tokens: { usdc: USDC },
+            testPools: { usdcPool: POOL }
+        },
+        config: { treasury: SAFE, timelock: SAFE, guardian: SAFE, publisher: SAFE },
+        verification: {}
+    };
+
+    let dir: string;
+
+    beforeEach(async function () {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "registry-"));
+    });
+
+    afterEach(async function () {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    function expectError(fn: () => unknown): string {
+        try {
+            fn();
+        } catch (e) {
+            return (e as Error).message;
+        }
+        throw new Error("Expected an error");
+    }
+
+    describe("Migrations", function () {
+        it("Should migrate legacy deployment summaries", function () {
+            const registry = migrateRegistry(legacySummary, "baseSepolia");
+
+            expect(registry.schemaVersion).to.equal(REGISTRY_SCHEMA_VERSION);
+            expect(registry.chainId).to.equal(84532);
+            // Pre-series contracts are kept for reference, not as the current deployment
+            expect(Object.keys(registry.contracts)).to.deep.equal([
+                `RewardPoolImplementation@${IMPLEMENTATION}`,
+                `RewardPoolFactory@${FACTORY}`,
+                `ClaimRouter@${ROUTER}`
+            ]);
+            expect(registry.contracts[`RewardPoolFactory@${FACTORY}`]).to.deep.equal({
+                address: FACTORY,
+                args: [IMPLEMENTATION, SAFE, SAFE, SAFE, SAFE],
+                legacy: true
+            });
+            expect(registry.contracts[`ClaimRouter@${ROUTER}`].args).to.deep.equal([SAFE]);
+            expect(expectError(() => factoryAddress(registry))).to.contain("No RewardPoolFactory");
+            expect(registry.roles.publisher).to.equal(SAFE);
+            expect(registry.tokens).to.deep.equal({ USDC });
+            expect(registry.pools).to.deep.equal({ usdcPool: { address: POOL } });
+        });
+
+        it("Should migrate unversioned registries and checksum addresses", function () {
+            const registry = migrateRegistry(
+                { contracts: { ClaimRouter: { address: ROUTER.toLowerCase(), args: [SAFE] } } },
+                "hardhat",
+                31337
+            );
+
+            expect(registry.network).to.equal("hardhat");
+            expect(registry.chainId).to.equal(31337);
+            expect(registry.contracts.ClaimRouter.address).to.equal(ROUTER);
+        });
+
+        it("Should reject unknown schema versions", function () {
+            const message = expectError(() => migrateRegistry({ schemaVersion: 99 }, "hardhat"));
+            expect(message).to.contain("Unsupported registry schemaVersion 99");
+        });
+    });
+
+    describe("Validation", function () {
+        it("Should list every invalid field", function () {
+            const registry = createRegistry("hardhat", 31337);
+            registry.contracts.RewardPoolFactory = { address: "0x1234", txHash: "0xdead" };
+            (registry.roles as Record<string, string>).owner = SAFE;
+            registry.tokens.USDC = "usdc";
+
+            const message = expectError(() => validateRegistry(registry));
+            expect(message).to.contain("contracts.RewardPoolFactory.address must be an address");
+            expect(message).to.contain("contracts.RewardPoolFactory.txHash must be a transaction hash");
+            expect(message).to.contain("roles.owner is not a known role");
+            expect(message).to.contain("tokens.USDC must be an address");
+        });
+    });
+
+    describe("Persistence", function () {
+        it("Should load a legacy file and save it in the current schema", async function () {
+            await fs.writeFile(path.join(dir, "baseSepolia-84532-safe.json"), JSON.stringify(legacySummary));
+
+            const registry = await loadRegistry("baseSepolia", 84532, dir);
+            expect(poolAddresses(registry)).to.deep.equal([POOL]);
+
+            await saveRegistry(registry, dir);
+            const saved = JSON.parse(await fs.readFile(path.join(dir, "baseSepolia.json"), "utf8"));
+            expect(saved.schemaVersion).to.equal(REGISTRY_SCHEMA_VERSION);
+            expect(saved.contracts[`RewardPoolFactory@${FACTORY}`].legacy).to.equal(true);
+        });
+
+        it("Should return an empty registry when nothing is deployed", async function () {
+            const registry = await loadRegistry("hardhat", 31337, dir);
+
+            expect(registry.chainId).to.equal(31337);
+            expect(registry.contracts).to.deep.equal({});
+        });
+
+        it("Should refuse a registry of another chain", async function () {
+            await saveRegistry(migrateRegistry(legacySummary, "baseSepolia"), dir);
+
+            let error: Error | undefined;
+            try {
+                await loadRegistry("baseSepolia", 8453, dir);
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain("is for chain 84532, not 8453");
+        });
+    });
+
+    describe("Accessors", function () {
+        it("Should resolve contracts, roles, tokens and pools", function () {
+            const registry = migrateRegistry(legacySummary, "baseSepolia");
+            registry.contracts.RewardPoolFactory = { address: FACTORY };
+            registry.contracts.ClaimRouter = { address: ROUTER };
+
+            expect(factoryAddress(registry)).to.equal(FACTORY);
+            expect(routerAddress(registry)).to.equal(ROUTER);
+            expect(roleAddress(registry, "timelock")).to.equal(SAFE);
+            expect(tokenAddress(registry, "usdc")).to.equal(USDC);
+            expect(poolAddresses(registry)).to.deep.equal([POOL]);
+        });
+
+        it("Should reject missing and pending contracts", function () {
+            const registry = createRegistry("hardhat", 31337);
+            expect(expectError(() => factoryAddress(registry))).to.contain(
+                "No RewardPoolFactory in the hardhat registry"
+            );
+
+            registry.contracts.ClaimRouter = { address: ROUTER, pending: true };
+            expect(expectError(() => routerAddress(registry))).to.contain("is not confirmed");
+        });
+    });
+});
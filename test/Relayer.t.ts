@@ -0,0 +1,341 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { RewardPoolFactory, RewardPoolImplementation, TestToken, ClaimRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ClaimData, generateBatchClaims } from "../scripts/utils/claim-signing";
+import {
+    MAX_CANDIDATES_PER_ACCOUNT,
+    Relayer,
+    createRelayer,
+    createRelayerServer,
+    parseClaimSubmission
+} from "../scripts/utils/relayer";
+
+describe("Relayer", function () {
+    let factory: RewardPoolFactory;
+    let vault: RewardPoolImplementation;
+    let testToken: TestToken;
+    let claimRouter: ClaimRouter;
+    let relayer: Relayer;
+    let server: http.Server;
+    let baseUrl: string;
+
+    let timelock: SignerWithAddress;
+    let guardian: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+    let treasury: SignerWithAddress;
+    let sponsor: SignerWithAddress;
+    let claimers: SignerWithAddress[];
+
+    let chainId: bigint;
+
+    const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+
+    beforeEach(async function () {
+        [timelock, guardian, publisher, creator, treasury, sponsor, ...claimers] = await ethers.getSigners();
+        chainId = (await ethers.provider.getNetwork()).chainId;
+
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        testToken = await TestTokenFactory.deploy("Test Token", "TEST", 18);
+
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        const implementation = await ImplFactory.deploy();
+
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        factory = await FactoryFactory.deploy(
+            await implementation.getAddress(),
+            treasury.address,
+            timelock.address,
+            guardian.address,
+            publisher.address
+        );
+
+        const RouterFactory = await ethers.getContractFactory("ClaimRouter");
+        claimRouter = await RouterFactory.deploy(timelock.address);
+
+        await claimRouter.connect(timelock).setFactoryApproved(await factory.getAddress(), true);
+        await factory.connect(timelock).setTokenAllowed(await testToken.getAddress(), true);
+
+        const [vaultAddress] = await factory.predictPoolAddress(creator.address, await testToken.getAddress());
+        await factory.connect(creator).createPool(await testToken.getAddress());
+        vault = await ethers.getContractAt("RewardPoolImplementation", vaultAddress);
+
+        await testToken.mint(creator.address, FUND_AMOUNT);
+        await testToken.connect(creator).approve(vaultAddress, FUND_AMOUNT);
+        await vault.connect(creator).fund(FUND_AMOUNT);
+
+        relayer = createRelayer(claimRouter.connect(sponsor));
+        server = createRelayerServer(relayer);
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async function () {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    async function signClaims(entries: Array<{ account: string; amount: string }>, signer = publisher) {
+        return generateBatchClaims(
+            signer,
+            entries.map(({ account, amount }) => ({
+                vault: vault.target as string,
+                account,
+                cumulativeAmount: ethers.parseUnits(amount, 18)
+            })),
+            chainId
+        );
+    }
+
+    async function post(route: string, body?: unknown) {
+        const response = await fetch(`${baseUrl}${route}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body:
+                body === undefined
+                    ? undefined
+                    : JSON.stringify(body, (_, v) => (typeof v === "bigint" ? v.toString() : v))
+        });
+        return { status: response.status, body: await response.json() };
+    }
+
+    function overrideRouter(method: "claimAll" | "previewClaimAll", value: unknown): ClaimRouter {
+        const router = claimRouter.connect(sponsor);
+        Object.defineProperty(router, method, { value });
+        return router;
+    }
+
+    describe("Submissions", function () {
+        it("Should queue the highest cumulative amount per vault and account first", async function () {
+            const [low, high, lower] = await signClaims([
+                { account: claimers[0].address, amount: "10" },
+                { account: claimers[0].address, amount: "25" },
+                { account: claimers[0].address, amount: "5" }
+            ]);
+
+            expect(relayer.submit(low)).to.equal("accepted");
+            expect(relayer.submit(high)).to.equal("replaced");
+            expect(relayer.submit(lower)).to.equal("fallback");
+            expect(relayer.submit(high)).to.equal("ignored");
+            expect(relayer.pending()).to.deep.equal([high]);
+        });
+
+        it("Should reject submissions above the per-account candidate limit", async function () {
+            const claims = await signClaims(
+                Array.from({ length: MAX_CANDIDATES_PER_ACCOUNT + 1 }, (_, i) => ({
+                    account: claimers[0].address,
+                    amount: `${i + 1}`
+                }))
+            );
+            const [other] = await signClaims([{ account: claimers[1].address, amount: "10" }]);
+
+            for (const claim of claims.slice(0, -1)) expect(relayer.submit(claim)).to.not.equal("rejected");
+
+            expect(relayer.submit(claims[claims.length - 1])).to.equal("rejected");
+            expect(relayer.submit(other)).to.equal("accepted");
+            expect(relayer.pending()).to.deep.equal([claims[claims.length - 2], other]);
+        });
+
+        it("Should accept claim arrays over HTTP", async function () {
+            const claims = await signClaims([
+                { account: claimers[0].address, amount: "10" },
+                { account: claimers[1].address, amount: "20" }
+            ]);
+
+            const { status, body } = await post("/claims", claims);
+
+            expect(status).to.equal(202);
+            expect(body.results.map((r: { status: string }) => r.status)).to.deep.equal(["accepted", "accepted"]);
+            expect(body.pending).to.equal(2);
+        });
+
+        it("Should reject malformed submissions", async function () {
+            const [claim] = await signClaims([{ account: claimers[0].address, amount: "10" }]);
+
+            const badAccount = await post("/claims", { ...claim, account: "0x1234" });
+            expect(badAccount.status).to.equal(400);
+            expect(badAccount.body.error).to.equal("Invalid account");
+
+            const badAmount = await post("/claims", { ...claim, cumulativeAmount: "-1" });
+            expect(badAmount.status).to.equal(400);
+            expect(relayer.pending()).to.have.length(0);
+        });
+
+        it("Should normalize string amounts and default the deadline", function () {
+            const claim = parseClaimSubmission({
+                vault: vault.target,
+                account: claimers[0].address.toLowerCase(),
+                cumulativeAmount: "1000",
+                signature: "0x1234"
+            });
+
+            expect(claim.account).to.equal(claimers[0].address);
+            expect(claim.cumulativeAmount).to.equal(1000n);
+            expect(claim.deadline).to.equal(0n);
+        });
+    });
+
+    describe("Batching", function () {
+        it("Should submit batches under maxBatchSize and track receipts", async function () {
+            await claimRouter.connect(timelock).setMaxBatchSize(2);
+            const claims = await signClaims([
+                { account: claimers[0].address, amount: "10" },
+                { account: claimers[1].address, amount: "20" },
+                { account: claimers[2].address, amount: "30" }
+            ]);
+            await post("/claims", claims);
+
+            const { status, body } = await post("/flush");
+
+            expect(status).to.equal(200);
+            expect(body.batches.map((b: { claims: ClaimData[] }) => b.claims.length)).to.deep.equal([2, 1]);
+            expect(body.dropped).to.have.length(0);
+
+            for (const batch of relayer.batches()) {
+                expect(batch.status).to.equal("confirmed");
+                expect(batch.successful).to.equal(batch.claims.length);
+                const receipt = await ethers.provider.getTransactionReceipt(batch.txHash!);
+                expect(receipt!.from).to.equal(sponsor.address);
+            }
+            expect(await vault.alreadyClaimed(claimers[2].address)).to.equal(ethers.parseUnits("30", 18));
+            expect(relayer.pending()).to.have.length(0);
+        });
+
+        it("Should drop claims that fail simulation and relay the rest", async function () {
+            const [valid] = await signClaims([{ account: claimers[0].address, amount: "10" }]);
+            const [forged] = await signClaims([{ account: claimers[1].address, amount: "10" }], claimers[1]);
+            relayer.submit(valid);
+            relayer.submit(forged);
+
+            const { batches, dropped } = await relayer.flush();
+
+            expect(dropped.map((d) => d.claim)).to.deep.equal([forged]);
+            expect(batches).to.have.length(1);
+            expect(batches[0].claims).to.deep.equal([valid]);
+            expect(await vault.alreadyClaimed(claimers[1].address)).to.equal(0);
+        });
+
+        it("Should relay only the highest voucher of an account", async function () {
+            const claims = await signClaims([
+                { account: claimers[0].address, amount: "10" },
+                { account: claimers[0].address, amount: "40" }
+            ]);
+            await post("/claims", claims);
+            await post("/flush");
+
+            expect(await vault.alreadyClaimed(claimers[0].address)).to.equal(ethers.parseUnits("40", 18));
+            expect(relayer.batches()).to.have.length(1);
+        });
+
+        it("Should fall back to a lower voucher when a forged higher one fails simulation", async function () {
+            const [valid] = await signClaims([{ account: claimers[0].address, amount: "10" }]);
+            const [forged] = await signClaims([{ account: claimers[0].address, amount: "900" }], claimers[0]);
+            expect(relayer.submit(valid)).to.equal("accepted");
+            expect(relayer.submit(forged)).to.equal("replaced");
+
+            const { batches, dropped } = await relayer.flush();
+
+            expect(dropped.map((d) => d.claim)).to.deep.equal([forged]);
+            expect(batches).to.have.length(1);
+            expect(batches[0].claims).to.deep.equal([valid]);
+            expect(await vault.alreadyClaimed(claimers[0].address)).to.equal(ethers.parseUnits("10", 18));
+        });
+
+        it("Should keep the queue when the batch size cannot be read", async function () {
+            const [claim] = await signClaims([{ account: claimers[0].address, amount: "10" }]);
+            const broken = createRelayer(
+                (await ethers.getContractAt("ClaimRouter", await testToken.getAddress())).connect(sponsor)
+            );
+            broken.submit(claim);
+
+            let error: Error | undefined;
+            try {
+                await broken.flush();
+            } catch (e) {
+                error = e as Error;
+            }
+
+            expect(error).to.not.equal(undefined);
+            expect(broken.pending()).to.deep.equal([claim]);
+        });
+
+        it("Should requeue claims when simulation is unavailable", async function () {
+            const [valid, fallback] = await signClaims([
+                { account: claimers[0].address, amount: "20" },
+                { account: claimers[0].address, amount: "10" }
+            ]);
+            const broken = createRelayer(
+                overrideRouter("previewClaimAll", {
+                    staticCall: async () => {
+                        throw new Error("Rate limited");
+                    }
+                })
+            );
+            broken.submit(valid);
+            broken.submit(fallback);
+
+            const { batches, dropped } = await broken.flush();
+
+            expect(batches).to.have.length(0);
+            expect(dropped).to.have.length(0);
+            expect(broken.pending()).to.deep.equal([valid]);
+            expect(broken.submit(fallback)).to.equal("ignored");
+        });
+
+        it("Should requeue claims whose batch was never sent", async function () {
+            const [claim] = await signClaims([{ account: claimers[0].address, amount: "10" }]);
+            const broken = createRelayer(
+                overrideRouter("claimAll", async () => {
+                    throw new Error("Nonce too low");
+                })
+            );
+            broken.submit(claim);
+
+            const { batches } = await broken.flush();
+
+            expect(batches[0].status).to.equal("error");
+            expect(batches[0].txHash).to.equal(null);
+            expect(broken.pending()).to.deep.equal([claim]);
+        });
+
+        it("Should keep sent batches pending until their receipt arrives", async function () {
+            const [claim] = await signClaims([{ account: claimers[0].address, amount: "10" }]);
+            const claimAll = claimRouter.connect(sponsor).claimAll;
+            // Mined, but the RPC fails while waiting for the receipt
+            const flaky = createRelayer(
+                overrideRouter("claimAll", async (claims: ClaimData[]) =>
+                    Object.assign(await claimAll(claims), {
+                        wait: async () => {
+                            throw new Error("Receipt timeout");
+                        }
+                    })
+                )
+            );
+            flaky.submit(claim);
+
+            const first = await flaky.flush();
+
+            expect(first.batches[0].status).to.equal("pending");
+            expect(first.batches[0].txHash).to.not.equal(null);
+            expect(first.batches[0].error).to.equal("Receipt timeout");
+            expect(flaky.pending()).to.have.length(0);
+
+            const second = await flaky.flush();
+
+            expect(second.batches).to.have.length(1);
+            expect(second.batches[0].id).to.equal(first.batches[0].id);
+            expect(second.batches[0].status).to.equal("confirmed");
+            expect(second.batches[0].successful).to.equal(1);
+            expect(await vault.alreadyClaimed(claimers[0].address)).to.equal(ethers.parseUnits("10", 18));
+        });
+
+        it("Should do nothing when the queue is empty", async function () {
+            const { batches, dropped } = await relayer.flush();
+
+            expect(batches).to.have.length(0);
+            expect(dropped).to.have.length(0);
+        });
+    });
+});
@@ -8,6 +8,28 @@ import {
 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+    predictPoolAddress as predictCreate2Address,
+    predictPoolBatch,
+    predictVersionedPoolAddress
+} from "../scripts/utils/create2-prediction";
+import { permitDomain, signPermit } from "../scripts/utils/pool-lifecycle";
+import {
+    PERMIT2_ADDRESS,
+    installLocalPermit2,
+    nextPermit2Nonce,
+    signPermit2BatchTransfer,
+    signPermit2Transfer
+} from "../scripts/utils/permit2";
+import {
+    CLAIM_AUTHORIZATION_TYPEHASH,
+    checkClaimAuthorization,
+    prepareClaimAuthorization,
+    resolveClaimRecipient
+} from "../scripts/utils/claim-authorization";
+import { encodeThresholdSignature } from "../scripts/utils/threshold-signing";
+import { fetchPublisherHistory, publisherKeysAt, selectPublisherKey } from "../scripts/utils/publisher-keys";
 
 describe("RewardPoolFactory", function () {
     let factory: RewardPoolFactory;
@@ -123,7 +145,7 @@ describe("RewardPoolFactory", function () {
 
             await expect(factory.connect(creator).createPool(await testToken.getAddress()))
                 .to.emit(factory, "PoolCreated")
-                .withArgs(creator.address, predicted, await testToken.getAddress(), salt, nonce);
+                .withArgs(creator.address, predicted, await testToken.getAddress(), salt, nonce, 1);
 
             expect(await factory.poolNonce(creator.address, await testToken.getAddress())).to.equal(nonce + 1n);
         });
@@ -187,6 +209,132 @@ describe("RewardPoolFactory", function () {
         });
     });
 
+    describe("Implementation Registry", function () {
+        let implementationV2: RewardPoolImplementation;
+
+        beforeEach(async function () {
+            const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+            implementationV2 = await ImplFactory.deploy();
+        });
+
+        it("Should register the constructor implementation as version 1", async function () {
+            expect(await factory.latestVersion()).to.equal(1);
+            expect(await factory.defaultVersion()).to.equal(1);
+            expect(await factory.implementations(1)).to.equal(await implementation.getAddress());
+            expect(await factory.implementationVersion(await implementation.getAddress())).to.equal(1);
+        });
+
+        it("Should allow timelock to register new versions", async function () {
+            await expect(factory.connect(timelock).registerImplementation(await implementationV2.getAddress()))
+                .to.emit(factory, "ImplementationRegistered")
+                .withArgs(2, await implementationV2.getAddress());
+
+            expect(await factory.latestVersion()).to.equal(2);
+            expect(await factory.implementations(2)).to.equal(await implementationV2.getAddress());
+        });
+
+        it("Should reject duplicate, empty and non-contract implementations", async function () {
+            await expect(factory.connect(timelock).registerImplementation(await implementation.getAddress()))
+                .to.be.revertedWithCustomError(factory, "AlreadyExists")
+                .withArgs("implementation");
+            await expect(factory.connect(timelock).registerImplementation(ethers.ZeroAddress))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("implementation");
+            await expect(factory.connect(timelock).registerImplementation(user.address))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("implementation");
+        });
+
+        it("Should create pools from a chosen version and record it", async function () {
+            await factory.connect(timelock).registerImplementation(await implementationV2.getAddress());
+            const token = await testToken.getAddress();
+            const nonce = await factory.poolNonce(creator.address, token);
+            const [predicted, salt] = await factory.predictPoolAddressForVersion(creator.address, token, 2);
+            const [predictedDefault] = await factory.predictPoolAddress(creator.address, token);
+
+            expect(predicted).to.not.equal(predictedDefault);
+
+            await expect(factory.connect(creator).createPoolWithVersion(token, 2))
+                .to.emit(factory, "PoolCreated")
+                .withArgs(creator.address, predicted, token, salt, nonce, 2);
+
+            const vault = await ethers.getContractAt("RewardPoolImplementation", predicted);
+            expect(await vault.getFactory()).to.equal(await factory.getAddress());
+        });
+
+        it("Should switch the default version used by createPool and predictPoolAddress", async function () {
+            await factory.connect(timelock).registerImplementation(await implementationV2.getAddress());
+            const token = await testToken.getAddress();
+            const { predicted } = predictCreate2Address(
+                await factory.getAddress(),
+                await implementationV2.getAddress(),
+                creator.address,
+                token,
+                0
+            );
+
+            await expect(factory.connect(timelock).setDefaultVersion(2))
+                .to.emit(factory, "DefaultVersionUpdated")
+                .withArgs(1, 2);
+
+            const [solidityPredicted] = await factory.predictPoolAddress(creator.address, token);
+            expect(solidityPredicted).to.equal(predicted);
+
+            await expect(factory.connect(creator).createPool(token))
+                .to.emit(factory, "PoolCreated")
+                .withArgs(creator.address, predicted, token, anyValue, 0, 2);
+        });
+
+        it("Should match the TypeScript versioned predictor", async function () {
+            await factory.connect(timelock).registerImplementation(await implementationV2.getAddress());
+            const token = await testToken.getAddress();
+
+            const v1 = await predictVersionedPoolAddress(factory, creator.address, token);
+            const v2 = await predictVersionedPoolAddress(factory, creator.address, token, 2);
+
+            expect(v1.version).to.equal(1n);
+            expect(v2.implementation).to.equal(await implementationV2.getAddress());
+            expect([v2.predicted, v2.salt]).to.deep.equal(
+                Array.from(await factory.predictPoolAddressForVersion(creator.address, token, 2))
+            );
+            expect(v1.salt).to.equal(v2.salt);
+        });
+
+        it("Should reject unknown and deprecated versions", async function () {
+            await factory.connect(timelock).registerImplementation(await implementationV2.getAddress());
+            const token = await testToken.getAddress();
+
+            await expect(factory.connect(creator).createPoolWithVersion(token, 3))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("version");
+
+            await expect(factory.connect(timelock).setVersionDeprecated(2, true))
+                .to.emit(factory, "VersionDeprecationUpdated")
+                .withArgs(2, true);
+            await expect(factory.connect(creator).createPoolWithVersion(token, 2))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("version");
+            await expect(factory.connect(timelock).setDefaultVersion(2))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("version");
+            await expect(factory.connect(timelock).setVersionDeprecated(1, true))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("default_version");
+        });
+
+        it("Should reject non-timelock registry management", async function () {
+            await expect(factory.connect(user).registerImplementation(await implementationV2.getAddress()))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(user).setDefaultVersion(1))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(user).setVersionDeprecated(1, false))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+        });
+    });
+
     describe("Publisher Rotation", function () {
         let newPublisher: SignerWithAddress;
 
@@ -194,6 +342,15 @@ describe("RewardPoolFactory", function () {
             newPublisher = user;
         });
 
+        async function signDigest(signer: SignerWithAddress) {
+            const domain = { name: "Test", version: "1", chainId: 31337, verifyingContract: await factory.getAddress() };
+            const types = { Message: [{ name: "value", type: "uint256" }] };
+            return {
+                digest: ethers.TypedDataEncoder.hash(domain, types, { value: 1 }),
+                signature: await signer.signTypedData(domain, types, { value: 1 })
+            };
+        }
+
         it("Should initiate publisher rotation with immediate overlap", async function () {
             const tx = await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
             const receipt = await tx.wait();
@@ -215,12 +372,173 @@ describe("RewardPoolFactory", function () {
                 .withArgs("publisher");
         });
 
-        it("Should reject rotation when one is already in progress", async function () {
+        it("Should keep several previous publishers in their grace periods", async function () {
             await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            await factory.connect(timelock).initiatePublisherRotation(creator.address);
+
+            const [current, old] = await factory.getPublisherInfo();
+            expect(current).to.equal(creator.address);
+            expect(old).to.equal(newPublisher.address);
+            for (const signer of [publisher, newPublisher, creator]) {
+                const { digest, signature } = await signDigest(signer);
+                expect(await factory.isValidPublisherSignature(digest, signature)).to.equal(true);
+            }
+            const { digest, signature } = await signDigest(treasury);
+            expect(await factory.isValidPublisherSignature(digest, signature)).to.equal(false);
+        });
 
+        it("Should limit the previous publishers in grace", async function () {
+            for (const signer of [newPublisher, creator, treasury]) {
+                await factory.connect(timelock).initiatePublisherRotation(signer.address);
+            }
+            await expect(factory.connect(timelock).initiatePublisherRotation(guardian.address))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("grace_publishers");
+
+            // Revoking the oldest one frees its place
+            await factory.connect(timelock).revokePublisher(publisher.address);
+            await factory.connect(timelock).initiatePublisherRotation(guardian.address);
+            expect(await factory.publisher()).to.equal(guardian.address);
+        });
+
+        it("Should schedule publisher rotation", async function () {
+            const activation = (await time.latest()) + 24 * 60 * 60;
+            await expect(factory.connect(timelock).schedulePublisherRotation(newPublisher.address, activation))
+                .to.emit(factory, "PublisherRotationScheduled")
+                .withArgs(publisher.address, newPublisher.address, activation);
+
+            // The current publisher signs alone until the activation
+            expect(await factory.publisher()).to.equal(newPublisher.address);
+            expect(await factory.getPublisherInfo()).to.deep.equal([publisher.address, ethers.ZeroAddress, 0n]);
+            const early = await signDigest(newPublisher);
+            expect(await factory.isValidPublisherSignature(early.digest, early.signature)).to.equal(false);
             await expect(factory.connect(timelock).initiatePublisherRotation(creator.address))
                 .to.be.revertedWithCustomError(factory, "AlreadyExists")
                 .withArgs("rotation");
+
+            await time.increaseTo(activation);
+            expect(await factory.getPublisherInfo()).to.deep.equal([
+                newPublisher.address,
+                publisher.address,
+                BigInt(activation + 7 * 24 * 60 * 60)
+            ]);
+            const late = await signDigest(newPublisher);
+            expect(await factory.isValidPublisherSignature(late.digest, late.signature)).to.equal(true);
+        });
+
+        it("Should reject activations in the past or too far ahead", async function () {
+            const now = await time.latest();
+            for (const activation of [now, now + 31 * 24 * 60 * 60]) {
+                await expect(factory.connect(timelock).schedulePublisherRotation(newPublisher.address, activation))
+                    .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                    .withArgs("activation");
+            }
+        });
+
+        it("Should cancel a scheduled rotation before its activation", async function () {
+            await factory.connect(timelock).schedulePublisherRotation(newPublisher.address, (await time.latest()) + 3600);
+
+            await expect(factory.connect(timelock).cancelPublisherRotation())
+                .to.emit(factory, "PublisherRotationCancelled")
+                .withArgs(publisher.address, newPublisher.address);
+
+            await time.increase(7200);
+            expect(await factory.publisher()).to.equal(publisher.address);
+            expect(await factory.getPublisherInfo()).to.deep.equal([publisher.address, ethers.ZeroAddress, 0n]);
+        });
+
+        it("Should revoke a previous publisher immediately", async function () {
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+
+            await expect(factory.connect(timelock).revokePublisher(publisher.address))
+                .to.emit(factory, "PublisherRevoked")
+                .withArgs(publisher.address);
+
+            expect(await factory.oldPublisher()).to.equal(ethers.ZeroAddress);
+            const { digest, signature } = await signDigest(publisher);
+            expect(await factory.isValidPublisherSignature(digest, signature)).to.equal(false);
+
+            // Neither the current publisher nor a revoked one can be revoked, nor restored
+            for (const key of [newPublisher.address, publisher.address]) {
+                await expect(factory.connect(timelock).revokePublisher(key))
+                    .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                    .withArgs("publisher");
+            }
+            await expect(factory.connect(timelock).cancelPublisherRotation())
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("grace_period");
+        });
+
+        it("Should let the guardian revoke every publisher key at once", async function () {
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+
+            await expect(factory.connect(creator).emergencyRevokePublishers())
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("guardian");
+            await expect(factory.connect(guardian).emergencyRevokePublishers())
+                .to.emit(factory, "PublisherRevoked")
+                .withArgs(newPublisher.address)
+                .and.to.emit(factory, "PublisherRevoked")
+                .withArgs(publisher.address)
+                .and.to.emit(factory, "PublisherEmergencyRevoked")
+                .withArgs(guardian.address, newPublisher.address);
+
+            expect(await factory.publisher()).to.equal(ethers.ZeroAddress);
+            expect(await factory.publisherRevocations()).to.equal(1);
+            expect(await factory.getPublisherInfo()).to.deep.equal([ethers.ZeroAddress, ethers.ZeroAddress, 0n]);
+            for (const key of [newPublisher, publisher]) {
+                const { digest, signature } = await signDigest(key);
+                expect(await factory.isValidPublisherSignature(digest, signature)).to.equal(false);
+            }
+            await expect(factory.connect(guardian).emergencyRevokePublishers())
+                .to.be.revertedWithCustomError(factory, "AlreadyExists")
+                .withArgs("revocation");
+            await expect(factory.connect(timelock).cancelPublisherRotation())
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("grace_period");
+
+            // The new publisher starts without grace for the revoked keys
+            await expect(factory.connect(timelock).initiatePublisherRotation(creator.address))
+                .to.emit(factory, "PublisherRotationInitiated")
+                .withArgs(ethers.ZeroAddress, creator.address, (await time.latest()) + 1);
+            expect(await factory.getPublisherInfo()).to.deep.equal([creator.address, ethers.ZeroAddress, 0n]);
+            const { digest, signature } = await signDigest(creator);
+            expect(await factory.isValidPublisherSignature(digest, signature)).to.equal(true);
+        });
+
+        it("Should drop a scheduled rotation on emergency revocation", async function () {
+            const activation = (await time.latest()) + 3600;
+            await factory.connect(timelock).schedulePublisherRotation(newPublisher.address, activation);
+
+            await expect(factory.connect(guardian).emergencyRevokePublishers())
+                .to.emit(factory, "PublisherEmergencyRevoked")
+                .withArgs(guardian.address, publisher.address);
+
+            await time.increaseTo(activation + 1);
+            expect(await factory.getPublisherInfo()).to.deep.equal([ethers.ZeroAddress, ethers.ZeroAddress, 0n]);
+            const { digest, signature } = await signDigest(newPublisher);
+            expect(await factory.isValidPublisherSignature(digest, signature)).to.equal(false);
+        });
+
+        it("Should record the publisher history", async function () {
+            const start = await time.latest();
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            const rotation = await time.latest();
+            await factory.connect(timelock).cancelPublisherRotation();
+            const cancellation = await time.latest();
+
+            const history = (await factory.getPublisherHistory()).map(record => [
+                record.publisher,
+                Number(record.activatedAt),
+                Number(record.retiredAt),
+                Number(record.graceEnd)
+            ]);
+            expect(history).to.deep.equal([
+                [publisher.address, history[0][1], rotation, cancellation],
+                [newPublisher.address, rotation, cancellation, cancellation],
+                [publisher.address, cancellation, 0, 0]
+            ]);
+            expect(history[0][1]).to.be.at.most(start);
         });
 
         it("Should cancel publisher rotation during grace period", async function () {
@@ -246,17 +564,242 @@ describe("RewardPoolFactory", function () {
                 .withArgs("grace_period");
         });
 
+        it("Should pick the publisher key active at a block time", async function () {
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            const rotation = BigInt(await time.latest());
+            const activation = rotation + 24n * 60n * 60n;
+            await factory.connect(timelock).schedulePublisherRotation(creator.address, activation);
+            const history = await fetchPublisherHistory(await factory.getAddress(), ethers.provider);
+            const held = [publisher.address, newPublisher.address, creator.address];
+
+            expect(selectPublisherKey(history, rotation - 1n, held)).to.equal(publisher.address);
+            expect(selectPublisherKey(history, activation - 1n, held)).to.equal(newPublisher.address);
+            expect(selectPublisherKey(history, activation, held)).to.equal(creator.address);
+            expect(publisherKeysAt(history, activation)).to.deep.equal({
+                current: creator.address,
+                grace: [
+                    { publisher: newPublisher.address, graceEnd: activation + 7n * 24n * 60n * 60n },
+                    { publisher: publisher.address, graceEnd: rotation + 7n * 24n * 60n * 60n }
+                ],
+                scheduled: null
+            });
+            expect(publisherKeysAt(history, rotation).scheduled).to.deep.equal({
+                publisher: creator.address,
+                activatedAt: activation
+            });
+
+            // Backends without the new key keep signing with a previous one during its grace period
+            expect(selectPublisherKey(history, activation, [publisher.address])).to.equal(publisher.address);
+            expect(() => selectPublisherKey(history, activation + 8n * 24n * 60n * 60n, [publisher.address])).to.throw(
+                "No held publisher key is accepted"
+            );
+        });
+
         it("Should reject non-timelock rotation operations", async function () {
             await expect(factory.connect(guardian).initiatePublisherRotation(newPublisher.address))
                 .to.be.revertedWithCustomError(factory, "Unauthorized")
                 .withArgs("timelock");
 
+            await expect(factory.connect(guardian).schedulePublisherRotation(newPublisher.address, 0))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+
+            await expect(factory.connect(guardian).revokePublisher(publisher.address))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+
             await expect(factory.connect(creator).cancelPublisherRotation())
                 .to.be.revertedWithCustomError(factory, "Unauthorized")
                 .withArgs("timelock");
         });
     });
 
+    describe("Publisher Threshold", function () {
+        let signers: string[];
+
+        beforeEach(async function () {
+            signers = [publisher.address, creator.address, user.address];
+            for (const signer of signers) {
+                await factory.connect(timelock).setPublisherSigner(signer, true);
+            }
+        });
+
+        it("Should allow timelock to manage the publisher set", async function () {
+            expect(await factory.publisherSignerCount()).to.equal(3);
+            expect(await factory.isPublisherSigner(creator.address)).to.be.true;
+
+            await expect(factory.connect(timelock).setPublisherThreshold(2))
+                .to.emit(factory, "PublisherThresholdUpdated")
+                .withArgs(0, 2);
+            await expect(factory.connect(timelock).setPublisherSigner(user.address, false))
+                .to.emit(factory, "PublisherSignerUpdated")
+                .withArgs(user.address, false);
+
+            expect(await factory.publisherSignerCount()).to.equal(2);
+            expect(await factory.isPublisherSigner(user.address)).to.be.false;
+        });
+
+        it("Should keep the threshold reachable", async function () {
+            await factory.connect(timelock).setPublisherThreshold(3);
+
+            await expect(factory.connect(timelock).setPublisherSigner(user.address, false))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("threshold");
+            await expect(factory.connect(timelock).setPublisherThreshold(4))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("threshold");
+            await expect(factory.connect(timelock).setPublisherThreshold(1))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("threshold");
+        });
+
+        it("Should reject invalid publisher set changes", async function () {
+            await expect(factory.connect(timelock).setPublisherSigner(creator.address, true))
+                .to.be.revertedWithCustomError(factory, "AlreadyExists")
+                .withArgs("signer");
+            await expect(factory.connect(timelock).setPublisherSigner(guardian.address, false))
+                .to.be.revertedWithCustomError(factory, "AlreadyExists")
+                .withArgs("signer");
+            await expect(factory.connect(timelock).setPublisherSigner(ethers.ZeroAddress, true))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("signer");
+            await expect(factory.connect(timelock).setThresholdLimits(ethers.ZeroAddress, 1, 1))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("token");
+        });
+
+        it("Should enforce limits only while a threshold is set", async function () {
+            const token = await testToken.getAddress();
+            await expect(factory.connect(timelock).setThresholdLimits(token, 100, 500))
+                .to.emit(factory, "ThresholdLimitsUpdated")
+                .withArgs(token, 100, 500);
+
+            let policy = await factory.getPublisherPolicy(token);
+            expect(policy.current).to.equal(publisher.address);
+            expect([policy.perClaimLimit, policy.perDayLimit]).to.deep.equal([0n, 0n]);
+
+            await factory.connect(timelock).setPublisherThreshold(2);
+            policy = await factory.getPublisherPolicy(token);
+            expect([policy.perClaimLimit, policy.perDayLimit]).to.deep.equal([100n, 500n]);
+        });
+
+        it("Should verify aggregated signatures of the publisher set", async function () {
+            await factory.connect(timelock).setPublisherThreshold(2);
+            const domain = { name: "Voucher", version: "1", chainId: 31337n, verifyingContract: await factory.getAddress() };
+            const types = { Voucher: [{ name: "id", type: "uint256" }] };
+            const digest = ethers.TypedDataEncoder.hash(domain, types, { id: 1n });
+            const sign = async (signer: SignerWithAddress) => ({
+                signer: signer.address,
+                signature: await signer.signTypedData(domain, types, { id: 1n })
+            });
+            const [a, b, outsider] = await Promise.all([sign(creator), sign(user), sign(guardian)]);
+
+            expect(await factory.isValidThresholdSignature(digest, encodeThresholdSignature([a, b]))).to.be.true;
+            expect(await factory.isValidThresholdSignature(digest, encodeThresholdSignature([a]))).to.be.false;
+            expect(await factory.isValidThresholdSignature(digest, encodeThresholdSignature([a, outsider]))).to.be.false;
+            expect(await factory.isValidThresholdSignature(digest, encodeThresholdSignature([a, { ...b, signature: a.signature }])))
+                .to.be.false;
+
+            // Unsorted and duplicated signers are rejected by the contract, not only by the encoder
+            const [first, second] = BigInt(a.signer) < BigInt(b.signer) ? [a, b] : [b, a];
+            const raw = (parts: typeof a[]) => ethers.AbiCoder.defaultAbiCoder().encode(
+                ["address[]", "bytes[]"],
+                [parts.map(p => p.signer), parts.map(p => p.signature)]
+            );
+            expect(await factory.isValidThresholdSignature(digest, raw([second, first]))).to.be.false;
+            expect(await factory.isValidThresholdSignature(digest, raw([first, first]))).to.be.false;
+            expect(() => encodeThresholdSignature([a, a])).to.throw("Duplicate signer");
+        });
+
+        it("Should reject non-timelock publisher set management", async function () {
+            await expect(factory.connect(guardian).setPublisherSigner(guardian.address, true))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(guardian).setPublisherThreshold(2))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(publisher).setThresholdLimits(await testToken.getAddress(), 1, 1))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+        });
+    });
+
+    describe("Fee Schedule", function () {
+        let pool: string;
+
+        beforeEach(async function () {
+            [pool] = await factory.predictPoolAddress(creator.address, await testToken.getAddress());
+        });
+
+        it("Should resolve the default fee", async function () {
+            expect(await factory.defaultFeeBps()).to.equal(1000);
+            expect(await factory.getFeeBps(pool, creator.address)).to.equal(1000);
+        });
+
+        it("Should allow timelock to update the default fee", async function () {
+            await expect(factory.connect(timelock).setDefaultFeeBps(750))
+                .to.emit(factory, "DefaultFeeUpdated")
+                .withArgs(1000, 750);
+
+            expect(await factory.getFeeBps(pool, creator.address)).to.equal(750);
+        });
+
+        it("Should prefer pool overrides over creator tiers over the default", async function () {
+            await expect(factory.connect(timelock).setFeeTier(1, 500, true))
+                .to.emit(factory, "FeeTierUpdated")
+                .withArgs(1, 500, true);
+            await expect(factory.connect(timelock).setCreatorFeeTier(creator.address, 1))
+                .to.emit(factory, "CreatorFeeTierUpdated")
+                .withArgs(creator.address, 1);
+
+            expect(await factory.getFeeBps(pool, creator.address)).to.equal(500);
+            expect(await factory.getFeeBps(pool, user.address)).to.equal(1000);
+
+            await expect(factory.connect(timelock).setPoolFeeOverride(pool, 100, true))
+                .to.emit(factory, "PoolFeeOverrideUpdated")
+                .withArgs(pool, 100, true);
+            expect(await factory.getFeeBps(pool, creator.address)).to.equal(100);
+
+            // Disabling falls back to the next level
+            await factory.connect(timelock).setPoolFeeOverride(pool, 100, false);
+            expect(await factory.getFeeBps(pool, creator.address)).to.equal(500);
+            await factory.connect(timelock).setFeeTier(1, 500, false);
+            expect(await factory.getFeeBps(pool, creator.address)).to.equal(1000);
+        });
+
+        it("Should reject fees above MAX_FEE_BPS and reserved tier 0", async function () {
+            const maxFeeBps = await factory.MAX_FEE_BPS();
+
+            await expect(factory.connect(timelock).setDefaultFeeBps(maxFeeBps + 1n))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("fee_bps");
+            await expect(factory.connect(timelock).setFeeTier(1, maxFeeBps + 1n, true))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("fee_bps");
+            await expect(factory.connect(timelock).setPoolFeeOverride(pool, maxFeeBps + 1n, true))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("fee_bps");
+            await expect(factory.connect(timelock).setFeeTier(0, 100, true))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("tier");
+        });
+
+        it("Should reject non-timelock fee management", async function () {
+            await expect(factory.connect(user).setDefaultFeeBps(0))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(user).setFeeTier(1, 0, true))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(creator).setCreatorFeeTier(creator.address, 1))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+            await expect(factory.connect(creator).setPoolFeeOverride(pool, 0, true))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("timelock");
+        });
+    });
+
     describe("Emergency Controls", function () {
         it("Should allow guardian to pause", async function () {
             await expect(factory.connect(guardian).pause())
@@ -349,7 +892,7 @@ describe("RewardPoolFactory", function () {
 
             await expect(factory.connect(creator).createAndFundPool(await testToken.getAddress(), fundingAmount))
                 .to.emit(factory, "PoolCreatedAndFunded")
-                .withArgs(creator.address, predicted, await testToken.getAddress(), salt, nonce, fundingAmount);
+                .withArgs(creator.address, predicted, await testToken.getAddress(), salt, nonce, fundingAmount, 1);
 
             // Verify pool balance
             expect(await testToken.balanceOf(predicted)).to.equal(fundingAmount);
@@ -383,8 +926,7 @@ describe("RewardPoolFactory", function () {
                 .withArgs("token");
         });
 
-        it("Should succeed with fee-on-transfer tokens (pool receives less)", async function () {
-            // Test with a mock token that fails transfers
+        it("Should reject fee-on-transfer tokens (pool would receive less)", async function () {
             const FeeOnTransferTokenFactory = await ethers.getContractFactory("FeeOnTransferToken");
             const feeToken = await FeeOnTransferTokenFactory.deploy("FeeToken", "FEE"); // 1% fee hardcoded
 
@@ -396,18 +938,10 @@ describe("RewardPoolFactory", function () {
             const fundingAmount = ethers.parseEther("100");
             await feeToken.connect(creator).approve(await factory.getAddress(), fundingAmount);
 
-            // Should succeed but pool receives less due to fee
-            const tx = await factory.connect(creator).createAndFundPool(await feeToken.getAddress(), fundingAmount);
-            const receipt = await tx.wait();
-
-            // Pool should exist and have balance (less than funding due to fee)
-            const factoryAddress = await factory.getAddress();
-            const createdEvent = factory.interface.parseLog(receipt!.logs.find(log => log.address === factoryAddress)!);
-            const poolAddress = createdEvent!.args.pool;
-
-            const poolBalance = await feeToken.balanceOf(poolAddress);
-            expect(poolBalance).to.be.lessThan(fundingAmount); // Due to 1% fee
-            expect(poolBalance).to.be.greaterThan(0); // But not zero
+            // Same received-amount check as pool funding
+            await expect(factory.connect(creator).createAndFundPool(await feeToken.getAddress(), fundingAmount))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("token_transfer");
         });
 
         it("Should reject create and fund when paused", async function () {
@@ -420,6 +954,385 @@ describe("RewardPoolFactory", function () {
         });
     });
 
+    describe("Batch Create and Fund", function () {
+        let testToken2: TestToken;
+
+        beforeEach(async function () {
+            const TestTokenFactory = await ethers.getContractFactory("TestToken");
+            testToken2 = await TestTokenFactory.deploy("Test Token 2", "TEST2", 6);
+            await factory.connect(timelock).setTokenAllowed(await testToken2.getAddress(), true);
+
+            await testToken.mint(creator.address, ethers.parseEther("1000"));
+            await testToken2.mint(creator.address, ethers.parseUnits("1000", 6));
+        });
+
+        async function signFactoryPermit(token: TestToken, value: bigint) {
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const domain = (await permitDomain(await token.getAddress(), ethers.provider))!;
+            const { v, r, s } = await signPermit(
+                creator,
+                await token.getAddress(),
+                domain,
+                await factory.getAddress(),
+                value,
+                deadline
+            );
+            return { token: await token.getAddress(), value, deadline, v, r, s };
+        }
+
+        it("Should create and fund every pool at the predicted addresses", async function () {
+            const pools = [
+                { token: await testToken.getAddress(), amount: ethers.parseEther("100") },
+                { token: await testToken2.getAddress(), amount: ethers.parseUnits("50", 6) },
+                { token: await testToken.getAddress(), amount: ethers.parseEther("25") }
+            ];
+            await testToken.connect(creator).approve(await factory.getAddress(), ethers.parseEther("125"));
+            await testToken2.connect(creator).approve(await factory.getAddress(), ethers.parseUnits("50", 6));
+
+            const predictions = await predictPoolBatch(factory, creator.address, pools.map((pool) => pool.token));
+            expect(await factory.connect(creator).createAndFundPools.staticCall(pools)).to.deep.equal(
+                predictions.map((prediction) => prediction.predicted)
+            );
+
+            const tx = factory.connect(creator).createAndFundPools(pools);
+            for (const [i, prediction] of predictions.entries()) {
+                await expect(tx)
+                    .to.emit(factory, "PoolCreatedAndFunded")
+                    .withArgs(
+                        creator.address,
+                        prediction.predicted,
+                        pools[i].token,
+                        prediction.salt,
+                        prediction.nonce,
+                        pools[i].amount,
+                        1
+                    );
+                const token = await ethers.getContractAt("TestToken", pools[i].token);
+                expect(await token.balanceOf(prediction.predicted)).to.equal(pools[i].amount);
+            }
+            expect(predictions.map((prediction) => prediction.nonce)).to.deep.equal([0n, 0n, 1n]);
+            expect(await factory.poolNonce(creator.address, await testToken.getAddress())).to.equal(2);
+        });
+
+        it("Should reject empty, oversized and zero-amount batches", async function () {
+            const pool = { token: await testToken.getAddress(), amount: 1n };
+
+            await expect(factory.connect(creator).createAndFundPools([]))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("batch_size");
+            await expect(factory.connect(creator).createAndFundPools(Array(51).fill(pool)))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("batch_size");
+            await expect(factory.connect(creator).createAndFundPools([{ ...pool, amount: 0n }]))
+                .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                .withArgs("amount");
+        });
+
+        it("Should revert the whole batch when a pool receives less than its amount", async function () {
+            const FeeOnTransferTokenFactory = await ethers.getContractFactory("FeeOnTransferToken");
+            const feeToken = await FeeOnTransferTokenFactory.deploy("FeeToken", "FEE");
+            await factory.connect(timelock).setTokenAllowed(await feeToken.getAddress(), true);
+            await feeToken.mint(creator.address, ethers.parseEther("1000"));
+            await feeToken.connect(creator).approve(await factory.getAddress(), ethers.parseEther("100"));
+            await testToken.connect(creator).approve(await factory.getAddress(), ethers.parseEther("100"));
+
+            await expect(
+                factory.connect(creator).createAndFundPools([
+                    { token: await testToken.getAddress(), amount: ethers.parseEther("100") },
+                    { token: await feeToken.getAddress(), amount: ethers.parseEther("100") }
+                ])
+            )
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("token_transfer");
+            expect(await factory.poolNonce(creator.address, await testToken.getAddress())).to.equal(0);
+        });
+
+        it("Should create and fund with permits instead of approvals", async function () {
+            const pools = [
+                { token: await testToken.getAddress(), amount: ethers.parseEther("60") },
+                { token: await testToken.getAddress(), amount: ethers.parseEther("40") },
+                { token: await testToken2.getAddress(), amount: ethers.parseUnits("10", 6) }
+            ];
+            const permits = [
+                await signFactoryPermit(testToken, ethers.parseEther("100")),
+                await signFactoryPermit(testToken2, ethers.parseUnits("10", 6))
+            ];
+
+            await factory.connect(creator).createAndFundPoolsWithPermit(pools, permits);
+
+            expect(await factory.poolNonce(creator.address, await testToken.getAddress())).to.equal(2);
+            expect(await testToken.allowance(creator.address, await factory.getAddress())).to.equal(0);
+        });
+
+        it("Should accept a front-run permit but reject a missing allowance", async function () {
+            const pools = [{ token: await testToken.getAddress(), amount: ethers.parseEther("100") }];
+            const permit = await signFactoryPermit(testToken, ethers.parseEther("100"));
+
+            // Someone submits the permit first: the allowance is already set
+            await testToken.permit(
+                creator.address,
+                await factory.getAddress(),
+                permit.value,
+                permit.deadline,
+                permit.v,
+                permit.r,
+                permit.s
+            );
+            await factory.connect(creator).createAndFundPoolsWithPermit(pools, [permit]);
+
+            await expect(factory.connect(creator).createAndFundPoolsWithPermit(pools, [permit]))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("permit");
+        });
+
+        it("Should reject batches when paused", async function () {
+            await factory.connect(guardian).pause();
+
+            await expect(
+                factory.connect(creator).createAndFundPools([{ token: await testToken.getAddress(), amount: 1n }])
+            ).to.be.revertedWithCustomError(factory, "EnforcedPause");
+        });
+    });
+
+    describe("Permit2 Create and Fund", function () {
+        let plainToken: TestToken;
+
+        beforeEach(async function () {
+            await installLocalPermit2(timelock, ethers.provider);
+
+            // Token without EIP-2612 (approves Permit2 once instead of the factory)
+            const PlainTokenFactory = await ethers.getContractFactory("PlainToken");
+            plainToken = (await PlainTokenFactory.deploy("Plain Token", "PLAIN")) as unknown as TestToken;
+            await factory.connect(timelock).setTokenAllowed(await plainToken.getAddress(), true);
+
+            for (const token of [testToken, plainToken]) {
+                await token.mint(creator.address, ethers.parseEther("1000"));
+                await token.connect(creator).approve(PERMIT2_ADDRESS, ethers.MaxUint256);
+            }
+        });
+
+        async function permitFor(permitted: Array<{ token: string; amount: bigint }>) {
+            return {
+                permitted,
+                nonce: await nextPermit2Nonce(creator.address, ethers.provider),
+                deadline: BigInt(await time.latest()) + 3600n
+            };
+        }
+
+        it("Should create a pool funded through a Permit2 signature", async function () {
+            const amount = ethers.parseEther("100");
+            const permit = await permitFor([{ token: await plainToken.getAddress(), amount }]);
+            const single = { permitted: permit.permitted[0], nonce: permit.nonce, deadline: permit.deadline };
+            const signature = await signPermit2Transfer(creator, single, await factory.getAddress());
+            const [predicted, salt] = await factory.predictPoolAddress(creator.address, await plainToken.getAddress());
+
+            await expect(factory.connect(creator).createAndFundPoolWithPermit2(single, signature))
+                .to.emit(factory, "PoolCreatedAndFunded")
+                .withArgs(creator.address, predicted, await plainToken.getAddress(), salt, 0, amount, 1);
+
+            expect(await plainToken.balanceOf(predicted)).to.equal(amount);
+            expect(await plainToken.allowance(creator.address, await factory.getAddress())).to.equal(0);
+        });
+
+        it("Should create a batch funded through one Permit2 signature", async function () {
+            const pools = [
+                { token: await plainToken.getAddress(), amount: ethers.parseEther("100") },
+                { token: await testToken.getAddress(), amount: ethers.parseEther("50") },
+                { token: await plainToken.getAddress(), amount: ethers.parseEther("25") }
+            ];
+            const permit = await permitFor(pools);
+            const signature = await signPermit2BatchTransfer(creator, permit, await factory.getAddress());
+
+            const predictions = await predictPoolBatch(factory, creator.address, pools.map((pool) => pool.token));
+            const tx = factory.connect(creator).createAndFundPoolsWithPermit2(permit, signature);
+            for (const [i, prediction] of predictions.entries()) {
+                await expect(tx)
+                    .to.emit(factory, "PoolCreatedAndFunded")
+                    .withArgs(
+                        creator.address,
+                        prediction.predicted,
+                        pools[i].token,
+                        prediction.salt,
+                        prediction.nonce,
+                        pools[i].amount,
+                        1
+                    );
+                const token = await ethers.getContractAt("TestToken", pools[i].token);
+                expect(await token.balanceOf(prediction.predicted)).to.equal(pools[i].amount);
+            }
+        });
+
+        it("Should reject signatures for another spender and replays", async function () {
+            const permit = await permitFor([{ token: await plainToken.getAddress(), amount: ethers.parseEther("10") }]);
+            const permit2 = await ethers.getContractAt("MockPermit2", PERMIT2_ADDRESS);
+
+            const forUser = await signPermit2BatchTransfer(creator, permit, user.address);
+            await expect(
+                factory.connect(creator).createAndFundPoolsWithPermit2(permit, forUser)
+            ).to.be.revertedWithCustomError(permit2, "InvalidSigner");
+
+            const signature = await signPermit2BatchTransfer(creator, permit, await factory.getAddress());
+            await factory.connect(creator).createAndFundPoolsWithPermit2(permit, signature);
+            await expect(
+                factory.connect(creator).createAndFundPoolsWithPermit2(permit, signature)
+            ).to.be.revertedWithCustomError(permit2, "InvalidNonce");
+        });
+
+        it("Should reject empty batches, zero amounts and tokens outside the allow-list", async function () {
+            const TestTokenFactory = await ethers.getContractFactory("TestToken");
+            const other = await TestTokenFactory.deploy("Other", "OTHER", 18);
+
+            for (const [permitted, param] of [
+                [[], "batch_size"],
+                [[{ token: await plainToken.getAddress(), amount: 0n }], "amount"],
+                [[{ token: await other.getAddress(), amount: 1n }], "token"]
+            ] as const) {
+                const permit = await permitFor([...permitted]);
+                const signature = await signPermit2BatchTransfer(creator, permit, await factory.getAddress());
+                await expect(factory.connect(creator).createAndFundPoolsWithPermit2(permit, signature))
+                    .to.be.revertedWithCustomError(factory, "InvalidParameter")
+                    .withArgs(param);
+            }
+        });
+
+        it("Should reject fee-on-transfer tokens (pool would receive less)", async function () {
+            const FeeOnTransferTokenFactory = await ethers.getContractFactory("FeeOnTransferToken");
+            const feeToken = await FeeOnTransferTokenFactory.deploy("FeeToken", "FEE");
+            await factory.connect(timelock).setTokenAllowed(await feeToken.getAddress(), true);
+            await feeToken.mint(creator.address, ethers.parseEther("1000"));
+            await feeToken.connect(creator).approve(PERMIT2_ADDRESS, ethers.MaxUint256);
+
+            const permit = await permitFor([{ token: await feeToken.getAddress(), amount: ethers.parseEther("100") }]);
+            const single = { permitted: permit.permitted[0], nonce: permit.nonce, deadline: permit.deadline };
+            const signature = await signPermit2Transfer(creator, single, await factory.getAddress());
+
+            await expect(factory.connect(creator).createAndFundPoolWithPermit2(single, signature))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("token_transfer");
+        });
+    });
+
+    describe("Claim Authorizations", function () {
+        let deadline: bigint;
+
+        beforeEach(async function () {
+            deadline = BigInt(await time.latest()) + 3600n;
+        });
+
+        it("Should match the TypeScript type hash", async function () {
+            expect(await factory.CLAIM_AUTHORIZATION_TYPEHASH()).to.equal(CLAIM_AUTHORIZATION_TYPEHASH);
+        });
+
+        it("Should let an account set and reset its recipient directly", async function () {
+            expect(await factory.claimRecipient(user.address)).to.equal(user.address);
+
+            await expect(factory.connect(user).authorizeClaims(creator.address, ethers.ZeroAddress))
+                .to.emit(factory, "ClaimAuthorizationUpdated")
+                .withArgs(user.address, creator.address, ethers.ZeroAddress);
+            expect(await resolveClaimRecipient(await factory.getAddress(), user.address, ethers.provider))
+                .to.equal(creator.address);
+
+            await factory.connect(user).authorizeClaims(ethers.ZeroAddress, ethers.ZeroAddress);
+            expect(await factory.claimRecipient(user.address)).to.equal(user.address);
+        });
+
+        it("Should accept relayed EOA signatures once", async function () {
+            const data = await prepareClaimAuthorization(
+                await factory.getAddress(), user, user.address, creator.address, treasury.address, deadline
+            );
+            expect(await checkClaimAuthorization(data, ethers.provider)).to.be.undefined;
+
+            await expect(factory.connect(publisher).authorizeClaimsWithSig(
+                data.account, data.recipient, data.delegate, data.deadline, data.signature
+            ))
+                .to.emit(factory, "ClaimAuthorizationUpdated")
+                .withArgs(user.address, creator.address, treasury.address);
+            expect(await factory.claimAuthorizations(user.address)).to.deep.equal([creator.address, treasury.address]);
+            expect(await factory.nonces(user.address)).to.equal(1);
+
+            // Replay: the nonce was consumed
+            expect(await checkClaimAuthorization(data, ethers.provider)).to.be.a("string");
+            await expect(factory.authorizeClaimsWithSig(
+                data.account, data.recipient, data.delegate, data.deadline, data.signature
+            ))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("signature");
+        });
+
+        it("Should accept ERC-1271 signatures from smart wallets", async function () {
+            const WalletFactory = await ethers.getContractFactory("MockSmartWallet");
+            const wallet = await WalletFactory.deploy(user.address);
+            const walletAddress = await wallet.getAddress();
+
+            const data = await prepareClaimAuthorization(
+                await factory.getAddress(), user, walletAddress, creator.address, ethers.ZeroAddress, deadline
+            );
+            expect(await checkClaimAuthorization(data, ethers.provider)).to.be.undefined;
+
+            // Key rotation invalidates signatures made by the previous owner key
+            await wallet.connect(user).setOwner(treasury.address);
+            expect(await checkClaimAuthorization(data, ethers.provider)).to.be.a("string");
+            await expect(factory.authorizeClaimsWithSig(
+                data.account, data.recipient, data.delegate, data.deadline, data.signature
+            ))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("signature");
+
+            const rotated = await prepareClaimAuthorization(
+                await factory.getAddress(), treasury, walletAddress, creator.address, ethers.ZeroAddress, deadline
+            );
+            await expect(factory.authorizeClaimsWithSig(
+                rotated.account, rotated.recipient, rotated.delegate, rotated.deadline, rotated.signature
+            ))
+                .to.emit(factory, "ClaimAuthorizationUpdated")
+                .withArgs(walletAddress, creator.address, ethers.ZeroAddress);
+            expect(await factory.claimRecipient(walletAddress)).to.equal(creator.address);
+        });
+
+        it("Should reject expired and forged signatures", async function () {
+            const expired = await prepareClaimAuthorization(
+                await factory.getAddress(), user, user.address, creator.address, ethers.ZeroAddress,
+                BigInt(await time.latest()) - 1n
+            );
+            expect(await checkClaimAuthorization(expired, ethers.provider)).to.equal("Authorization expired");
+            await expect(factory.authorizeClaimsWithSig(
+                expired.account, expired.recipient, expired.delegate, expired.deadline, expired.signature
+            ))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("deadline");
+
+            // Signed by someone other than the account
+            const forged = await prepareClaimAuthorization(
+                await factory.getAddress(), creator, user.address, creator.address, ethers.ZeroAddress, deadline
+            );
+            await expect(factory.authorizeClaimsWithSig(
+                forged.account, forged.recipient, forged.delegate, forged.deadline, forged.signature
+            ))
+                .to.be.revertedWithCustomError(factory, "SecurityViolation")
+                .withArgs("signature");
+        });
+
+        it("Should let only the account or its delegate change the recipient", async function () {
+            await factory.connect(user).authorizeClaims(creator.address, treasury.address);
+
+            await expect(factory.connect(treasury).setClaimRecipient(user.address, publisher.address))
+                .to.emit(factory, "ClaimAuthorizationUpdated")
+                .withArgs(user.address, publisher.address, treasury.address);
+            expect(await factory.claimRecipient(user.address)).to.equal(publisher.address);
+
+            await expect(factory.connect(creator).setClaimRecipient(user.address, creator.address))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("delegate");
+
+            // Without a delegate only the account itself can change the recipient
+            await factory.connect(user).setClaimRecipient(user.address, ethers.ZeroAddress);
+            await factory.connect(user).authorizeClaims(creator.address, ethers.ZeroAddress);
+            await expect(factory.connect(treasury).setClaimRecipient(user.address, treasury.address))
+                .to.be.revertedWithCustomError(factory, "Unauthorized")
+                .withArgs("delegate");
+        });
+    });
+
     describe("Gas Benchmarks", function () {
         beforeEach(async function () {
             // Mint tokens to creator for funding tests
@@ -430,9 +1343,9 @@ describe("RewardPoolFactory", function () {
             const tx = await factory.connect(creator).createPool(await testToken.getAddress());
             const receipt = await tx.wait();
 
-            // Target: < 320k gas for pool creation (adjusted for creator parameter)
+            // Target: < 342k gas for pool creation (adjusted for creator parameter and the isPool registry write)
             console.log(`Pool creation gas used: ${receipt!.gasUsed.toString()}`);
-            expect(receipt!.gasUsed).to.be.lessThan(320000);
+            expect(receipt!.gasUsed).to.be.lessThan(342000);
         });
 
         it("Should benchmark create and fund pool gas efficiency", async function () {
@@ -442,9 +1355,10 @@ describe("RewardPoolFactory", function () {
             const tx = await factory.connect(creator).createAndFundPool(await testToken.getAddress(), fundingAmount);
             const receipt = await tx.wait();
 
-            // Target: < 355k gas for create+fund (should be more efficient than separate operations)
+            // Target: < 380k gas for create+fund (should be more efficient than separate operations; includes the
+            // isPool registry write)
             console.log(`Create and fund gas used: ${receipt!.gasUsed.toString()}`);
-            expect(receipt!.gasUsed).to.be.lessThan(355000);
+            expect(receipt!.gasUsed).to.be.lessThan(380000);
         });
     });
 });
\ No newline at end of file
@@ -4,10 +4,37 @@ import {
     RewardPoolFactory,
     RewardPoolImplementation,
     TestToken,
-    ClaimRouter
+    ClaimRouter,
+    MockSmartWallet
 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { buildMerkleDistribution } from "../scripts/utils/merkle-distribution";
+import { fetchFeeQuote, quoteClaimFee } from "../scripts/utils/fee-quote";
+import {
+    buildClaimDomain,
+    computeClaimDigest,
+    isValidPublisherSignature,
+    signLiability
+} from "../scripts/utils/claim-signing";
+import { computeSolvency, fetchPoolSolvency } from "../scripts/utils/solvency";
+import { PERMIT2_ADDRESS, installLocalPermit2, nextPermit2Nonce, signPermit2Transfer } from "../scripts/utils/permit2";
+import {
+    EMPTY_VESTING_BALANCE,
+    applyVestingGrant,
+    fetchVestingState,
+    sampleTimestamps,
+    simulateUnlockCurve
+} from "../scripts/utils/vesting";
+import {
+    PublisherSignerBackend,
+    decodeThresholdSignature,
+    requiresThresholdSignature,
+    signThresholdClaim,
+    signThresholdLiability,
+    signerBackend,
+    smartAccountBackend
+} from "../scripts/utils/threshold-signing";
 
 describe("RewardPoolImplementation", function () {
     let factory: RewardPoolFactory;
@@ -160,6 +187,69 @@ describe("RewardPoolImplementation", function () {
             )).to.be.revertedWithCustomError(vault, "SecurityViolation")
                 .withArgs("permit");
         });
+
+        describe("Permit2", function () {
+            beforeEach(async function () {
+                await installLocalPermit2(owner, ethers.provider);
+                await testToken.connect(funder).approve(PERMIT2_ADDRESS, ethers.MaxUint256);
+            });
+
+            it("Should fund with a Permit2 signature", async function () {
+                const deadline = BigInt(await time.latest() + 3600);
+                const nonce = await nextPermit2Nonce(funder.address, ethers.provider);
+                const permit = { permitted: { token: await testToken.getAddress(), amount: FUND_AMOUNT }, nonce, deadline };
+                const signature = await signPermit2Transfer(funder, permit, await vault.getAddress());
+
+                await expect(vault.connect(funder).fundWithPermit2(FUND_AMOUNT, nonce, deadline, signature))
+                    .to.emit(vault, "Funded")
+                    .withArgs(funder.address, await testToken.getAddress(), FUND_AMOUNT);
+
+                expect(await testToken.balanceOf(await vault.getAddress())).to.equal(FUND_AMOUNT);
+            });
+
+            it("Should reject replayed, mis-addressed and mis-priced Permit2 signatures", async function () {
+                const permit2 = await ethers.getContractAt("MockPermit2", PERMIT2_ADDRESS);
+                await testToken.mint(funder.address, FUND_AMOUNT);
+                const deadline = BigInt(await time.latest() + 3600);
+                const nonce = await nextPermit2Nonce(funder.address, ethers.provider);
+                const permit = { permitted: { token: await testToken.getAddress(), amount: FUND_AMOUNT }, nonce, deadline };
+
+                // Signed for another spender
+                const forFactory = await signPermit2Transfer(funder, permit, await factory.getAddress());
+                await expect(vault.connect(funder).fundWithPermit2(FUND_AMOUNT, nonce, deadline, forFactory))
+                    .to.be.revertedWithCustomError(permit2, "InvalidSigner");
+
+                // Signed for another amount
+                const signature = await signPermit2Transfer(funder, permit, await vault.getAddress());
+                await expect(vault.connect(funder).fundWithPermit2(FUND_AMOUNT / 2n, nonce, deadline, signature))
+                    .to.be.revertedWithCustomError(permit2, "InvalidSigner");
+
+                // Replay of a used nonce
+                await vault.connect(funder).fundWithPermit2(FUND_AMOUNT, nonce, deadline, signature);
+                await expect(vault.connect(funder).fundWithPermit2(FUND_AMOUNT, nonce, deadline, signature))
+                    .to.be.revertedWithCustomError(permit2, "InvalidNonce");
+            });
+
+            it("Should reject fee-on-transfer tokens funded through Permit2", async function () {
+                const FeeTokenFactory = await ethers.getContractFactory("FeeOnTransferToken");
+                const feeToken = await FeeTokenFactory.deploy("FeeToken", "FEE");
+                await factory.connect(timelock).setTokenAllowed(await feeToken.getAddress(), true);
+                const [feeVaultAddress] = await factory.predictPoolAddress(creator.address, await feeToken.getAddress());
+                await factory.connect(creator).createPool(await feeToken.getAddress());
+                const feeVault = await ethers.getContractAt("RewardPoolImplementation", feeVaultAddress);
+
+                await feeToken.mint(funder.address, FUND_AMOUNT);
+                await feeToken.connect(funder).approve(PERMIT2_ADDRESS, FUND_AMOUNT);
+                const deadline = BigInt(await time.latest() + 3600);
+                const nonce = await nextPermit2Nonce(funder.address, ethers.provider);
+                const permit = { permitted: { token: await feeToken.getAddress(), amount: FUND_AMOUNT }, nonce, deadline };
+                const signature = await signPermit2Transfer(funder, permit, feeVaultAddress);
+
+                await expect(feeVault.connect(funder).fundWithPermit2(FUND_AMOUNT, nonce, deadline, signature))
+                    .to.be.revertedWithCustomError(feeVault, "SecurityViolation")
+                    .withArgs("token_transfer");
+            });
+        });
     });
 
     describe("Claims with EIP-712", function () {
@@ -184,7 +274,7 @@ describe("RewardPoolImplementation", function () {
                 CLAIM_AMOUNT
             );
 
-            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, signature))
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
                 .to.emit(vault, "ClaimedMinimal")
                 .withArgs(claimer.address, await testToken.getAddress(), CLAIM_AMOUNT);
 
@@ -195,10 +285,26 @@ describe("RewardPoolImplementation", function () {
             expect(await testToken.balanceOf(treasury.address)).to.equal(EXPECTED_FEE);
         });
 
+        it("Should pay the recipient authorized by the account", async function () {
+            await factory.connect(claimer).authorizeClaims(funder.address, ethers.ZeroAddress);
+            const signature = await signClaim(publisher, vault, claimer.address, CLAIM_AMOUNT);
+
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                .to.emit(vault, "ClaimRedirected")
+                .withArgs(claimer.address, funder.address, EXPECTED_NET)
+                .and.to.emit(vault, "ClaimedMinimal")
+                .withArgs(claimer.address, await testToken.getAddress(), CLAIM_AMOUNT);
+
+            expect(await vault.alreadyClaimed(claimer.address)).to.equal(CLAIM_AMOUNT);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(0);
+            expect(await testToken.balanceOf(funder.address)).to.equal(EXPECTED_NET);
+            expect(await testToken.balanceOf(treasury.address)).to.equal(EXPECTED_FEE);
+        });
+
         it("Should handle cumulative claims correctly", async function () {
             // First claim: 100 tokens
             let signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
-            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, signature);
+            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature);
 
             // Second claim: cumulative 200 tokens (additional 100)
             const cumulativeAmount = CLAIM_AMOUNT * 2n;
@@ -210,7 +316,7 @@ describe("RewardPoolImplementation", function () {
             signature = await signClaim(publisher, await vault.getAddress(), claimer.address, cumulativeAmount);
 
             const initialBalance = await testToken.balanceOf(claimer.address);
-            await vault.payWithSig(claimer.address, cumulativeAmount, signature);
+            await vault.payWithSig(claimer.address, cumulativeAmount, 0, signature);
 
             expect(await vault.alreadyClaimed(claimer.address)).to.equal(cumulativeAmount);
             expect(await testToken.balanceOf(claimer.address)).to.equal(initialBalance + additionalNet);
@@ -221,8 +327,10 @@ describe("RewardPoolImplementation", function () {
         it("Should reject invalid signatures", async function () {
             const invalidSignature = "0x0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000";
 
-            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, invalidSignature))
-                .to.be.revertedWithCustomError(vault, "ECDSAInvalidSignature");
+            // Malformed signatures fall through to the ERC-1271 check and fail like any other wrong signer
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, invalidSignature))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("signature");
         });
 
         it("Should accept signatures from old publisher during grace period", async function () {
@@ -236,7 +344,7 @@ describe("RewardPoolImplementation", function () {
             const newSignature = await signClaim(newPublisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
 
             // Both should work during grace period
-            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, oldSignature))
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, oldSignature))
                 .to.emit(vault, "ClaimedMinimal");
 
             // Reset for second test
@@ -247,7 +355,7 @@ describe("RewardPoolImplementation", function () {
             const newClaimer = owner; // Use different address
             const newSignature2 = await signClaim(newPublisher, await vault.getAddress(), newClaimer.address, CLAIM_AMOUNT);
 
-            await expect(vault.payWithSig(newClaimer.address, CLAIM_AMOUNT, newSignature2))
+            await expect(vault.payWithSig(newClaimer.address, CLAIM_AMOUNT, 0, newSignature2))
                 .to.emit(vault, "ClaimedMinimal");
         });
 
@@ -260,29 +368,738 @@ describe("RewardPoolImplementation", function () {
 
             const oldSignature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
 
-            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, oldSignature))
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, oldSignature))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("signature");
+        });
+
+        it("Should switch to a scheduled publisher at its activation", async function () {
+            const activation = (await time.latest()) + 24 * 60 * 60;
+            await factory.connect(timelock).schedulePublisherRotation(newPublisher.address, activation);
+
+            const newSignature = await signClaim(newPublisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, newSignature))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("signature");
+
+            // Old publisher keeps signing until the activation, then during its grace period
+            await time.increaseTo(activation);
+            const oldSignature = await signClaim(publisher, await vault.getAddress(), owner.address, CLAIM_AMOUNT);
+            await expect(vault.payWithSig(owner.address, CLAIM_AMOUNT, 0, oldSignature))
+                .to.emit(vault, "ClaimedMinimal");
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, newSignature))
+                .to.emit(vault, "ClaimedMinimal");
+        });
+
+        it("Should reject a revoked publisher during its grace period", async function () {
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            await factory.connect(timelock).revokePublisher(publisher.address);
+
+            const oldSignature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
+
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, oldSignature))
                 .to.be.revertedWithCustomError(vault, "SecurityViolation")
                 .withArgs("signature");
         });
 
+        it("Should reject every voucher after an emergency revocation until a new publisher", async function () {
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            await factory.connect(guardian).emergencyRevokePublishers();
+
+            for (const key of [publisher, newPublisher]) {
+                const signature = await signClaim(key, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
+                await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("publisher_revoked");
+            }
+
+            await factory.connect(timelock).initiatePublisherRotation(owner.address);
+            const signature = await signClaim(owner, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                .to.emit(vault, "ClaimedMinimal");
+        });
+
+        describe("Smart-contract publishers", function () {
+            const GRACE_PERIOD = 7 * 24 * 60 * 60;
+            let wallet: MockSmartWallet;
+
+            beforeEach(async function () {
+                const WalletFactory = await ethers.getContractFactory("MockSmartWallet");
+                wallet = await WalletFactory.deploy(newPublisher.address);
+                await factory.connect(timelock).initiatePublisherRotation(await wallet.getAddress());
+                await time.increase(GRACE_PERIOD + 1);
+            });
+
+            it("Should accept ERC-1271 signatures from the publisher contract", async function () {
+                const signature = await signClaim(newPublisher, vault, claimer.address, CLAIM_AMOUNT);
+                const digest = computeClaimDigest(await claimDomain(), {
+                    account: claimer.address,
+                    cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0n
+                });
+                expect(await isValidPublisherSignature(await vault.getAddress(), digest, signature, ethers.provider))
+                    .to.be.true;
+
+                await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                    .to.emit(vault, "ClaimedMinimal")
+                    .withArgs(claimer.address, await testToken.getAddress(), CLAIM_AMOUNT);
+                expect(await testToken.balanceOf(claimer.address)).to.equal(EXPECTED_NET);
+            });
+
+            it("Should reject signatures the publisher contract no longer accepts", async function () {
+                await wallet.connect(newPublisher).setOwner(owner.address);
+                const signature = await signClaim(newPublisher, vault, claimer.address, CLAIM_AMOUNT);
+                const digest = computeClaimDigest(await claimDomain(), {
+                    account: claimer.address,
+                    cumulativeAmount: CLAIM_AMOUNT,
+                    deadline: 0n
+                });
+                expect(await isValidPublisherSignature(await vault.getAddress(), digest, signature, ethers.provider))
+                    .to.be.false;
+
+                await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("signature");
+            });
+
+            it("Should keep the grace period when rotating away from a publisher contract", async function () {
+                await factory.connect(timelock).initiatePublisherRotation(publisher.address);
+
+                // The contract is the old publisher: accepted during the grace period only
+                const signature = await signClaim(newPublisher, vault, claimer.address, CLAIM_AMOUNT);
+                await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                    .to.emit(vault, "ClaimedMinimal");
+
+                await time.increase(GRACE_PERIOD + 1);
+                const later = await signClaim(newPublisher, vault, claimer.address, CLAIM_AMOUNT * 2n);
+                await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT * 2n, 0, later))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("signature");
+                const current = await signClaim(publisher, vault, claimer.address, CLAIM_AMOUNT * 2n);
+                await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT * 2n, 0, current))
+                    .to.emit(vault, "ClaimedMinimal");
+            });
+
+            it("Should accept liabilities committed by the publisher contract", async function () {
+                const signature = await signLiability(newPublisher, await claimDomain(), CLAIM_AMOUNT);
+
+                await expect(vault.commitLiability(CLAIM_AMOUNT, signature))
+                    .to.emit(vault, "LiabilityCommitted")
+                    .withArgs(CLAIM_AMOUNT);
+            });
+
+            async function claimDomain() {
+                return buildClaimDomain((await ethers.provider.getNetwork()).chainId, await vault.getAddress());
+            }
+        });
+
+        describe("Publisher Threshold", function () {
+            const PER_CLAIM = CLAIM_AMOUNT;
+            const PER_DAY = CLAIM_AMOUNT * 5n / 2n;
+            let wallet: MockSmartWallet;
+            let backends: PublisherSignerBackend[];
+
+            beforeEach(async function () {
+                const WalletFactory = await ethers.getContractFactory("MockSmartWallet");
+                wallet = await WalletFactory.deploy(owner.address);
+
+                // 2-of-3 publisher set with a smart-account member
+                for (const signer of [newPublisher.address, guardian.address, await wallet.getAddress()]) {
+                    await factory.connect(timelock).setPublisherSigner(signer, true);
+                }
+                await factory.connect(timelock).setPublisherThreshold(2);
+                await factory.connect(timelock).setThresholdLimits(await testToken.getAddress(), PER_CLAIM, PER_DAY);
+
+                backends = [
+                    await signerBackend(newPublisher, "hsm"),
+                    smartAccountBackend(await wallet.getAddress(), owner, "safe")
+                ];
+            });
+
+            it("Should pay claims within the limits with the publisher signature", async function () {
+                const signature = await signClaim(publisher, vault, claimer.address, CLAIM_AMOUNT);
+
+                await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                    .to.emit(vault, "ClaimedMinimal");
+
+                const volume = await factory.singleSignerVolume(await testToken.getAddress());
+                expect(volume.day).to.equal(BigInt(await time.latest()) / 86400n);
+                expect(volume.amount).to.equal(CLAIM_AMOUNT);
+            });
+
+            it("Should require the publisher set above the per-claim limit", async function () {
+                const amount = PER_CLAIM + 1n;
+                expect(await requiresThresholdSignature(await vault.getAddress(), claimer.address, amount, ethers.provider))
+                    .to.be.true;
+
+                const single = await signClaim(publisher, vault, claimer.address, amount);
+                await expect(vault.payWithSig(claimer.address, amount, 0, single))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("threshold");
+
+                const offline: PublisherSignerBackend = {
+                    name: "offline",
+                    address: guardian.address,
+                    signTypedData: async () => { throw new Error("unreachable"); }
+                };
+                const result = await signThresholdClaim(
+                    [...backends, offline],
+                    await claimDomain(),
+                    { account: claimer.address, cumulativeAmount: amount, deadline: 0n },
+                    2,
+                    ethers.provider
+                );
+                expect(result.failures).to.deep.equal([{ name: "offline", error: "unreachable" }]);
+                expect(decodeThresholdSignature(result.signature).map(part => part.signer)).to.deep.equal(result.signers);
+
+                await expect(vault.payWithSig(claimer.address, amount, 0, result.signature))
+                    .to.emit(vault, "ClaimedMinimal")
+                    .withArgs(claimer.address, await testToken.getAddress(), amount);
+                expect(await vault.alreadyClaimed(claimer.address)).to.equal(amount);
+            });
+
+            it("Should commit liabilities without spending the single-signer volume", async function () {
+                const token = await testToken.getAddress();
+
+                // The publisher set may still sign liabilities
+                const result = await signThresholdLiability(backends, await claimDomain(), FUND_AMOUNT / 2n, 2);
+                await expect(vault.commitLiability(FUND_AMOUNT / 2n, result.signature))
+                    .to.emit(vault, "LiabilityCommitted")
+                    .withArgs(FUND_AMOUNT / 2n);
+
+                // A pool-wide total above the per-claim limit needs only the publisher signature
+                const single = await signLiability(publisher, await claimDomain(), FUND_AMOUNT);
+                await expect(vault.commitLiability(FUND_AMOUNT, single))
+                    .to.emit(vault, "LiabilityCommitted")
+                    .withArgs(FUND_AMOUNT);
+                expect((await factory.singleSignerVolume(token)).amount).to.equal(0);
+
+                // Claims paying it out still get the whole daily limit on single signatures
+                const claims: Array<[string, bigint]> = [
+                    [claimer.address, PER_CLAIM],
+                    [funder.address, PER_CLAIM],
+                    [owner.address, PER_DAY - PER_CLAIM * 2n]
+                ];
+                for (const [account, amount] of claims) {
+                    const signature = await signClaim(publisher, vault, account, amount);
+                    await expect(vault.payWithSig(account, amount, 0, signature)).to.emit(vault, "ClaimedMinimal");
+                }
+                expect((await factory.singleSignerVolume(token)).amount).to.equal(PER_DAY);
+            });
+
+            it("Should reject aggregated signatures below the threshold or from outsiders", async function () {
+                const amount = PER_CLAIM * 2n;
+                const claim = { account: claimer.address, cumulativeAmount: amount, deadline: 0n };
+                const partial = await signThresholdClaim(backends.slice(0, 1), await claimDomain(), claim, 1);
+                await expect(vault.payWithSig(claimer.address, amount, 0, partial.signature))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("threshold");
+
+                const outsider = await signerBackend(claimer, "outsider");
+                const mixed = await signThresholdClaim([backends[0], outsider], await claimDomain(), claim, 2);
+                await expect(vault.payWithSig(claimer.address, amount, 0, mixed.signature))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("threshold");
+
+                // The smart account no longer accepts its former owner's signatures
+                await wallet.connect(owner).setOwner(funder.address);
+                let error: Error | undefined;
+                try {
+                    await signThresholdClaim(backends, await claimDomain(), claim, 2, ethers.provider);
+                } catch (e) {
+                    error = e as Error;
+                }
+                expect(error?.message).to.contain("Only 1 of 2 required signatures collected (safe: Invalid signature)");
+            });
+
+            it("Should enforce the daily limit and reset it the next day", async function () {
+                for (const account of [claimer.address, funder.address]) {
+                    const signature = await signClaim(publisher, vault, account, CLAIM_AMOUNT);
+                    await vault.payWithSig(account, CLAIM_AMOUNT, 0, signature);
+                }
+
+                // 200 paid today: another 100 exceeds the 250 daily limit
+                expect(await requiresThresholdSignature(await vault.getAddress(), owner.address, CLAIM_AMOUNT, ethers.provider))
+                    .to.be.true;
+                const signature = await signClaim(publisher, vault, owner.address, CLAIM_AMOUNT);
+                await expect(vault.payWithSig(owner.address, CLAIM_AMOUNT, 0, signature))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("threshold");
+
+                await time.increase(24 * 60 * 60);
+                expect(await requiresThresholdSignature(await vault.getAddress(), owner.address, CLAIM_AMOUNT, ethers.provider))
+                    .to.be.false;
+                await expect(vault.payWithSig(owner.address, CLAIM_AMOUNT, 0, signature))
+                    .to.emit(vault, "ClaimedMinimal");
+                expect((await factory.singleSignerVolume(await testToken.getAddress())).amount).to.equal(CLAIM_AMOUNT);
+            });
+
+            it("Should share the daily limit between every pool of the factory", async function () {
+                const token = await testToken.getAddress();
+                const [vault2Address] = await factory.predictPoolAddress(creator.address, token);
+                await factory.connect(creator).createPool(token);
+                const vault2 = await ethers.getContractAt("RewardPoolImplementation", vault2Address);
+                await testToken.mint(funder.address, FUND_AMOUNT);
+                await testToken.connect(funder).approve(vault2Address, FUND_AMOUNT);
+                await vault2.connect(funder).fund(FUND_AMOUNT);
+
+                // 100 in each pool, then another 100 in the second one exceeds the 250 daily limit
+                await vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, await signClaim(publisher, vault, claimer.address, CLAIM_AMOUNT));
+                await vault2.payWithSig(claimer.address, CLAIM_AMOUNT, 0, await signClaim(publisher, vault2, claimer.address, CLAIM_AMOUNT));
+                expect(await requiresThresholdSignature(vault2Address, funder.address, CLAIM_AMOUNT, ethers.provider))
+                    .to.be.true;
+                const signature = await signClaim(publisher, vault2, funder.address, CLAIM_AMOUNT);
+                await expect(vault2.payWithSig(funder.address, CLAIM_AMOUNT, 0, signature))
+                    .to.be.revertedWithCustomError(vault2, "SecurityViolation")
+                    .withArgs("threshold");
+                expect((await factory.singleSignerVolume(token)).amount).to.equal(CLAIM_AMOUNT * 2n);
+
+                // Only the factory's pools count in the volume
+                await expect(factory.connect(claimer).spendSingleSignerVolume(token, CLAIM_AMOUNT))
+                    .to.be.revertedWithCustomError(factory, "Unauthorized")
+                    .withArgs("pool");
+            });
+
+            it("Should reject Merkle claims above the limits", async function () {
+                const amount = PER_CLAIM * 2n;
+                const distribution = buildMerkleDistribution(
+                    await vault.getAddress(),
+                    (await ethers.provider.getNetwork()).chainId,
+                    1,
+                    [{ account: claimer.address, cumulativeAmount: amount }]
+                );
+                await vault.connect(publisher).setMerkleRoot(distribution.root, 1);
+
+                await expect(vault.claimWithProof(claimer.address, amount, distribution.claims[claimer.address].proof))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("threshold");
+            });
+
+            it("Should not limit claims while no threshold is set", async function () {
+                await factory.connect(timelock).setPublisherThreshold(0);
+                const amount = PER_CLAIM * 3n;
+                const signature = await signClaim(publisher, vault, claimer.address, amount);
+
+                expect(await requiresThresholdSignature(await vault.getAddress(), claimer.address, amount, ethers.provider))
+                    .to.be.false;
+                await expect(vault.payWithSig(claimer.address, amount, 0, signature))
+                    .to.emit(vault, "ClaimedMinimal");
+            });
+
+            async function claimDomain() {
+                return buildClaimDomain((await ethers.provider.getNetwork()).chainId, await vault.getAddress());
+            }
+        });
+
         it("Should prevent duplicate claims", async function () {
             const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
 
-            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, signature);
+            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature);
 
             // Try to claim same amount again
-            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, signature))
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
                 .to.be.revertedWithCustomError(vault, "AlreadyExists")
                 .withArgs("claim");
         });
 
+        it("Should accept signatures before their deadline", async function () {
+            const deadline = BigInt(await time.latest() + 3600);
+            const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT, deadline);
+
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, deadline, signature))
+                .to.emit(vault, "ClaimedMinimal")
+                .withArgs(claimer.address, await testToken.getAddress(), CLAIM_AMOUNT);
+        });
+
+        it("Should reject expired signatures", async function () {
+            const deadline = BigInt(await time.latest() + 3600);
+            const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT, deadline);
+
+            await time.increase(3601);
+
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, deadline, signature))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("deadline");
+        });
+
+        it("Should reject signatures with a tampered deadline", async function () {
+            const deadline = BigInt(await time.latest() + 3600);
+            const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT, deadline);
+
+            // Stripping the deadline (0 = no expiry) must not be possible without the publisher
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("signature");
+        });
+
         it("Should reject claims with insufficient vault balance", async function () {
             const largeAmount = FUND_AMOUNT + ethers.parseUnits("1", 18);
             const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, largeAmount);
 
-            await expect(vault.payWithSig(claimer.address, largeAmount, signature))
+            await expect(vault.payWithSig(claimer.address, largeAmount, 0, signature))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("balance");
+        });
+    });
+
+    describe("Merkle Distribution", function () {
+        const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+        const CLAIM_AMOUNT = ethers.parseUnits("100", 18);
+        const FEE_BPS = 1000n; // 10%
+
+        beforeEach(async function () {
+            await testToken.mint(funder.address, FUND_AMOUNT);
+            await testToken.connect(funder).approve(await vault.getAddress(), FUND_AMOUNT);
+            await vault.connect(funder).fund(FUND_AMOUNT);
+        });
+
+        async function postDistribution(epoch: number, entries: { account: string; cumulativeAmount: bigint }[]) {
+            const chainId = (await ethers.provider.getNetwork()).chainId;
+            const distribution = buildMerkleDistribution(await vault.getAddress(), chainId, epoch, entries);
+            await vault.connect(publisher).setMerkleRoot(distribution.root, epoch);
+            return distribution;
+        }
+
+        it("Should allow the publisher to post a root", async function () {
+            const chainId = (await ethers.provider.getNetwork()).chainId;
+            const distribution = buildMerkleDistribution(await vault.getAddress(), chainId, 1, [
+                { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT }
+            ]);
+
+            await expect(vault.connect(publisher).setMerkleRoot(distribution.root, 1))
+                .to.emit(vault, "MerkleRootUpdated")
+                .withArgs(1, distribution.root);
+
+            expect(await vault.merkleRoot()).to.equal(distribution.root);
+            expect(await vault.merkleEpoch()).to.equal(1);
+        });
+
+        it("Should reject roots from non-publishers", async function () {
+            await expect(vault.connect(creator).setMerkleRoot(ethers.id("root"), 1))
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("publisher");
+        });
+
+        it("Should reject non-increasing epochs and empty roots", async function () {
+            await vault.connect(publisher).setMerkleRoot(ethers.id("root"), 2);
+
+            await expect(vault.connect(publisher).setMerkleRoot(ethers.id("root2"), 2))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("epoch");
+            await expect(vault.connect(publisher).setMerkleRoot(ethers.ZeroHash, 3))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("merkle_root");
+        });
+
+        it("Should pay claims with a valid proof", async function () {
+            const distribution = await postDistribution(1, [
+                { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT },
+                { account: owner.address, cumulativeAmount: CLAIM_AMOUNT * 2n },
+                { account: funder.address, cumulativeAmount: CLAIM_AMOUNT * 3n }
+            ]);
+            const { proof } = distribution.claims[claimer.address];
+            const expectedFee = CLAIM_AMOUNT * FEE_BPS / 10000n;
+
+            await expect(vault.claimWithProof(claimer.address, CLAIM_AMOUNT, proof))
+                .to.emit(vault, "ClaimedMinimal")
+                .withArgs(claimer.address, await testToken.getAddress(), CLAIM_AMOUNT);
+
+            expect(await vault.alreadyClaimed(claimer.address)).to.equal(CLAIM_AMOUNT);
+            expect(await vault.alreadyFeePaid(claimer.address)).to.equal(expectedFee);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(CLAIM_AMOUNT - expectedFee);
+        });
+
+        it("Should pay only the delta across epochs and share accounting with payWithSig", async function () {
+            const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
+            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature);
+
+            const distribution = await postDistribution(2, [
+                { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT * 3n },
+                { account: owner.address, cumulativeAmount: CLAIM_AMOUNT }
+            ]);
+
+            await vault.claimWithProof(claimer.address, CLAIM_AMOUNT * 3n, distribution.claims[claimer.address].proof);
+
+            expect(await vault.alreadyClaimed(claimer.address)).to.equal(CLAIM_AMOUNT * 3n);
+            expect(await vault.alreadyFeePaid(claimer.address)).to.equal(CLAIM_AMOUNT * 3n * FEE_BPS / 10000n);
+            expect(await vault.globalAlreadyClaimed()).to.equal(CLAIM_AMOUNT * 3n);
+        });
+
+        it("Should reject invalid proofs and replays", async function () {
+            const distribution = await postDistribution(1, [
+                { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT },
+                { account: owner.address, cumulativeAmount: CLAIM_AMOUNT * 2n }
+            ]);
+            const { proof } = distribution.claims[claimer.address];
+
+            await expect(vault.claimWithProof(claimer.address, CLAIM_AMOUNT * 2n, proof))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("proof");
+
+            await vault.claimWithProof(claimer.address, CLAIM_AMOUNT, proof);
+            await expect(vault.claimWithProof(claimer.address, CLAIM_AMOUNT, proof))
+                .to.be.revertedWithCustomError(vault, "AlreadyExists")
+                .withArgs("claim");
+        });
+
+        it("Should reject proof claims after an emergency revocation", async function () {
+            const distribution = await postDistribution(1, [
+                { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT }
+            ]);
+            const { proof } = distribution.claims[claimer.address];
+            await factory.connect(guardian).emergencyRevokePublishers();
+
+            await expect(vault.claimWithProof(claimer.address, CLAIM_AMOUNT, proof))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("publisher_revoked");
+            await expect(vault.connect(publisher).setMerkleRoot(ethers.id("root"), 2))
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("publisher");
+
+            // The root of the revoked key stays rejected under the new publisher until it posts its own
+            await factory.connect(timelock).initiatePublisherRotation(newPublisher.address);
+            await expect(vault.claimWithProof(claimer.address, CLAIM_AMOUNT, proof))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("publisher_revoked");
+
+            const chainId = (await ethers.provider.getNetwork()).chainId;
+            const reposted = buildMerkleDistribution(await vault.getAddress(), chainId, 2, [
+                { account: claimer.address, cumulativeAmount: CLAIM_AMOUNT }
+            ]);
+            await vault.connect(newPublisher).setMerkleRoot(reposted.root, 2);
+            expect(await vault.merkleRootRevocations()).to.equal(1);
+            await expect(vault.claimWithProof(claimer.address, CLAIM_AMOUNT, reposted.claims[claimer.address].proof))
+                .to.emit(vault, "ClaimedMinimal");
+        });
+
+        it("Should reject proof claims before any root is posted", async function () {
+            await expect(vault.claimWithProof(claimer.address, CLAIM_AMOUNT, []))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("merkle_root");
+        });
+    });
+
+    describe("Fee Schedule", function () {
+        const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+        const CLAIM_AMOUNT = ethers.parseUnits("100", 18);
+
+        beforeEach(async function () {
+            await testToken.mint(funder.address, FUND_AMOUNT);
+            await testToken.connect(funder).approve(await vault.getAddress(), FUND_AMOUNT);
+            await vault.connect(funder).fund(FUND_AMOUNT);
+        });
+
+        async function claim(cumulativeAmount: bigint) {
+            const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, cumulativeAmount);
+            await vault.payWithSig(claimer.address, cumulativeAmount, 0, signature);
+        }
+
+        it("Should charge the factory default fee", async function () {
+            expect(await vault.feeBps()).to.equal(1000);
+
+            await factory.connect(timelock).setDefaultFeeBps(500);
+            await claim(CLAIM_AMOUNT);
+
+            expect(await vault.feeBps()).to.equal(500);
+            expect(await testToken.balanceOf(treasury.address)).to.equal(CLAIM_AMOUNT * 500n / 10000n);
+        });
+
+        it("Should apply creator tiers and pool overrides", async function () {
+            await factory.connect(timelock).setFeeTier(1, 250, true);
+            await factory.connect(timelock).setCreatorFeeTier(creator.address, 1);
+            expect(await vault.feeBps()).to.equal(250);
+
+            await factory.connect(timelock).setPoolFeeOverride(await vault.getAddress(), 0, true);
+            await claim(CLAIM_AMOUNT);
+
+            expect(await vault.alreadyFeePaid(claimer.address)).to.equal(0);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(CLAIM_AMOUNT);
+        });
+
+        it("Should charge the new rate only on amounts claimed after a change", async function () {
+            await claim(CLAIM_AMOUNT);
+            await factory.connect(timelock).setDefaultFeeBps(2000);
+            await claim(CLAIM_AMOUNT * 2n);
+
+            const expectedFees = CLAIM_AMOUNT * 1000n / 10000n + CLAIM_AMOUNT * 2000n / 10000n;
+            expect(await vault.alreadyFeePaid(claimer.address)).to.equal(expectedFees);
+            expect(await testToken.balanceOf(treasury.address)).to.equal(expectedFees);
+        });
+
+        it("Should keep cumulative fee precision across small claims", async function () {
+            // 19 wei at 10% rounds down to 1 wei per claim, but cumulative precision charges floor(cumulative * 10%)
+            for (let i = 1n; i <= 10n; i++) {
+                await claim(19n * i);
+            }
+
+            expect(await vault.alreadyFeePaid(claimer.address)).to.equal(19n * 10n * 1000n / 10000n);
+        });
+
+        it("Should match the SDK fee quote", async function () {
+            await claim(CLAIM_AMOUNT);
+            const quote = await fetchFeeQuote(
+                await vault.getAddress(),
+                ethers.provider,
+                claimer.address,
+                CLAIM_AMOUNT * 3n + 7n
+            );
+
+            const before = await testToken.balanceOf(claimer.address);
+            await claim(CLAIM_AMOUNT * 3n + 7n);
+
+            expect(quote.gross).to.equal(CLAIM_AMOUNT * 2n + 7n);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(before + quote.net);
+            expect(quoteClaimFee(1000, 19n * 3n, 19n * 2n).fee).to.equal(2n);
+        });
+    });
+
+    describe("Vesting", function () {
+        const FUND_AMOUNT = ethers.parseUnits("1000", 18);
+        const CLAIM_AMOUNT = ethers.parseUnits("100", 18);
+        const NET_AMOUNT = CLAIM_AMOUNT - CLAIM_AMOUNT * 1000n / 10000n;
+        const CLIFF = 30n * 24n * 3600n; // 30 days
+        const DURATION = 180n * 24n * 3600n; // 180 days
+
+        beforeEach(async function () {
+            await testToken.mint(funder.address, FUND_AMOUNT);
+            await testToken.connect(funder).approve(await vault.getAddress(), FUND_AMOUNT);
+            await vault.connect(funder).fund(FUND_AMOUNT);
+        });
+
+        async function claim(cumulativeAmount: bigint) {
+            const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, cumulativeAmount);
+            const tx = await vault.payWithSig(claimer.address, cumulativeAmount, 0, signature);
+            const block = await ethers.provider.getBlock((await tx.wait())!.blockNumber);
+            return BigInt(block!.timestamp);
+        }
+
+        it("Should let the creator configure the schedule before the first claim", async function () {
+            await expect(vault.connect(creator).setVestingSchedule(CLIFF, DURATION))
+                .to.emit(vault, "VestingScheduleUpdated")
+                .withArgs(CLIFF, DURATION);
+            expect(await vault.vestingSchedule()).to.deep.equal([CLIFF, DURATION]);
+
+            await claim(CLAIM_AMOUNT);
+
+            await expect(vault.connect(creator).setVestingSchedule(0, 0))
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("claims_started");
+        });
+
+        it("Should reject schedules from non-creators or above MAX_VESTING_PERIOD", async function () {
+            await expect(vault.connect(funder).setVestingSchedule(CLIFF, DURATION))
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("creator");
+            await expect(vault.connect(creator).setVestingSchedule(0, (await vault.MAX_VESTING_PERIOD()) + 1n))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("vesting");
+        });
+
+        it("Should lock the net amount and pay the fee on claim", async function () {
+            await vault.connect(creator).setVestingSchedule(CLIFF, DURATION);
+
+            await expect(claim(CLAIM_AMOUNT)).to.not.be.reverted;
+
+            expect(await testToken.balanceOf(claimer.address)).to.equal(0);
+            expect(await testToken.balanceOf(treasury.address)).to.equal(CLAIM_AMOUNT - NET_AMOUNT);
+            expect(await vault.lockedAmount(claimer.address)).to.equal(NET_AMOUNT);
+            expect(await vault.totalUnreleased()).to.equal(NET_AMOUNT);
+            await expect(vault.release(claimer.address))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("releasable");
+        });
+
+        it("Should release linearly after the cliff", async function () {
+            await vault.connect(creator).setVestingSchedule(CLIFF, DURATION);
+            const grantTime = await claim(CLAIM_AMOUNT);
+
+            await time.increaseTo(grantTime + DURATION / 2n);
+            const expected = NET_AMOUNT * (DURATION / 2n + 1n) / DURATION; // release mined one second later
+
+            await expect(vault.release(claimer.address))
+                .to.emit(vault, "Released")
+                .withArgs(claimer.address, await testToken.getAddress(), expected);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(expected);
+
+            await time.increaseTo(grantTime + DURATION);
+            expect(await vault.releasableAmount(claimer.address)).to.equal(NET_AMOUNT - expected);
+            await vault.release(claimer.address);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(NET_AMOUNT);
+            expect(await vault.totalUnreleased()).to.equal(0);
+        });
+
+        it("Should release to the recipient authorized at release time", async function () {
+            await vault.connect(creator).setVestingSchedule(CLIFF, DURATION);
+            const grantTime = await claim(CLAIM_AMOUNT);
+            expect(await vault.lockedAmount(claimer.address)).to.equal(NET_AMOUNT);
+
+            await factory.connect(claimer).authorizeClaims(funder.address, ethers.ZeroAddress);
+            await time.increaseTo(grantTime + DURATION);
+
+            await expect(vault.release(claimer.address))
+                .to.emit(vault, "ClaimRedirected")
+                .withArgs(claimer.address, funder.address, NET_AMOUNT)
+                .and.to.emit(vault, "Released")
+                .withArgs(claimer.address, await testToken.getAddress(), NET_AMOUNT);
+            expect(await testToken.balanceOf(claimer.address)).to.equal(0);
+            expect(await testToken.balanceOf(funder.address)).to.equal(NET_AMOUNT);
+        });
+
+        it("Should weight the start of later grants and match the SDK simulation", async function () {
+            await vault.connect(creator).setVestingSchedule(CLIFF, DURATION);
+            const firstGrant = await claim(CLAIM_AMOUNT);
+            await time.increaseTo(firstGrant + DURATION / 4n);
+            const secondGrant = await claim(CLAIM_AMOUNT * 2n);
+
+            const schedule = { cliff: CLIFF, duration: DURATION };
+            const grants = [
+                { timestamp: firstGrant, amount: NET_AMOUNT },
+                { timestamp: secondGrant, amount: NET_AMOUNT }
+            ];
+            const { balance } = await fetchVestingState(await vault.getAddress(), ethers.provider, claimer.address);
+            expect(balance).to.deep.equal(grants.reduce(applyVestingGrant, EMPTY_VESTING_BALANCE));
+
+            const [before, atCliff, later] = simulateUnlockCurve(schedule, grants, [
+                firstGrant + CLIFF - 1n,
+                firstGrant + CLIFF,
+                secondGrant + DURATION / 2n
+            ]);
+            expect(before.vested).to.equal(0);
+            expect(atCliff.vested).to.equal(NET_AMOUNT * CLIFF / DURATION); // second grant not yet made
+
+            await time.increaseTo(later.timestamp);
+            expect(await vault.vestedAmount(claimer.address)).to.equal(later.vested);
+            expect(await vault.lockedAmount(claimer.address)).to.equal(later.locked);
+        });
+
+        it("Should exclude unreleased balances from withdrawals and new claims", async function () {
+            await vault.connect(creator).setVestingSchedule(CLIFF, DURATION);
+            await claim(CLAIM_AMOUNT);
+            const available = await testToken.balanceOf(await vault.getAddress()) - NET_AMOUNT;
+
+            expect(await vault.withdrawableAmount()).to.equal(available);
+            await expect(vault.connect(creator).requestWithdrawal(available + 1n))
                 .to.be.revertedWithCustomError(vault, "InvalidParameter")
                 .withArgs("balance");
+            await vault.connect(creator).requestWithdrawal(available);
+            await time.increase(3 * 24 * 3600);
+            await vault.connect(creator).executeWithdrawal();
+
+            const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT * 2n);
+            await expect(vault.payWithSig(claimer.address, CLAIM_AMOUNT * 2n, 0, signature))
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("balance");
+        });
+
+        it("Should sample unlock curves", async function () {
+            const curve = simulateUnlockCurve(
+                { cliff: 10n, duration: 100n },
+                [{ timestamp: 0n, amount: 1000n }],
+                sampleTimestamps(0n, 100n, 4)
+            );
+
+            expect(curve.map((point) => point.vested)).to.deep.equal([0n, 250n, 500n, 750n, 1000n]);
+            expect(curve[1].locked).to.equal(750n);
         });
     });
 
@@ -299,7 +1116,7 @@ describe("RewardPoolImplementation", function () {
         it("Should benchmark first claim gas usage", async function () {
             const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
 
-            const tx = await vault.payWithSig(claimer.address, CLAIM_AMOUNT, signature);
+            const tx = await vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature);
             const receipt = await tx.wait();
 
             // Target: < 140k gas for first claim
@@ -310,13 +1127,13 @@ describe("RewardPoolImplementation", function () {
         it("Should benchmark subsequent claim gas usage", async function () {
             // Make first claim
             const signature1 = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
-            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, signature1);
+            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature1);
 
             // Make second claim
             const cumulativeAmount = CLAIM_AMOUNT * 2n;
             const signature2 = await signClaim(publisher, await vault.getAddress(), claimer.address, cumulativeAmount);
 
-            const tx = await vault.payWithSig(claimer.address, cumulativeAmount, signature2);
+            const tx = await vault.payWithSig(claimer.address, cumulativeAmount, 0, signature2);
             const receipt = await tx.wait();
 
             // Target: < 100k gas for subsequent claims
@@ -328,6 +1145,7 @@ describe("RewardPoolImplementation", function () {
     describe("Withdrawal", function () {
         const FUND_AMOUNT = ethers.parseUnits("1000", 18);
         const WITHDRAW_AMOUNT = ethers.parseUnits("500", 18);
+        const WITHDRAWAL_DELAY = 3n * 24n * 3600n;
 
         beforeEach(async function () {
             // Fund vault first
@@ -336,23 +1154,40 @@ describe("RewardPoolImplementation", function () {
             await vault.connect(funder).fund(FUND_AMOUNT);
         });
 
-        it("Should allow creator to withdraw funds", async function () {
+        async function withdrawAfterDelay(amount: bigint) {
+            await vault.connect(creator).requestWithdrawal(amount);
+            await time.increase(WITHDRAWAL_DELAY);
+            return vault.connect(creator).executeWithdrawal();
+        }
+
+        async function signLiabilityFor(totalCumulativeAmount: bigint, signer: SignerWithAddress = publisher) {
+            const chainId = (await ethers.provider.getNetwork()).chainId;
+            return await signLiability(signer, buildClaimDomain(chainId, await vault.getAddress()), totalCumulativeAmount);
+        }
+
+        it("Should allow creator to withdraw funds after the delay", async function () {
             const initialCreatorBalance = await testToken.balanceOf(creator.address);
             const initialVaultBalance = await testToken.balanceOf(await vault.getAddress());
 
-            await expect(vault.connect(creator).withdraw(WITHDRAW_AMOUNT))
+            await expect(vault.connect(creator).requestWithdrawal(WITHDRAW_AMOUNT))
+                .to.emit(vault, "WithdrawalRequested")
+                .withArgs(creator.address, WITHDRAW_AMOUNT, BigInt(await time.latest()) + WITHDRAWAL_DELAY + 1n);
+            await time.increase(WITHDRAWAL_DELAY);
+
+            await expect(vault.connect(creator).executeWithdrawal())
                 .to.emit(vault, "Withdrawn")
                 .withArgs(creator.address, await testToken.getAddress(), WITHDRAW_AMOUNT);
 
             expect(await testToken.balanceOf(creator.address)).to.equal(initialCreatorBalance + WITHDRAW_AMOUNT);
             expect(await testToken.balanceOf(await vault.getAddress())).to.equal(initialVaultBalance - WITHDRAW_AMOUNT);
+            expect((await vault.pendingWithdrawal()).executableAt).to.equal(0);
         });
 
         it("Should allow creator to withdraw all funds", async function () {
             const vaultBalance = await testToken.balanceOf(await vault.getAddress());
             const initialCreatorBalance = await testToken.balanceOf(creator.address);
 
-            await expect(vault.connect(creator).withdraw(vaultBalance))
+            await expect(withdrawAfterDelay(vaultBalance))
                 .to.emit(vault, "Withdrawn")
                 .withArgs(creator.address, await testToken.getAddress(), vaultBalance);
 
@@ -360,14 +1195,44 @@ describe("RewardPoolImplementation", function () {
             expect(await testToken.balanceOf(await vault.getAddress())).to.equal(0);
         });
 
+        it("Should reject execution before the delay or without a request", async function () {
+            await expect(vault.connect(creator).executeWithdrawal())
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("no_request");
+
+            await vault.connect(creator).requestWithdrawal(WITHDRAW_AMOUNT);
+            await expect(vault.connect(creator).executeWithdrawal())
+                .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                .withArgs("withdrawal_delay");
+        });
+
+        it("Should allow creator to cancel a pending withdrawal", async function () {
+            await vault.connect(creator).requestWithdrawal(WITHDRAW_AMOUNT);
+
+            await expect(vault.connect(creator).cancelWithdrawal())
+                .to.emit(vault, "WithdrawalCancelled")
+                .withArgs(creator.address, WITHDRAW_AMOUNT);
+
+            await time.increase(WITHDRAWAL_DELAY);
+            await expect(vault.connect(creator).executeWithdrawal())
+                .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                .withArgs("no_request");
+        });
+
         it("Should reject withdrawal from non-creator", async function () {
-            await expect(vault.connect(funder).withdraw(WITHDRAW_AMOUNT))
+            await expect(vault.connect(funder).requestWithdrawal(WITHDRAW_AMOUNT))
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("creator");
+            await expect(vault.connect(funder).executeWithdrawal())
+                .to.be.revertedWithCustomError(vault, "Unauthorized")
+                .withArgs("creator");
+            await expect(vault.connect(funder).cancelWithdrawal())
                 .to.be.revertedWithCustomError(vault, "Unauthorized")
                 .withArgs("creator");
         });
 
         it("Should reject zero amount withdrawal", async function () {
-            await expect(vault.connect(creator).withdraw(0))
+            await expect(vault.connect(creator).requestWithdrawal(0))
                 .to.be.revertedWithCustomError(vault, "InvalidParameter")
                 .withArgs("amount");
         });
@@ -376,45 +1241,146 @@ describe("RewardPoolImplementation", function () {
             const vaultBalance = await testToken.balanceOf(await vault.getAddress());
             const excessiveAmount = vaultBalance + ethers.parseUnits("1", 18);
 
-            await expect(vault.connect(creator).withdraw(excessiveAmount))
+            await expect(vault.connect(creator).requestWithdrawal(excessiveAmount))
                 .to.be.revertedWithCustomError(vault, "InvalidParameter")
                 .withArgs("balance");
         });
 
         it("Should reject withdrawal when paused", async function () {
+            await vault.connect(creator).requestWithdrawal(WITHDRAW_AMOUNT);
+            await time.increase(WITHDRAWAL_DELAY);
             await vault.connect(guardian).pause();
 
-            await expect(vault.connect(creator).withdraw(WITHDRAW_AMOUNT))
+            await expect(vault.connect(creator).requestWithdrawal(WITHDRAW_AMOUNT))
+                .to.be.revertedWithCustomError(vault, "EnforcedPause");
+            await expect(vault.connect(creator).executeWithdrawal())
                 .to.be.revertedWithCustomError(vault, "EnforcedPause");
         });
 
         it("Should work with mixed funding and withdrawals", async function () {
             // Withdraw some
-            await vault.connect(creator).withdraw(WITHDRAW_AMOUNT);
-            
+            await withdrawAfterDelay(WITHDRAW_AMOUNT);
+
             // Add more funding
             await testToken.mint(funder.address, FUND_AMOUNT);
             await testToken.connect(funder).approve(await vault.getAddress(), FUND_AMOUNT);
             await vault.connect(funder).fund(FUND_AMOUNT);
-            
+
             // Withdraw again
             const remainingBalance = await testToken.balanceOf(await vault.getAddress());
-            await expect(vault.connect(creator).withdraw(remainingBalance))
-                .to.emit(vault, "Withdrawn");
+            await expect(withdrawAfterDelay(remainingBalance))
+                .to.emit(vault, "Withdrawn")
+                .withArgs(creator.address, await testToken.getAddress(), remainingBalance);
         });
 
         it("Should handle withdrawal after claims correctly", async function () {
             // Make a claim first
             const CLAIM_AMOUNT = ethers.parseUnits("100", 18);
             const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, CLAIM_AMOUNT);
-            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, signature);
+            await vault.payWithSig(claimer.address, CLAIM_AMOUNT, 0, signature);
 
             // Now try to withdraw remaining balance
             const vaultBalance = await testToken.balanceOf(await vault.getAddress());
-            await expect(vault.connect(creator).withdraw(vaultBalance))
+            await expect(withdrawAfterDelay(vaultBalance))
                 .to.emit(vault, "Withdrawn")
                 .withArgs(creator.address, await testToken.getAddress(), vaultBalance);
         });
+
+        describe("Committed liabilities", function () {
+            const LIABILITY = ethers.parseUnits("300", 18);
+
+            it("Should commit publisher-signed liabilities relayed by anyone", async function () {
+                await expect(vault.connect(funder).commitLiability(LIABILITY, await signLiabilityFor(LIABILITY)))
+                    .to.emit(vault, "LiabilityCommitted")
+                    .withArgs(LIABILITY);
+
+                expect(await vault.committedLiability()).to.equal(LIABILITY);
+                expect(await vault.outstandingLiability()).to.equal(LIABILITY);
+                expect(await vault.withdrawableAmount()).to.equal(FUND_AMOUNT - LIABILITY);
+            });
+
+            it("Should reject non-publisher signatures and non-increasing commitments", async function () {
+                await expect(vault.commitLiability(LIABILITY, await signLiabilityFor(LIABILITY, creator)))
+                    .to.be.revertedWithCustomError(vault, "SecurityViolation")
+                    .withArgs("signature");
+
+                const signature = await signLiabilityFor(LIABILITY);
+                await vault.commitLiability(LIABILITY, signature);
+                await expect(vault.commitLiability(LIABILITY, signature))
+                    .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                    .withArgs("liability");
+            });
+
+            it("Should limit withdrawals to the excess over outstanding liabilities", async function () {
+                await vault.commitLiability(LIABILITY, await signLiabilityFor(LIABILITY));
+
+                await expect(vault.connect(creator).requestWithdrawal(FUND_AMOUNT - LIABILITY + 1n))
+                    .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                    .withArgs("balance");
+
+                // Claims consume the liability: outstanding shrinks, withdrawable stays the same
+                const signature = await signClaim(publisher, await vault.getAddress(), claimer.address, LIABILITY / 3n);
+                await vault.payWithSig(claimer.address, LIABILITY / 3n, 0, signature);
+                expect(await vault.outstandingLiability()).to.equal(LIABILITY - LIABILITY / 3n);
+
+                await expect(withdrawAfterDelay(FUND_AMOUNT - LIABILITY))
+                    .to.emit(vault, "Withdrawn")
+                    .withArgs(creator.address, await testToken.getAddress(), FUND_AMOUNT - LIABILITY);
+                expect(await testToken.balanceOf(await vault.getAddress())).to.equal(LIABILITY - LIABILITY / 3n);
+            });
+
+            it("Should let liabilities committed during the delay block the withdrawal", async function () {
+                await vault.connect(creator).requestWithdrawal(FUND_AMOUNT);
+                await vault.commitLiability(LIABILITY, await signLiabilityFor(LIABILITY));
+                await time.increase(WITHDRAWAL_DELAY);
+
+                await expect(vault.connect(creator).executeWithdrawal())
+                    .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                    .withArgs("balance");
+            });
+
+            it("Should cap commitments at what the pool can pay", async function () {
+                await expect(vault.commitLiability(ethers.MaxUint256, await signLiabilityFor(ethers.MaxUint256)))
+                    .to.emit(vault, "LiabilityCommitted")
+                    .withArgs(FUND_AMOUNT);
+
+                expect(await vault.committedLiability()).to.equal(FUND_AMOUNT);
+                expect(await vault.withdrawableAmount()).to.equal(0);
+                await expect(vault.commitLiability(ethers.MaxUint256, await signLiabilityFor(ethers.MaxUint256)))
+                    .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                    .withArgs("liability");
+            });
+
+            it("Should let only the timelock lower the committed liability", async function () {
+                await vault.commitLiability(ethers.MaxUint256, await signLiabilityFor(ethers.MaxUint256));
+
+                await expect(vault.connect(creator).resetLiability(0))
+                    .to.be.revertedWithCustomError(vault, "Unauthorized")
+                    .withArgs("timelock");
+                await expect(vault.connect(timelock).resetLiability(FUND_AMOUNT))
+                    .to.be.revertedWithCustomError(vault, "InvalidParameter")
+                    .withArgs("liability");
+
+                await expect(vault.connect(timelock).resetLiability(LIABILITY))
+                    .to.emit(vault, "LiabilityReset")
+                    .withArgs(FUND_AMOUNT, LIABILITY);
+                expect(await vault.withdrawableAmount()).to.equal(FUND_AMOUNT - LIABILITY);
+            });
+
+            it("Should report solvency matching the contract", async function () {
+                await vault.commitLiability(LIABILITY, await signLiabilityFor(LIABILITY));
+                await vault.connect(creator).requestWithdrawal(WITHDRAW_AMOUNT);
+
+                const { accounting, solvency } = await fetchPoolSolvency(await vault.getAddress(), ethers.provider);
+
+                expect(accounting.pendingWithdrawal).to.equal(WITHDRAW_AMOUNT);
+                expect(solvency.withdrawable).to.equal(await vault.withdrawableAmount());
+                expect(solvency.outstandingLiability).to.equal(await vault.outstandingLiability());
+                expect(solvency.coverageBps).to.equal(FUND_AMOUNT * 10000n / LIABILITY);
+                expect(solvency.solventAfterWithdrawal).to.be.true;
+                expect(computeSolvency({ ...accounting, balance: LIABILITY - 1n }).shortfall).to.equal(1n);
+            });
+        });
     });
 
     describe("Emergency Functions", function () {
@@ -447,7 +1413,8 @@ describe("RewardPoolImplementation", function () {
         signer: SignerWithAddress,
         vaultAddress: string | { getAddress(): Promise<string> },
         account: string,
-        cumulativeAmount: bigint
+        cumulativeAmount: bigint,
+        deadline: bigint = 0n
     ): Promise<string> {
         const chainId = await ethers.provider.getNetwork().then(n => n.chainId);
 
@@ -462,13 +1429,15 @@ describe("RewardPoolImplementation", function () {
         const types = {
             Claim: [
                 { name: "account", type: "address" },
-                { name: "cumulativeAmount", type: "uint256" }
+                { name: "cumulativeAmount", type: "uint256" },
+                { name: "deadline", type: "uint256" }
             ]
         };
 
         const value = {
             account,
-            cumulativeAmount: cumulativeAmount.toString()
+            cumulativeAmount: cumulativeAmount.toString(),
+            deadline: deadline.toString()
         };
 
         return await signer.signTypedData(domain, types, value);
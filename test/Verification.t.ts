@@ -0,0 +1,252 @@
+import { artifacts, ethers } from "hardhat";
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import { Sourcify } from "@nomicfoundation/hardhat-verify/sourcify";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DeploymentRegistry, createRegistry } from "../scripts/utils/registry";
+import { VerificationOptions, cloneImplementation, runVerification } from "../scripts/utils/verification";
+
+/**
+ * Minimal Etherscan (/api) and Sourcify (/sourcify) API
+ */
+function createMockExplorer() {
+    const state = {
+        etherscan: new Map<string, { contractname: string; compilerversion: string; constructorArgs: string }>(),
+        sourcify: new Map<string, string[]>(), // Address -> submitted files
+        proxies: new Map<string, string>(), // Proxy -> implementation
+        failing: new Set<string>(),
+        submissions: 0
+    };
+    const guids = new Map<string, { address: string; proxy?: string; polls: number }>();
+
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            const url = new URL(req.url!, "http://localhost");
+            const send = (json: unknown) => {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(json));
+            };
+
+            if (url.pathname.startsWith("/sourcify")) {
+                if (req.method === "GET") {
+                    const address = url.searchParams.get("addresses")!;
+                    return send([
+                        state.sourcify.has(address.toLowerCase())
+                            ? { address, chainIds: [{ chainId: "31337", status: "perfect" }] }
+                            : { address, status: "false" }
+                    ]);
+                }
+                const { address, chain, files } = JSON.parse(body);
+                state.submissions++;
+                state.sourcify.set(address.toLowerCase(), Object.keys(files));
+                return send({ result: [{ address, chainId: chain, status: "perfect" }] });
+            }
+
+            const params = req.method === "POST" ? new URLSearchParams(body) : url.searchParams;
+            const ok = (result: unknown) => send({ status: "1", message: "OK", result });
+            switch (params.get("action")) {
+                case "getsourcecode": {
+                    const verified = state.etherscan.has(params.get("address")!.toLowerCase());
+                    return ok([{ SourceCode: verified ? "{...}" : "" }]);
+                }
+                case "verifysourcecode": {
+                    const address = params.get("contractaddress")!.toLowerCase();
+                    state.submissions++;
+                    guids.set(`guid-${guids.size}`, { address, polls: 0 });
+                    if (!state.failing.has(address)) {
+                        state.etherscan.set(address, {
+                            contractname: params.get("contractname")!,
+                            compilerversion: params.get("compilerversion")!,
+                            constructorArgs: params.get("constructorArguements")!
+                        });
+                    }
+                    return ok(`guid-${guids.size - 1}`);
+                }
+                case "checkverifystatus": {
+                    const { address } = guids.get(params.get("guid")!)!;
+                    if (state.failing.has(address)) {
+                        return send({ status: "0", message: "NOTOK", result: "Fail - Unable to verify" });
+                    }
+                    return ok("Pass - Verified");
+                }
+                case "verifyproxycontract": {
+                    state.submissions++;
+                    guids.set(`guid-${guids.size}`, {
+                        address: params.get("address")!.toLowerCase(),
+                        proxy: params.get("expectedimplementation")!,
+                        polls: 0
+                    });
+                    return ok(`guid-${guids.size - 1}`);
+                }
+                case "checkproxyverification": {
+                    // Pending once, like the real queue
+                    const submission = guids.get(params.get("guid")!)!;
+                    if (submission.polls++ === 0) {
+                        return send({ status: "0", message: "NOTOK", result: "Pending in queue" });
+                    }
+                    state.proxies.set(submission.address, submission.proxy!);
+                    return ok(`The proxy's (${submission.address}) implementation contract is found`);
+                }
+            }
+            res.writeHead(404);
+            res.end();
+        });
+    });
+    return { server, state };
+}
+
+describe("Verification", function () {
+    let deployer: SignerWithAddress;
+    let treasury: SignerWithAddress;
+    let publisher: SignerWithAddress;
+    let creator: SignerWithAddress;
+
+    let explorer: ReturnType<typeof createMockExplorer>;
+    let registry: DeploymentRegistry;
+    let options: VerificationOptions;
+
+    beforeEach(async function () {
+        [deployer, treasury, publisher, creator] = await ethers.getSigners();
+
+        const TestTokenFactory = await ethers.getContractFactory("TestToken");
+        const testToken = await TestTokenFactory.deploy("Test Token", "TEST", 18);
+
+        const ImplFactory = await ethers.getContractFactory("RewardPoolImplementation");
+        const implementation = await ImplFactory.deploy();
+
+        const factoryArgs = [
+            await implementation.getAddress(),
+            treasury.address,
+            deployer.address,
+            deployer.address,
+            publisher.address
+        ];
+        const FactoryFactory = await ethers.getContractFactory("RewardPoolFactory");
+        const factory = await FactoryFactory.deploy(
+            factoryArgs[0],
+            factoryArgs[1],
+            factoryArgs[2],
+            factoryArgs[3],
+            factoryArgs[4]
+        );
+
+        const RouterFactory = await ethers.getContractFactory("ClaimRouter");
+        const router = await RouterFactory.deploy(deployer.address);
+
+        await factory.setTokenAllowed(await testToken.getAddress(), true);
+        const [poolAddress] = await factory.predictPoolAddress(creator.address, await testToken.getAddress());
+        await factory.connect(creator).createPool(await testToken.getAddress());
+
+        // Router listed before the implementation to check ordering
+        registry = createRegistry("hardhat", 31337);
+        registry.contracts.ClaimRouter = { address: await router.getAddress(), args: [deployer.address] };
+        registry.contracts.RewardPoolFactory = { address: await factory.getAddress(), args: factoryArgs };
+        registry.contracts.RewardPoolImplementation = { address: await implementation.getAddress(), args: [] };
+        registry.pools.testPool = { address: poolAddress };
+
+        explorer = createMockExplorer();
+        await new Promise<void>((resolve) => explorer.server.listen(0, "127.0.0.1", resolve));
+        const baseUrl = `http://127.0.0.1:${(explorer.server.address() as AddressInfo).port}`;
+
+        options = {
+            artifacts,
+            provider: ethers.provider,
+            etherscan: new Etherscan("test-key", `${baseUrl}/api`, "https://explorer.test", undefined),
+            sourcify: new Sourcify(31337, `${baseUrl}/sourcify`, "https://repo.test"),
+            pollIntervalMs: 0
+        };
+    });
+
+    afterEach(async function () {
+        await new Promise((resolve) => explorer.server.close(resolve));
+    });
+
+    it("Should detect EIP-1167 clones", async function () {
+        const pool = registry.pools.testPool.address;
+        const implementation = registry.contracts.RewardPoolImplementation.address;
+
+        expect(cloneImplementation(await ethers.provider.getCode(pool))).to.equal(implementation);
+        expect(cloneImplementation(await ethers.provider.getCode(implementation))).to.equal(undefined);
+    });
+
+    it("Should verify every contract with the registry constructor arguments", async function () {
+        const results = await runVerification(registry, options);
+
+        expect(results.map((result) => result.target.label)).to.deep.equal([
+            "RewardPoolImplementation",
+            "ClaimRouter",
+            "RewardPoolFactory",
+            "testPool"
+        ]);
+        const factory = explorer.state.etherscan.get(registry.contracts.RewardPoolFactory.address.toLowerCase())!;
+        const { abi } = await artifacts.readArtifact("RewardPoolFactory");
+        expect(factory.contractname).to.equal("contracts/RewardPoolFactory.sol:RewardPoolFactory");
+        expect(factory.compilerversion).to.match(/^v0\.8\.30\+commit\./);
+        expect("0x" + factory.constructorArgs).to.equal(
+            new ethers.Interface(abi).encodeDeploy(registry.contracts.RewardPoolFactory.args!)
+        );
+
+        const router = registry.contracts.ClaimRouter.verification!;
+        expect(router.etherscan).to.equal("verified");
+        expect(router.sourcify).to.equal("perfect");
+        expect(router.error).to.equal(undefined);
+        expect(explorer.state.sourcify.get(registry.contracts.ClaimRouter.address.toLowerCase())).to.include.members([
+            "metadata.json",
+            "contracts/ClaimRouter.sol"
+        ]);
+    });
+
+    it("Should link pools to their implementation as proxies", async function () {
+        await runVerification(registry, options);
+
+        const pool = registry.pools.testPool;
+        expect(explorer.state.proxies.get(pool.address.toLowerCase())).to.equal(
+            registry.contracts.RewardPoolImplementation.address
+        );
+        expect(pool.verification).to.include({
+            etherscan: "verified",
+            sourcify: "skipped",
+            proxy: registry.contracts.RewardPoolImplementation.address
+        });
+    });
+
+    it("Should skip recorded verifications unless forced", async function () {
+        const saved: DeploymentRegistry[] = [];
+        await runVerification(registry, { ...options, save: async (next) => void saved.push(structuredClone(next)) });
+        expect(saved).to.have.length(4);
+        const submissions = explorer.state.submissions;
+
+        expect(await runVerification(registry, options)).to.have.length(0);
+        expect(explorer.state.submissions).to.equal(submissions);
+
+        // Forced: already verified on the explorers, nothing is submitted again
+        const forced = await runVerification(registry, { ...options, force: true, names: ["ClaimRouter"] });
+        expect(forced).to.have.length(1);
+        expect(forced[0].status.etherscan).to.equal("verified");
+        expect(explorer.state.submissions).to.equal(submissions);
+    });
+
+    it("Should record failures and continue with the batch", async function () {
+        explorer.state.failing.add(registry.contracts.ClaimRouter.address.toLowerCase());
+
+        const results = await runVerification(registry, { ...options, sourcify: undefined });
+
+        expect(results).to.have.length(4);
+        expect(registry.contracts.ClaimRouter.verification).to.include({
+            etherscan: "failed",
+            error: "etherscan: Fail - Unable to verify"
+        });
+        expect(registry.contracts.RewardPoolFactory.verification!.etherscan).to.equal("verified");
+        expect(registry.contracts.RewardPoolFactory.verification!.sourcify).to.equal(undefined);
+
+        // Only the failed contract is retried
+        explorer.state.failing.clear();
+        const retry = await runVerification(registry, { ...options, sourcify: undefined });
+        expect(retry.map((result) => result.target.label)).to.deep.equal(["ClaimRouter"]);
+        expect(registry.contracts.ClaimRouter.verification!.error).to.equal(undefined);
+    });
+});